@@ -18,6 +18,9 @@ import { colorPalette } from '../theme';
 import { WorkflowStep, WorkflowStepUtils } from '../types/workflow/WorkflowStepFix';
 import useKeyboardNavigation from '../hooks/useKeyboardNavigation';
 import ErrorBoundary from './ErrorBoundary';
+import { VideoMetadata } from '../types/video-types';
+import { AlignmentInfo, RawVideoFile } from '../types/consolidated';
+import { createEditCutPoints } from '../utils/exportMarkers';
 
 // Define the AppState interface to match what's expected
 interface AppState {
@@ -154,19 +157,33 @@ const WorkflowContainer: React.FC = () => {
     );
   };
   
-  // Create a map of video files by ID for the export modal
+  // Create maps of video files and their source metadata by ID for the export modal
   const videoFilesById: Record<string, File> = {};
+  const videoMetadataById: Record<string, VideoMetadata> = {};
   projectState.videoFiles.forEach((file: any) => {
     const analyses = projectState.videoAnalyses;
     // Find the analysis for this file
     for (const id in analyses) {
       if (analyses[id].clip.name === file.name) {
         videoFilesById[id] = file;
+        if (analyses[id].metadata) {
+          videoMetadataById[id] = analyses[id].metadata;
+        }
         break;
       }
     }
   });
   
+  // Takes are synced by raw video ID, so match them to the export's IDs by file name
+  const alignmentsById: Record<string, AlignmentInfo> = {};
+  state.project.rawVideoFiles.forEach((raw: RawVideoFile) => {
+    const alignment = state.analysis.alignments?.[raw.id];
+    const id = Object.keys(videoFilesById).find((candidate: string) => videoFilesById[candidate].name === raw.name);
+    if (alignment && id) {
+      alignmentsById[id] = alignment;
+    }
+  });
+  
   return (
     <>
       <AppLayout
@@ -192,6 +209,10 @@ const WorkflowContainer: React.FC = () => {
             audioFile={projectState.musicFile}
             settings={projectState.settings}
             duration={projectState.duration}
+            videoMetadata={videoMetadataById}
+            audioAnalysis={projectState.audioAnalysis}
+            cutPoints={createEditCutPoints(projectState.editDecisions)}
+            alignments={alignmentsById}
           />
         )}
       </AppLayout>
@@ -1,7 +1,40 @@
 import { useState } from 'react';
-import { FileUp, Check, Folder } from 'lucide-react';
+import { FileUp, FileText, Film, Check, Folder } from 'lucide-react';
 import AccessibleDialog from '../AccessibleDialog';
 import useFocusTrap from '../../hooks/useFocusTrap';
+import { VideoMetadata } from '../../types/video-types';
+import { Waveform } from '../../types/AudioAnalysis';
+import { AlignmentInfo, TimelineCutPoint } from '../../types/EditDecision';
+import type { ExportAudioMetadata, TimelineExportFormat } from '../../utils/xmlGenerators';
+import { createExportMarkers, MarkerAnalysis } from '../../utils/exportMarkers';
+import { SubtitleData } from '../../plugins/pluginInterfaces';
+import { parseSubtitles, resolveSubtitleFormat, writeSubtitles } from '../../utils/subtitleFormats';
+import { alignLyricsToBeats } from '../../utils/lyricAlignment';
+
+/**
+ * Display names and file naming for each export format
+ */
+const EXPORT_FORMATS: Record<TimelineExportFormat, { title: string; filePrefix: string; extension: string }> = {
+  premiere: { title: 'Adobe Premiere Pro XML', filePrefix: 'Premiere', extension: 'xml' },
+  fcpx: { title: 'Final Cut Pro XML', filePrefix: 'FinalCut', extension: 'xml' },
+  edl: { title: 'CMX3600 EDL', filePrefix: 'CMX3600', extension: 'edl' },
+  resolve: { title: 'DaVinci Resolve OTIO', filePrefix: 'Resolve', extension: 'otio' }
+};
+
+/**
+ * Offers text to the browser as a file download
+ * @param content File contents
+ * @param fileName Name the file is saved under
+ * @param type MIME type of the file
+ */
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -11,6 +44,10 @@ interface ExportModalProps {
   audioFile: File | null;
   settings: any;
   duration: number;
+  videoMetadata?: Record<string, VideoMetadata>;
+  audioAnalysis?: (MarkerAnalysis & { waveform?: Waveform }) | null;
+  cutPoints?: TimelineCutPoint[];
+  alignments?: Record<string, AlignmentInfo>;
 }
 
 export const ExportModal: React.FC<ExportModalProps> = ({
@@ -19,12 +56,27 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   editDecisions,
   videoFiles,
   audioFile,
-  _settings,
-  duration
+  settings,
+  duration,
+  videoMetadata,
+  audioAnalysis,
+  cutPoints,
+  alignments
 }: any) => {
-  const [exportFormat, setExportFormat] = useState('premiere');
+  const [exportFormat, setExportFormat] = useState<TimelineExportFormat>(
+    settings?.customSettings?.exportFormatType in EXPORT_FORMATS
+      ? settings.customSettings.exportFormatType
+      : 'premiere'
+  );
   const [includeAudio, setIncludeAudio] = useState(true);
+  const [includeMarkers, setIncludeMarkers] = useState(settings?.customSettings?.includeMarkers ?? true);
   const [outputPath, setOutputPath] = useState('/User/username/Documents/Projects/My Music Video');
+  const [mediaRoot, setMediaRoot] = useState(settings?.customSettings?.mediaRoot || '');
+  const [lyrics, setLyrics] = useState<SubtitleData | null>(null);
+  const [lyricsFileName, setLyricsFileName] = useState('');
+  const [lyricsError, setLyricsError] = useState<string | null>(null);
+  const [snapLyrics, setSnapLyrics] = useState(true);
+  const [useMulticam, setUseMulticam] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
   const [exportComplete, setExportComplete] = useState(false);
@@ -33,6 +85,31 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   const [exportStatus, setExportStatus] = useState('');
   const [exportError, setExportError] = useState<string | null>(null);
   const [exportedFilePath, setExportedFilePath] = useState('');
+  const [exportedLyricsFile, setExportedLyricsFile] = useState('');
+  
+  // Synced takes can be gathered into a multicam clip in the XML formats
+  const syncedTakeCount = Object.keys(alignments ?? {}).filter((id: string) => videoFiles[id]).length;
+  const supportsMulticam = exportFormat === 'premiere' || exportFormat === 'fcpx';
+  
+  // Handle choosing a lyrics file to export as captions
+  const handleLyricsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    setLyricsFileName(file.name);
+    try {
+      const format = resolveSubtitleFormat(file.name.split('.').pop() ?? '');
+      if (!format) {
+        throw new Error(`${file.name} is not a subtitle file. Choose an SRT, WebVTT, ASS or TTML file.`);
+      }
+      setLyrics(parseSubtitles(await file.text(), format));
+      setLyricsError(null);
+    } catch (error) {
+      setLyrics(null);
+      setLyricsError(error instanceof Error ? error.message : 'The lyrics file could not be read');
+    }
+  };
   
   // Handle export
   const handleExport = async () => {
@@ -44,40 +121,58 @@ export const ExportModal: React.FC<ExportModalProps> = ({
       // Import EditService
       const EditService = (await import('@/services/EditService')).default;
       
+      // Lyrics go in as a caption track, snapped to the beat of the music
+      const captions: SubtitleData | undefined = lyrics
+        ? { ...lyrics, entries: snapLyrics ? alignLyricsToBeats(lyrics.entries, audioAnalysis) : lyrics.entries }
+        : undefined;
+      
+      // The music is described as AudioService decoded it
+      const waveform = audioAnalysis?.waveform;
+      const audioMetadata: ExportAudioMetadata | undefined = waveform
+        ? { sampleRate: waveform.sampleRate, channels: waveform.channels, duration: waveform.duration }
+        : undefined;
+      
       // Generate the XML
-      const _xml = await EditService.generateExportXML(
+      const xml = await EditService.generateExportXML(
         editDecisions,
         videoFiles,
         includeAudio ? audioFile : null,
-        exportFormat as 'premiere' | 'fcpx',
+        exportFormat,
         (progress: any, message: any) => {
           setExportProgress(progress);
           setExportStatus(message);
+        },
+        {
+          frameRate: settings?.exportFormat?.frameRate,
+          resolution: settings?.exportFormat?.resolution,
+          videoMetadata,
+          audioMetadata,
+          mediaRoot,
+          markers: includeMarkers
+            ? createExportMarkers(audioAnalysis, cutPoints, { frameRate: settings?.exportFormat?.frameRate })
+            : [],
+          captions,
+          alignments: useMulticam && supportsMulticam ? alignments : undefined
         }
       );
+      // The lyrics are also saved as SRT for editors that don't read the caption track
+      const lyricsSrt = captions ? writeSubtitles(captions, 'srt') : null;
       
-      // In a real app, this would save the file to disk
-      // For now, we'll just simulate it
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const fileName = `${exportFormat === 'premiere' ? 'Premiere' : 'FinalCut'}_Export_${timestamp}.xml`;
-      const filePath = `${outputPath}/${fileName}`;
+      const { filePrefix, extension } = EXPORT_FORMATS[exportFormat];
+      const fileName = `${filePrefix}_Export_${timestamp}.${extension}`;
+      const lyricsFile = `${filePrefix}_Export_${timestamp}_Lyrics.srt`;
       
-      // Simulate file saving delay
-      await new Promise((resolve: any) => setTimeout(resolve, 500));
+      // Save the timeline, and the lyrics next to it
+      downloadFile(xml, fileName, extension === 'xml' ? 'application/xml' : 'text/plain');
+      if (lyricsSrt !== null) {
+        downloadFile(lyricsSrt, lyricsFile, 'application/x-subrip');
+      }
       
-      // Set the exported file path
-      setExportedFilePath(filePath);
+      // Set the exported file names
+      setExportedFilePath(`${outputPath}/${fileName}`);
+      setExportedLyricsFile(lyricsSrt !== null ? lyricsFile : '');
       setExportComplete(true);
-      
-      // In a real app with Electron or a backend, we would save the file like this:
-      // const blob = new Blob([xml], { type: 'application/xml' });
-      // const url = URL.createObjectURL(blob);
-      // const a = document.createElement('a');
-      // a.href = url;
-      // a.download = fileName;
-      // a.click();
-      // URL.revokeObjectURL(url);
-      
     } catch (error) {
       console.error('Export failed:', error);
       setExportError(error instanceof Error ? error.message : 'Export failed due to an unknown error');
@@ -139,6 +234,32 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   />
                   <span>Final Cut Pro XML</span>
                 </button>
+                
+                <button 
+                  className={`p-md rounded-lg flex flex-col items-center transition ${
+                    exportFormat === 'edl' ? 'bg-ui border border-accent' : 'bg-ui border border-transparent'
+                  }`}
+                  onClick={() => setExportFormat('edl')}
+                  role="radio"
+                  aria-checked={exportFormat === 'edl'}
+                  tabIndex={exportFormat === 'edl' ? 0 : -1}
+                >
+                  <FileText className="w-12 h-12 mb-sm" aria-hidden="true" />
+                  <span>CMX3600 EDL</span>
+                </button>
+                
+                <button 
+                  className={`p-md rounded-lg flex flex-col items-center transition ${
+                    exportFormat === 'resolve' ? 'bg-ui border border-accent' : 'bg-ui border border-transparent'
+                  }`}
+                  onClick={() => setExportFormat('resolve')}
+                  role="radio"
+                  aria-checked={exportFormat === 'resolve'}
+                  tabIndex={exportFormat === 'resolve' ? 0 : -1}
+                >
+                  <Film className="w-12 h-12 mb-sm" aria-hidden="true" />
+                  <span>DaVinci Resolve OTIO</span>
+                </button>
               </div>
             </div>
             
@@ -155,9 +276,65 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   />
                   <span>Include music track in export</span>
                 </label>
+                <label className="flex items-center checkbox mt-sm">
+                  <input 
+                    type="checkbox" 
+                    checked={includeMarkers}
+                    onChange={() => setIncludeMarkers(!includeMarkers)}
+                    className="mr-sm"
+                    id="include-markers"
+                  />
+                  <span>Include beat and section markers</span>
+                </label>
+                {syncedTakeCount > 0 && (
+                  <label className="flex items-center checkbox mt-sm">
+                    <input 
+                      type="checkbox" 
+                      checked={useMulticam && supportsMulticam}
+                      onChange={() => setUseMulticam(!useMulticam)}
+                      className="mr-sm"
+                      id="use-multicam"
+                      disabled={!supportsMulticam}
+                    />
+                    <span>Gather the {syncedTakeCount} synced takes into a multicam clip</span>
+                  </label>
+                )}
               </div>
             </div>
             
+            <div className="mb-lg">
+              <label htmlFor="lyrics-file" className="block text-sm text-secondary mb-sm">Lyrics</label>
+              <input 
+                type="file"
+                id="lyrics-file"
+                accept=".srt,.vtt,.ass,.ssa,.ttml,.dfxp,.xml"
+                onChange={handleLyricsFile}
+                className="w-full input"
+                aria-describedby="lyrics-help"
+              />
+              <p id="lyrics-help" className="text-xs text-secondary mt-xs">
+                {lyrics
+                  ? `${lyrics.entries.length} lines from ${lyricsFileName} are exported as captions and as an SRT file.`
+                  : 'Add a subtitle file to export the lyrics as captions.'}
+              </p>
+              {lyricsError && (
+                <p className="text-xs text-warning mt-xs" role="alert">
+                  {lyricsError}
+                </p>
+              )}
+              <label className="flex items-center checkbox mt-sm">
+                <input 
+                  type="checkbox" 
+                  checked={snapLyrics}
+                  onChange={() => setSnapLyrics(!snapLyrics)}
+                  className="mr-sm"
+                  id="snap-lyrics"
+                  disabled={!lyrics}
+                />
+                <span>Snap lyrics to the beat</span>
+              </label>
+            </div>
+            
             <div className="mb-lg">
               <label htmlFor="output-path" className="block text-sm text-secondary mb-sm">Output Location</label>
               <div className="flex">
@@ -177,6 +354,22 @@ export const ExportModal: React.FC<ExportModalProps> = ({
               </div>
             </div>
             
+            <div className="mb-lg">
+              <label htmlFor="media-root" className="block text-sm text-secondary mb-sm">Media Location</label>
+              <input 
+                type="text"
+                id="media-root"
+                value={mediaRoot}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMediaRoot(e.target.value)}
+                placeholder="Folder containing your media on the editing machine"
+                className="w-full input"
+                aria-describedby="media-root-help"
+              />
+              <p id="media-root-help" className="text-xs text-secondary mt-xs">
+                Clip paths in the exported file point here so your editor can find the media.
+              </p>
+            </div>
+            
             <div className="bg-ui p-md rounded-lg mb-lg">
               <h3 className="font-medium mb-sm">Export Summary</h3>
               <p className="text-sm mb-xs">
@@ -189,7 +382,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
               </p>
               <p className="text-sm">
                 <span className="text-secondary">Format: </span>
-                {exportFormat === 'premiere' ? 'Adobe Premiere Pro XML' : 'Final Cut Pro XML'}
+                {EXPORT_FORMATS[exportFormat].title}
               </p>
             </div>
           </>
@@ -200,7 +393,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                 <div className="mb-md text-center">
                   <p className="mb-sm">Exporting project...</p>
                   <p className="text-sm text-secondary">
-                    {exportStatus || (exportFormat === 'premiere' ? 'Creating Adobe Premiere Pro XML' : 'Creating Final Cut Pro XML')}
+                    {exportStatus || `Creating ${EXPORT_FORMATS[exportFormat].title}`}
                   </p>
                 </div>
                 
@@ -245,12 +438,21 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   Your project has been exported successfully.
                 </p>
                 <p className="text-sm mb-lg">
-                  {exportFormat === 'premiere' ? 'Adobe Premiere Pro XML' : 'Final Cut Pro XML'} file saved to:
+                  {EXPORT_FORMATS[exportFormat].title} file saved to:
                   <br />
                   <span className="font-mono bg-ui px-sm py-xs rounded mt-xs inline-block">
-                    {exportedFilePath || `${outputPath}/export.xml`}
+                    {exportedFilePath || `${outputPath}/export.${EXPORT_FORMATS[exportFormat].extension}`}
                   </span>
                 </p>
+                {exportedLyricsFile && (
+                  <p className="text-sm mb-lg">
+                    Lyrics downloaded as:
+                    <br />
+                    <span className="font-mono bg-ui px-sm py-xs rounded mt-xs inline-block">
+                      {exportedLyricsFile}
+                    </span>
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -5,7 +5,7 @@
  * audio and video files are analyzed to extract features for editing.
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useWorkflow } from '../../context/WorkflowContext';
 import { AudioSegment } from '../../types/workflow';
 import { WorkflowStep } from '../../types/workflow/WorkflowStepFix';
@@ -13,6 +13,12 @@ import { Beat } from '../../types/AudioAnalysis';
 import useAudioService from '../../hooks/useAudioService';
 import WaveformVisualizer from '../../components/audio/WaveformVisualizer';
 import { AppState } from '../../types/workflow-types';
+import { isAbortError } from '../../utils/analysisWorker';
+import { mixToMono } from '../../utils/beatTracking';
+import { AudioSignal } from '../../utils/multicamSync';
+import { AlignmentInfo } from '../../types/EditDecision';
+import { VideoFile } from '../../types/video-types';
+import videoService from '../../services/VideoService';
 
 // Import icons 
 import { 
@@ -20,7 +26,8 @@ import {
   Play,
   Pause,
   Check,
-  AlertTriangle
+  AlertTriangle,
+  X
 } from 'lucide-react';
 
 const AnalysisStep: React.FC = () => {
@@ -42,6 +49,8 @@ const AnalysisStep: React.FC = () => {
   
   // Local state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isCancelled, setIsCancelled] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Check if we have completed analysis
   const hasAnalysisResults = Boolean(data.analysis.audio);
@@ -74,17 +83,23 @@ const AnalysisStep: React.FC = () => {
     }
   };
   
-  // Start analysis if we don't have results
+  // Start analysis if we don't have results, unless the user cancelled it
   useEffect(() => {
-    if (!hasAnalysisResults && !data.analysis.isAnalyzing && data.project.musicFile && audioBuffer && !isAnalyzing) {
+    if (!hasAnalysisResults && !data.analysis.isAnalyzing && data.project.musicFile && audioBuffer && !isAnalyzing && !isCancelled) {
       handleStartAnalysis();
     }
-  }, [hasAnalysisResults, data.analysis.isAnalyzing, data.project.musicFile, audioBuffer, isAnalyzing]);
+  }, [hasAnalysisResults, data.analysis.isAnalyzing, data.project.musicFile, audioBuffer, isAnalyzing, isCancelled]);
+  
+  // Stop any running analysis when leaving the step
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
   
   // Start audio analysis
   const handleStartAnalysis = async () => {
     if (!data.project.musicFile || isAnalyzing) return;
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
     setIsAnalyzing(true);
     setData((prev: AppState) => ({
       ...prev,
@@ -94,6 +109,9 @@ const AnalysisStep: React.FC = () => {
       }
     }));
     
+    // Raw takes are synced after the music is analyzed, still behind the progress view
+    const syncRawVideos = Boolean(data.project.settings.audioSync?.enabled) && data.project.rawVideoFiles.length > 0;
+    
     try {
       // Analyze the audio file
       const analysis = await analyzeAudio(data.project.musicFile, (progress: number, step: string) => {
@@ -109,14 +127,14 @@ const AnalysisStep: React.FC = () => {
             }
           }
         }));
-      });
+      }, abortController.signal);
       
       // Update the analysis results
       setData((prev: AppState) => ({
         ...prev,
         analysis: {
           ...prev.analysis,
-          isAnalyzing: false,
+          isAnalyzing: syncRawVideos,
           audio: {
             tempo: analysis.tempo.bpm,
             beatTimes: analysis.beats.beats.map((beat: any) => ({ 
@@ -137,16 +155,104 @@ const AnalysisStep: React.FC = () => {
           totalDuration: analysis.metadata.duration
         }
       }));
+      
+      if (syncRawVideos) {
+        await handleSyncRawVideos(abortController.signal);
+      }
     } catch (error) {
+      // Cancelling already reset the state
+      if (isAbortError(error)) return;
+      
       console.error('Error analyzing audio:', error);
       
       // If analysis fails, create mock data
       simulateAnalysisCompletion();
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsAnalyzing(false);
     }
   };
   
+  // Line each raw take up with the music by its scratch audio, then leave the progress view
+  const handleSyncRawVideos = async (signal: AbortSignal) => {
+    const { rawVideoFiles, settings } = data.project;
+    
+    try {
+      // Sync to the reference take instead of the song when one is chosen
+      const reference = settings.audioSync.useReferenceTrack
+        ? rawVideoFiles.find((raw: VideoFile) => raw.id === settings.audioSync.referenceTrackId)
+        : undefined;
+      const master: AudioSignal | null = reference
+        ? await videoService.extractAudio(reference.file, signal)
+        : audioBuffer && { samples: mixToMono(audioBuffer), sampleRate: audioBuffer.sampleRate };
+      if (!master) return;
+      
+      const alignments: Record<string, AlignmentInfo> = {};
+      for (const [index, raw] of rawVideoFiles.entries()) {
+        setData((prev: AppState) => ({
+          ...prev,
+          workflow: {
+            ...prev.workflow,
+            analysisProgress: {
+              percentage: 100,
+              currentStep: `Syncing ${raw.name} to the music (${index + 1} of ${rawVideoFiles.length})`
+            }
+          }
+        }));
+        
+        try {
+          alignments[raw.id] = await videoService.syncToMaster(raw.file, master, settings.audioSync, signal);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // A take that can't be synced is cut without its alignment
+          console.error(`Error syncing ${raw.name}:`, error);
+        }
+      }
+      
+      setData((prev: AppState) => ({
+        ...prev,
+        analysis: {
+          ...prev.analysis,
+          alignments
+        }
+      }));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // The music analysis still stands when the reference take can't be read
+      console.error('Error reading the reference take:', error);
+    } finally {
+      setData((prev: AppState) => ({
+        ...prev,
+        analysis: {
+          ...prev.analysis,
+          isAnalyzing: false
+        }
+      }));
+    }
+  };
+  
+  // Cancel a running analysis
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setIsCancelled(true);
+    setData((prev: AppState) => ({
+      ...prev,
+      analysis: {
+        ...prev.analysis,
+        isAnalyzing: false
+      },
+      workflow: {
+        ...prev.workflow,
+        analysisProgress: {
+          percentage: 0,
+          currentStep: "Analysis cancelled"
+        }
+      }
+    }));
+  };
+  
   // Simulate analysis completion with mock data
   const simulateAnalysisCompletion = () => {
     // Create mock analysis results
@@ -185,6 +291,7 @@ const AnalysisStep: React.FC = () => {
   
   // Handle regenerate analysis
   const handleRegenerate = () => {
+    setIsCancelled(false);
     setData((prev: AppState) => ({
       ...prev,
       analysis: {
@@ -289,6 +396,27 @@ const AnalysisStep: React.FC = () => {
           </div>
         </div>
       </div>
+      
+      {/* Cancel or restart */}
+      <div className="mt-8">
+        {isCancelled ? (
+          <button
+            className="px-5 py-2 bg-purple-700 rounded hover:bg-purple-600 flex items-center"
+            onClick={handleRegenerate}
+          >
+            <RefreshCw size={16} className="mr-2" />
+            Restart Analysis
+          </button>
+        ) : (
+          <button
+            className="px-5 py-2 bg-gray-700 rounded hover:bg-gray-600 flex items-center"
+            onClick={handleCancel}
+          >
+            <X size={16} className="mr-2" />
+            Cancel
+          </button>
+        )}
+      </div>
     </div>
   );
   
@@ -5,7 +5,7 @@
  * users can view and adjust the automatic edit decisions.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useWorkflow } from '../../context/WorkflowContext';
 import { EditDecision } from '../../types/workflow-types';
 import { AppState } from '../../types/workflow-types';
@@ -14,6 +14,9 @@ import { useVideoService } from '../../hooks/useVideoService';
 import VideoTimeline from '../timeline/VideoTimeline';
 import { TimelineMarker, MarkerType, VideoFile } from '../../types/video-types';
 import AccessibleDialog from '../AccessibleDialog';
+import { importTimeline, relinkClips } from '../../utils/timelineImporters';
+import { TrackType, TransitionType } from '../../types/EditDecision';
+import { resolveFrameRate, timecodeToSeconds } from '../../utils/timecode';
 
 // Import icons 
 import { 
@@ -24,7 +27,8 @@ import {
   RefreshCw,
   Maximize2,
   Edit,
-  Save
+  Save,
+  Upload
 } from 'lucide-react';
 
 interface EditingStepProps {
@@ -69,6 +73,8 @@ const EditingStep: React.FC<EditingStepProps> = ({ audioElement }: any) => {
   const [selectedEditIndex, setSelectedEditIndex] = useState<number | null>(null);
   const [editingDecision, setEditingDecision] = useState<LegacyEditDecision | null>(null);
   const [timelineMarkers, setTimelineMarkers] = useState<TimelineMarker[]>([]);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // Load audio file when component mounts
   useEffect(() => {
@@ -185,6 +191,88 @@ const EditingStep: React.FC<EditingStepProps> = ({ audioElement }: any) => {
     alert('Regenerate edit functionality will be implemented');
   };
   
+  // Handle importing a timeline edited in an NLE
+  const handleImportTimeline = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const imported = importTimeline(await file.text(), { framerate: videoFiles[0]?.fps || 30 });
+      const { edl, unmatched } = relinkClips(
+        imported,
+        videoFiles.map((video: VideoFile) => ({ id: video.id, name: video.name, duration: video.duration }))
+      );
+      const rate = resolveFrameRate(edl.framerate);
+      const seconds = (value: string | number) => timecodeToSeconds(value, rate);
+      
+      const transitionFor = (clipId: string): string => {
+        const transition = edl.transitions.find((t: { incomingClipId: string }) => t.incomingClipId === clipId);
+        switch (transition?.type) {
+          case TransitionType.DISSOLVE:
+            return 'dissolve';
+          case TransitionType.WIPE:
+            return 'wipe';
+          case TransitionType.FADE_IN:
+          case TransitionType.FADE_OUT:
+          case TransitionType.DIP_TO_BLACK:
+          case TransitionType.DIP_TO_WHITE:
+            return 'fade';
+          default:
+            return 'cut';
+        }
+      };
+      
+      // Clips on the first video track become the edit decisions, in timeline order;
+      // clips that couldn't be relinked are left out rather than guessed at
+      const clips = edl.clips.filter(clip => clip.trackType === TrackType.VIDEO && clip.trackNumber === 1);
+      const clipIndexOf = (sourceId: string) =>
+        videoFiles.findIndex((video: VideoFile) => video.id === sourceId);
+      const dropped = clips.filter(clip => clipIndexOf(clip.sourceId) < 0);
+      const decisions: LegacyEditDecision[] = clips
+        .filter(clip => clipIndexOf(clip.sourceId) >= 0)
+        .map(clip => ({
+          time: seconds(clip.timelineInPoint),
+          clipIndex: clipIndexOf(clip.sourceId),
+          videoTime: seconds(clip.sourceInPoint),
+          duration: seconds(clip.timelineOutPoint) - seconds(clip.timelineInPoint),
+          transition: transitionFor(clip.id)
+        }))
+        .sort((a, b) => a.time - b.time);
+      
+      if (decisions.length === 0) {
+        throw new Error(
+          dropped.length > 0
+            ? `None of the clips could be relinked to this project's videos: ${unmatched.join(', ')}`
+            : 'The timeline has no clips on its first video track.'
+        );
+      }
+      
+      setData((prev: AppState) => ({
+        ...prev,
+        edit: {
+          ...prev.edit,
+          decisions: decisions as unknown as EditDecision[]
+        }
+      }));
+      
+      // List the cuts left out, by where they sat on the timeline
+      const droppedCuts = dropped
+        .sort((a, b) => seconds(a.timelineInPoint) - seconds(b.timelineInPoint))
+        .map(clip => `${clip.metadata?.name ?? clip.sourceId} at ${seconds(clip.timelineInPoint).toFixed(2)}s`);
+      setImportMessage(
+        droppedCuts.length > 0
+          ? `Imported ${decisions.length} cuts. Left out ${droppedCuts.length} cuts whose media could not be relinked: ${droppedCuts.join(', ')}`
+          : unmatched.length > 0
+            ? `Imported ${decisions.length} cuts. Could not relink: ${unmatched.join(', ')}`
+            : `Imported ${decisions.length} cuts from ${file.name}`
+      );
+    } catch (error) {
+      console.error('Timeline import failed:', error);
+      setImportMessage(error instanceof Error ? error.message : 'Timeline import failed');
+    }
+  };
+  
   // Handle editing a decision
   const handleEditDecision = (index: number) => {
     setSelectedEditIndex(index);
@@ -460,6 +548,28 @@ const EditingStep: React.FC<EditingStepProps> = ({ audioElement }: any) => {
             <RefreshCw size={16} className="mr-2" />
             Regenerate Edit
           </button>
+          
+          <button 
+            className="w-full bg-gray-700 py-2 rounded-md font-semibold hover:bg-gray-600 flex items-center justify-center mb-2"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload size={16} className="mr-2" />
+            Import Timeline
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".xml,.fcpxml,.edl"
+            className="hidden"
+            onChange={handleImportTimeline}
+            aria-label="Import timeline file"
+          />
+          
+          {importMessage && (
+            <p className="text-xs text-gray-400" role="status">
+              {importMessage}
+            </p>
+          )}
         </div>
       </div>
       
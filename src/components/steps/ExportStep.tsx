@@ -8,15 +8,58 @@
 import React, { useState } from 'react';
 import { useProject } from '../../context/ProjectContext';
 import { useWorkflow } from '../../context/WorkflowContext';
+import { createProjectFile, serializeProjectFile, PROJECT_FILE_EXTENSION } from '../../utils/projectFile';
 
 const ExportStep: React.FC = () => {
   const { state: projectState, dispatch } = useProject();
   const { state: workflowState } = useWorkflow();
-  const [exportFormat, setExportFormat] = useState('premiere');
+  const [exportFormat, setExportFormat] = useState(
+    projectState.settings.customSettings?.exportFormatType || 'premiere'
+  );
   const [includeAudio, setIncludeAudio] = useState(true);
-  const [includeMarkers, setIncludeMarkers] = useState(true);
+  const [includeMarkers, setIncludeMarkers] = useState(
+    projectState.settings.customSettings?.includeMarkers ?? true
+  );
+  
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [projectFileError, setProjectFileError] = useState<string | null>(null);
+  
+  const handleSaveProjectFile = async () => {
+    setIsSavingProject(true);
+    setProjectFileError(null);
+    
+    try {
+      // Hashing reads part of every media file, so this can take a moment
+      const projectFile = await createProjectFile(workflowState);
+      const blob = new Blob([serializeProjectFile(projectFile)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectFile.name || 'Untitled Project'}${PROJECT_FILE_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Saving project file failed:', error);
+      setProjectFileError(error instanceof Error ? error.message : 'Saving project file failed');
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
   
   const handleExport = () => {
+    // Carry the chosen format and marker option into the export modal
+    dispatch({
+      type: 'SET_SETTINGS',
+      payload: {
+        ...projectState.settings,
+        customSettings: {
+          ...projectState.settings.customSettings,
+          exportFormatType: exportFormat,
+          includeMarkers
+        }
+      }
+    });
+    
     // Show the export modal
     dispatch({ type: 'SHOW_EXPORT_MODAL', payload: true });
   };
@@ -69,7 +112,7 @@ const ExportStep: React.FC = () => {
                     onChange={() => setExportFormat('resolve')}
                     className="mr-2"
                   />
-                  <label htmlFor="resolve">DaVinci Resolve XML</label>
+                  <label htmlFor="resolve">DaVinci Resolve (OTIO)</label>
                 </div>
                 <div className="flex items-center">
                   <input
@@ -81,7 +124,7 @@ const ExportStep: React.FC = () => {
                     onChange={() => setExportFormat('edl')}
                     className="mr-2"
                   />
-                  <label htmlFor="edl">EDL</label>
+                  <label htmlFor="edl">CMX3600 EDL</label>
                 </div>
               </div>
             </div>
@@ -114,7 +157,19 @@ const ExportStep: React.FC = () => {
           </div>
         </div>
         
+        {projectFileError && (
+          <p className="text-red-400 text-sm mb-4">{projectFileError}</p>
+        )}
+        
         <div className="flex justify-end">
+          <button
+            className="px-6 py-2 mr-3 bg-gray-700 hover:bg-gray-600 rounded-md font-medium disabled:opacity-50"
+            onClick={handleSaveProjectFile}
+            disabled={isSavingProject}
+            title="Save a .cineflux file to share this project"
+          >
+            {isSavingProject ? 'Saving...' : 'Save Project File'}
+          </button>
           <button
             className="px-6 py-2 bg-purple-700 hover:bg-purple-600 rounded-md font-medium"
             onClick={handleExport}
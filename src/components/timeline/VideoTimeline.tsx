@@ -5,10 +5,11 @@
  * This component integrates AudioService and VideoService for a unified timeline
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useVideoService } from '../../hooks/useVideoService';
 import { useAudioService } from '../../hooks/useAudioService';
 import { TimelineMarker, MarkerType } from '../../types/video-types';
+import { createTempoMap, TempoSegment } from '../../utils/tempoMap';
 
 interface VideoTimelineProps {
   videoFile?: File;
@@ -80,6 +81,10 @@ const VideoTimeline: React.FC<VideoTimelineProps> = ({
                    loadedAudioFile?.duration || 0);
   const _pixelsPerSecond = timelineWidth / (duration / zoom);
   const visibleSeconds = duration / zoom;
+  const tempoMap = useMemo(
+    () => createTempoMap((beats || []).map((beat: { time: number }) => beat.time)),
+    [beats]
+  );
   
   // Load files when provided
   useEffect(() => {
@@ -325,6 +330,36 @@ const VideoTimeline: React.FC<VideoTimelineProps> = ({
         });
       }
       
+      // Draw the tempo lane, marking each tempo change
+      if (tempoMap.segments.length > 0) {
+        const tempoY = height * 0.92;
+        const tempoHeight = height * 0.08;
+        
+        tempoMap.segments.forEach((segment: TempoSegment, index: number) => {
+          const endTime = tempoMap.segments[index + 1]?.startTime ?? duration;
+          if (endTime >= visibleTimeRange.start && segment.startTime <= visibleTimeRange.end) {
+            const x1 = Math.max(0, timeToX(segment.startTime));
+            const x2 = Math.min(width, timeToX(endTime));
+            
+            ctx.fillStyle = index % 2 === 0 ? '#2d2640' : '#251f36';
+            ctx.fillRect(x1, tempoY, x2 - x1, tempoHeight);
+            
+            // Tempo change
+            if (index > 0) {
+              ctx.fillStyle = '#8338ec';
+              ctx.fillRect(x1, tempoY, 2, tempoHeight);
+            }
+            
+            // Tempo labels for wider segments
+            if (x2 - x1 > 50) {
+              ctx.fillStyle = '#ffffff';
+              ctx.font = '10px Arial';
+              ctx.fillText(`${Math.round(segment.bpm)} BPM`, x1 + 4, tempoY + tempoHeight - 3);
+            }
+          }
+        });
+      }
+      
       // Draw audio segments if available
       if (segments && segments.length > 0) {
         const segmentY = height * 0.1;
@@ -476,7 +511,7 @@ const VideoTimeline: React.FC<VideoTimelineProps> = ({
       }
     };
   }, [
-    waveformData, scenes, beats, segments, markers, selectedMarker,
+    waveformData, scenes, beats, tempoMap, segments, markers, selectedMarker,
     duration, currentTime, isPlaying, visibleTimeRange, timelineWidth
   ]);
   
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Scissors } from 'lucide-react';
+import { Database, Scissors } from 'lucide-react';
 
 interface ThumbnailGridProps {
   /**
@@ -38,6 +38,10 @@ interface ThumbnailGridProps {
    * Current playback time in milliseconds
    */
   currentTime?: number;
+  /**
+   * Whether the analysis was loaded from the cache instead of being run
+   */
+  isCached?: boolean;
 }
 
 /**
@@ -53,6 +57,7 @@ const ThumbnailGrid: React.FC<ThumbnailGridProps> = ({
   showTimestamps = true,
   showSceneMarkers = true,
   currentTime = 0,
+  isCached = false,
 }: any) => {
   // Convert current time to milliseconds if it's in seconds
   const currentTimeMs = currentTime < 1000 ? currentTime * 1000 : currentTime;
@@ -80,6 +85,19 @@ const ThumbnailGrid: React.FC<ThumbnailGridProps> = ({
 
   return (
     <div className="thumbnail-grid">
+      {/* Cached analysis badge */}
+      {isCached && (
+        <div className="flex justify-end mb-2">
+          <div
+            className="bg-[#2A2A30] text-[#B0B0B5] px-2 py-1 rounded-md flex items-center text-xs"
+            title="Analysis loaded from the cache"
+          >
+            <Database size={12} className="mr-1" />
+            <span>Cached</span>
+          </div>
+        </div>
+      )}
+      
       <div 
         className="grid gap-4" 
         style={{ 
@@ -35,6 +35,10 @@ interface VideoAnalysisVisualizerProps {
    * Function to handle play/pause toggle
    */
   onPlayPauseToggle?: () => void;
+  /**
+   * Whether the analysis was loaded from the cache (VideoAnalysis.fromCache)
+   */
+  isCached?: boolean;
 }
 
 /**
@@ -49,6 +53,7 @@ const VideoAnalysisVisualizer: React.FC<VideoAnalysisVisualizerProps> = ({
   currentTime = 0,
   isPlaying = false,
   onPlayPauseToggle,
+  isCached = false,
 }: any) => {
   const [selectedScene, setSelectedScene] = useState<number | null>(null);
   
@@ -223,6 +228,7 @@ const VideoAnalysisVisualizer: React.FC<VideoAnalysisVisualizerProps> = ({
           thumbnailHeight={90}
           showTimestamps={true}
           showSceneMarkers={true}
+          isCached={isCached}
         />
       </div>
     </div>
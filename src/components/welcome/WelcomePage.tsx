@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   FileText, 
   Video, 
@@ -9,42 +9,25 @@ import {
   Settings, 
   ChevronRight, 
   Calendar,
-  Edit3
+  Edit3,
+  FolderOpen
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import { useProject } from '@/context/ProjectContext';
+import projectStore, { ProjectSummary } from '@/services/ProjectStore';
+import {
+  createWorkflowSnapshotFromProjectFile,
+  matchProjectMedia,
+  parseProjectFile,
+  ProjectFile,
+  ProjectFileMedia,
+  PROJECT_FILE_EXTENSION
+} from '@/utils/projectFile';
 import './WelcomePage.css';
 
-// Mock data for recent projects
-const MOCK_RECENT_PROJECTS = [
-  {
-    id: 'proj-001',
-    name: 'Summer Music Video',
-    lastOpened: new Date(2025, 4, 5), // May 5, 2025
-    status: 'completed',
-    thumbnail: '/thumbnails/summer-video.jpg'
-  },
-  {
-    id: 'proj-002',
-    name: 'Product Launch Promo',
-    lastOpened: new Date(2025, 4, 3), // May 3, 2025
-    status: 'in-progress',
-    thumbnail: '/thumbnails/product-launch.jpg'
-  },
-  {
-    id: 'proj-003',
-    name: 'Interview Series',
-    lastOpened: new Date(2025, 4, 1), // May 1, 2025
-    status: 'completed',
-    thumbnail: '/thumbnails/interview.jpg'
-  },
-  {
-    id: 'proj-004',
-    name: 'Travel Montage',
-    lastOpened: new Date(2025, 3, 28), // April 28, 2025
-    status: 'in-progress',
-    thumbnail: '/thumbnails/travel.jpg'
-  }
-];
+// Number of projects shown under Recent Projects
+const RECENT_PROJECT_COUNT = 4;
 
 // Feature highlight data
 const FEATURES = [
@@ -155,9 +138,17 @@ interface WelcomePageProps {
 }
 
 export const WelcomePage: React.FC<WelcomePageProps> = ({ onGetStarted }: any) => {
-  const { dispatch } = useProject();
-  const [recentProjects, _setRecentProjects] = useState(MOCK_RECENT_PROJECTS);
+  const { dispatch, openProject } = useProject();
+  const navigate = useNavigate();
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [pendingImport, setPendingImport] = useState<ProjectFile | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  // Media picked for the pending import, and the references it didn't cover
+  const [unmatchedImport, setUnmatchedImport] = useState<{ files: File[]; missing: ProjectFileMedia[] } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
   
   useEffect(() => {
     // Update date every minute (for "Today" display)
@@ -168,7 +159,17 @@ export const WelcomePage: React.FC<WelcomePageProps> = ({ onGetStarted }: any) =
     return () => clearInterval(interval);
   }, []);
   
+  useEffect(() => {
+    if (!projectStore.isSupported) return;
+    
+    projectStore.listProjects(RECENT_PROJECT_COUNT)
+      .then(setRecentProjects)
+      .catch((error: unknown) => console.error('Failed to list projects:', error));
+  }, []);
+  
   const handleCreateNewProject = () => {
+    dispatch({ type: 'NEW_PROJECT' });
+    
     // Use onGetStarted prop if provided, otherwise use dispatch
     if (onGetStarted) {
       onGetStarted();
@@ -178,11 +179,76 @@ export const WelcomePage: React.FC<WelcomePageProps> = ({ onGetStarted }: any) =
     }
   };
   
-  const handleOpenProject = (projectId: string) => {
-    // In a real app, this would load the project data
-    console.log(`Opening project: ${projectId}`);
-    // For now, just navigate to the input step
-    dispatch({ type: 'SET_STEP', payload: 'input' });
+  const handleOpenProject = async (projectId: string) => {
+    try {
+      // Opening is a user gesture, so media handles may ask for permission again
+      const project = await openProject(projectId, true);
+      if (!project) {
+        setRecentProjects((prev: ProjectSummary[]) => prev.filter((summary) => summary.id !== projectId));
+        return;
+      }
+      navigate(`/${project.workflow?.currentStep || 'input'}`);
+    } catch (error) {
+      console.error(`Failed to open project ${projectId}:`, error);
+    }
+  };
+  
+  // Read a .cineflux file, then ask for its media
+  const handleProjectFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      const projectFile = parseProjectFile(await file.text());
+      setPendingImport(projectFile);
+      setUnmatchedImport(null);
+      setImportMessage(null);
+    } catch (error) {
+      console.error('Failed to read project file:', error);
+      setPendingImport(null);
+      setUnmatchedImport(null);
+      setImportMessage(error instanceof Error ? error.message : 'Failed to read project file');
+    }
+  };
+  
+  // Save the imported project with whichever media was found, then open it.
+  // If some media wasn't found, list it and wait unless allowMissing is set
+  const importProject = async (mediaFiles: File[], allowMissing = false) => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    
+    try {
+      const { matched, missing } = await matchProjectMedia(pendingImport.media, mediaFiles);
+      if (missing.length > 0 && !allowMissing) {
+        setUnmatchedImport({ files: mediaFiles, missing });
+        return;
+      }
+      
+      await Promise.all(Array.from(matched.values()).map((file: File) => projectStore.saveMedia(file)));
+      
+      const projectId = uuidv4();
+      await projectStore.updateProject(projectId, {
+        name: pendingImport.name,
+        workflow: createWorkflowSnapshotFromProjectFile(pendingImport, matched)
+      });
+      
+      const project = await openProject(projectId, true);
+      setPendingImport(null);
+      setUnmatchedImport(null);
+      navigate(`/${project?.workflow?.currentStep || 'input'}`);
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      setImportMessage(error instanceof Error ? error.message : 'Failed to import project');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
+  const handleMediaSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) importProject(files);
   };
   
   return (
@@ -238,21 +304,98 @@ export const WelcomePage: React.FC<WelcomePageProps> = ({ onGetStarted }: any) =
             <h2 className="section-title">
               Recent Projects
             </h2>
-            <button className="flex items-center text-sm text-[#FF7A45] hover:text-[#FF6A35] transition-colors duration-200">
-              View All
-              <ChevronRight size={16} className="ml-1" />
-            </button>
-          </div>
-          
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-            {recentProjects.map((project: any) => (
-              <ProjectCard 
-                key={project.id} 
-                project={project} 
-                onClick={handleOpenProject}
+            <div className="flex items-center">
+              <button
+                className="flex items-center text-sm text-[#FF7A45] hover:text-[#FF6A35] transition-colors duration-200 mr-6"
+                onClick={() => projectFileInputRef.current?.click()}
+              >
+                <FolderOpen size={16} className="mr-1" />
+                Open Project File
+              </button>
+              <input
+                ref={projectFileInputRef}
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                className="hidden"
+                onChange={handleProjectFileSelected}
               />
-            ))}
+              <button className="flex items-center text-sm text-[#FF7A45] hover:text-[#FF6A35] transition-colors duration-200">
+                View All
+                <ChevronRight size={16} className="ml-1" />
+              </button>
+            </div>
           </div>
+          
+          {importMessage && (
+            <p className="text-red-400 text-sm mb-4">{importMessage}</p>
+          )}
+          
+          {pendingImport && (
+            <div className="action-card flex flex-col md:flex-row md:items-center justify-between p-6 mb-6">
+              <div className="mb-4 md:mb-0">
+                <h3 className="text-lg font-semibold text-[#F5F5F7]">{pendingImport.name}</h3>
+                <p className="text-[#B0B0B5] text-sm">
+                  Uses {pendingImport.media.length} media files: {pendingImport.media.map((media) => media.path).join(', ')}
+                </p>
+                {unmatchedImport && (
+                  <p className="text-yellow-400 text-sm mt-2">
+                    Could not find {unmatchedImport.missing.length} of them: {unmatchedImport.missing.map((media) => media.path).join(', ')}.
+                    Locate them again, or open the project without them; cuts from missing videos are left out.
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center">
+                <button
+                  className="px-4 py-2 mr-3 rounded-md bg-[#FF7A45] hover:bg-[#FF6A35] text-white disabled:opacity-50"
+                  onClick={() => mediaInputRef.current?.click()}
+                  disabled={isImporting}
+                >
+                  {isImporting ? 'Importing...' : 'Locate Media'}
+                </button>
+                <button
+                  className="px-4 py-2 mr-3 rounded-md text-[#B0B0B5] hover:text-[#F5F5F7] disabled:opacity-50"
+                  onClick={() => importProject(unmatchedImport?.files ?? [], true)}
+                  disabled={isImporting}
+                >
+                  {unmatchedImport && unmatchedImport.files.length > 0 ? 'Open Without Missing Media' : 'Open Without Media'}
+                </button>
+                <button
+                  className="px-4 py-2 rounded-md text-[#B0B0B5] hover:text-[#F5F5F7]"
+                  onClick={() => {
+                    setPendingImport(null);
+                    setUnmatchedImport(null);
+                  }}
+                  disabled={isImporting}
+                >
+                  Cancel
+                </button>
+                <input
+                  ref={mediaInputRef}
+                  type="file"
+                  accept="audio/*,video/*"
+                  multiple
+                  className="hidden"
+                  onChange={handleMediaSelected}
+                />
+              </div>
+            </div>
+          )}
+          
+          {recentProjects.length === 0 ? (
+            <p className="text-[#B0B0B5]">
+              Projects you work on are saved automatically and will appear here.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              {recentProjects.map((project: ProjectSummary) => (
+                <ProjectCard 
+                  key={project.id} 
+                  project={{ ...project, lastOpened: project.updatedAt }} 
+                  onClick={handleOpenProject}
+                />
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Features */}
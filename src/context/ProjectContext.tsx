@@ -1,5 +1,6 @@
 
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { 
   AudioAnalysis, 
   VideoAnalysis, 
@@ -12,9 +13,32 @@ import {
   VideoCodec,
   AudioCodec
 } from '@/types/ProjectSettingsFix';
+import projectStore, { StoredProject } from '@/services/ProjectStore';
+import {
+  createProjectSnapshot,
+  getProjectMedia,
+  restoreProjectSnapshot,
+  ProjectSnapshotSource
+} from '@/utils/projectSnapshot';
+
+// Delay before changes are written to the project store
+const AUTOSAVE_DELAY_MS = 1000;
+
+// State fields that are saved with the project
+const PERSISTED_FIELDS: Array<keyof ProjectSnapshotSource> = [
+  'currentStep',
+  'musicFile',
+  'videoFiles',
+  'audioAnalysis',
+  'videoAnalyses',
+  'editDecisions',
+  'duration',
+  'settings'
+];
 
 // Define the project state interface
 interface ProjectState {
+  projectId: string;
   currentStep: WorkflowStep;
   musicFile: File | null;
   videoFiles: File[];
@@ -44,18 +68,22 @@ type ProjectAction =
   | { type: 'SET_PLAYBACK_TIME'; payload: number }
   | { type: 'SET_DURATION'; payload: number }
   | { type: 'SET_SETTINGS'; payload: ProjectSettings }
-  | { type: 'SHOW_EXPORT_MODAL'; payload: boolean };
+  | { type: 'SHOW_EXPORT_MODAL'; payload: boolean }
+  | { type: 'LOAD_PROJECT'; payload: { projectId: string; state: Partial<ProjectSnapshotSource> } }
+  | { type: 'NEW_PROJECT' };
 
 // Create context
 interface ProjectContextType {
   state: ProjectState;
   dispatch: React.Dispatch<ProjectAction>;
+  openProject: (projectId: string, requestPermission?: boolean) => Promise<StoredProject | null>;
 }
 
 const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
 
 // Initial state
 const initialState: ProjectState = {
+  projectId: '',
   // Use enum value directly instead of accessing via WorkflowStep.WELCOME
   currentStep: 'welcome' as WorkflowStep,
   musicFile: null,
@@ -123,6 +151,10 @@ function projectReducer(state: ProjectState, action: ProjectAction): ProjectStat
       return { ...state, settings: action.payload };
     case 'SHOW_EXPORT_MODAL':
       return { ...state, showExportModal: action.payload };
+    case 'LOAD_PROJECT':
+      return { ...initialState, ...action.payload.state, projectId: action.payload.projectId };
+    case 'NEW_PROJECT':
+      return { ...initialState, projectId: uuidv4() };
     default:
       return state;
   }
@@ -134,10 +166,75 @@ interface ProjectProviderProps {
 }
 
 export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) => {
-  const [state, dispatch] = useReducer(projectReducer, initialState);
+  const [state, dispatch] = useReducer(projectReducer, initialState, (initial: ProjectState) => ({
+    ...initial,
+    projectId: uuidv4()
+  }));
+
+  // State as last loaded or saved, so unchanged projects are not written back
+  const savedStateRef = useRef<ProjectState>(state);
+
+  // Load a saved project with its media; without asking for permission,
+  // projects whose media cannot all be read are left for the user to reopen
+  const openProject = useCallback(async (projectId: string, requestPermission: boolean = false) => {
+    const project = await projectStore.loadProject(projectId);
+    if (!project) return null;
+
+    const files = await projectStore.loadMediaFiles(project.mediaKeys, requestPermission);
+    if (!requestPermission && files.size < project.mediaKeys.length) {
+      // Some media needs read permission again, which only a user gesture can grant
+      return null;
+    }
+
+    dispatch({
+      type: 'LOAD_PROJECT',
+      payload: {
+        projectId,
+        state: project.project ? restoreProjectSnapshot(project.project, files) : {}
+      }
+    });
+    return project;
+  }, []);
+
+  // Reopen the most recent project after a reload or crash
+  useEffect(() => {
+    if (!projectStore.isSupported) return;
+
+    projectStore.listProjects(1)
+      .then(([latest]) => {
+        if (latest && latest.status === 'in-progress') {
+          return openProject(latest.id);
+        }
+        return null;
+      })
+      .catch((error: unknown) => console.error('Failed to reopen project:', error));
+  }, [openProject]);
+
+  // Autosave after each action that changes persisted state
+  useEffect(() => {
+    const saved = savedStateRef.current;
+    if (saved.projectId !== state.projectId) {
+      savedStateRef.current = state;
+      return;
+    }
+
+    if (PERSISTED_FIELDS.every((field) => state[field] === saved[field])) return;
+
+    const timer = setTimeout(async () => {
+      savedStateRef.current = state;
+      try {
+        await Promise.all(getProjectMedia(state).map((file: File) => projectStore.saveMedia(file)));
+        await projectStore.updateProject(state.projectId, { project: createProjectSnapshot(state) });
+      } catch (error) {
+        console.error('Failed to save project:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [state]);
 
   return (
-    <ProjectContext.Provider value={{ state, dispatch }}>
+    <ProjectContext.Provider value={{ state, dispatch, openProject }}>
       {children}
     </ProjectContext.Provider>
   );
@@ -6,7 +6,7 @@
  * It includes the context definition, provider component, and custom hooks.
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { 
   AppState,
@@ -22,6 +22,16 @@ import { WorkflowStep, WorkflowStepUtils } from '@/types/workflow/WorkflowStepFi
 
 // Import services
 import AudioService from '@/services/AudioService';
+import projectStore from '@/services/ProjectStore';
+import { useProject } from '@/context/ProjectContext';
+import {
+  createWorkflowSnapshot,
+  getWorkflowMedia,
+  restoreWorkflowSnapshot
+} from '@/utils/projectSnapshot';
+
+// Delay before changes are written to the project store
+const AUTOSAVE_DELAY_MS = 1000;
 
 // Default state for the application
 const defaultState: AppState = {
@@ -172,6 +182,20 @@ const canAccessRoute = (
   }
 };
 
+// Whether any of the state saved with the project differs
+const hasPersistedChanges = (state: AppState, saved: AppState): boolean =>
+  state.workflow.currentStep !== saved.workflow.currentStep ||
+  state.project.settings !== saved.project.settings ||
+  state.project.musicFile !== saved.project.musicFile ||
+  state.project.videoFiles !== saved.project.videoFiles ||
+  state.project.rawVideoFiles !== saved.project.rawVideoFiles ||
+  state.analysis.audio !== saved.analysis.audio ||
+  state.analysis.video !== saved.analysis.video ||
+  state.analysis.alignments !== saved.analysis.alignments ||
+  state.edit.decisions !== saved.edit.decisions ||
+  state.export.settings !== saved.export.settings ||
+  state.export.exportComplete !== saved.export.exportComplete;
+
 // Use the utility functions from our WorkflowStepFix
 const getNextRoute = WorkflowStepUtils.getNextStep;
 const getPreviousRoute = WorkflowStepUtils.getPreviousStep;
@@ -230,6 +254,75 @@ export const WorkflowProvider: React.FC<WorkflowProviderProps> = ({
     },
     ...(initialState || {})
   });
+
+  // Project the state is saved to, and the state as last restored or saved
+  const { state: { projectId } } = useProject();
+  const savedRef = useRef<{ projectId: string; state: AppState }>({ projectId, state });
+  const restoredProjectIdRef = useRef<string>(projectId);
+
+  // Restore the workflow saved with the current project
+  useEffect(() => {
+    if (!projectStore.isSupported) return;
+    const isSwitch = restoredProjectIdRef.current !== projectId;
+    restoredProjectIdRef.current = projectId;
+    let cancelled = false;
+
+    const restore = async () => {
+      const project = await projectStore.loadProject(projectId);
+      const files = project?.workflow ? await projectStore.loadMediaFiles(project.mediaKeys) : null;
+      if (cancelled) return;
+
+      setState((prev) => {
+        let restored = prev;
+        if (project?.workflow && files) {
+          restored = restoreWorkflowSnapshot(prev, project.workflow, files);
+        } else if (isSwitch) {
+          // A new project starts from the defaults
+          restored = {
+            ...defaultState,
+            workflow: {
+              ...defaultState.workflow,
+              currentStep: prev.workflow.currentStep
+            }
+          };
+        }
+        savedRef.current = { projectId, state: restored };
+        return restored;
+      });
+    };
+
+    restore().catch((error: unknown) => console.error('Failed to restore workflow:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Autosave after each change to the persisted state
+  useEffect(() => {
+    if (!projectStore.isSupported) return;
+
+    const saved = savedRef.current;
+    if (saved.projectId !== projectId) {
+      savedRef.current = { projectId, state };
+      return;
+    }
+    if (!hasPersistedChanges(state, saved.state)) return;
+
+    const timer = setTimeout(async () => {
+      savedRef.current = { projectId, state };
+      try {
+        await Promise.all(getWorkflowMedia(state).map((file: File) => projectStore.saveMedia(file)));
+        await projectStore.updateProject(projectId, {
+          workflow: createWorkflowSnapshot(state),
+          status: state.export.exportComplete ? 'completed' : 'in-progress'
+        });
+      } catch (error) {
+        console.error('Failed to save workflow:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [state, projectId]);
   
   // Sync current step with URL
   useEffect(() => {
@@ -13,8 +13,11 @@ import {
   TransitionType,
   TrackType,
   TimelineCutPoint,
-  MarkerType
+  MarkerType,
+  EDLFormat
 } from '../types/EditDecision';
+import { exportEDL } from '../utils/edlGenerators';
+import { getBeatAccent } from '../utils/audioSync';
 
 /**
  * Configuration options for the EditDecisionEngine
@@ -343,10 +346,13 @@ export class EditDecisionEngine {
     // Generate a timeline of potential cut points
     const rawTimeline = this.generateCutTimeline();
     
-    // Filter beats based on beatCutPercentage
+    // Filter beats based on beatCutPercentage, favouring phrase starts and
+    // downbeats over other beats before going by confidence
     const beatsToUse = Math.ceil(this.beatMap.length * (this.config.beatCutPercentage! / 100));
-    const selectedBeats = this.beatMap
-      .sort((a: any, b: any) => b.confidence - a.confidence) // Sort by confidence
+    const selectedBeats = [...this.beatMap]
+      .sort((a: Beat, b: Beat) =>
+        getBeatAccent(b) - getBeatAccent(a) || b.confidence - a.confidence
+      )
       .slice(0, beatsToUse); // Take the top beats
     
     // Create a set of selected beat times for quick lookup
@@ -512,6 +518,7 @@ export class EditDecisionEngine {
     // Add clips and transitions to the EDL
     edl.clips = clips;
     edl.transitions = transitions;
+    edl.export = (format: EDLFormat) => exportEDL(edl, format);
     
     // Add cut points to the EDL
     const cutPoints: TimelineCutPoint[] = [];
@@ -1,5 +1,6 @@
 import { useRef, useState, useEffect } from 'react';
 import AudioService from '../services/AudioService';
+import { isAbortError } from '../utils/analysisWorker';
 
 /**
  * Custom hook for using the AudioService
@@ -71,16 +72,22 @@ export const useAudioService = () => {
    * Analyze an audio file to extract features
    * @param file The audio file to analyze
    * @param onProgress Optional callback for analysis progress
+   * @param signal Optional signal that cancels the analysis
    */
   const analyzeAudio = async (
     file: File,
-    onProgress?: (progress: number, step: string) => void
+    onProgress?: (progress: number, step: string) => void,
+    signal?: AbortSignal
   ) => {
     try {
-      const analysis = await serviceRef.current.analyzeAudio(file, onProgress || (() => {}));
+      const analysis = await serviceRef.current.analyzeAudio(
+        file,
+        onProgress || (() => {}),
+        signal
+      );
       return analysis;
     } catch (error) {
-      console.error('Error analyzing audio:', error);
+      if (!isAbortError(error)) console.error('Error analyzing audio:', error);
       throw error;
     }
   };
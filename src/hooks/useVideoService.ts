@@ -6,7 +6,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import videoService from '../services/VideoService';
-import { VideoFile, VideoAnalysis, VideoFrame, Scene, VideoServiceEvents, VideoProcessingProgress } from '../types/video-types';
+import { VideoFile, VideoAnalysis, VideoFrame, Scene, SceneDetectionOptions, VideoServiceEvents, VideoProcessingProgress } from '../types/video-types';
 
 /**
  * Custom hook for video file processing and analysis
@@ -125,8 +125,15 @@ export const useVideoService = () => {
 
   /**
    * Analyze a video file to extract scenes, content, and motion data
+   * @param file The video file to analyze
+   * @param signal Optional signal that cancels the analysis
+   * @param sceneOptions Optional scene detection options, such as the sample rate
    */
-  const analyzeVideo = useCallback(async (file: File): Promise<VideoAnalysis> => {
+  const analyzeVideo = useCallback(async (
+    file: File,
+    signal?: AbortSignal,
+    sceneOptions?: SceneDetectionOptions
+  ): Promise<VideoAnalysis> => {
     try {
       // If already analyzing, don't start a new analysis
       if (isAnalyzingRef.current) {
@@ -140,7 +147,7 @@ export const useVideoService = () => {
         await loadVideoFile(file);
       }
       
-      const analysis = await videoService.analyzeVideo(file);
+      const analysis = await videoService.analyzeVideo(file, signal, sceneOptions);
       setVideoAnalysis(analysis);
       return analysis;
     } catch (err) {
@@ -187,7 +194,7 @@ export const useVideoService = () => {
    */
   const detectScenes = useCallback(async (
     frames: VideoFrame[],
-    options: any = { threshold: 30 }
+    options: SceneDetectionOptions = {}
   ): Promise<Scene[]> => {
     try {
       setError(null);
@@ -235,6 +235,7 @@ const VideoProcessingTest: React.FC = () => {
             currentTime={currentTime}
             isPlaying={isPlaying}
             onPlayPauseToggle={handlePlayPauseToggle}
+            isCached={processingResult.fromCache}
           />
         </div>
       )}
@@ -9,6 +9,7 @@ import {
   PluginProcessOptions,
   PluginResult
 } from '../types/plugins';
+import { ShotTransition } from '../types/video-types';
 
 /**
  * Base Plugin Interface
@@ -136,7 +137,7 @@ export interface VideoAnalysisResult {
 export interface SceneChange {
   time: number;
   confidence: number;
-  type?: string;
+  type?: ShotTransition | 'wipe' | 'unknown';
 }
 
 export interface MotionData {
@@ -198,16 +199,43 @@ export interface SubtitleData {
 
 export interface SubtitleEntry {
   id: string;
+  /** Start time in seconds */
   startTime: number;
+  /** End time in seconds */
   endTime: number;
+  /** Plain text, with lines separated by newlines */
   text: string;
-  style?: Record<string, any>;
+  style?: SubtitleStyle;
+  /**
+   * Where the cue is placed, as shares of the frame's width and height (0.0
+   * to 1.0); style.alignment says which point of the cue sits there
+   */
   position?: {
     x: number;
     y: number;
   };
 }
 
+/**
+ * How a subtitle cue looks; absent properties are left to the player
+ */
+export interface SubtitleStyle {
+  fontName?: string;
+  /** Font size in pixels on a frame 1080 pixels high */
+  fontSize?: number;
+  /** Text color as #rrggbb, or #rrggbbaa when not opaque */
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikeout?: boolean;
+  /**
+   * Which point of the cue is placed, numbered as on a keypad: 1 is bottom
+   * left, 5 the middle and 9 top right (default: 2, bottom center)
+   */
+  alignment?: number;
+}
+
 /**
  * Media Transcoder Plugin Interface
  * Specialized for media transcoding functionality
@@ -1,12 +1,11 @@
 /**
  * BasicSubtitleAnalyzer Plugin
- * A simple subtitle analysis plugin implementation
+ * Parses and converts SRT, WebVTT, ASS/SSA and TTML (DFXP) subtitles
  */
 
 import { 
   SubtitleAnalysisPlugin, 
-  SubtitleData, 
-  SubtitleEntry 
+  SubtitleData
 } from '../pluginInterfaces';
 import { 
   PluginMetadata, 
@@ -15,6 +14,11 @@ import {
   PluginProcessOptions, 
   PluginResult 
 } from '../../types/plugins';
+import {
+  parseSubtitles,
+  resolveSubtitleFormat,
+  writeSubtitles
+} from '../../utils/subtitleFormats';
 
 /**
  * Basic Subtitle Analyzer Plugin
@@ -27,12 +31,12 @@ export class BasicSubtitleAnalyzer implements SubtitleAnalysisPlugin {
   public readonly metadata: PluginMetadata = {
     id: 'cineflux-basic-subtitle-analyzer',
     name: 'Basic Subtitle Analyzer',
-    version: '1.0.0',
+    version: '1.1.0',
     author: 'CineFlux Team',
-    description: 'A basic subtitle analysis plugin for parsing and converting subtitles',
+    description: 'Parses and converts SRT, WebVTT, ASS/SSA and TTML subtitles, keeping their style and position',
     isWasm: false,
     type: PluginType.SubtitleAnalysis,
-    supportedFormats: ['srt', 'vtt', 'ass', 'ssa', 'xml']
+    supportedFormats: ['srt', 'vtt', 'ass', 'ssa', 'ttml', 'dfxp', 'xml']
   };
   
   // Internal state
@@ -137,12 +141,13 @@ export class BasicSubtitleAnalyzer implements SubtitleAnalysisPlugin {
     
     try {
       // Convert ArrayBuffer to string if needed
-      const _subtitleText = subtitleData instanceof ArrayBuffer 
+      const subtitleText = subtitleData instanceof ArrayBuffer 
         ? new TextDecoder().decode(subtitleData)
         : subtitleData;
       
       // Check if format is supported
-      if (!this.getSupportedSubtitleFormats().includes(format)) {
+      const subtitleFormat = resolveSubtitleFormat(format);
+      if (!this.getSupportedSubtitleFormats().includes(format) || !subtitleFormat) {
         return {
           success: false,
           error: `Unsupported subtitle format: ${format}`,
@@ -150,26 +155,10 @@ export class BasicSubtitleAnalyzer implements SubtitleAnalysisPlugin {
         };
       }
       
-      // In a real implementation, this would parse the subtitle format
-      // For this stub, we'll return mock data based on the format
-      
-      // Simulate processing time
-      await new Promise((resolve: any) => setTimeout(resolve, 300));
-      
-      // Create mock subtitle data
-      const subtitleData: SubtitleData = {
-        entries: this.generateMockSubtitleEntries(10, format),
-        metadata: {
-          format,
-          language: 'en',
-          title: 'Sample Subtitles',
-          author: 'CineFlux AutoXML'
-        }
-      };
-      
+      // Malformed files throw a SubtitleParseError naming the line
       return {
         success: true,
-        data: subtitleData,
+        data: parseSubtitles(subtitleText, subtitleFormat),
         timestamp: Date.now()
       };
     } catch (error) {
@@ -200,7 +189,8 @@ export class BasicSubtitleAnalyzer implements SubtitleAnalysisPlugin {
     
     try {
       // Check if target format is supported
-      if (!this.getSupportedSubtitleFormats().includes(targetFormat)) {
+      const subtitleFormat = resolveSubtitleFormat(targetFormat);
+      if (!this.getSupportedSubtitleFormats().includes(targetFormat) || !subtitleFormat) {
         return {
           success: false,
           error: `Unsupported target subtitle format: ${targetFormat}`,
@@ -208,31 +198,9 @@ export class BasicSubtitleAnalyzer implements SubtitleAnalysisPlugin {
         };
       }
       
-      // In a real implementation, this would convert the subtitle data to the target format
-      // For this stub, we'll generate mock output based on the format
-      
-      // Simulate processing time
-      await new Promise((resolve: any) => setTimeout(resolve, 200));
-      
-      let result = '';
-      
-      switch (targetFormat) {
-        case 'srt':
-          result = this.mockConvertToSRT(subtitleData);
-          break;
-        case 'vtt':
-          result = this.mockConvertToVTT(subtitleData);
-          break;
-        case 'xml':
-          result = this.mockConvertToXML(subtitleData);
-          break;
-        default:
-          result = this.mockConvertToSRT(subtitleData);
-      }
-      
       return {
         success: true,
-        data: result,
+        data: writeSubtitles(subtitleData, subtitleFormat),
         timestamp: Date.now()
       };
     } catch (error) {
@@ -250,167 +218,6 @@ export class BasicSubtitleAnalyzer implements SubtitleAnalysisPlugin {
   public getSupportedSubtitleFormats(): string[] {
     return this.metadata.supportedFormats || [];
   }
-  
-  /**
-   * Generate mock subtitle entries for testing
-   */
-  private generateMockSubtitleEntries(count: number, format: string): SubtitleEntry[] {
-    const entries: SubtitleEntry[] = [];
-    
-    let currentTime = 5;
-    
-    for (let i = 0; i < count; i++) {
-      const duration = 2 + Math.random() * 4;
-      
-      const entry: SubtitleEntry = {
-        id: `subtitle-${i + 1}`,
-        startTime: currentTime,
-        endTime: currentTime + duration,
-        text: `This is sample subtitle text ${i + 1}.`
-      };
-      
-      // Add format-specific styling for some formats
-      if (['ass', 'ssa', 'xml'].includes(format)) {
-        entry.style = {
-          fontName: 'Arial',
-          fontSize: 16,
-          color: '#FFFFFF',
-          bold: Math.random() > 0.7,
-          italic: Math.random() > 0.8
-        };
-        
-        // Add position for some entries
-        if (Math.random() > 0.7) {
-          entry.position = {
-            x: Math.random() * 0.8 + 0.1,
-            y: Math.random() * 0.3 + 0.6
-          };
-        }
-      }
-      
-      entries.push(entry);
-      
-      currentTime += duration + 0.5 + Math.random();
-    }
-    
-    return entries;
-  }
-  
-  /**
-   * Mock conversion to SRT format
-   */
-  private mockConvertToSRT(subtitleData: SubtitleData): string {
-    let srt = '';
-    
-    subtitleData.entries.forEach((entry: any, index: any) => {
-      // Format: index + newline + start time --> end time + newline + text + double newline
-      const startTime = this.formatSRTTime(entry.startTime);
-      const endTime = this.formatSRTTime(entry.endTime);
-      
-      srt += `${index + 1}\n`;
-      srt += `${startTime} --> ${endTime}\n`;
-      srt += `${entry.text}\n\n`;
-    });
-    
-    return srt;
-  }
-  
-  /**
-   * Mock conversion to VTT format
-   */
-  private mockConvertToVTT(subtitleData: SubtitleData): string {
-    let vtt = 'WEBVTT\n\n';
-    
-    subtitleData.entries.forEach((entry: any, index: any) => {
-      // Format: optional cue identifier + start time --> end time + optional settings + newline + text + newline
-      const startTime = this.formatVTTTime(entry.startTime);
-      const endTime = this.formatVTTTime(entry.endTime);
-      
-      vtt += `${entry.id}\n`;
-      vtt += `${startTime} --> ${endTime}`;
-      
-      // Add position if available
-      if (entry.position) {
-        const x = Math.round(entry.position.x * 100);
-        const y = Math.round(entry.position.y * 100);
-        vtt += ` position:${x}% line:${y}%`;
-      }
-      
-      vtt += `\n${entry.text}\n\n`;
-    });
-    
-    return vtt;
-  }
-  
-  /**
-   * Mock conversion to XML format
-   */
-  private mockConvertToXML(subtitleData: SubtitleData): string {
-    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
-    xml += '<subtitle>\n';
-    
-    // Add metadata
-    if (subtitleData.metadata) {
-      xml += '  <metadata>\n';
-      Object.entries(subtitleData.metadata).forEach(([key, value]: any) => {
-        xml += `    <${key}>${value}</${key}>\n`;
-      });
-      xml += '  </metadata>\n';
-    }
-    
-    // Add entries
-    xml += '  <entries>\n';
-    subtitleData.entries.forEach((entry: any) => {
-      xml += `    <entry id="${entry.id}">\n`;
-      xml += `      <start>${entry.startTime}</start>\n`;
-      xml += `      <end>${entry.endTime}</end>\n`;
-      xml += `      <text>${entry.text}</text>\n`;
-      
-      // Add style if available
-      if (entry.style) {
-        xml += '      <style>\n';
-        Object.entries(entry.style).forEach(([key, value]: any) => {
-          xml += `        <${key}>${value}</${key}>\n`;
-        });
-        xml += '      </style>\n';
-      }
-      
-      // Add position if available
-      if (entry.position) {
-        xml += `      <position x="${entry.position.x}" y="${entry.position.y}" />\n`;
-      }
-      
-      xml += '    </entry>\n';
-    });
-    xml += '  </entries>\n';
-    
-    xml += '</subtitle>';
-    return xml;
-  }
-  
-  /**
-   * Format time for SRT format (00:00:00,000)
-   */
-  private formatSRTTime(timeInSeconds: number): string {
-    const hours = Math.floor(timeInSeconds / 3600);
-    const minutes = Math.floor((timeInSeconds % 3600) / 60);
-    const seconds = Math.floor(timeInSeconds % 60);
-    const milliseconds = Math.floor((timeInSeconds % 1) * 1000);
-    
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
-  }
-  
-  /**
-   * Format time for VTT format (00:00:00.000)
-   */
-  private formatVTTTime(timeInSeconds: number): string {
-    const hours = Math.floor(timeInSeconds / 3600);
-    const minutes = Math.floor((timeInSeconds % 3600) / 60);
-    const seconds = Math.floor(timeInSeconds % 60);
-    const milliseconds = Math.floor((timeInSeconds % 1) * 1000);
-    
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
-  }
 }
 
 // Export default instance
@@ -1,12 +1,12 @@
 /**
  * BasicVideoAnalyzer Plugin
- * A simple video analysis plugin implementation
+ * A simple video analysis plugin implementation; scene changes come from
+ * VideoService's shot detection
  */
 
 import { 
   VideoAnalysisPlugin, 
   VideoAnalysisResult, 
-  SceneChange, 
   MotionData, 
   DetectedObject 
 } from '../pluginInterfaces';
@@ -17,6 +17,9 @@ import {
   PluginProcessOptions, 
   PluginResult 
 } from '../../types/plugins';
+import { SceneDetectionOptions } from '../../types/video-types';
+import videoService from '../../services/VideoService';
+import { scenesToSceneChanges } from '../../utils/shotDetection';
 
 /**
  * Basic Video Analyzer Plugin
@@ -142,8 +145,12 @@ export class BasicVideoAnalyzer implements VideoAnalysisPlugin {
   
   /**
    * Analyze video data and extract features
+   *
+   * Scenes are detected by VideoService, so each scene change carries the
+   * transition its scene begins with. Motion and objects are still mock data.
    * @param videoData Raw video data buffer
-   * @param options Analysis options
+   * @param options Analysis options: `fileName` names the video, and
+   *   `sceneOptions` are passed on to scene detection
    */
   public async analyzeVideo(
     videoData: ArrayBuffer, 
@@ -158,19 +165,16 @@ export class BasicVideoAnalyzer implements VideoAnalysisPlugin {
     }
     
     try {
-      // In a real implementation, this would load and analyze the video
-      // For this stub, we'll return mock data
+      const file = new File([videoData], options?.fileName ?? 'video.mp4');
+      const sceneOptions: SceneDetectionOptions | undefined = options?.sceneOptions;
+      const analysis = await videoService.analyzeVideo(file, undefined, sceneOptions);
       
-      // Simulate processing time
-      await new Promise((resolve: any) => setTimeout(resolve, 1000));
-      
-      // Create mock analysis result
       const result: VideoAnalysisResult = {
-        duration: 180.0, // 3 minutes
-        width: 1920,
-        height: 1080,
-        frameRate: 29.97,
-        sceneChanges: this.generateMockSceneChanges(10),
+        duration: analysis.duration,
+        width: analysis.metadata?.width ?? 0,
+        height: analysis.metadata?.height ?? 0,
+        frameRate: analysis.metadata?.fps ?? 30,
+        sceneChanges: scenesToSceneChanges(analysis.scenes),
         motionData: this.generateMockMotionData(8),
         objects: this.generateMockDetectedObjects(15)
       };
@@ -262,27 +266,6 @@ export class BasicVideoAnalyzer implements VideoAnalysisPlugin {
     return this.metadata.supportedFormats || [];
   }
   
-  /**
-   * Generate mock scene changes for testing
-   */
-  private generateMockSceneChanges(count: number): SceneChange[] {
-    const sceneChanges: SceneChange[] = [];
-    const types = ['cut', 'fade', 'dissolve', 'wipe', 'unknown'];
-    
-    // Distribute scene changes throughout the video
-    for (let i = 0; i < count; i++) {
-      const time = (i + 1) * 180 / (count + 1) + (Math.random() * 5 - 2.5);
-      
-      sceneChanges.push({
-        time,
-        confidence: 0.7 + Math.random() * 0.3,
-        type: types[Math.floor(Math.random() * types.length)]
-      });
-    }
-    
-    return sceneChanges;
-  }
-  
   /**
    * Generate mock motion data for testing
    */
@@ -0,0 +1,274 @@
+// src/services/AnalysisCache.ts
+
+import {
+  AnalyzerName,
+  CacheEntryInfo,
+  analysisCacheKey,
+  estimateSize,
+  selectEvictions
+} from '../utils/analysisCache';
+import { isAbortError } from '../utils/analysisWorker';
+import { hashFile } from '../utils/contentHash';
+import { completion, promisify } from '../utils/indexedDb';
+import { mediaKey } from '../utils/projectSnapshot';
+
+/**
+ * A cached value, stored apart from its entry so eviction can scan entries
+ * without loading values
+ */
+interface StoredValue {
+  key: string;
+  value: unknown;
+}
+
+/**
+ * A file's content hash, remembered by its name, size and modification time
+ * so the same file isn't read again
+ */
+interface StoredHash {
+  fingerprint: string;
+  contentHash: string;
+}
+
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const VALUES = 'values';
+const HASHES = 'hashes';
+
+/**
+ * Persists analysis results to IndexedDB, keyed by the content of the
+ * analyzed media, so reopening the same clips skips analyzing them again
+ *
+ * Entries carry the version of the analyzer that made them and are dropped
+ * when read by another version. The least recently used entries are evicted
+ * once the cache grows past its size limit. A cache that can't be opened
+ * behaves as an empty one, so analysis never fails because of it.
+ */
+export class AnalysisCache {
+  private dbName: string;
+  private maxBytes: number;
+  private factory: IDBFactory | undefined;
+  private db: Promise<IDBDatabase> | null = null;
+  private hashes: Map<string, Promise<string>> = new Map();
+
+  /**
+   * Creates an analysis cache
+   * @param dbName Name of the IndexedDB database
+   * @param maxBytes Approximate size the cache is kept under (default: 256 MB)
+   * @param factory IndexedDB implementation (default: the browser's)
+   */
+  constructor(
+    dbName: string = 'cineflux-analysis-cache',
+    maxBytes: number = 256 * 1024 * 1024,
+    factory: IDBFactory | undefined = typeof indexedDB !== 'undefined' ? indexedDB : undefined
+  ) {
+    this.dbName = dbName;
+    this.maxBytes = maxBytes;
+    this.factory = factory;
+  }
+
+  /**
+   * Whether results can be cached in this environment
+   */
+  get isSupported(): boolean {
+    return this.factory !== undefined;
+  }
+
+  /**
+   * Opens the database, creating its object stores on first use
+   * @returns The open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.factory) {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    if (!this.db) {
+      const request = this.factory.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) {
+          db.createObjectStore(ENTRIES, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(VALUES)) {
+          db.createObjectStore(VALUES, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(HASHES)) {
+          db.createObjectStore(HASHES, { keyPath: 'fingerprint' });
+        }
+      };
+      this.db = promisify(request).catch((error: unknown) => {
+        this.db = null;
+        throw error;
+      });
+    }
+
+    return this.db;
+  }
+
+  /**
+   * Gets the content hash of a file, reading the file only the first time
+   * @param file The file
+   * @param signal Stops hashing, rejecting with an AbortError
+   * @returns The SHA-256 of the file's contents, or null if nothing can be cached
+   */
+  async contentHash(file: File, signal?: AbortSignal): Promise<string | null> {
+    if (!this.isSupported) return null;
+
+    const fingerprint = mediaKey(file);
+    let hash = this.hashes.get(fingerprint);
+    if (!hash) {
+      hash = this.loadHash(fingerprint).then(
+        (stored: string | null) => stored ?? this.computeHash(file, fingerprint, signal)
+      );
+      this.hashes.set(fingerprint, hash);
+    }
+
+    try {
+      return await hash;
+    } catch (error: unknown) {
+      this.hashes.delete(fingerprint);
+      if (isAbortError(error)) throw error;
+      console.warn(`Could not hash ${file.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Loads a cached result
+   * @param analyzer The analyzer that produced it
+   * @param version The current version of the analyzer
+   * @param contentHash Content hash of the analyzed media
+   * @param options Options the analyzer runs with
+   * @returns The result, or null if there is none from this version
+   */
+  async get<T>(
+    analyzer: AnalyzerName,
+    version: number,
+    contentHash: string,
+    options: unknown = {}
+  ): Promise<T | null> {
+    if (!this.isSupported) return null;
+    const key = analysisCacheKey(analyzer, contentHash, options);
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([ENTRIES, VALUES], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES);
+      const values = transaction.objectStore(VALUES);
+
+      const entry: CacheEntryInfo | undefined = await promisify(entries.get(key));
+      if (!entry) return null;
+
+      if (entry.version !== version) {
+        entries.delete(key);
+        values.delete(key);
+        await completion(transaction);
+        return null;
+      }
+
+      const stored: StoredValue | undefined = await promisify(values.get(key));
+      entries.put({ ...entry, lastAccessed: Date.now() });
+      await completion(transaction);
+      return (stored?.value as T) ?? null;
+    } catch (error: unknown) {
+      console.warn(`Could not read cached ${analyzer} analysis:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Caches a result, then evicts the least recently used entries if the cache
+   * has outgrown its size limit
+   * @param analyzer The analyzer that produced it
+   * @param version The version of the analyzer
+   * @param contentHash Content hash of the analyzed media
+   * @param options Options the analyzer ran with
+   * @param value The result; must survive structured cloning
+   */
+  async set(
+    analyzer: AnalyzerName,
+    version: number,
+    contentHash: string,
+    options: unknown,
+    value: unknown
+  ): Promise<void> {
+    if (!this.isSupported) return;
+    const key = analysisCacheKey(analyzer, contentHash, options);
+    const entry: CacheEntryInfo = {
+      key,
+      analyzer,
+      version,
+      contentHash,
+      size: estimateSize(value),
+      lastAccessed: Date.now()
+    };
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([ENTRIES, VALUES], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES);
+      const values = transaction.objectStore(VALUES);
+
+      entries.put(entry);
+      values.put({ key, value } as StoredValue);
+
+      const all: CacheEntryInfo[] = await promisify(entries.getAll());
+      selectEvictions(all, this.maxBytes, key).forEach((evicted: string) => {
+        entries.delete(evicted);
+        values.delete(evicted);
+      });
+      await completion(transaction);
+    } catch (error: unknown) {
+      console.warn(`Could not cache ${analyzer} analysis:`, error);
+    }
+  }
+
+  /**
+   * Removes every cached result and remembered hash
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES, VALUES, HASHES], 'readwrite');
+    [ENTRIES, VALUES, HASHES].forEach((name: string) => transaction.objectStore(name).clear());
+    await completion(transaction);
+    this.hashes.clear();
+  }
+
+  /**
+   * Loads a remembered content hash
+   * @param fingerprint The file's media key
+   * @returns The content hash, or null if there is none
+   */
+  private async loadHash(fingerprint: string): Promise<string | null> {
+    const db = await this.open();
+    const stored: StoredHash | undefined = await promisify(
+      db.transaction(HASHES).objectStore(HASHES).get(fingerprint)
+    );
+    return stored?.contentHash ?? null;
+  }
+
+  /**
+   * Hashes a file and remembers the hash
+   * @param file The file
+   * @param fingerprint The file's media key
+   * @param signal Stops hashing, rejecting with an AbortError
+   * @returns The content hash
+   */
+  private async computeHash(
+    file: File,
+    fingerprint: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const contentHash = await hashFile(file, { signal });
+    const db = await this.open();
+    const transaction = db.transaction(HASHES, 'readwrite');
+    transaction.objectStore(HASHES).put({ fingerprint, contentHash } as StoredHash);
+    await completion(transaction);
+    return contentHash;
+  }
+}
+
+export const analysisCache = new AnalysisCache();
+
+export default analysisCache;
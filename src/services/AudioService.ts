@@ -8,6 +8,37 @@ import {
   EnergyAnalysis, 
   EnergySample 
 } from '../types/AudioAnalysis';
+import analysisCache from './AnalysisCache';
+import {
+  canUseWorkers,
+  isAbortError,
+  runAnalysisWorker,
+  throwIfAborted
+} from '../utils/analysisWorker';
+import { mixToMono, trackBeats } from '../utils/beatTracking';
+import { segmentStructure } from '../utils/structureSegmentation';
+import { createTempoMap, TempoSegment } from '../utils/tempoMap';
+
+/**
+ * Audio handed to the analysis worker
+ */
+export interface AudioAnalysisRequest {
+  /** Samples of each channel */
+  channels: Float32Array[];
+  /** Sample rate in Hz */
+  sampleRate: number;
+}
+
+/**
+ * Analysis of decoded audio, without the metadata of the file it came from
+ */
+export type BufferAnalysis = Omit<AudioAnalysis, 'metadata'>;
+
+/**
+ * Version of the audio analysis; bump it when a change alters the results,
+ * so results cached by an earlier version are worked out again
+ */
+export const AUDIO_ANALYZER_VERSION = 1;
 
 /**
  * Error class for audio processing errors
@@ -139,69 +170,58 @@ class AudioService {
   
   /**
    * Analyze an audio file to detect beats, segments, and energy levels
+   *
+   * The file is decoded here, then analyzed in a worker so the UI stays
+   * responsive; without worker support the analysis runs on this thread.
+   * Results are cached by the file's content, so a file analyzed before is
+   * not decoded again.
    * @param audioFile The audio file to analyze
    * @param progressCallback Callback function to report progress
+   * @param signal Aborts the analysis, rejecting with an AbortError
    * @returns Promise resolving to the analysis results
    */
   async analyzeAudio(
     audioFile: File,
-    progressCallback: (progress: number, step: string) => void
+    progressCallback: (progress: number, step: string) => void,
+    signal?: AbortSignal
   ): Promise<AudioAnalysis> {
     try {
       // Load the audio file
       progressCallback(0, 'Loading audio file...');
+      const contentHash = await analysisCache.contentHash(audioFile, signal);
+      const cached =
+        contentHash &&
+        (await analysisCache.get<BufferAnalysis>('audio', AUDIO_ANALYZER_VERSION, contentHash));
+      if (cached) {
+        progressCallback(100, 'Analysis complete');
+        return {
+          metadata: this.describeFile(audioFile, cached.waveform.duration),
+          ...cached
+        };
+      }
+
       const audioBuffer = await this.loadAudio(audioFile, (progress: any, step: any) => {
         // Map the loading progress to 0-30% of the total progress
         progressCallback(Math.floor(progress * 0.3), step);
       });
-      
-      progressCallback(30, 'Analyzing audio...');
-      
-      // Extract waveform data
-      const waveform = await this.extractWaveform(audioBuffer, (progress: any) => {
-        // Map waveform extraction to 30-40% of total progress
-        progressCallback(30 + Math.floor(progress * 0.1), 'Extracting waveform...');
-      });
-      
-      // Detect beats
-      progressCallback(40, 'Detecting beats...');
-      const beatAnalysis = await this.detectBeats(audioBuffer, (progress: any) => {
-        // Map beat detection to 40-60% of total progress
-        progressCallback(40 + Math.floor(progress * 0.2), 'Detecting beats...');
-      });
-      
-      // Analyze energy levels
-      progressCallback(60, 'Analyzing energy levels...');
-      const energyAnalysis = await this.analyzeEnergy(audioBuffer, (progress: any) => {
-        // Map energy analysis to 60-80% of total progress
-        progressCallback(60 + Math.floor(progress * 0.2), 'Analyzing energy levels...');
-      });
-      
-      // Estimate tempo
-      progressCallback(80, 'Estimating tempo...');
-      const tempo = await this.estimateTempo(beatAnalysis.beats, audioBuffer.duration);
-      
-      // Detect sections
-      progressCallback(90, 'Detecting sections...');
-      const sections = await this.detectSections(energyAnalysis, beatAnalysis, audioBuffer.duration);
-      
-      progressCallback(100, 'Analysis complete');
-      
+      throwIfAborted(signal);
+
+      const analysis = canUseWorkers()
+        ? await this.analyzeInWorker(audioBuffer, progressCallback, signal)
+        : await this.analyzeBuffer(audioBuffer, progressCallback, signal);
+
+      if (contentHash) {
+        await analysisCache.set('audio', AUDIO_ANALYZER_VERSION, contentHash, {}, analysis);
+      }
+
       // Return the complete analysis
       return {
-        metadata: {
-          title: audioFile.name,
-          duration: audioBuffer.duration,
-          format: audioFile.type.split('/')[1] || 'unknown',
-          analyzedAt: new Date()
-        },
-        waveform,
-        beats: beatAnalysis,
-        tempo,
-        energy: energyAnalysis,
-        sections
+        metadata: this.describeFile(audioFile, audioBuffer.duration),
+        ...analysis
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
+
       console.error('Error analyzing audio:', error);
       
       throw new AudioProcessingError(
@@ -210,6 +230,111 @@ class AudioService {
       );
     }
   }
+
+  /**
+   * Build the metadata of an analyzed file
+   */
+  private describeFile(audioFile: File, duration: number): AudioAnalysis['metadata'] {
+    return {
+      title: audioFile.name,
+      duration,
+      format: audioFile.type.split('/')[1] || 'unknown',
+      analyzedAt: new Date()
+    };
+  }
+
+  /**
+   * Analyze decoded audio for its waveform, beats, energy, tempo and sections
+   * @param audioBuffer The decoded audio
+   * @param progressCallback Callback function to report progress, from 30% on
+   * @param signal Stops the analysis between steps, rejecting with an AbortError
+   * @returns Promise resolving to everything but the file metadata
+   */
+  async analyzeBuffer(
+    audioBuffer: AudioBuffer,
+    progressCallback: (progress: number, step: string) => void,
+    signal?: AbortSignal
+  ): Promise<BufferAnalysis> {
+    progressCallback(30, 'Analyzing audio...');
+    
+    // Extract waveform data
+    const waveform = await this.extractWaveform(audioBuffer, (progress: number) => {
+      // Map waveform extraction to 30-40% of total progress
+      progressCallback(30 + Math.floor(progress * 0.1), 'Extracting waveform...');
+    });
+    throwIfAborted(signal);
+    
+    // Detect beats
+    progressCallback(40, 'Detecting beats...');
+    const beatAnalysis = await this.detectBeats(audioBuffer, (progress: number) => {
+      // Map beat detection to 40-60% of total progress
+      progressCallback(40 + Math.floor(progress * 0.2), 'Detecting beats...');
+    });
+    throwIfAborted(signal);
+    
+    // Analyze energy levels
+    progressCallback(60, 'Analyzing energy levels...');
+    const energyAnalysis = await this.analyzeEnergy(audioBuffer, (progress: number) => {
+      // Map energy analysis to 60-80% of total progress
+      progressCallback(60 + Math.floor(progress * 0.2), 'Analyzing energy levels...');
+    });
+    throwIfAborted(signal);
+    
+    // Estimate tempo
+    progressCallback(80, 'Estimating tempo...');
+    const tempo = await this.estimateTempo(
+      beatAnalysis.beats,
+      audioBuffer.duration,
+      beatAnalysis.timeSignature
+    );
+    throwIfAborted(signal);
+    
+    // Detect sections
+    progressCallback(90, 'Detecting sections...');
+    const sections = await this.detectSections(
+      energyAnalysis,
+      beatAnalysis,
+      audioBuffer.duration,
+      audioBuffer
+    );
+    
+    progressCallback(100, 'Analysis complete');
+
+    return {
+      waveform,
+      beats: beatAnalysis,
+      tempo,
+      energy: energyAnalysis,
+      sections
+    };
+  }
+
+  /**
+   * Run analyzeBuffer in a dedicated worker, moving a copy of each channel to it
+   */
+  private analyzeInWorker(
+    audioBuffer: AudioBuffer,
+    progressCallback: (progress: number, step: string) => void,
+    signal?: AbortSignal
+  ): Promise<BufferAnalysis> {
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_: unknown, i: number) =>
+      audioBuffer.getChannelData(i).slice()
+    );
+    const worker = new Worker(
+      new URL('../workers/audioAnalysis.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    return runAnalysisWorker<AudioAnalysisRequest, BufferAnalysis>(
+      worker,
+      { channels, sampleRate: audioBuffer.sampleRate },
+      {
+        transfer: channels.map((channel: Float32Array) => channel.buffer),
+        onProgress: progressCallback,
+        signal
+      }
+    );
+  }
   
   /**
    * Extract waveform data from an audio buffer
@@ -290,6 +415,9 @@ class AudioService {
   
   /**
    * Detect beats in an audio buffer
+   *
+   * Beats are tracked on a spectral-flux onset envelope and labelled with their
+   * bar and position in the bar; see utils/beatTracking.
    * @param audioBuffer The audio buffer to analyze
    * @param progressCallback Optional callback for progress updates
    * @returns Promise resolving to beat analysis data
@@ -298,82 +426,17 @@ class AudioService {
     audioBuffer: AudioBuffer,
     progressCallback?: (progress: number) => void
   ): Promise<BeatAnalysis> {
-    // Get the audio data from the first channel
-    const channelData = audioBuffer.getChannelData(0);
-    const sampleRate = audioBuffer.sampleRate;
-    
-    // Calculate the window size (50ms)
-    const windowSize = Math.floor(sampleRate * 0.05);
-    
-    // Calculate the number of windows
-    const numWindows = Math.floor(channelData.length / windowSize);
-    
-    // Initialize arrays for energy and beat detection
-    const energyHistory: number[] = [];
-    const beats: Beat[] = [];
-    
-    // Calculate the energy threshold multiplier (adjust sensitivity)
-    const energyThreshold = 1.5;
-    const minEnergyThreshold = 0.01;
-    
-    // Initialize variables for beat detection
-    let recentEnergy: number[] = [];
-    const recentEnergyMax = 30; // Number of recent energy values to consider
-    
-    // Process each window
-    for (let i = 0; i < numWindows; i++) {
-      // Report progress every 5% of windows
-      if (progressCallback && i % Math.floor(numWindows / 20) === 0) {
-        progressCallback((i / numWindows) * 100);
-      }
-      
-      // Calculate the energy for this window
-      let energy = 0;
-      for (let j = 0; j < windowSize && i * windowSize + j < channelData.length; j++) {
-        energy += Math.pow(channelData[i * windowSize + j], 2);
-      }
-      energy = Math.sqrt(energy / windowSize);
-      
-      // Add to energy history
-      energyHistory.push(energy);
-      
-      // Add to recent energy array
-      recentEnergy.push(energy);
-      if (recentEnergy.length > recentEnergyMax) {
-        recentEnergy.shift();
-      }
-      
-      // Calculate the average energy of recent windows
-      const averageEnergy = recentEnergy.reduce((sum: any, e: any) => sum + e, 0) / recentEnergy.length;
-      
-      // Check if this window contains a beat
-      if (
-        energy > averageEnergy * energyThreshold &&
-        energy > minEnergyThreshold &&
-        i > recentEnergyMax // Skip the first few windows
-      ) {
-        // Calculate the time of the beat
-        const time = (i * windowSize) / sampleRate;
-        
-        // Calculate confidence based on how much the energy exceeds the threshold
-        const confidence = Math.min(1.0, (energy / (averageEnergy * energyThreshold)));
-        
-        // Add to beats array
-        beats.push({ time, confidence });
-      }
-    }
-    
-    // Calculate average confidence
-    const averageConfidence = beats.length > 0
-      ? beats.reduce((sum: any, beat: any) => sum + beat.confidence, 0) / beats.length
-      : 0;
-    
-    // Final progress update
-    progressCallback?.(100);
-    
+    const { beats, averageConfidence, timeSignature } = trackBeats(
+      mixToMono(audioBuffer),
+      audioBuffer.sampleRate,
+      {},
+      progressCallback
+    );
+
     return {
       beats,
-      averageConfidence
+      averageConfidence,
+      timeSignature
     };
   }
   
@@ -473,14 +536,19 @@ class AudioService {
    * Estimate tempo from beat data
    * @param beats Array of detected beats
    * @param duration Duration of the audio in seconds
+   * @param timeSignature Time signature found by beat tracking (default: 4/4)
    * @returns Promise resolving to tempo information
    */
-  async estimateTempo(beats: Beat[], duration: number): Promise<Tempo> {
+  async estimateTempo(
+    beats: Beat[],
+    duration: number,
+    timeSignature: Tempo['timeSignature'] = { numerator: 4, denominator: 4 }
+  ): Promise<Tempo> {
     // If we don't have enough beats, return a default tempo
     if (beats.length < 4) {
       return {
         bpm: 120,
-        timeSignature: { numerator: 4, denominator: 4 },
+        timeSignature,
         confidence: 0.5,
         isStable: true
       };
@@ -501,7 +569,7 @@ class AudioService {
     if (filteredIntervals.length < 3) {
       return {
         bpm: 120,
-        timeSignature: { numerator: 4, denominator: 4 },
+        timeSignature,
         confidence: 0.5,
         isStable: true
       };
@@ -522,68 +590,26 @@ class AudioService {
     const variance = filteredIntervals.reduce((sum: any, interval: any) => sum + Math.pow(interval - mean, 2), 0) / filteredIntervals.length;
     const stdDev = Math.sqrt(variance);
     
-    // Calculate coefficient of variation (CV) to determine stability
+    // Calculate coefficient of variation (CV) to determine consistency
     const cv = stdDev / mean;
-    const isStable = cv < 0.2; // If CV is less than 20%, consider the tempo stable
+    
+    // The tempo is stable if one tempo fits every beat
+    const tempoMap = createTempoMap(beats.map((beat: Beat) => beat.time));
+    const isStable = tempoMap.segments.length <= 1;
     
     // Calculate confidence based on the number of beats and their consistency
     const beatCoverage = beats.length / (duration / (60 / roundedBpm));
     const consistency = 1 - Math.min(1, cv);
     const confidence = Math.min(1.0, (beatCoverage * 0.5) + (consistency * 0.5));
     
-    // Determine tempo variations if not stable
-    let variations = undefined;
-    if (!isStable) {
-      // Divide the audio into segments and calculate BPM for each segment
-      const segmentDuration = 15; // 15 seconds per segment
-      const numSegments = Math.ceil(duration / segmentDuration);
-      
-      variations = [];
-      
-      for (let i = 0; i < numSegments; i++) {
-        const startTime = i * segmentDuration;
-        const endTime = Math.min((i + 1) * segmentDuration, duration);
-        
-        // Get beats in this segment
-        const segmentBeats = beats.filter((beat: any) => beat.time >= startTime && beat.time < endTime);
-        
-        if (segmentBeats.length >= 4) {
-          // Calculate intervals for this segment
-          const segmentIntervals: number[] = [];
-          for (let j = 1; j < segmentBeats.length; j++) {
-            segmentIntervals.push(segmentBeats[j].time - segmentBeats[j - 1].time);
-          }
-          
-          // Filter out outliers
-          const filteredSegmentIntervals = segmentIntervals.filter((interval: any) => 
-            interval >= 0.2 && interval <= 2.0
-          );
-          
-          if (filteredSegmentIntervals.length >= 3) {
-            // Calculate the median interval for this segment
-            filteredSegmentIntervals.sort((a: any, b: any) => a - b);
-            const segmentMedianInterval = filteredSegmentIntervals[Math.floor(filteredSegmentIntervals.length / 2)];
-            
-            // Convert to BPM
-            const segmentBpm = 60 / segmentMedianInterval;
-            
-            // Round to nearest integer and ensure it's in a reasonable range
-            const roundedSegmentBpm = Math.max(60, Math.min(200, Math.round(segmentBpm)));
-            
-            variations.push({
-              startTime,
-              bpm: roundedSegmentBpm
-            });
-          }
-        }
-      }
-    }
+    // Report each tempo of the tempo map if there is more than one
+    const variations = isStable
+      ? undefined
+      : tempoMap.segments.map(({ startTime, bpm }: TempoSegment) => ({ startTime, bpm }));
     
-    // For simplicity, assume 4/4 time signature
-    // In a real app, you would analyze beat patterns to determine the time signature
     return {
       bpm: roundedBpm,
-      timeSignature: { numerator: 4, denominator: 4 },
+      timeSignature,
       confidence,
       isStable,
       variations
@@ -595,13 +621,26 @@ class AudioService {
    * @param energyAnalysis Energy analysis data
    * @param beatAnalysis Beat analysis data
    * @param duration Duration of the audio in seconds
+   * @param audioBuffer Decoded audio; when given, sections are found by
+   *   self-similarity and labelled intro, verse, chorus, bridge or outro
    * @returns Promise resolving to section analysis data
    */
   async detectSections(
     energyAnalysis: EnergyAnalysis,
     beatAnalysis: BeatAnalysis,
-    duration: number
+    duration: number,
+    audioBuffer?: AudioBuffer
   ): Promise<any> {
+    if (audioBuffer) {
+      return {
+        sections: segmentStructure(
+          mixToMono(audioBuffer),
+          audioBuffer.sampleRate,
+          beatAnalysis.beats.map((beat: Beat) => beat.time)
+        )
+      };
+    }
+
     // This is a simplified section detection algorithm
     // In a real app, you would use more sophisticated algorithms
     
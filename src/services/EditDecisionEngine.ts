@@ -1,23 +1,40 @@
-import { VideoAnalysis, ClipType, TimelineMarker, MarkerType } from '../types/video-types';
+import { VideoAnalysis, ClipType, TimelineMarker, MarkerType, Scene } from '../types/video-types';
 import { 
   Beat, 
   AudioSegment, 
   AudioAnalysis 
 } from '../types/audio-types'; // You may need to create or update this file
+import {
+  AudioAnalysis as ServiceAudioAnalysis,
+  EnergySample
+} from '../types/AudioAnalysis';
 import { 
   EditDecision, 
   EditPoint, 
   TransitionType, 
   EditStyle, 
   ProjectSettings, 
+  SceneType,
   VideoClipAssignment,
   EditDecisionEngineEvents
 } from '../types/edit-types'; // You may need to create this file
 
+import { getBeatsPerBar } from '../utils/audioSync';
+import { hashBytes } from '../utils/contentHash';
+import { CutPlacement, planCuts, sceneEnergy } from '../utils/cutPlanner';
+import { sectionsToSegments } from '../utils/structureSegmentation';
+
 // Import the services
+import analysisCache from './AnalysisCache';
 import AudioService from './AudioService';
 import VideoService from './VideoService';
 
+/**
+ * Version of the edit generation; bump it when a change alters the decisions,
+ * so decisions cached by an earlier version are worked out again
+ */
+export const EDIT_ENGINE_VERSION = 3;
+
 /**
  * EditDecisionEngine generates automatic edits based on audio and video analysis
  */
@@ -93,16 +110,21 @@ export class EditDecisionEngine {
         throw new Error('No video analyses available for edit decisions');
       }
       
-      // Assign clips to each cut point
+      // Calculate clip durations
+      const durations = cutPoints.map((cutPoint: EditPoint, i: number) =>
+        cutPoints[i + 1] ? cutPoints[i + 1].time - cutPoint.time : 2.0
+      );
+      
+      // Assign clips to every cut point at once
+      const clipAssignments = this.planClips(cutPoints, durations, videoPool, settings);
+      
       for (let i = 0; i < cutPoints.length; i++) {
         const cutPoint = cutPoints[i];
-        const nextCutPoint = cutPoints[i + 1] || null;
-        
-        // Calculate clip duration
-        const duration = nextCutPoint ? nextCutPoint.time - cutPoint.time : 2.0;
+        const duration = durations[i];
+        const clipAssignment = clipAssignments[i];
         
-        // Find best matching clip
-        const clipAssignment = await this.findBestClip(cutPoint, videoPool, duration);
+        // Cuts no clip is left for are skipped, leaving a gap
+        if (!clipAssignment) continue;
         
         // Determine transition type
         const transition = this.determineTransition(cutPoint, settings);
@@ -163,6 +185,9 @@ export class EditDecisionEngine {
 
   /**
    * Analyze audio file and generate edit decisions
+   *
+   * Decisions are cached by the content of the files and the settings, so
+   * reopening the same media with the same settings gives the same edit.
    * @param audioFile The audio file to analyze
    * @param videoFiles Array of video files to analyze
    * @param settings Project settings
@@ -198,6 +223,7 @@ export class EditDecisionEngine {
       });
 
       const videoAnalyses: Record<string, VideoAnalysis> = {};
+      const videoIds: string[] = [];
       
       for (let i = 0; i < videoFiles.length; i++) {
         const videoFile = videoFiles[i];
@@ -209,6 +235,7 @@ export class EditDecisionEngine {
 
         const videoAnalysis = await this.videoService.analyzeVideo(videoFile);
         videoAnalyses[videoAnalysis.videoId] = videoAnalysis;
+        videoIds.push(videoAnalysis.videoId);
       }
 
       // Step 3: Generate edit decisions
@@ -217,7 +244,44 @@ export class EditDecisionEngine {
         progress: 0.7
       });
 
-      return this.generateEditDecisions(audioAnalysis, videoAnalyses, settings);
+      // Video IDs change every session, so cached decisions refer to each
+      // video by its content hash instead
+      const [audioHash, ...videoHashes] = await Promise.all(
+        [audioFile, ...videoFiles].map((file: File) => analysisCache.contentHash(file))
+      );
+      const mediaHash =
+        audioHash && videoHashes.every(Boolean)
+          ? hashBytes(new TextEncoder().encode([audioHash, ...videoHashes].join('\n')))
+          : null;
+      const contentIds = videoHashes as string[];
+
+      if (mediaHash) {
+        const cached = await analysisCache.get<EditDecision[]>(
+          'edit',
+          EDIT_ENGINE_VERSION,
+          mediaHash,
+          settings
+        );
+        if (cached) return this.remapVideoIds(cached, contentIds, videoIds);
+      }
+
+      const decisions = await this.generateEditDecisions(
+        this.toEditAnalysis(audioAnalysis),
+        videoAnalyses,
+        settings
+      );
+
+      if (mediaHash) {
+        await analysisCache.set(
+          'edit',
+          EDIT_ENGINE_VERSION,
+          mediaHash,
+          settings,
+          this.remapVideoIds(decisions, videoIds, contentIds)
+        );
+      }
+
+      return decisions;
     } catch (error) {
       console.error('Error analyzing and generating decisions:', error);
       
@@ -231,6 +295,34 @@ export class EditDecisionEngine {
     }
   }
   
+  /**
+   * Swaps the video each decision cuts to from one set of IDs to another
+   */
+  private remapVideoIds(decisions: EditDecision[], from: string[], to: string[]): EditDecision[] {
+    return decisions.map((decision: EditDecision & { videoId?: string }) => {
+      const index = from.indexOf(decision.videoId ?? '');
+      return index === -1 ? decision : { ...decision, videoId: to[index] };
+    });
+  }
+
+  /**
+   * Converts AudioService results to the analysis the cut generators read,
+   * so labelled sections become segments they can cut on
+   */
+  private toEditAnalysis(analysis: ServiceAudioAnalysis): AudioAnalysis {
+    return {
+      duration: analysis.metadata.duration,
+      tempo: analysis.tempo.bpm,
+      timeSignature: analysis.tempo.timeSignature,
+      beats: analysis.beats.beats,
+      segments: sectionsToSegments(analysis.sections.sections),
+      energyPoints: analysis.energy.samples.map((sample: EnergySample) => ({
+        time: sample.time,
+        energy: sample.level
+      }))
+    };
+  }
+
   /**
    * Creates a cache key from analysis objects and settings
    */
@@ -302,11 +394,11 @@ export class EditDecisionEngine {
     }
     
     const beats = audioAnalysis.beats;
-    const beatGroupSize = this.determineBeatGroupSize(audioAnalysis.tempo);
+    const beatGroupSize = this.determineBeatGroupSize(audioAnalysis);
     
-    // Start with higher importance on strong beats (typically first beat in a measure)
+    // Start with higher importance on strong beats (the first beat in a measure)
     for (let i = 0; i < beats.length; i++) {
-      if (i % beatGroupSize === 0) { // Every X beats (based on time signature)
+      if (this.isBarStart(beats, i, beatGroupSize, 1)) {
         const beat = beats[i];
         
         // Skip if too close to an existing cut point
@@ -472,10 +564,10 @@ export class EditDecisionEngine {
     // Add some cuts on strong beats
     if (audioAnalysis.beats && audioAnalysis.beats.length > 0) {
       const beats = audioAnalysis.beats;
-      const beatGroupSize = this.determineBeatGroupSize(audioAnalysis.tempo);
+      const beatGroupSize = this.determineBeatGroupSize(audioAnalysis);
       
       for (let i = 0; i < beats.length; i++) {
-        if (i % (beatGroupSize * 2) === 0) { // Every two measures for cinematic style
+        if (this.isBarStart(beats, i, beatGroupSize, 2)) { // Every two measures for cinematic style
           const beat = beats[i];
           
           // Skip if too close to an existing cut point
@@ -585,7 +677,7 @@ export class EditDecisionEngine {
     }
     
     const beats = audioAnalysis.beats;
-    const beatGroupSize = this.determineBeatGroupSize(audioAnalysis.tempo);
+    const beatGroupSize = this.determineBeatGroupSize(audioAnalysis);
     
     // Find beats within this segment
     const segmentBeats = beats.filter((beat: any) => 
@@ -594,7 +686,7 @@ export class EditDecisionEngine {
     
     // Add cuts on some beats (not all, to avoid too many cuts)
     for (let i = 0; i < segmentBeats.length; i++) {
-      if (i % (beatGroupSize * 2) === 0) { // Every two measures
+      if (this.isBarStart(segmentBeats, i, beatGroupSize, 2)) { // Every two measures
         const beat = segmentBeats[i];
         
         // Skip if too close to an existing cut point
@@ -626,10 +718,10 @@ export class EditDecisionEngine {
     }
     
     const beats = audioAnalysis.beats;
-    const beatGroupSize = this.determineBeatGroupSize(audioAnalysis.tempo);
+    const beatGroupSize = this.determineBeatGroupSize(audioAnalysis);
     
     for (let i = 0; i < beats.length; i++) {
-      if (i % beatGroupSize === 0 && Math.random() < probability) {
+      if (this.isBarStart(beats, i, beatGroupSize, 1) && Math.random() < probability) {
         const beat = beats[i];
         
         // Skip if too close to an existing cut point
@@ -652,13 +744,25 @@ export class EditDecisionEngine {
   }
   
   /**
-   * Determine beat group size based on tempo (time signature estimation)
+   * Determine beat group size from the detected time signature (4/4 if none)
+   */
+  private determineBeatGroupSize(audioAnalysis: AudioAnalysis): number {
+    return getBeatsPerBar(audioAnalysis.timeSignature);
+  }
+  
+  /**
+   * Check whether a beat starts a group of bars
+   *
+   * Beats labelled by beat tracking are grouped by their bar numbers, so cuts
+   * land on the one even after a pickup; otherwise bars are counted from the
+   * first beat in the list.
    */
-  private determineBeatGroupSize(tempo: number): number {
-    // Simple heuristic for beat grouping based on tempo
-    // Typically 4 beats per measure (4/4 time), but could adjust for other time signatures
-    if (tempo <= 90) return 3; // Might be 3/4 time for slower tempos
-    return 4; // 4/4 time (most common)
+  private isBarStart(beats: Beat[], index: number, beatGroupSize: number, bars: number): boolean {
+    const beat = beats[index];
+    if (beat.beatInBar !== undefined && beat.bar !== undefined) {
+      return beat.beatInBar === 1 && (beat.bar - 1) % bars === 0;
+    }
+    return index % (beatGroupSize * bars) === 0;
   }
   
   /**
@@ -711,114 +815,120 @@ export class EditDecisionEngine {
       throw new Error('No videos available to assign to cut point');
     }
     
-    // Calculate scores for each possible clip
-    const candidates: Array<VideoClipAssignment & { score: number }> = [];
+    const [clipAssignment] = this.planClips([cutPoint], [duration], videoPool);
+    if (!clipAssignment) {
+      throw new Error('No scenes available to assign to cut point');
+    }
     
-    for (const { analysis, videoId } of videoPool) {
-      // Check each scene in this video
-      for (const scene of analysis.scenes) {
-        // Skip scenes that are too short
-        if (scene.duration < duration) {
-          continue;
-        }
-        
-        // Calculate a score for this scene
-        let score = 0;
-        
-        // Factors that affect the score:
-        
-        // 1. Matching energy level
-        const sceneIndex = analysis.scenes.indexOf(scene);
-        const contentAnalysis = analysis.contentAnalysis[sceneIndex];
-        const sceneEnergy = analysis.motionData.motionByFrame.find(
-          (mf: any) => mf.time >= scene.startTime && mf.time < scene.endTime
-        )?.motionAmount || 0;
-        
-        // Normalize scene energy to 0-1 range
-        const normalizedSceneEnergy = Math.min(sceneEnergy / 10, 1);
-        
-        // Energy match score - closer values get higher scores
-        const energyMatchScore = 1 - Math.abs(cutPoint.energy - normalizedSceneEnergy);
-        score += energyMatchScore * 2; // Energy is important, so double weight
-        
-        // 2. Content type matching
-        if (cutPoint.inSegment) {
-          // Different content types work better for different segment types
-          if (cutPoint.inSegment.type === 'chorus' && analysis.clipType === ClipType.PERFORMANCE) {
-            score += 2; // Performance clips work well for chorus sections
-          } else if (cutPoint.inSegment.type === 'verse' && analysis.clipType === ClipType.B_ROLL_STATIC) {
-            score += 1.5; // Static b-roll works well for verses
-          } else if (cutPoint.inSegment.type === 'bridge' && analysis.clipType === ClipType.B_ROLL_DYNAMIC) {
-            score += 1.5; // Dynamic b-roll works well for bridges
-          }
-        }
-        
-        // 3. Bonus for action content on high-energy points
-        if (cutPoint.energy > 0.7 && analysis.clipType === ClipType.ACTION) {
-          score += 1.5;
-        }
-        
-        // 4. Scene length bonus - slightly prefer scenes that are closer to desired duration
-        const durationRatio = Math.min(scene.duration / duration, 2);
-        score += (1 - Math.abs(1 - durationRatio)) * 0.5;
-        
-        // 5. Faces presence - prefer faces for important cuts
-        if (contentAnalysis.hasFaces && cutPoint.importance > 0.7) {
-          score += 1;
-        }
-        
-        // Store candidate with score
-        candidates.push({
-          videoId,
-          sceneId: scene.id,
-          clipStartTime: scene.startTime,
-          score
-        });
+    return clipAssignment;
+  }
+  
+  /**
+   * Assigns a clip to every cut point at once with the cut planner
+   *
+   * Scenes are scored for matching the energy of each cut and for suiting
+   * it (see scoreClip), and spread across the edit rather than repeated.
+   * The editing mode settings cap how often a scene is used and keep each
+   * video in chronological order.
+   * @param cutPoints Cut points in timeline order
+   * @param durations Duration of the clip at each cut point
+   * @param videoPool Available video analyses
+   * @param settings Project settings
+   * @returns The clip assigned to each cut point, or null where none is left
+   */
+  private planClips(
+    cutPoints: EditPoint[],
+    durations: number[],
+    videoPool: { analysis: VideoAnalysis, videoId: string }[],
+    settings?: ProjectSettings
+  ): Array<VideoClipAssignment | null> {
+    const slots = cutPoints.map((cutPoint: EditPoint, i: number) => ({
+      cutPoint,
+      time: cutPoint.time,
+      duration: durations[i],
+      energy: cutPoint.energy
+    }));
+    
+    const candidates = videoPool.flatMap(({ analysis, videoId }) =>
+      analysis.scenes.map((scene: Scene, sceneIndex: number) => ({
+        analysis,
+        scene,
+        videoId,
+        sceneIndex,
+        start: scene.startTime,
+        end: scene.endTime,
+        energy: sceneEnergy(analysis.motionData.motionByFrame, scene.startTime, scene.endTime)
+      }))
+    );
+    
+    const plan = planCuts(slots, candidates, {
+      maxUses: settings?.editingMode?.maxClipUses,
+      maintainChronology: settings?.editingMode?.maintainChronology,
+      affinity: (slot, candidate) =>
+        this.scoreClip(slot.cutPoint, candidate.analysis, candidate.sceneIndex, slot.duration)
+    });
+    
+    return plan.map((placement: CutPlacement<typeof candidates[number]> | null) => placement && {
+      videoId: placement.candidate.videoId,
+      sceneId: placement.candidate.scene.id,
+      clipStartTime: placement.start
+    });
+  }
+  
+  /**
+   * Scores how well a scene suits a cut point, besides matching its energy
+   * @param cutPoint The cut point
+   * @param analysis Analysis of the scene's video
+   * @param sceneIndex Index of the scene
+   * @param duration Desired clip duration
+   * @returns Score to add to the scene's energy match
+   */
+  private scoreClip(
+    cutPoint: EditPoint,
+    analysis: VideoAnalysis,
+    sceneIndex: number,
+    duration: number
+  ): number {
+    const scene = analysis.scenes[sceneIndex];
+    const contentAnalysis = analysis.contentAnalysis[sceneIndex];
+    let score = 0;
+    
+    // 1. Content type matching
+    if (cutPoint.inSegment) {
+      // Different content types work better for different segment types
+      if (cutPoint.inSegment.type === 'chorus' && analysis.clipType === ClipType.PERFORMANCE) {
+        score += 2; // Performance clips work well for chorus sections
+      } else if (cutPoint.inSegment.type === 'verse' && analysis.clipType === ClipType.B_ROLL_STATIC) {
+        score += 1.5; // Static b-roll works well for verses
+      } else if (cutPoint.inSegment.type === 'bridge' && analysis.clipType === ClipType.B_ROLL_DYNAMIC) {
+        score += 1.5; // Dynamic b-roll works well for bridges
       }
     }
     
-    // Sort candidates by score (descending)
-    candidates.sort((a: any, b: any) => b.score - a.score);
+    // 2. Bonus for action content on high-energy points
+    if (cutPoint.energy > 0.7 && analysis.clipType === ClipType.ACTION) {
+      score += 1.5;
+    }
     
-    // Return the best match, or a random one if no good matches
-    if (candidates.length > 0) {
-      // Add some randomness to prevent always choosing the same clips
-      const topCandidates = candidates.slice(0, Math.min(3, candidates.length));
-      const selectedIndex = Math.floor(Math.random() * topCandidates.length);
-      
-      const { videoId, sceneId, clipStartTime } = topCandidates[selectedIndex];
-      return { videoId, sceneId, clipStartTime };
-    } else {
-      // Fallback: use a random scene from a random video
-      const randomVideoIndex = Math.floor(Math.random() * videoPool.length);
-      const { analysis, videoId } = videoPool[randomVideoIndex];
-      
-      // Find any scene that's long enough
-      const validScenes = analysis.scenes.filter((scene: any) => scene.duration >= duration);
-      
-      if (validScenes.length > 0) {
-        const randomSceneIndex = Math.floor(Math.random() * validScenes.length);
-        const scene = validScenes[randomSceneIndex];
-        
-        return {
-          videoId,
-          sceneId: scene.id,
-          clipStartTime: scene.startTime
-        };
-      } else {
-        // Last resort: use the longest scene from the random video
-        const longestScene = analysis.scenes.reduce(
-          (longest: any, current: any) => current.duration > longest.duration ? current : longest,
-          analysis.scenes[0]
-        );
-        
-        return {
-          videoId,
-          sceneId: longestScene.id,
-          clipStartTime: longestScene.startTime
-        };
-      }
+    // 3. Scene length bonus - slightly prefer scenes that are closer to desired duration
+    const durationRatio = Math.min(scene.duration / duration, 2);
+    score += (1 - Math.abs(1 - durationRatio)) * 0.5;
+    
+    // 4. Faces presence - prefer faces for important cuts
+    if (contentAnalysis?.hasFaces && cutPoint.importance > 0.7) {
+      score += 1;
+    }
+    
+    // 5. Close-ups - land them on the chorus hits
+    if (
+      contentAnalysis?.shotSize === SceneType.CLOSEUP &&
+      cutPoint.inSegment?.type === 'chorus' &&
+      cutPoint.importance > 0.7
+    ) {
+      score += 1.5;
     }
+    
+    return score;
   }
   
   /**
@@ -882,6 +992,9 @@ export class EditDecisionEngine {
   
   /**
    * Optimize edit decisions for better flow and pacing
+   *
+   * Repeats and chronology are settled when planClips chooses the clips, so
+   * this only balances transitions and evens out clip durations.
    * @param decisions Initial edit decisions
    * @returns Optimized edit decisions
    */
@@ -892,21 +1005,7 @@ export class EditDecisionEngine {
     
     const optimized = [...decisions];
     
-    // TODO: Implement more sophisticated optimization logic
-    
-    // 1. Avoid using the same scene back-to-back
-    for (let i = 1; i < optimized.length; i++) {
-      const prev = optimized[i - 1];
-      const current = optimized[i];
-      
-      if (current.videoId === prev.videoId && current.sceneId === prev.sceneId) {
-        // If we have the same scene twice in a row, try to find an alternative
-        // For now, just log this issue
-        console.warn('Same scene used back-to-back in edit decisions');
-      }
-    }
-    
-    // 2. Balance transition types
+    // 1. Balance transition types
     let cutCount = 0;
     let dissolveCount = 0;
     let otherCount = 0;
@@ -936,7 +1035,7 @@ export class EditDecisionEngine {
       }
     }
     
-    // 3. Ensure consistent pacing
+    // 2. Ensure consistent pacing
     // Calculate average clip duration
     const totalDuration = optimized.reduce((sum: any, decision: any) => sum + decision.duration, 0);
     const avgDuration = totalDuration / optimized.length;
@@ -1,14 +1,22 @@
 // src/services/EditService.ts
 
+import type { ExportEditDecision, TimelineExportFormat, XMLExportSettings } from '../utils/xmlGenerators';
+import { CutCandidate, CutPlacement, CutSlot, planCuts, sceneEnergy } from '../utils/cutPlanner';
+
 /**
  * Service for generating and managing edit decisions
  */
 class EditService {
   /**
    * Generate edit decisions based on audio and video analyses
+   *
+   * Each segment of the music is a cut, and every cut is filled at once by
+   * the cut planner, matching the energy of each scene to its segment and
+   * spreading the scenes across the edit.
    * @param audioAnalysis The audio analysis data
    * @param videoAnalyses The video analyses data
-   * @param settings The editing settings
+   * @param settings The editing settings; editingMode caps how often a scene
+   *   is used and keeps each video in chronological order
    * @returns Array of edit decisions
    */
   static generateEditDecisions(
@@ -16,47 +24,54 @@ class EditService {
     videoAnalyses: Record<string, any>,
     settings: any
   ): any[] {
-    // This is a placeholder implementation
-    // In a real app, this would use a sophisticated algorithm to match video scenes to audio beats
-    
-    const editDecisions = [];
-    let currentTime = 0;
-    
     // Get all video IDs
     const videoIds = Object.keys(videoAnalyses);
     if (videoIds.length === 0) return [];
     
     // Use audio beats to determine edit points
-    if (audioAnalysis && audioAnalysis.beats && audioAnalysis.beats.length > 0) {
-      // For each beat or segment, create an edit decision
-      const segments = audioAnalysis.segments || [];
-      
-      for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i];
-        
-        // Select a random video
-        const videoId = videoIds[Math.floor(Math.random() * videoIds.length)];
-        const videoAnalysis = videoAnalyses[videoId];
-        
-        // Select a random scene from the video
-        const scenes = videoAnalysis.scenes || [];
-        if (scenes.length === 0) continue;
-        
-        const sceneIndex = Math.floor(Math.random() * scenes.length);
-        const scene = scenes[sceneIndex];
-        
-        // Create an edit decision
-        editDecisions.push({
-          time: currentTime,
+    if (!audioAnalysis || !audioAnalysis.beats || audioAnalysis.beats.length === 0) return [];
+    
+    // Each segment is a slot on the timeline
+    const slots: CutSlot[] = [];
+    let currentTime = 0;
+    (audioAnalysis.segments || []).forEach((segment: { duration: number; energyLevel?: number }) => {
+      slots.push({ time: currentTime, duration: segment.duration, energy: segment.energyLevel ?? 0.5 });
+      currentTime += segment.duration;
+    });
+    
+    // Every scene of every video can fill any slot
+    const candidates: CutCandidate[] = [];
+    videoIds.forEach((videoId: string) => {
+      const videoAnalysis = videoAnalyses[videoId];
+      (videoAnalysis.scenes || []).forEach((scene: { start: number; duration: number }, sceneIndex: number) => {
+        const end = scene.start + scene.duration;
+        candidates.push({
           videoId,
           sceneIndex,
           start: scene.start,
-          duration: segment.duration
+          end,
+          energy: sceneEnergy(videoAnalysis.motionData?.motionByFrame || [], scene.start, end)
         });
-        
-        currentTime += segment.duration;
-      }
-    }
+      });
+    });
+    
+    const plan = planCuts(slots, candidates, {
+      maxUses: settings?.editingMode?.maxClipUses,
+      maintainChronology: settings?.editingMode?.maintainChronology
+    });
+    
+    // Slots no scene is left for stay empty
+    const editDecisions: ExportEditDecision[] = [];
+    plan.forEach((placement: CutPlacement | null, i: number) => {
+      if (!placement) return;
+      editDecisions.push({
+        time: slots[i].time,
+        videoId: placement.candidate.videoId,
+        sceneIndex: placement.candidate.sceneIndex,
+        start: placement.start,
+        duration: slots[i].duration
+      });
+    });
     
     return editDecisions;
   }
@@ -83,27 +98,33 @@ class EditService {
   }
   
   /**
-   * Generate an XML file for export to editing software
+   * Generate an XML, EDL or OTIO file for export to editing software
    * @param editDecisions The edit decisions
    * @param videoFiles The video files
    * @param audioFile The audio file
-   * @param format The export format ('premiere' or 'fcpx')
+   * @param format The export format ('premiere', 'fcpx', 'edl' or 'resolve')
    * @param progressCallback Optional callback for reporting progress
-   * @returns Promise resolving to XML string
+   * @param exportSettings Optional frame rate and source clip settings
+   * @returns Promise resolving to the exported text
    */
   static async generateExportXML(
     editDecisions: any[],
     videoFiles: Record<string, File>,
     audioFile: File | null,
-    format: 'premiere' | 'fcpx',
-    progressCallback?: (progress: number, message: string) => void
+    format: TimelineExportFormat,
+    progressCallback?: (progress: number, message: string) => void,
+    exportSettings: XMLExportSettings = {}
   ): Promise<string> {
     // Import the XML generators
     const { 
       generatePremiereXML, 
       generateFinalCutXML, 
+      resolveSequenceFrameRate,
       validateExportSettings 
     } = await import('../utils/xmlGenerators');
+    const { createEDLFromEditDecisions, generateCMX3600EDL } = await import('../utils/edlGenerators');
+    const { generateOTIO } = await import('../utils/otioGenerators');
+    const { frameRateToFps } = await import('../utils/timecode');
     
     // Validate export settings
     const validation = validateExportSettings(editDecisions, videoFiles, audioFile, format);
@@ -138,12 +159,44 @@ class EditService {
         if (progressCallback) {
           progressCallback(70, 'Creating Premiere Pro XML...');
         }
-        xml = generatePremiereXML(editDecisions, videoFiles, audioFile, {});
+        xml = generatePremiereXML(editDecisions, videoFiles, audioFile, exportSettings);
+      } else if (format === 'edl') {
+        if (progressCallback) {
+          progressCallback(70, 'Creating CMX3600 EDL...');
+        }
+        const rate = resolveSequenceFrameRate(editDecisions, exportSettings);
+        const edl = createEDLFromEditDecisions(
+          editDecisions,
+          videoFiles,
+          audioFile,
+          frameRateToFps(rate),
+          exportSettings.videoMetadata,
+          exportSettings.audioMetadata
+        );
+        xml = generateCMX3600EDL(edl, { dropFrame: exportSettings.dropFrame });
+      } else if (format === 'resolve') {
+        if (progressCallback) {
+          progressCallback(70, 'Creating DaVinci Resolve timeline...');
+        }
+        const rate = resolveSequenceFrameRate(editDecisions, exportSettings);
+        const edl = createEDLFromEditDecisions(
+          editDecisions,
+          videoFiles,
+          audioFile,
+          frameRateToFps(rate),
+          exportSettings.videoMetadata,
+          exportSettings.audioMetadata
+        );
+        edl.cutPoints = exportSettings.markers ?? [];
+        xml = generateOTIO(edl, {
+          mediaRoot: exportSettings.mediaRoot,
+          videoMetadata: exportSettings.videoMetadata
+        });
       } else {
         if (progressCallback) {
           progressCallback(70, 'Creating Final Cut Pro XML...');
         }
-        xml = generateFinalCutXML(editDecisions, videoFiles, audioFile, {});
+        xml = generateFinalCutXML(editDecisions, videoFiles, audioFile, exportSettings);
       }
       
       // Simulate final processing
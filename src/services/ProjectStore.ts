@@ -0,0 +1,340 @@
+// src/services/ProjectStore.ts
+
+import type { PersistedProjectState, PersistedWorkflowState } from '../utils/projectSnapshot';
+import { completion, promisify } from '../utils/indexedDb';
+import { mediaKey } from '../utils/projectSnapshot';
+
+/**
+ * A project as it is saved in the store
+ */
+export interface StoredProject {
+  id: string;
+  name: string;
+  status: 'in-progress' | 'completed';
+  createdAt: Date;
+  updatedAt: Date;
+  /** State saved from ProjectContext */
+  project?: PersistedProjectState;
+  /** State saved from WorkflowContext */
+  workflow?: PersistedWorkflowState;
+  /** Keys of the media either snapshot refers to */
+  mediaKeys: string[];
+}
+
+/**
+ * The part of a project shown in the recent projects list
+ */
+export type ProjectSummary = Pick<StoredProject, 'id' | 'name' | 'status' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A file handle from the File System Access API, with the permission methods
+ * that are not yet in the DOM typings
+ */
+interface PermissionedFileHandle {
+  kind: 'file';
+  getFile(): Promise<File>;
+  queryPermission?(descriptor: { mode: 'read' }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: 'read' }): Promise<PermissionState>;
+}
+
+/**
+ * A media file as it is saved in the store
+ *
+ * Files picked through the File System Access API are kept as their handle,
+ * which stays valid across reloads; other files are copied in as a blob.
+ */
+interface StoredMedia {
+  key: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  handle?: PermissionedFileHandle;
+  blob?: Blob;
+}
+
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const SUMMARIES = 'summaries';
+const MEDIA = 'media';
+
+/**
+ * Persists projects and their media to IndexedDB
+ */
+export class ProjectStore {
+  private dbName: string;
+  private factory: IDBFactory | undefined;
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates a project store
+   * @param dbName Name of the IndexedDB database
+   * @param factory IndexedDB implementation (default: the browser's)
+   */
+  constructor(
+    dbName: string = 'cineflux-projects',
+    factory: IDBFactory | undefined = typeof indexedDB !== 'undefined' ? indexedDB : undefined
+  ) {
+    this.dbName = dbName;
+    this.factory = factory;
+  }
+
+  /**
+   * Whether projects can be saved in this environment
+   */
+  get isSupported(): boolean {
+    return this.factory !== undefined;
+  }
+
+  /**
+   * Opens the database, creating its object stores on first use
+   * @returns The open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.factory) {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    if (!this.db) {
+      const request = this.factory.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES)) {
+          db.createObjectStore(SUMMARIES, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(MEDIA)) {
+          db.createObjectStore(MEDIA, { keyPath: 'key' });
+        }
+      };
+      this.db = promisify(request).catch((error: unknown) => {
+        this.db = null;
+        throw error;
+      });
+    }
+
+    return this.db;
+  }
+
+  /**
+   * Saves changes to a project, creating it if it does not exist yet
+   *
+   * The read and the write happen in one transaction, so ProjectContext and
+   * WorkflowContext can each save their own part of the same project.
+   * @param id Project ID
+   * @param changes Fields to change
+   * @returns The saved project
+   */
+  async updateProject(
+    id: string,
+    changes: Partial<Omit<StoredProject, 'id' | 'createdAt' | 'updatedAt' | 'mediaKeys'>>
+  ): Promise<StoredProject> {
+    const db = await this.open();
+    const transaction = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+    const projects = transaction.objectStore(PROJECTS);
+    const now = new Date();
+
+    const existing: StoredProject | undefined = await promisify(projects.get(id));
+    const project: StoredProject = {
+      status: 'in-progress',
+      createdAt: now,
+      ...existing,
+      ...changes,
+      name:
+        changes.name ??
+        changes.workflow?.settings.projectName ??
+        changes.project?.settings.projectName ??
+        existing?.name ??
+        'Untitled Project',
+      id,
+      updatedAt: now,
+      mediaKeys: []
+    };
+    project.mediaKeys = this.referencedMedia(project);
+
+    projects.put(project);
+    transaction.objectStore(SUMMARIES).put(this.summarize(project));
+    await completion(transaction);
+
+    return project;
+  }
+
+  /**
+   * Loads a project
+   * @param id Project ID
+   * @returns The project, or null if there is none with that ID
+   */
+  async loadProject(id: string): Promise<StoredProject | null> {
+    const db = await this.open();
+    const project = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+    return project ?? null;
+  }
+
+  /**
+   * Lists saved projects, most recently changed first
+   * @param limit Maximum number of projects to return
+   * @returns Project summaries
+   */
+  async listProjects(limit: number = Infinity): Promise<ProjectSummary[]> {
+    const db = await this.open();
+    const index = db.transaction(SUMMARIES).objectStore(SUMMARIES).index('updatedAt');
+    const request = index.openCursor(null, 'prev');
+    const summaries: ProjectSummary[] = [];
+
+    return new Promise<ProjectSummary[]>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || summaries.length >= limit) {
+          resolve(summaries);
+          return;
+        }
+        summaries.push(cursor.value);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Deletes a project along with any media no other project uses
+   * @param id Project ID
+   */
+  async deleteProject(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([PROJECTS, SUMMARIES, MEDIA], 'readwrite');
+    const projects = transaction.objectStore(PROJECTS);
+
+    const all: StoredProject[] = await promisify(projects.getAll());
+    const project = all.find((candidate: StoredProject) => candidate.id === id);
+    if (project) {
+      const inUse = new Set(
+        all.filter((other: StoredProject) => other.id !== id).flatMap((other: StoredProject) => other.mediaKeys)
+      );
+      project.mediaKeys
+        .filter((key: string) => !inUse.has(key))
+        .forEach((key: string) => transaction.objectStore(MEDIA).delete(key));
+    }
+
+    projects.delete(id);
+    transaction.objectStore(SUMMARIES).delete(id);
+    await completion(transaction);
+  }
+
+  /**
+   * Saves a media file, keeping its File System Access handle when it has one
+   *
+   * Files that are already stored are left alone, so this is cheap to call on
+   * every autosave.
+   * @param file The file, optionally with the `handle` react-dropzone attaches
+   * @returns The file's media key
+   */
+  async saveMedia(file: File & { handle?: unknown }): Promise<string> {
+    const key = mediaKey(file);
+    const db = await this.open();
+
+    const existing = await promisify(db.transaction(MEDIA).objectStore(MEDIA).getKey(key));
+    if (existing !== undefined) return key;
+
+    const handle = file.handle as PermissionedFileHandle | undefined;
+    const media: StoredMedia = {
+      key,
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      ...(handle?.kind === 'file' ? { handle } : { blob: file })
+    };
+
+    const transaction = db.transaction(MEDIA, 'readwrite');
+    transaction.objectStore(MEDIA).put(media);
+    await completion(transaction);
+
+    return key;
+  }
+
+  /**
+   * Loads a media file
+   *
+   * A file kept as a handle needs read permission again after a reload. The
+   * browser only shows the permission prompt in response to a user gesture,
+   * so pass `requestPermission` only when handling one.
+   * @param key Media key
+   * @param requestPermission Whether to ask for permission to read a handle
+   * @returns The file, or null if it is missing or cannot be read
+   */
+  async loadMedia(key: string, requestPermission: boolean = false): Promise<File | null> {
+    const db = await this.open();
+    const media: StoredMedia | undefined = await promisify(
+      db.transaction(MEDIA).objectStore(MEDIA).get(key)
+    );
+    if (!media) return null;
+
+    if (media.blob) {
+      return new File([media.blob], media.name, {
+        type: media.type,
+        lastModified: media.lastModified
+      });
+    }
+
+    if (!media.handle) return null;
+
+    try {
+      const descriptor = { mode: 'read' as const };
+      let permission = (await media.handle.queryPermission?.(descriptor)) ?? 'granted';
+      if (permission === 'prompt' && requestPermission && media.handle.requestPermission) {
+        permission = await media.handle.requestPermission(descriptor);
+      }
+      return permission === 'granted' ? await media.handle.getFile() : null;
+    } catch (error) {
+      // The file was moved or deleted since it was added
+      console.warn(`Could not read media ${media.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Loads several media files
+   * @param keys Media keys
+   * @param requestPermission Whether to ask for permission to read handles
+   * @returns The files that could be loaded, by media key
+   */
+  async loadMediaFiles(keys: string[], requestPermission: boolean = false): Promise<Map<string, File>> {
+    const files = new Map<string, File>();
+    for (const key of keys) {
+      const file = await this.loadMedia(key, requestPermission);
+      if (file) files.set(key, file);
+    }
+    return files;
+  }
+
+  /**
+   * Collects the media keys a project's snapshots refer to
+   * @param project The project
+   * @returns Unique media keys
+   */
+  private referencedMedia(project: StoredProject): string[] {
+    const { project: state, workflow } = project;
+    const keys = [
+      ...(state?.musicFile ? [state.musicFile] : []),
+      ...(state?.videoFiles ?? []),
+      ...(workflow?.musicFile ? [workflow.musicFile.mediaKey] : []),
+      ...(workflow?.videoFiles ?? []).map((entry) => entry.mediaKey),
+      ...(workflow?.rawVideoFiles ?? []).map((entry) => entry.mediaKey)
+    ];
+    return Array.from(new Set(keys.filter(Boolean)));
+  }
+
+  /**
+   * Picks the fields of a project shown in the recent projects list
+   * @param project The project
+   * @returns Its summary
+   */
+  private summarize(project: StoredProject): ProjectSummary {
+    const { id, name, status, createdAt, updatedAt } = project;
+    return { id, name, status, createdAt, updatedAt };
+  }
+}
+
+export const projectStore = new ProjectStore();
+
+export default projectStore;
@@ -12,9 +12,36 @@ import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile } from '@ffmpeg/util';
 import * as cv from '@techstark/opencv-js';
 import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
 import { loadFFmpeg, ensureOpenCVLoaded } from '../utils/wasmLoader';
+import persistentCache from './AnalysisCache';
+import { stableStringify } from '../utils/analysisCache';
+import {
+  findShotBoundaries,
+  refineBoundary,
+  ShotBoundary,
+  ShotFeatures,
+  shotFeatures
+} from '../utils/shotDetection';
+import { cameraMovements, fitGlobalMotion } from '../utils/cameraMotion';
+import { classifyShotSize } from '../utils/shotSize';
+import { alignClipToMaster, AudioSignal, SYNC_SAMPLE_RATE } from '../utils/multicamSync';
+import {
+  canUseWorkers,
+  isAbortError,
+  runAnalysisWorker,
+  throwIfAborted
+} from '../utils/analysisWorker';
 
 // Types
+import { AlignmentInfo } from '../types/EditDecision';
+import { AudioSyncSettings } from '../types/ProjectSettings';
+import {
+  BoundingBox,
+  CameraMovement,
+  CameraMovementType,
+  FlowVector
+} from '../types/VideoAnalysis';
 import {
   VideoFile,
   VideoMetadata,
@@ -24,11 +51,126 @@ import {
   ContentData,
   ClipType,
   MotionData,
+  FrameMotion,
   VideoServiceEvents,
   FrameExtractionOptions,
   SceneDetectionOptions,
 } from '../types/video-types';
 
+/**
+ * Version of the video analysis; bump it when a change alters the results,
+ * so results cached by an earlier version are worked out again
+ */
+export const VIDEO_ANALYZER_VERSION = 6;
+
+/** Frames sampled from each video for analysis */
+const ANALYSIS_FRAMES: FrameExtractionOptions = {
+  fps: 1 // 1 frame per second for analysis
+};
+
+/** Seconds of video decoded at a time, so a long clip is never held in memory whole */
+const STREAM_CHUNK_SECONDS = 30;
+
+/** Width frames are decoded at to place a scene boundary on the exact frame */
+const REFINE_WIDTH = 160;
+
+/** Width frames are shrunk to before optical flow is measured */
+const MOTION_WIDTH = 320;
+
+/** Flow vectors sampled across the width of a frame to fit camera movement */
+const FLOW_COLUMNS = 32;
+
+/** Where the face detection cascade is served from */
+const FACE_CASCADE_URL = '/assets/opencv/lbpcascade_frontalface_improved.xml';
+
+/** Smallest face looked for, as a share of the frame's height */
+const MIN_FACE_HEIGHT = 0.04;
+
+/** Content reported for a key frame that couldn't be decoded */
+const NO_CONTENT: ContentData = {
+  hasFaces: false,
+  faceCount: 0,
+  dominantColors: [],
+  brightness: 0,
+  contrast: 0,
+  hasText: false,
+  isOutdoor: false,
+  hasMotion: false
+};
+
+/**
+ * Works out which frames to sample for an analysis
+ * @param options Scene detection options, whose sampleRate overrides the default rate
+ * @returns Frame extraction options
+ */
+const analysisFrames = (options: SceneDetectionOptions): FrameExtractionOptions => ({
+  ...ANALYSIS_FRAMES,
+  fps: options.sampleRate ?? ANALYSIS_FRAMES.fps
+});
+
+/**
+ * Copies a frame's pixels, so the frame outlives moving the original to a worker
+ */
+const copyFrame = (frame: VideoFrame): VideoFrame => ({
+  ...frame,
+  imageData: {
+    data: frame.imageData.data.slice(),
+    width: frame.imageData.width,
+    height: frame.imageData.height
+  } as ImageData
+});
+
+/**
+ * The fields read from a stream in ffprobe's JSON output
+ */
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  /** Frame rate as a fraction, such as "24000/1001" */
+  r_frame_rate?: string;
+  /** Pixel aspect ratio, such as "4:3", or "0:1" when unknown */
+  sample_aspect_ratio?: string;
+  duration?: string;
+  bit_rate?: string;
+  channels?: number;
+  channel_layout?: string;
+  sample_rate?: string;
+  /** Bits per sample of PCM audio; 0 for compressed codecs */
+  bits_per_sample?: number;
+  /** Bits per sample the codec decodes to, such as "24" */
+  bits_per_raw_sample?: string;
+}
+
+/**
+ * What analysis keeps from a run of sampled frames once their pixels are gone
+ */
+export interface FrameScan {
+  /** Shot features of each frame */
+  features: ShotFeatures[];
+  /** Motion into each frame from the one before it */
+  motion: FrameMotion[];
+}
+
+/**
+ * What analysis found in the content of scenes' key frames
+ */
+export interface ContentScan {
+  /** Content of each key frame */
+  content: ContentData[];
+  /** Whether faces were looked for; without the face cascade none are reported */
+  facesDetected: boolean;
+}
+
+/**
+ * Work sent to the analysis worker: scanning a chunk of sampled frames, or
+ * analyzing the content of scenes' key frames
+ */
+export type VideoWorkerRequest =
+  | { task: 'scan'; frames: VideoFrame[]; previous: VideoFrame | null }
+  | { task: 'content'; frames: (VideoFrame | null)[] };
+
 /**
  * VideoService handles all video file processing, analysis, and manipulation.
  */
@@ -39,6 +181,7 @@ export class VideoService extends EventEmitter {
   private videoCache: Map<string, VideoFile> = new Map();
   private analysisCache: Map<string, VideoAnalysis> = new Map();
   private frameCache: Map<string, VideoFrame[]> = new Map();
+  private faceCascade: Promise<cv.CascadeClassifier | null> | null = null;
   
   constructor() {
     super();
@@ -137,12 +280,13 @@ export class VideoService extends EventEmitter {
       // Write file to FFmpeg virtual file system
       this.ffmpeg.FS('writeFile', file.name, await fetchFile(file));
       
-      // Run FFprobe to get video information
+      // Run FFprobe to get video and audio stream information
       await this.ffmpeg.run(
         '-i', file.name,
         '-v', 'error',
-        '-select_streams', 'v:0',
-        '-show_entries', 'stream=width,height,r_frame_rate,duration',
+        '-show_entries',
+        'stream=codec_type,codec_name,width,height,r_frame_rate,duration,bit_rate,' +
+          'sample_aspect_ratio,channels,channel_layout,sample_rate',
         '-of', 'json',
         'output.json'
       );
@@ -150,29 +294,45 @@ export class VideoService extends EventEmitter {
       // Read the output
       const data = this.ffmpeg.FS('readFile', 'output.json');
       const json = JSON.parse(new TextDecoder().decode(data));
+      const streams: ProbeStream[] = json.streams || [];
+      const videoStream: ProbeStream =
+        streams.find((stream: ProbeStream) => stream.codec_type === 'video') || streams[0] || {};
+      const audioStream = streams.find((stream: ProbeStream) => stream.codec_type === 'audio');
       
       // Process frame rate (often returned as a fraction like "24000/1001")
       let fps = 30; // default
-      if (json.streams[0].r_frame_rate) {
-        const fractionMatch = json.streams[0].r_frame_rate.match(/(\d+)\/(\d+)/);
+      if (videoStream.r_frame_rate) {
+        const fractionMatch = videoStream.r_frame_rate.match(/(\d+)\/(\d+)/);
         if (fractionMatch) {
           fps = parseInt(fractionMatch[1], 10) / parseInt(fractionMatch[2], 10);
         } else {
-          fps = parseFloat(json.streams[0].r_frame_rate);
+          fps = parseFloat(videoStream.r_frame_rate);
         }
       }
       
+      // Process pixel aspect ratio (returned as a ratio like "4:3", "0:1" when unknown)
+      let pixelAspectRatio = 1;
+      const aspectMatch = (videoStream.sample_aspect_ratio || '').match(/(\d+):(\d+)/);
+      if (aspectMatch && parseInt(aspectMatch[1], 10) > 0 && parseInt(aspectMatch[2], 10) > 0) {
+        pixelAspectRatio = parseInt(aspectMatch[1], 10) / parseInt(aspectMatch[2], 10);
+      }
+      
       // Clean up
       this.ffmpeg.FS('unlink', file.name);
       this.ffmpeg.FS('unlink', 'output.json');
       
       return {
-        width: json.streams[0].width || 0,
-        height: json.streams[0].height || 0,
-        duration: parseFloat(json.streams[0].duration) || 0,
+        width: videoStream.width || 0,
+        height: videoStream.height || 0,
+        duration: parseFloat(videoStream.duration ?? '') || 0,
         fps,
-        codec: json.streams[0].codec_name || '',
-        bitrate: parseInt(json.streams[0].bit_rate, 10) || 0
+        codec: videoStream.codec_name || '',
+        bitrate: parseInt(videoStream.bit_rate ?? '', 10) || 0,
+        pixelAspectRatio,
+        audioChannels: audioStream?.channels || 0,
+        audioChannelLayout: audioStream?.channel_layout || '',
+        audioSampleRate: parseInt(audioStream?.sample_rate ?? '', 10) || 0,
+        audioBitDepth: audioStream?.bits_per_sample || parseInt(audioStream?.bits_per_raw_sample ?? '', 10) || 0
       };
     } catch (error) {
       console.error('Error extracting video metadata:', error);
@@ -184,7 +344,12 @@ export class VideoService extends EventEmitter {
         duration: 0,
         fps: 30,
         codec: '',
-        bitrate: 0
+        bitrate: 0,
+        pixelAspectRatio: 1,
+        audioChannels: 0,
+        audioChannelLayout: '',
+        audioSampleRate: 0,
+        audioBitDepth: 0
       };
     }
   }
@@ -234,15 +399,95 @@ export class VideoService extends EventEmitter {
     }
   }
   
+  /**
+   * Extracts a video's scratch audio, mixed down to mono
+   * @param file The video File object
+   * @param signal Aborts the extraction once FFmpeg finishes, rejecting with an AbortError
+   * @param sampleRate Sample rate in Hz (default: SYNC_SAMPLE_RATE)
+   * @returns Promise resolving to the samples, which are empty for a video without sound
+   */
+  async extractAudio(
+    file: File,
+    signal?: AbortSignal,
+    sampleRate: number = SYNC_SAMPLE_RATE
+  ): Promise<AudioSignal> {
+    throwIfAborted(signal);
+    await this.ensureFFmpegLoaded();
+    
+    const audio = await this.withInput(file, async (input: string) => {
+      await this.ffmpeg.run(
+        '-i', input,
+        '-vn',
+        '-ac', '1',
+        '-ar', sampleRate.toString(),
+        '-f', 'f32le',
+        'audio.pcm'
+      );
+      
+      let data: Uint8Array | undefined;
+      try {
+        data = this.ffmpeg.FS('readFile', 'audio.pcm');
+      } catch {
+        // FFmpeg writes nothing for a video without an audio stream
+      }
+      if (!data) return { samples: new Float32Array(0), sampleRate };
+      this.ffmpeg.FS('unlink', 'audio.pcm');
+      
+      // Copy the bytes, as the samples must start on a four-byte boundary
+      const samples = new Float32Array(data.slice(0, data.length - (data.length % 4)).buffer);
+      return { samples, sampleRate };
+    });
+    throwIfAborted(signal);
+    return audio;
+  }
+  
+  /**
+   * Lines a clip up with the master track by cross-correlating its scratch audio
+   * @param file The video File object
+   * @param master The song, or the audio of the reference take
+   * @param settings Project sync settings
+   * @param signal Aborts the sync once the clip's audio is extracted, rejecting with an AbortError
+   * @returns Promise resolving to where the clip starts in the master, how sure
+   *   that is and how fast the camera's clock drifts from it
+   */
+  async syncToMaster(
+    file: File,
+    master: AudioSignal,
+    settings: Partial<AudioSyncSettings> = {},
+    signal?: AbortSignal
+  ): Promise<AlignmentInfo> {
+    const clip = await this.extractAudio(file, signal);
+    return alignClipToMaster(master, clip, settings);
+  }
+  
   /**
    * Analyzes a video file for scenes, content, and motion
+   *
+   * The whole clip is sampled a chunk at a time, keeping only the features
+   * scene detection and motion analysis need from each frame. Each scene
+   * boundary found is then placed on the exact frame by decoding the frames
+   * around it at the video's own rate, and each scene's key frame is decoded
+   * again for content analysis. Frames are decoded here, where a canvas is
+   * available, and analyzed in a worker so the UI stays responsive; without
+   * worker support the analysis runs on this thread. Results are cached by
+   * the file's content, so a clip analyzed in an earlier session is not
+   * analyzed again.
    * @param file The video File object to analyze
+   * @param signal Aborts the analysis, rejecting with an AbortError
+   * @param sceneOptions Scene detection options, including the rate frames are sampled at
    * @returns Promise resolving to VideoAnalysis
    */
-  async analyzeVideo(file: File): Promise<VideoAnalysis> {
+  async analyzeVideo(
+    file: File,
+    signal?: AbortSignal,
+    sceneOptions: SceneDetectionOptions = {}
+  ): Promise<VideoAnalysis> {
     try {
+      const frameOptions = analysisFrames(sceneOptions);
+      const cacheOptions = { ...frameOptions, scenes: sceneOptions };
+
       // Check cache first
-      const fileId = file.name + file.size + file.lastModified;
+      const fileId = file.name + file.size + file.lastModified + stableStringify(sceneOptions);
       if (this.analysisCache.has(fileId)) {
         return this.analysisCache.get(fileId)!;
       }
@@ -253,62 +498,126 @@ export class VideoService extends EventEmitter {
       // Load the video file
       const videoFile = await this.loadVideoFile(file);
       
-      // Extract frames
-      this.emitEvent(VideoServiceEvents.PROGRESS, { 
-        message: 'Extracting frames...',
-        progress: 0.1 
-      });
-      
-      const frames = await this.extractFrames(file, {
-        fps: 1, // 1 frame per second for analysis
-        maxFrames: 300 // Limit the number of frames for performance
-      });
-      
-      // Detect scenes
-      this.emitEvent(VideoServiceEvents.PROGRESS, { 
-        message: 'Detecting scenes...',
-        progress: 0.4 
-      });
-      
-      const scenes = await this.detectScenes(frames);
-      
-      // Analyze content
-      this.emitEvent(VideoServiceEvents.PROGRESS, { 
-        message: 'Analyzing content...',
-        progress: 0.7 
-      });
-      
-      const contentAnalysis = await Promise.all(
-        scenes.map((scene: any) => this.analyzeContent(frames[scene.startFrame]))
-      );
+      const contentHash = await persistentCache.contentHash(file, signal);
+      const cached =
+        contentHash &&
+        (await persistentCache.get<VideoAnalysis>(
+          'video',
+          VIDEO_ANALYZER_VERSION,
+          contentHash,
+          cacheOptions
+        ));
+      if (cached) {
+        const analysis = { ...cached, videoId: videoFile.id, fromCache: true };
+        this.analysisCache.set(fileId, analysis);
+        this.emitEvent(VideoServiceEvents.ANALYSIS_COMPLETE, { analysis, cached: true });
+        return analysis;
+      }
       
-      // Analyze motion
-      this.emitEvent(VideoServiceEvents.PROGRESS, { 
-        message: 'Analyzing motion...',
-        progress: 0.9 
-      });
+      const onProgress = (progress: number, message: string) =>
+        this.emitEvent(VideoServiceEvents.PROGRESS, { message, progress });
+      const worker = canUseWorkers()
+        ? new Worker(new URL('../workers/videoAnalysis.worker.ts', import.meta.url), {
+            type: 'module'
+          })
+        : null;
       
-      const motionData = await this.analyzeMotion(frames);
-      
-      // Create the analysis result
-      const analysis: VideoAnalysis = {
-        videoId: videoFile.id,
-        duration: videoFile.duration,
-        frameCount: frames.length,
-        scenes,
-        contentAnalysis,
-        motionData,
-        clipType: await this.classifyClipType({ scenes, contentAnalysis, motionData })
-      };
+      let analysis: VideoAnalysis;
+      let facesDetected = false;
+      try {
+        // Coarse pass: sample the whole clip
+        onProgress(0.1, 'Extracting frames...');
+        const times: number[] = [];
+        const features: ShotFeatures[] = [];
+        const motion: FrameMotion[] = [];
+        let previous: VideoFrame | null = null;
+        
+        const streamOptions = { ...frameOptions, duration: videoFile.duration };
+        await this.streamFrames(file, streamOptions, async (frames: VideoFrame[]) => {
+          const last = copyFrame(frames[frames.length - 1]);
+          const scan = await this.runTask<FrameScan>(
+            worker,
+            { task: 'scan', frames, previous },
+            signal
+          );
+          times.push(...frames.map((frame: VideoFrame) => frame.time));
+          features.push(...scan.features);
+          motion.push(...scan.motion);
+          previous = last;
+          
+          const scanned = videoFile.duration > 0 ? last.time / videoFile.duration : 1;
+          onProgress(0.1 + 0.3 * Math.min(1, scanned), 'Extracting frames...');
+        }, signal);
+        
+        // Fine pass: place each boundary on the exact frame
+        onProgress(0.4, 'Detecting scenes...');
+        const boundaries = findShotBoundaries(features, { cutThreshold: sceneOptions.threshold });
+        const { scenes, keyFrames } = await this.withInput(file, async (input: string) => {
+          const refined = await this.refineScenes(
+            input,
+            this.buildScenes(times, boundaries),
+            boundaries,
+            times,
+            videoFile.fps,
+            signal
+          );
+          return {
+            scenes: refined,
+            keyFrames: await this.decodeKeyFrames(input, refined, times, frameOptions, signal)
+          };
+        });
+        
+        onProgress(0.7, 'Analyzing content...');
+        const contentScan = await this.runTask<ContentScan>(
+          worker,
+          { task: 'content', frames: keyFrames },
+          signal
+        );
+        const contentAnalysis = contentScan.content;
+        facesDetected = contentScan.facesDetected;
+        
+        onProgress(0.9, 'Analyzing motion...');
+        const motionData = this.summarizeMotion(motion);
+        scenes.forEach((scene: Scene) => {
+          scene.cameraMovements = cameraMovements(motion, scene.startTime, scene.endTime);
+        });
+        
+        // Create the analysis result
+        analysis = {
+          videoId: videoFile.id,
+          duration: videoFile.duration,
+          metadata: videoFile.metadata,
+          frameCount: times.length,
+          scenes,
+          contentAnalysis,
+          motionData,
+          clipType: await this.classifyClipType({ scenes, contentAnalysis, motionData }),
+          fromCache: false
+        };
+      } finally {
+        worker?.terminate();
+      }
       
-      // Cache the analysis
+      // Cache the analysis, keeping it for later sessions only when it is
+      // complete, so a missing face cascade doesn't outlive being fixed
       this.analysisCache.set(fileId, analysis);
+      if (contentHash && facesDetected) {
+        await persistentCache.set(
+          'video',
+          VIDEO_ANALYZER_VERSION,
+          contentHash,
+          cacheOptions,
+          analysis
+        );
+      }
       
       // Emit complete event
       this.emitEvent(VideoServiceEvents.ANALYSIS_COMPLETE, { analysis });
       
       return analysis;
     } catch (error) {
+      if (isAbortError(error)) throw error;
+
       console.error('Error analyzing video:', error);
       
       // Emit error event
@@ -320,6 +629,238 @@ export class VideoService extends EventEmitter {
       throw new Error(`Failed to analyze video: ${error.message}`);
     }
   }
+
+  /**
+   * Decodes a video a chunk at a time, so the frames of a long clip are never
+   * all held at once
+   * @param file The video File object
+   * @param options Frame extraction options; maxFrames is ignored
+   * @param onChunk Called with each chunk of frames in turn, and awaited
+   * before the next chunk is decoded
+   * @param signal Stops decoding between chunks, rejecting with an AbortError
+   */
+  async streamFrames(
+    file: File,
+    options: FrameExtractionOptions,
+    onChunk: (frames: VideoFrame[]) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await Promise.all([
+      this.ensureFFmpegLoaded(),
+      this.ensureOpenCVLoaded()
+    ]);
+    
+    const frameRate = options.fps || 1;
+    const start = options.startTime ?? 0;
+    const end =
+      options.duration !== undefined
+        ? start + options.duration
+        : (await this.extractMetadata(file)).duration;
+    
+    await this.withInput(file, async (input: string) => {
+      for (let chunkStart = start; chunkStart < end; chunkStart += STREAM_CHUNK_SECONDS) {
+        throwIfAborted(signal);
+        const duration = Math.min(STREAM_CHUNK_SECONDS, end - chunkStart);
+        const frames = await this.decodeFrames(
+          input,
+          { ...options, fps: frameRate, startTime: chunkStart, duration },
+          Math.ceil(duration * frameRate)
+        );
+        if (frames.length > 0) {
+          await onChunk(frames);
+        }
+      }
+    });
+  }
+  
+  /**
+   * Works out what analysis keeps from a run of sampled frames: their shot
+   * features, and how much moves into each from the frame before
+   * @param frames Consecutive sampled frames
+   * @param previous The frame before them, when they continue an earlier run
+   * @returns Promise resolving to the scan of the frames
+   */
+  async scanFrames(
+    frames: VideoFrame[],
+    previous: VideoFrame | null = null
+  ): Promise<FrameScan> {
+    const features = frames.map((frame: VideoFrame) =>
+      shotFeatures(frame.imageData, frame.index)
+    );
+    
+    const motion: FrameMotion[] = [];
+    const run = previous ? [previous, ...frames] : frames;
+    try {
+      await this.ensureOpenCVLoaded();
+      for (let i = 1; i < run.length; i++) {
+        motion.push({
+          frameIndex: run[i].index,
+          time: run[i].time,
+          ...this.measureMotion(run[i - 1], run[i])
+        });
+      }
+    } catch (error) {
+      console.error('Error analyzing motion:', error);
+    }
+    
+    return { features, motion };
+  }
+  
+  /**
+   * Does work sent to the analysis worker; the worker runs this itself
+   * @param request The work
+   * @returns Promise resolving to the scan of the frames, or the content of each key frame
+   */
+  async runWorkerTask(request: VideoWorkerRequest): Promise<FrameScan | ContentScan> {
+    if (request.task === 'scan') {
+      return this.scanFrames(request.frames, request.previous);
+    }
+    const content = await Promise.all(
+      request.frames.map((frame: VideoFrame | null) =>
+        frame ? this.analyzeContent(frame) : { ...NO_CONTENT }
+      )
+    );
+    return { content, facesDetected: (await this.loadFaceCascade()) !== null };
+  }
+  
+  /**
+   * Sends work to the analysis worker, or does it here without one
+   *
+   * The frames' pixels are moved to the worker, so the frames can't be used
+   * afterwards. The worker is kept for the next request; it is terminated if
+   * it fails or the signal aborts.
+   */
+  private async runTask<T extends FrameScan | ContentScan>(
+    worker: Worker | null,
+    request: VideoWorkerRequest,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (!worker) {
+      throwIfAborted(signal);
+      return (await this.runWorkerTask(request)) as T;
+    }
+    
+    const frames = request.task === 'scan' && request.previous
+      ? [request.previous, ...request.frames]
+      : request.frames;
+    return runAnalysisWorker<VideoWorkerRequest, T>(worker, request, {
+      transfer: frames.flatMap((frame: VideoFrame | null) =>
+        frame ? [frame.imageData.data.buffer] : []
+      ),
+      signal,
+      keepAlive: true
+    });
+  }
+  
+  /**
+   * Copies a file into FFmpeg's file system for as long as it's needed
+   * @param file The video File object
+   * @param use Works with the copy, given its name
+   * @returns Promise resolving to what use resolves to
+   */
+  private async withInput<T>(file: File, use: (input: string) => Promise<T>): Promise<T> {
+    this.ffmpeg.FS('writeFile', file.name, await fetchFile(file));
+    try {
+      return await use(file.name);
+    } finally {
+      this.ffmpeg.FS('unlink', file.name);
+    }
+  }
+  
+  /**
+   * Moves scene boundaries found between sampled frames onto the exact frame,
+   * decoding the frames around each boundary at the video's own rate
+   * @param input Name of the video in FFmpeg's file system
+   * @param scenes Scenes found from the sampled frames
+   * @param boundaries The boundaries the scenes after the first begin at
+   * @param times Time of each sampled frame in seconds
+   * @param frameRate The video's frame rate
+   * @param signal Stops refining between boundaries, rejecting with an AbortError
+   * @returns Promise resolving to the scenes with exact start and end times, and
+   * their start and end frames numbered at the video's own rate
+   */
+  private async refineScenes(
+    input: string,
+    scenes: Scene[],
+    boundaries: ShotBoundary[],
+    times: number[],
+    frameRate: number,
+    signal?: AbortSignal
+  ): Promise<Scene[]> {
+    const refined = scenes.map((scene: Scene) => ({ ...scene }));
+    
+    for (let i = 1; i < refined.length; i++) {
+      throwIfAborted(signal);
+      const boundary = boundaries[i - 1];
+      const from = times[boundary.startFrame - 1];
+      const to = times[boundary.endFrame];
+      const frameCount = Math.round((to - from) * frameRate) + 1;
+      if (!(frameCount > 2)) continue;
+      
+      const window = await this.decodeFrames(
+        input,
+        { fps: frameRate, startTime: from, duration: to - from + 1 / frameRate, maxWidth: REFINE_WIDTH },
+        frameCount
+      );
+      if (window.length < 3) continue;
+      
+      const { startFrame, endFrame } = refineBoundary(
+        window.map((frame: VideoFrame) => shotFeatures(frame.imageData, frame.index)),
+        boundary.type
+      );
+      
+      const scene = refined[i];
+      const before = refined[i - 1];
+      scene.startTime = window[startFrame].time;
+      scene.duration = scene.endTime - scene.startTime;
+      before.endTime = window[startFrame - 1].time;
+      before.duration = before.endTime - before.startTime;
+      if (boundary.type !== 'cut') {
+        scene.transitionDuration = window[endFrame].time - window[startFrame - 1].time;
+      }
+    }
+    
+    if (frameRate > 0) {
+      refined.forEach((scene: Scene) => {
+        scene.startFrame = Math.round(scene.startTime * frameRate);
+        scene.endFrame = Math.round(scene.endTime * frameRate);
+      });
+    }
+    
+    return refined;
+  }
+  
+  /**
+   * Decodes each scene's key frame at full size
+   * @param input Name of the video in FFmpeg's file system
+   * @param scenes The scenes
+   * @param times Time of each sampled frame in seconds
+   * @param options How frames were sampled
+   * @param signal Stops decoding between frames, rejecting with an AbortError
+   * @returns Promise resolving to each scene's key frame, or null where it couldn't be decoded
+   */
+  private async decodeKeyFrames(
+    input: string,
+    scenes: Scene[],
+    times: number[],
+    options: FrameExtractionOptions,
+    signal?: AbortSignal
+  ): Promise<(VideoFrame | null)[]> {
+    const frameRate = options.fps || 1;
+    const keyFrames: (VideoFrame | null)[] = [];
+    
+    for (const scene of scenes) {
+      throwIfAborted(signal);
+      const [frame] = await this.decodeFrames(
+        input,
+        { fps: frameRate, startTime: times[scene.keyFrameIndex], duration: 1 / frameRate },
+        1
+      );
+      keyFrames.push(frame ?? null);
+    }
+    
+    return keyFrames;
+  }
   
   /**
    * Extracts frames from a video file for analysis
@@ -339,7 +880,7 @@ export class VideoService extends EventEmitter {
       ]);
       
       // Check cache first
-      const cacheKey = `${file.name}_${options.fps}_${options.maxFrames}`;
+      const cacheKey = `${file.name}_${stableStringify(options)}`;
       if (this.frameCache.has(cacheKey)) {
         return this.frameCache.get(cacheKey)!;
       }
@@ -349,75 +890,16 @@ export class VideoService extends EventEmitter {
       
       // Calculate frameRate and total frames
       const frameRate = options.fps || 1;
+      const duration = options.duration ?? metadata.duration - (options.startTime ?? 0);
       const totalFramesToExtract = Math.min(
-        Math.ceil(metadata.duration * frameRate),
+        Math.ceil(duration * frameRate),
         options.maxFrames || 300
       );
       
-      // Write file to FFmpeg virtual file system
-      this.ffmpeg.FS('writeFile', file.name, await fetchFile(file));
-      
-      // Extract frames
-      await this.ffmpeg.run(
-        '-i', file.name,
-        '-vf', `fps=${frameRate}`,
-        '-frames:v', totalFramesToExtract.toString(),
-        '-q:v', '1',
-        'frame_%04d.jpg'
+      const frames = await this.withInput(file, (input: string) =>
+        this.decodeFrames(input, options, totalFramesToExtract)
       );
       
-      // Read frames and convert to VideoFrame objects
-      const frames: VideoFrame[] = [];
-      
-      for (let i = 1; i <= totalFramesToExtract; i++) {
-        const frameFileName = `frame_${i.toString().padStart(4, '0')}.jpg`;
-        try {
-          const frameData = this.ffmpeg.FS('readFile', frameFileName);
-          
-          // Convert to ImageData using Canvas
-          const img = new Image();
-          const base64 = btoa(
-            Array.from(new Uint8Array(frameData.buffer))
-              .map((b: any) => String.fromCharCode(b))
-              .join('')
-          );
-          
-          img.src = `data:image/jpeg;base64,${base64}`;
-          
-          // Wait for image to load
-          await new Promise<void>((resolve: any) => {
-            img.onload = () => resolve();
-            img.onerror = () => resolve(); // Continue even if image fails to load
-          });
-          
-          // Create canvas and get ImageData
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-          ctx!.drawImage(img, 0, 0);
-          const imageData = ctx!.getImageData(0, 0, canvas.width, canvas.height);
-          
-          // Add frame to result
-          frames.push({
-            index: i - 1,
-            time: (i - 1) / frameRate,
-            imageData,
-            width: img.width,
-            height: img.height,
-            thumbnail: `data:image/jpeg;base64,${base64}`
-          });
-          
-          // Clean up
-          this.ffmpeg.FS('unlink', frameFileName);
-        } catch (error) {
-          console.warn(`Failed to extract frame ${i}:`, error);
-        }
-      }
-      
-      // Clean up
-      this.ffmpeg.FS('unlink', file.name);
-      
       // Cache the frames
       this.frameCache.set(cacheKey, frames);
       
@@ -428,102 +910,157 @@ export class VideoService extends EventEmitter {
     }
   }
   
+  /**
+   * Decodes frames from a video already in FFmpeg's file system
+   * @param input Name of the video in FFmpeg's file system
+   * @param options Frame extraction options; maxFrames is ignored
+   * @param count Most frames to decode
+   * @returns Promise resolving to the frames, indexed and timed from the start of the video
+   */
+  protected async decodeFrames(
+    input: string,
+    options: FrameExtractionOptions,
+    count: number
+  ): Promise<VideoFrame[]> {
+    const frameRate = options.fps || 1;
+    const start = options.startTime ?? 0;
+    const filters = [`fps=${frameRate}`];
+    if (options.maxWidth) {
+      filters.push(`scale=${options.maxWidth}:-2`);
+    }
+    
+    await this.ffmpeg.run(
+      ...(start > 0 ? ['-ss', start.toString()] : []),
+      '-i', input,
+      ...(options.duration !== undefined ? ['-t', options.duration.toString()] : []),
+      '-vf', filters.join(','),
+      '-frames:v', count.toString(),
+      '-q:v', '1',
+      'frame_%04d.jpg'
+    );
+    
+    // Read frames and convert to VideoFrame objects
+    const frames: VideoFrame[] = [];
+    
+    for (let i = 1; i <= count; i++) {
+      const frameFileName = `frame_${i.toString().padStart(4, '0')}.jpg`;
+      try {
+        const frameData = this.ffmpeg.FS('readFile', frameFileName);
+        
+        // Convert to ImageData using Canvas
+        const img = new Image();
+        const base64 = btoa(
+          Array.from(new Uint8Array(frameData.buffer))
+            .map((b: any) => String.fromCharCode(b))
+            .join('')
+        );
+        
+        img.src = `data:image/jpeg;base64,${base64}`;
+        
+        // Wait for image to load
+        await new Promise<void>((resolve: any) => {
+          img.onload = () => resolve();
+          img.onerror = () => resolve(); // Continue even if image fails to load
+        });
+        
+        // Create canvas and get ImageData
+        const canvas = document.createElement('canvas');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        const ctx = canvas.getContext('2d');
+        ctx!.drawImage(img, 0, 0);
+        const imageData = ctx!.getImageData(0, 0, canvas.width, canvas.height);
+        
+        // Add frame to result
+        const time = start + (i - 1) / frameRate;
+        frames.push({
+          index: Math.round(time * frameRate),
+          time,
+          imageData,
+          width: img.width,
+          height: img.height,
+          thumbnail: `data:image/jpeg;base64,${base64}`
+        });
+        
+        // Clean up
+        this.ffmpeg.FS('unlink', frameFileName);
+      } catch (error) {
+        console.warn(`Failed to extract frame ${i}:`, error);
+      }
+    }
+    
+    return frames;
+  }
+  
   /**
    * Detects scene boundaries in a video
-   * @param frames Array of VideoFrame objects
+   *
+   * Boundaries are found from colour histograms and edges rather than raw
+   * pixel differences, so camera flashes and pans don't start new scenes, and
+   * dissolves and fades are found along with cuts. A scene that begins with a
+   * gradual transition starts at its first transition frame, and its key
+   * frame is the first one clear of the transition.
+   * @param frames Array of VideoFrame objects, sampled at a steady rate
    * @param options Scene detection options
    * @returns Promise resolving to an array of Scene objects
    */
   async detectScenes(
     frames: VideoFrame[],
-    options: SceneDetectionOptions = { threshold: 30 }
+    options: SceneDetectionOptions = {}
   ): Promise<Scene[]> {
     try {
-      // Ensure OpenCV is loaded
-      await this.ensureOpenCVLoaded();
-      
-      const scenes: Scene[] = [];
-      
       if (frames.length === 0) {
-        return scenes;
-      }
-      
-      // First frame is always a new scene
-      scenes.push({
-        id: uuidv4(),
-        startFrame: 0,
-        endFrame: 0,
-        startTime: frames[0].time,
-        endTime: frames[0].time,
-        duration: 0,
-        keyFrameIndex: 0
-      });
-      
-      // Calculate difference between consecutive frames
-      for (let i = 1; i < frames.length; i++) {
-        const prevFrame = frames[i - 1];
-        const currentFrame = frames[i];
-        
-        // Convert to OpenCV format
-        const prevMat = cv.matFromImageData(prevFrame.imageData);
-        const currentMat = cv.matFromImageData(currentFrame.imageData);
-        
-        // Convert to grayscale
-        const prevGray = new cv.Mat();
-        const currentGray = new cv.Mat();
-        cv.cvtColor(prevMat, prevGray, cv.COLOR_RGBA2GRAY);
-        cv.cvtColor(currentMat, currentGray, cv.COLOR_RGBA2GRAY);
-        
-        // Calculate absolute difference
-        const diff = new cv.Mat();
-        cv.absdiff(prevGray, currentGray, diff);
-        
-        // Calculate mean difference
-        const mean = cv.mean(diff);
-        const difference = mean[0]; // First channel
-        
-        // Free memory
-        prevMat.delete();
-        currentMat.delete();
-        prevGray.delete();
-        currentGray.delete();
-        diff.delete();
-        
-        // Check if difference exceeds threshold
-        if (difference > options?.threshold) {
-          // End previous scene
-          const lastScene = scenes[scenes.length - 1];
-          lastScene.endFrame = i - 1;
-          lastScene.endTime = prevFrame.time;
-          lastScene.duration = lastScene.endTime - lastScene.startTime;
-          
-          // Start new scene
-          scenes.push({
-            id: uuidv4(),
-            startFrame: i,
-            endFrame: i,
-            startTime: currentFrame.time,
-            endTime: currentFrame.time,
-            duration: 0,
-            keyFrameIndex: i
-          });
-        }
+        return [];
       }
       
-      // End the last scene
-      const lastScene = scenes[scenes.length - 1];
-      const lastFrame = frames[frames.length - 1];
-      lastScene.endFrame = frames.length - 1;
-      lastScene.endTime = lastFrame.time;
-      lastScene.duration = lastScene.endTime - lastScene.startTime;
+      const boundaries = findShotBoundaries(
+        frames.map((frame: VideoFrame) => shotFeatures(frame.imageData, frame.index)),
+        { cutThreshold: options.threshold }
+      );
       
-      return scenes;
+      return this.buildScenes(
+        frames.map((frame: VideoFrame) => frame.time),
+        boundaries
+      );
     } catch (error) {
       console.error('Error detecting scenes:', error);
       throw new Error(`Failed to detect scenes: ${error.message}`);
     }
   }
   
+  /**
+   * Builds scenes from the shot boundaries found in sampled frames
+   * @param times Time of each sampled frame in seconds
+   * @param boundaries Shot boundaries between the frames
+   * @returns Scenes, the first starting at the first frame and each later one at a boundary
+   */
+  private buildScenes(times: number[], boundaries: ShotBoundary[]): Scene[] {
+    const starts = [0, ...boundaries.map((boundary: ShotBoundary) => boundary.startFrame)];
+    
+    return starts.map((startFrame: number, index: number) => {
+      const endFrame = index + 1 < starts.length ? starts[index + 1] - 1 : times.length - 1;
+      const boundary = index > 0 ? boundaries[index - 1] : null;
+      const scene: Scene = {
+        id: uuidv4(),
+        startFrame,
+        endFrame,
+        startTime: times[startFrame],
+        endTime: times[endFrame],
+        duration: times[endFrame] - times[startFrame],
+        keyFrameIndex: boundary ? Math.min(boundary.endFrame, endFrame) : startFrame
+      };
+      
+      if (boundary) {
+        scene.transitionIn = boundary.type;
+        scene.transitionDuration =
+          boundary.type === 'cut' ? 0 : times[boundary.endFrame] - times[startFrame - 1];
+        scene.boundaryConfidence = boundary.confidence;
+      }
+      
+      return scene;
+    });
+  }
+  
   /**
    * Analyzes the content of a video frame
    * @param frame The VideoFrame to analyze
@@ -561,23 +1098,37 @@ export class VideoService extends EventEmitter {
                            meanStdDev.stddev.data64F[1] + 
                            meanStdDev.stddev.data64F[2]) / 3;
       
-      // Face detection (simplified, should use proper DNN in production)
+      // Face detection, and the shot size the faces imply
       try {
-        const faceCascade = new cv.CascadeClassifier();
-        faceCascade.load('haarcascade_frontalface_default.xml');
-        
-        const grayMat = new cv.Mat();
-        cv.cvtColor(mat, grayMat, cv.COLOR_RGBA2GRAY);
-        
-        const faces = new cv.RectVector();
-        faceCascade.detectMultiScale(grayMat, faces);
-        
-        contentData.hasFaces = faces.size() > 0;
-        contentData.faceCount = faces.size();
-        
-        // Free memory
-        grayMat.delete();
-        faces.delete();
+        const faceCascade = await this.loadFaceCascade();
+        if (faceCascade) {
+          const grayMat = new cv.Mat();
+          cv.cvtColor(mat, grayMat, cv.COLOR_RGBA2GRAY);
+          cv.equalizeHist(grayMat, grayMat);
+          
+          const faces = new cv.RectVector();
+          const minFace = Math.max(1, Math.round(grayMat.rows * MIN_FACE_HEIGHT));
+          faceCascade.detectMultiScale(grayMat, faces, 1.1, 4, 0, new cv.Size(minFace, minFace));
+          
+          const boxes: BoundingBox[] = [];
+          for (let i = 0; i < faces.size(); i++) {
+            const face = faces.get(i);
+            boxes.push({
+              x: face.x / grayMat.cols,
+              y: face.y / grayMat.rows,
+              width: face.width / grayMat.cols,
+              height: face.height / grayMat.rows
+            });
+          }
+          contentData.hasFaces = boxes.length > 0;
+          contentData.faceCount = boxes.length;
+          contentData.faces = boxes;
+          contentData.shotSize = classifyShotSize(boxes);
+          
+          // Free memory
+          grayMat.delete();
+          faces.delete();
+        }
       } catch (error) {
         console.warn('Face detection not available:', error);
       }
@@ -650,6 +1201,44 @@ export class VideoService extends EventEmitter {
     }
   }
   
+  /**
+   * Loads the face detection cascade into OpenCV's file system, once
+   * @returns Promise resolving to the classifier, or null when the cascade
+   * isn't available
+   */
+  private loadFaceCascade(): Promise<cv.CascadeClassifier | null> {
+    if (!this.faceCascade) {
+      this.faceCascade = (async () => {
+        try {
+          const response = await fetch(FACE_CASCADE_URL);
+          if (!response.ok) {
+            throw new Error(`${FACE_CASCADE_URL} returned ${response.status}`);
+          }
+          const fileName = FACE_CASCADE_URL.split('/').pop()!;
+          cv.FS_createDataFile(
+            '/',
+            fileName,
+            new Uint8Array(await response.arrayBuffer()),
+            true,
+            false,
+            false
+          );
+          
+          const classifier = new cv.CascadeClassifier();
+          if (!classifier.load(fileName)) {
+            classifier.delete();
+            throw new Error(`${fileName} is not a cascade`);
+          }
+          return classifier;
+        } catch (error) {
+          console.warn('Face detection not available:', error);
+          return null;
+        }
+      })();
+    }
+    return this.faceCascade;
+  }
+  
   /**
    * Analyzes motion across video frames
    * @param frames Array of VideoFrame objects
@@ -660,114 +1249,147 @@ export class VideoService extends EventEmitter {
       // Ensure OpenCV is loaded
       await this.ensureOpenCVLoaded();
       
-      // Default motion data
-      const motionData: MotionData = {
-        averageMotion: 0,
-        motionByFrame: [],
-        hasHighMotion: false,
-        hasCameraMovement: false
-      };
-      
-      if (frames.length < 2) {
-        return motionData;
-      }
-      
-      let totalMotion = 0;
-      
-      // Calculate motion between consecutive frames
+      const motionByFrame: FrameMotion[] = [];
       for (let i = 1; i < frames.length; i++) {
-        const prevFrame = frames[i - 1];
-        const currentFrame = frames[i];
-        
-        // Convert to OpenCV format
-        const prevMat = cv.matFromImageData(prevFrame.imageData);
-        const currentMat = cv.matFromImageData(currentFrame.imageData);
-        
-        // Convert to grayscale
-        const prevGray = new cv.Mat();
-        const currentGray = new cv.Mat();
-        cv.cvtColor(prevMat, prevGray, cv.COLOR_RGBA2GRAY);
-        cv.cvtColor(currentMat, currentGray, cv.COLOR_RGBA2GRAY);
-        
-        // Calculate optical flow using Farneback method
-        const flow = new cv.Mat();
-        cv.calcOpticalFlowFarneback(
-          prevGray, currentGray,
-          flow, 0.5, 3, 15, 3, 5, 1.2, 0
-        );
-        
-        // Split flow into x and y components
-        const flowParts = new cv.MatVector();
-        cv.split(flow, flowParts);
-        
-        // Calculate magnitude of flow vectors
-        const magnitude = new cv.Mat();
-        const flowX = flowParts.get(0);
-        const flowY = flowParts.get(1);
-        cv.magnitude(flowX, flowY, magnitude);
-        
-        // Calculate mean flow magnitude
-        const meanFlow = cv.mean(magnitude)[0];
-        totalMotion += meanFlow;
-        
-        // Add to frame motion data
-        motionData.motionByFrame.push({
+        motionByFrame.push({
           frameIndex: i,
-          time: currentFrame.time,
-          motionAmount: meanFlow
+          time: frames[i].time,
+          ...this.measureMotion(frames[i - 1], frames[i])
         });
-        
-        // Free memory
-        prevMat.delete();
-        currentMat.delete();
-        prevGray.delete();
-        currentGray.delete();
-        flow.delete();
-        flowParts.delete();
-        flowX.delete();
-        flowY.delete();
-        magnitude.delete();
       }
       
-      // Calculate average motion
-      motionData.averageMotion = totalMotion / (frames.length - 1);
-      
-      // Determine high motion
-      motionData.hasHighMotion = motionData.averageMotion > 10;
-      
-      // Simplified camera movement detection
-      // In a real implementation, this would use more sophisticated algorithms
-      let consistentDirection = true;
-      let previousDirection = 0;
-      
-      for (let i = 1; i < motionData.motionByFrame.length; i++) {
-        const currentMotion = motionData.motionByFrame[i].motionAmount;
-        const prevMotion = motionData.motionByFrame[i - 1].motionAmount;
-        
-        const direction = Math.sign(currentMotion - prevMotion);
-        
-        if (i > 1 && direction !== 0 && direction !== previousDirection) {
-          consistentDirection = false;
-          break;
-        }
-        
-        if (direction !== 0) {
-          previousDirection = direction;
-        }
-      }
-      
-      motionData.hasCameraMovement = consistentDirection && motionData.averageMotion > 5;
-      
-      return motionData;
+      return this.summarizeMotion(motionByFrame);
     } catch (error) {
       console.error('Error analyzing motion:', error);
-      return {
-        averageMotion: 0,
-        motionByFrame: [],
-        hasHighMotion: false,
-        hasCameraMovement: false
-      };
+      return this.summarizeMotion([]);
+    }
+  }
+  
+  /**
+   * Measures how much moves from one frame to the next, and how the camera
+   * moves, by dense optical flow
+   * @returns Mean flow magnitude in the frames' pixels, and the motion of the
+   * whole picture
+   */
+  private measureMotion(
+    prevFrame: VideoFrame,
+    currentFrame: VideoFrame
+  ): Pick<FrameMotion, 'motionAmount' | 'cameraMotion'> {
+    // Convert to OpenCV format
+    const prevMat = cv.matFromImageData(prevFrame.imageData);
+    const currentMat = cv.matFromImageData(currentFrame.imageData);
+    
+    // Convert to grayscale, shrunk so large moves stay within the flow's reach
+    const prevGray = new cv.Mat();
+    const currentGray = new cv.Mat();
+    cv.cvtColor(prevMat, prevGray, cv.COLOR_RGBA2GRAY);
+    cv.cvtColor(currentMat, currentGray, cv.COLOR_RGBA2GRAY);
+    const shrink = Math.min(1, MOTION_WIDTH / prevGray.cols);
+    if (shrink < 1) {
+      const size = new cv.Size(
+        Math.round(prevGray.cols * shrink),
+        Math.round(prevGray.rows * shrink)
+      );
+      cv.resize(prevGray, prevGray, size, 0, 0, cv.INTER_AREA);
+      cv.resize(currentGray, currentGray, size, 0, 0, cv.INTER_AREA);
+    }
+    
+    // Calculate optical flow using Farneback method
+    const flow = new cv.Mat();
+    cv.calcOpticalFlowFarneback(
+      prevGray, currentGray,
+      flow, 0.5, 3, 15, 3, 5, 1.2, 0
+    );
+    
+    // Split flow into x and y components
+    const flowParts = new cv.MatVector();
+    cv.split(flow, flowParts);
+    
+    // Calculate magnitude of flow vectors
+    const magnitude = new cv.Mat();
+    const flowX = flowParts.get(0);
+    const flowY = flowParts.get(1);
+    cv.magnitude(flowX, flowY, magnitude);
+    
+    // Calculate mean flow magnitude, in the frames' own pixels
+    const meanFlow = cv.mean(magnitude)[0] / shrink;
+    
+    // Sample the flow on a grid to fit the camera's movement
+    const { cols, rows } = flow;
+    const step = Math.max(1, Math.floor(cols / FLOW_COLUMNS));
+    const vectors: FlowVector[] = [];
+    for (let y = Math.floor(step / 2); y < rows; y += step) {
+      for (let x = Math.floor(step / 2); x < cols; x += step) {
+        const dx = flow.data32F[(y * cols + x) * 2];
+        const dy = flow.data32F[(y * cols + x) * 2 + 1];
+        vectors.push({
+          x: (x + 0.5) / cols,
+          y: (y + 0.5) / rows,
+          dx,
+          dy,
+          magnitude: Math.hypot(dx, dy)
+        });
+      }
     }
+    const cameraMotion = fitGlobalMotion(
+      vectors,
+      cols,
+      rows,
+      currentFrame.time - prevFrame.time
+    );
+    
+    // Free memory
+    prevMat.delete();
+    currentMat.delete();
+    prevGray.delete();
+    currentGray.delete();
+    flow.delete();
+    flowParts.delete();
+    flowX.delete();
+    flowY.delete();
+    magnitude.delete();
+    
+    return { motionAmount: meanFlow, cameraMotion };
+  }
+  
+  /**
+   * Summarizes the motion measured between consecutive frames
+   * @param motionByFrame Motion into each frame from the one before it
+   * @returns MotionData
+   */
+  private summarizeMotion(motionByFrame: FrameMotion[]): MotionData {
+    const motionData: MotionData = {
+      averageMotion: 0,
+      motionByFrame,
+      hasHighMotion: false,
+      hasCameraMovement: false
+    };
+    
+    if (motionByFrame.length === 0) {
+      return motionData;
+    }
+    
+    // Calculate average motion
+    motionData.averageMotion =
+      motionByFrame.reduce((total: number, frame: FrameMotion) => total + frame.motionAmount, 0) /
+      motionByFrame.length;
+    
+    // Determine high motion
+    motionData.hasHighMotion = motionData.averageMotion > 10;
+    
+    // The camera moves if it pans, zooms or travels for at least half the clip
+    const movements = cameraMovements(motionByFrame, -Infinity, Infinity);
+    const length = (movement: CameraMovement) => movement.endTime - movement.startTime;
+    const total = movements.reduce((sum: number, movement: CameraMovement) => sum + length(movement), 0);
+    const moving = movements
+      .filter((movement: CameraMovement) =>
+        movement.type !== CameraMovementType.STATIC &&
+        movement.type !== CameraMovementType.HANDHELD
+      )
+      .reduce((sum: number, movement: CameraMovement) => sum + length(movement), 0);
+    motionData.hasCameraMovement = total > 0 && moving >= total / 2;
+    
+    return motionData;
   }
   
   /**
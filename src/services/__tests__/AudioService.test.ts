@@ -504,6 +504,35 @@ describe('AudioService', () => {
         expect((error as AudioProcessingError).code).toBe('ANALYSIS_ERROR');
       }
     });
+
+    it('should stop between steps when cancelled', async () => {
+      const mockFile = new MockFile('test.mp3', 'audio/mp3', 1000000) as unknown as File;
+      const controller = new AbortController();
+
+      jest.spyOn(audioService, 'loadAudio').mockResolvedValue(mockAudioBuffer);
+      jest.spyOn(audioService, 'extractWaveform').mockImplementation(async () => {
+        // Cancel while the waveform is being extracted
+        controller.abort();
+        return {
+          duration: 10,
+          sampleRate: 48000,
+          channels: 2,
+          data: [],
+          maxAmplitude: 0,
+          minAmplitude: 0
+        };
+      });
+      const detectBeatsSpy = jest.spyOn(audioService, 'detectBeats');
+
+      const error = await audioService
+        .analyzeAudio(mockFile, jest.fn(), controller.signal)
+        .catch((reason: unknown) => reason);
+
+      // Cancellation is not reported as an analysis error
+      expect(error).not.toBeInstanceOf(AudioProcessingError);
+      expect((error as DOMException).name).toBe('AbortError');
+      expect(detectBeatsSpy).not.toHaveBeenCalled();
+    });
   });
   
   describe('extractBPM', () => {
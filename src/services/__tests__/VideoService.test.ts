@@ -7,8 +7,11 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 type MockInstance = jest.Mock;
 import { VideoService } from '../VideoService';
-import { ClipType, VideoServiceEvents } from '../../types/video-types';
+import { ClipType, FrameExtractionOptions, VideoFrame, VideoServiceEvents } from '../../types/video-types';
 import { safeStringify } from '../../utils/safeStringify';
+import { CameraMovementType } from '../../types/VideoAnalysis';
+import { FramePixels } from '../../utils/shotDetection';
+import { blend, FOREST, hold, STREET } from '../../utils/__tests__/fixtures/shots';
 import * as cv from '@techstark/opencv-js';
 
 // Mock dependencies are now in the __mocks__ directory
@@ -78,6 +81,36 @@ const createMockFrames = (count: number) => {
   }));
 };
 
+// Wrap synthetic frames as video frames sampled at a steady rate
+const toFrames = (pixels: FramePixels[], rate: number = 1, startTime: number = 0) =>
+  pixels.map((imageData: FramePixels, i: number) => ({
+    index: Math.round(startTime * rate) + i,
+    time: startTime + i / rate,
+    imageData: imageData as ImageData,
+    width: imageData.width,
+    height: imageData.height,
+    thumbnail: ''
+  }));
+
+/**
+ * VideoService with frame decoding opened up, so tests can stand in for FFmpeg
+ */
+class DecodingVideoService extends VideoService {
+  decodeFrames(input: string, options: FrameExtractionOptions, count: number): Promise<VideoFrame[]> {
+    return super.decodeFrames(input, options, count);
+  }
+}
+
+// Stream the frames to analysis in chunks, as streamFrames does
+const mockStream = (videoService: VideoService, frames: VideoFrame[], chunkSize: number = 4) =>
+  jest.spyOn(videoService, 'streamFrames').mockImplementation(
+    async (_file: File, _options: unknown, onChunk: (frames: VideoFrame[]) => Promise<void>) => {
+      for (let i = 0; i < frames.length; i += chunkSize) {
+        await onChunk(frames.slice(i, i + chunkSize));
+      }
+    }
+  );
+
 describe('VideoService', () => {
   let videoService: VideoService;
   let mockEventListener: MockInstance;
@@ -269,27 +302,7 @@ describe('VideoService', () => {
         }
       });
       
-      jest.spyOn(videoService, 'extractFrames').mockResolvedValue(createMockFrames(10));
-      jest.spyOn(videoService, 'detectScenes').mockResolvedValue([
-        {
-          id: 'scene-1',
-          startFrame: 0,
-          endFrame: 4,
-          startTime: 0,
-          endTime: 4 / 30,
-          duration: 4 / 30,
-          keyFrameIndex: 0
-        },
-        {
-          id: 'scene-2',
-          startFrame: 5,
-          endFrame: 9,
-          startTime: 5 / 30,
-          endTime: 9 / 30,
-          duration: 4 / 30,
-          keyFrameIndex: 5
-        }
-      ]);
+      mockStream(videoService, toFrames([...hold(STREET, 5), ...hold(FOREST, 5)]));
       
       jest.spyOn(videoService, 'analyzeContent').mockResolvedValue({
         hasFaces: false,
@@ -305,16 +318,6 @@ describe('VideoService', () => {
         hasMotion: false
       });
       
-      jest.spyOn(videoService, 'analyzeMotion').mockResolvedValue({
-        averageMotion: 5,
-        motionByFrame: [
-          { frameIndex: 1, time: 1 / 30, motionAmount: 5 },
-          { frameIndex: 2, time: 2 / 30, motionAmount: 5 }
-        ],
-        hasHighMotion: false,
-        hasCameraMovement: false
-      });
-      
       jest.spyOn(videoService, 'classifyClipType').mockResolvedValue(ClipType.B_ROLL_STATIC);
       
       const analysis = await videoService.analyzeVideo(file);
@@ -324,9 +327,11 @@ describe('VideoService', () => {
       expect(analysis.duration).toBe(60);
       expect(analysis.frameCount).toBe(10);
       expect(analysis.scenes).toHaveLength(2);
-      expect(analysis.contentAnalysis).toBeDefined();
+      expect(analysis.scenes[1]).toMatchObject({ startFrame: 150, startTime: 5, transitionIn: 'cut' });
+      expect(analysis.contentAnalysis).toHaveLength(2);
       expect(analysis.motionData).toBeDefined();
       expect(analysis.clipType).toBe(ClipType.B_ROLL_STATIC);
+      expect(analysis.fromCache).toBe(false);
       
       // Check events
       expect(mockEventListener).toHaveBeenCalledWith({ analysis });
@@ -362,8 +367,7 @@ describe('VideoService', () => {
         }
       });
       
-      jest.spyOn(videoService, 'extractFrames').mockResolvedValue(createMockFrames(10));
-      jest.spyOn(videoService, 'detectScenes').mockResolvedValue([]);
+      mockStream(videoService, toFrames(hold(STREET, 10)));
       jest.spyOn(videoService, 'analyzeContent').mockResolvedValue({
         hasFaces: false,
         faceCount: 0,
@@ -374,27 +378,22 @@ describe('VideoService', () => {
         isOutdoor: false,
         hasMotion: false
       });
-      jest.spyOn(videoService, 'analyzeMotion').mockResolvedValue({
-        averageMotion: 0,
-        motionByFrame: [],
-        hasHighMotion: false,
-        hasCameraMovement: false
-      });
       jest.spyOn(videoService, 'classifyClipType').mockResolvedValue(ClipType.UNKNOWN);
       
       await videoService.analyzeVideo(file);
       
       // Check progress events
-      expect(progressListener).toHaveBeenCalledTimes(3);
-      expect(progressListener).toHaveBeenCalledWith(
-        expect.objectContaining({ progress: 0.1, message: 'Extracting frames...' })
-      );
-      expect(progressListener).toHaveBeenCalledWith(
-        expect.objectContaining({ progress: 0.4, message: 'Detecting scenes...' })
-      );
-      expect(progressListener).toHaveBeenCalledWith(
-        expect.objectContaining({ progress: 0.7, message: 'Analyzing content...' })
+      const stages = progressListener.mock.calls.map(
+        ([event]: unknown[]) => event as { progress: number; message: string }
       );
+      expect(stages[0]).toEqual({ progress: 0.1, message: 'Extracting frames...' });
+      expect(stages.slice(-3)).toEqual([
+        { progress: 0.4, message: 'Detecting scenes...' },
+        { progress: 0.7, message: 'Analyzing content...' },
+        { progress: 0.9, message: 'Analyzing motion...' }
+      ]);
+      const progress = stages.map((event: { progress: number }) => event.progress);
+      expect(progress).toEqual([...progress].sort((a: number, b: number) => a - b));
     });
     
     it('should cache analysis results for subsequent calls', async () => {
@@ -422,8 +421,7 @@ describe('VideoService', () => {
           bitrate: 5000000
         }
       });
-      jest.spyOn(videoService, 'extractFrames').mockResolvedValue(createMockFrames(10));
-      jest.spyOn(videoService, 'detectScenes').mockResolvedValue([]);
+      mockStream(videoService, toFrames(hold(STREET, 10)));
       jest.spyOn(videoService, 'analyzeContent').mockResolvedValue({
         hasFaces: false,
         faceCount: 0,
@@ -434,12 +432,6 @@ describe('VideoService', () => {
         isOutdoor: false,
         hasMotion: false
       });
-      jest.spyOn(videoService, 'analyzeMotion').mockResolvedValue({
-        averageMotion: 0,
-        motionByFrame: [],
-        hasHighMotion: false,
-        hasCameraMovement: false
-      });
       jest.spyOn(videoService, 'classifyClipType').mockResolvedValue(ClipType.UNKNOWN);
       
       await videoService.analyzeVideo(file);
@@ -450,13 +442,107 @@ describe('VideoService', () => {
       await videoService.analyzeVideo(file);
       
       // The actual analysis methods should not be called again
-      expect(videoService.extractFrames).not.toHaveBeenCalled();
-      expect(videoService.detectScenes).not.toHaveBeenCalled();
+      expect(videoService.streamFrames).not.toHaveBeenCalled();
       expect(videoService.analyzeContent).not.toHaveBeenCalled();
-      expect(videoService.analyzeMotion).not.toHaveBeenCalled();
       expect(videoService.classifyClipType).not.toHaveBeenCalled();
     });
     
+    it('should place a cut found between samples on the exact frame', async () => {
+      const file = createMockFile();
+      const videoService = new DecodingVideoService();
+      
+      jest.spyOn(videoService, 'loadVideoFile').mockResolvedValue({
+        id: 'mock-id',
+        file,
+        name: 'test-video.mp4',
+        size: 1024,
+        type: 'video/mp4',
+        blobUrl: 'blob:mock-url',
+        duration: 10,
+        width: 160,
+        height: 90,
+        fps: 30,
+        thumbnail: 'data:image/jpeg;base64,mockBase64Data',
+        metadata: { width: 160, height: 90, duration: 10, fps: 30 }
+      });
+      mockStream(videoService, toFrames([...hold(STREET, 5), ...hold(FOREST, 5)]));
+      
+      // The cut lands 12 frames after the last sample before it
+      const decodeFrames = jest
+        .spyOn(videoService, 'decodeFrames')
+        .mockImplementation(async (_input: string, { maxWidth, startTime }: FrameExtractionOptions) =>
+          maxWidth ? toFrames([...hold(STREET, 12), ...hold(FOREST, 19)], 30, startTime) : []
+        );
+      jest.spyOn(videoService, 'classifyClipType').mockResolvedValue(ClipType.UNKNOWN);
+      
+      const analysis = await videoService.analyzeVideo(file);
+      
+      expect(decodeFrames).toHaveBeenCalledWith(
+        'test-video.mp4',
+        expect.objectContaining({ fps: 30, startTime: 4, maxWidth: 160 }),
+        31
+      );
+      expect(analysis.scenes).toHaveLength(2);
+      expect(analysis.scenes[0].endTime).toBeCloseTo(4 + 11 / 30);
+      expect(analysis.scenes[1].startTime).toBeCloseTo(4 + 12 / 30);
+      expect(analysis.scenes[1].duration).toBeCloseTo(9 - (4 + 12 / 30));
+      expect(analysis.scenes[0].endFrame).toBe(131);
+      expect(analysis.scenes[1].startFrame).toBe(132);
+      expect(analysis.scenes[1].endFrame).toBe(270);
+    });
+    
+    it('should describe how the camera moves through each scene', async () => {
+      const file = createMockFile();
+      
+      jest.spyOn(videoService, 'loadVideoFile').mockResolvedValue({
+        id: 'mock-id',
+        file,
+        name: 'test-video.mp4',
+        size: 1024,
+        type: 'video/mp4',
+        blobUrl: 'blob:mock-url',
+        duration: 10,
+        width: 160,
+        height: 90,
+        fps: 1,
+        thumbnail: 'data:image/jpeg;base64,mockBase64Data',
+        metadata: { width: 160, height: 90, duration: 10, fps: 1 }
+      });
+      const frames = toFrames([...hold(STREET, 5), ...hold(FOREST, 5)]);
+      mockStream(videoService, frames, 10);
+      
+      // The camera pans right through the first scene and holds still in the second
+      const scanFrames = videoService.scanFrames.bind(videoService);
+      jest.spyOn(videoService, 'scanFrames').mockImplementation(async (chunk: VideoFrame[]) => ({
+        features: (await scanFrames(chunk)).features,
+        motion: chunk.slice(1).map((frame: VideoFrame) => ({
+          frameIndex: frame.index,
+          time: frame.time,
+          motionAmount: frame.time < 5 ? 20 : 0,
+          cameraMotion: {
+            interval: 1,
+            translateX: frame.time < 5 ? -0.1 : 0,
+            translateY: 0,
+            scale: 0,
+            rotation: 0,
+            residual: 0
+          }
+        }))
+      }));
+      jest.spyOn(videoService, 'classifyClipType').mockResolvedValue(ClipType.UNKNOWN);
+      
+      const analysis = await videoService.analyzeVideo(file);
+      
+      expect(analysis.scenes).toHaveLength(2);
+      expect(analysis.scenes[0].cameraMovements).toMatchObject([
+        { type: CameraMovementType.PAN, startTime: 0, endTime: 4000, direction: 0 }
+      ]);
+      expect(analysis.scenes[1].cameraMovements).toMatchObject([
+        { type: CameraMovementType.STATIC, startTime: 5000, endTime: 9000 }
+      ]);
+      expect(analysis.motionData.hasCameraMovement).toBe(false);
+    });
+    
     it('should handle errors during analysis', async () => {
       const file = createMockFile();
       const errorListener = jest.fn();
@@ -546,23 +632,32 @@ describe('VideoService', () => {
       expect(scenes[0]).toHaveProperty('startTime', 0);
     });
     
-    it('should detect scene changes based on threshold', async () => {
-      const frames = createMockFrames(10);
-      
-      // Mock the difference calculation to create a scene change
-      jest.spyOn(cv, 'mean')
-        .mockReturnValueOnce([5]) // Below threshold
-        .mockReturnValueOnce([5]) // Below threshold
-        .mockReturnValueOnce([40]) // Above threshold (new scene)
-        .mockReturnValueOnce([5]) // Below threshold
-        .mockReturnValue([5]); // Below threshold
+    it('should detect scene changes and how each scene begins', async () => {
+      const frames = toFrames([
+        ...hold(STREET, 4),
+        ...hold(FOREST, 4),
+        ...[0.25, 0.5, 0.75].map((mix: number) => blend(FOREST, STREET, mix)),
+        ...hold(STREET, 4)
+      ]);
       
-      const scenes = await videoService.detectScenes(frames, { threshold: 30 });
+      const scenes = await videoService.detectScenes(frames);
       
-      expect(scenes.length).toBe(2); // Initial scene + one scene change
-      expect(scenes[0].startFrame).toBe(0);
-      expect(scenes[0].endFrame).toBe(2);
-      expect(scenes[1].startFrame).toBe(3);
+      expect(scenes.length).toBe(3);
+      expect(scenes[0]).toMatchObject({ startFrame: 0, endFrame: 3 });
+      expect(scenes[0].transitionIn).toBeUndefined();
+      expect(scenes[1]).toMatchObject({
+        startFrame: 4,
+        endFrame: 7,
+        transitionIn: 'cut',
+        transitionDuration: 0
+      });
+      expect(scenes[2]).toMatchObject({
+        startFrame: 8,
+        endFrame: 14,
+        keyFrameIndex: 11,
+        transitionIn: 'dissolve',
+        transitionDuration: 4
+      });
     });
     
     it('should return empty array if no frames are provided', async () => {
@@ -573,12 +668,7 @@ describe('VideoService', () => {
     
     it('should handle errors during scene detection', async () => {
       const frames = createMockFrames(10);
-      
-      // Mock matFromImageData to throw
-      jest.spyOn(cv, 'matFromImageData')
-        .mockImplementation(() => {
-          throw new Error('Mock error');
-        });
+      frames[3].imageData = { data: new Uint8ClampedArray(4), width: 1920, height: 1080 } as ImageData;
       
       await expect(videoService.detectScenes(frames)).rejects.toThrow('Failed to detect scenes');
     });
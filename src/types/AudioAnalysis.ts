@@ -30,6 +30,10 @@ export interface Beat {
   time: number;
   /** Confidence level of the beat detection (0.0 to 1.0) */
   confidence: number;
+  /** Bar the beat falls in, counting from 1; beats before the first downbeat are in bar 0 */
+  bar?: number;
+  /** Position of the beat in its bar, counting from 1 on the downbeat */
+  beatInBar?: number;
 }
 
 /**
@@ -40,6 +44,8 @@ export interface BeatAnalysis {
   beats: Beat[];
   /** Average confidence of all detected beats */
   averageConfidence?: number;
+  /** Time signature found from the beats' accents */
+  timeSignature?: Tempo['timeSignature'];
 }
 
 /**
@@ -102,6 +108,8 @@ export interface Section {
   label: string;
   /** Confidence level of the section detection (0.0 to 1.0) */
   confidence: number;
+  /** Letter shared by sections that repeat the same material (e.g., "A", "B") */
+  group?: string;
   /** Key characteristics of this section (optional) */
   characteristics?: {
     /** Dominant key in this section (e.g., "C", "F#m") */
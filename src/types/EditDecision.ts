@@ -37,7 +37,7 @@ export interface TimelineCutPoint {
   /** Type of marker (in, out, marker, etc.) */
   type: MarkerType;
   
-  /** Position on the timeline (timecode or frame number) */
+  /** Position on the timeline, as SMPTE timecode or a number of seconds */
   position: Timecode;
   
   /** Optional descriptive label for the cut point */
@@ -201,6 +201,12 @@ export interface AlignmentInfo {
   /** Global offset between audio and video (positive means audio leads) */
   globalOffset: number;
   
+  /** Optional confidence score (0-1) for the offset if determined algorithmically */
+  confidence?: number;
+  
+  /** Seconds the offset grows by per second of video, when the clocks run at different speeds */
+  drift?: number;
+  
   /** Whether to maintain sync by stretching/compressing audio */
   maintainSyncByTimeStretch?: boolean;
   
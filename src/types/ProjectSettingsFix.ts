@@ -47,6 +47,7 @@ export interface EditingModeSettingsFix {
   prioritizeVisualQuality: boolean;
   prioritizeAudioQuality: boolean;
   maintainChronology: boolean;
+  maxClipUses?: number;
   useB_Roll: boolean;
   cutOnAction: boolean;
   cutOnAudioCues: boolean;
@@ -15,6 +15,10 @@ export interface Beat {
   confidence?: number;
   /** Energy level at this beat (0-1) */
   energy?: number;
+  /** Bar the beat falls in, counting from 1; beats before the first downbeat are in bar 0 */
+  bar?: number;
+  /** Position of the beat in its bar, counting from 1 on the downbeat */
+  beatInBar?: number;
 }
 
 /**
@@ -57,6 +61,11 @@ export interface AudioAnalysis {
   duration: number;
   /** Detected tempo in BPM */
   tempo?: number;
+  /** Detected time signature */
+  timeSignature?: {
+    numerator: number;
+    denominator: number;
+  };
   /** Array of detected beats */
   beats?: Beat[];
   /** Array of detected segments */
@@ -10,7 +10,7 @@ import { ProjectState, ProjectSettings } from './project.types';
 import { UIState } from './ui.types';
 import { AudioAnalysis } from './audio.types';
 import { VideoAnalysis } from './video.types';
-import { EditDecisionList, EditDecision } from './edit.types';
+import { EditDecisionList, EditDecision, AlignmentInfo } from './edit.types';
 
 /**
  * Represents the status of a file being processed
@@ -159,6 +159,8 @@ export interface AnalysisState {
   video: any | null;
   /** Whether analysis is currently in progress */
   isAnalyzing: boolean;
+  /** Alignment of each raw video to the music track, by raw video ID */
+  alignments?: Record<string, AlignmentInfo>;
 }
 
 /**
@@ -102,6 +102,8 @@ export interface EditingModeSettings {
   prioritizeAudioQuality: boolean;
   /** Whether to maintain chronological order of events */
   maintainChronology: boolean;
+  /** Most times one shot may be used in the edit (default: no limit) */
+  maxClipUses?: number;
   /** Whether to use B-roll footage automatically */
   useB_Roll: boolean;
   /** Whether to cut on action/movement */
@@ -276,6 +278,8 @@ export interface ProjectSettings {
  * Raw video file interface
  */
 export interface RawVideoFile {
+  /** Unique identifier */
+  id: string;
   /** The file object */
   file: File;
   /** File name */
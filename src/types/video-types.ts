@@ -2,6 +2,9 @@
  * Type definitions for video processing and analysis in CineFlux-AutoXML
  */
 
+import type { SceneType } from './edit-types';
+import { BoundingBox, CameraMovement } from './VideoAnalysis';
+
 /**
  * Represents a video file with metadata
  */
@@ -30,6 +33,11 @@ export interface VideoMetadata {
   fps: number;
   codec?: string;
   bitrate?: number;
+  pixelAspectRatio?: number; // Sample aspect ratio (1 for square pixels)
+  audioChannels?: number; // 0 when the file has no audio stream
+  audioChannelLayout?: string; // e.g. 'mono', 'stereo', '5.1'
+  audioSampleRate?: number; // in Hz
+  audioBitDepth?: number; // bits per sample; 0 for compressed audio such as AAC
 }
 
 /**
@@ -44,17 +52,26 @@ export interface VideoFrame {
   thumbnail: string;
 }
 
+/**
+ * How one shot gives way to the next
+ */
+export type ShotTransition = 'cut' | 'dissolve' | 'fade';
+
 /**
  * Represents a scene detected in a video
  */
 export interface Scene {
   id: string;
-  startFrame: number;
-  endFrame: number;
+  startFrame: number; // First frame of the scene, numbered at the video's frame rate
+  endFrame: number; // Last frame of the scene, numbered at the video's frame rate
   startTime: number;
   endTime: number;
   duration: number;
-  keyFrameIndex: number; // Index of the representative frame
+  keyFrameIndex: number; // Index of the representative frame among the frames sampled for analysis
+  transitionIn?: ShotTransition; // How the scene begins; absent for the first scene
+  transitionDuration?: number; // Length of the transition into the scene in seconds
+  boundaryConfidence?: number; // Confidence in the boundary the scene starts at (0-1)
+  cameraMovements?: CameraMovement[]; // How the camera moves through the scene, in order
 }
 
 /**
@@ -66,12 +83,19 @@ export interface RGBColor {
   b: number;
 }
 
+/**
+ * How close a shot is, from the scene types an edit can ask for
+ */
+export type ShotSize = SceneType.CLOSEUP | SceneType.MEDIUM | SceneType.WIDE;
+
 /**
  * Content analysis data for a video frame or scene
  */
 export interface ContentData {
   hasFaces: boolean;
   faceCount: number;
+  faces?: BoundingBox[]; // Where each face is, normalized to the frame
+  shotSize?: ShotSize; // How close the shot is, judged from the nearest face
   dominantColors: RGBColor[];
   brightness: number; // 0-255
   contrast: number;
@@ -87,6 +111,20 @@ export interface FrameMotion {
   frameIndex: number;
   time: number;
   motionAmount: number;
+  cameraMotion?: GlobalMotion; // How the whole picture moved into the frame
+}
+
+/**
+ * How the whole picture moved between two frames, fitted to their optical
+ * flow. Rates are per second, in frame widths.
+ */
+export interface GlobalMotion {
+  interval: number; // Seconds between the two frames
+  translateX: number; // Drift of the picture (positive is to the right)
+  translateY: number; // Drift of the picture (positive is down)
+  scale: number; // Rate the picture grows (positive) or shrinks (negative)
+  rotation: number; // Rate the picture turns clockwise, in radians
+  residual: number; // Typical flow left unexplained, as by parallax or moving subjects
 }
 
 /**
@@ -116,11 +154,13 @@ export enum ClipType {
 export interface VideoAnalysis {
   videoId: string;
   duration: number;
+  metadata?: VideoMetadata;
   frameCount: number;
   scenes: Scene[];
   contentAnalysis: ContentData[];
   motionData: MotionData;
   clipType: ClipType;
+  fromCache?: boolean; // whether analyzeVideo loaded it from the persistent cache
 }
 
 /**
@@ -130,14 +170,18 @@ export interface FrameExtractionOptions {
   fps?: number; // Frames per second to extract
   maxFrames?: number; // Maximum number of frames to extract
   quality?: number; // Quality of extracted frames (1-100)
+  startTime?: number; // Seconds into the video to start extracting from
+  duration?: number; // Seconds of video to extract from
+  maxWidth?: number; // Width to scale frames down to, keeping their aspect ratio
 }
 
 /**
  * Options for scene detection
  */
 export interface SceneDetectionOptions {
-  threshold?: number; // Threshold for scene change detection (0-255)
+  threshold?: number; // Least colour histogram distance counted as a cut (0-1, default 0.3)
   minSceneDuration?: number; // Minimum scene duration in seconds
+  sampleRate?: number; // Frames per second sampled for detection (default 1)
 }
 
 /**
@@ -8,6 +8,7 @@ import { VideoFile } from './video-types';
 import { AudioAnalysis } from './audio-types';
 import { ProjectSettings } from './ProjectSettingsFix';
 import { WorkflowStep } from './workflow/WorkflowStepFix';
+import { AlignmentInfo } from './EditDecision';
 
 /**
  * Represents an edit decision for the timeline
@@ -59,6 +60,7 @@ export interface AnalysisState {
   audio: AudioAnalysis | null;
   video: any | null; // Using any temporarily, should be replaced with proper type
   isAnalyzing: boolean;
+  alignments?: Record<string, AlignmentInfo>;
 }
 
 /**
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  CacheEntryInfo,
+  analysisCacheKey,
+  estimateSize,
+  selectEvictions,
+  stableStringify,
+} from '../analysisCache';
+
+const entry = (key: string, size: number, lastAccessed: number): CacheEntryInfo => ({
+  key,
+  analyzer: 'video',
+  version: 1,
+  contentHash: key,
+  size,
+  lastAccessed,
+});
+
+describe('stableStringify', () => {
+  it('sorts object keys at every level', () => {
+    expect(stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 'x' } })).toBe(
+      '{"a":{"c":"x","d":[2,{"e":4,"f":3}]},"b":1}'
+    );
+  });
+
+  it('leaves out undefined properties as JSON does', () => {
+    expect(stableStringify({ a: undefined, b: null })).toBe('{"b":null}');
+    expect(stableStringify([undefined])).toBe('[null]');
+  });
+});
+
+describe('analysisCacheKey', () => {
+  it('does not depend on the order options were set in', () => {
+    expect(analysisCacheKey('video', 'abc', { fps: 1, maxFrames: 300 })).toBe(
+      analysisCacheKey('video', 'abc', { maxFrames: 300, fps: 1 })
+    );
+  });
+
+  it('differs by analyzer, content and options', () => {
+    const keys = new Set([
+      analysisCacheKey('video', 'abc', { fps: 1 }),
+      analysisCacheKey('audio', 'abc', { fps: 1 }),
+      analysisCacheKey('video', 'abd', { fps: 1 }),
+      analysisCacheKey('video', 'abc', { fps: 2 }),
+      analysisCacheKey('video', 'abc'),
+    ]);
+    expect(keys.size).toBe(5);
+  });
+});
+
+describe('estimateSize', () => {
+  it('grows with the value', () => {
+    expect(estimateSize({ scenes: new Array(100).fill({ start: 0 }) })).toBeGreaterThan(
+      estimateSize({ scenes: [] })
+    );
+  });
+});
+
+describe('selectEvictions', () => {
+  it('evicts nothing while the cache fits', () => {
+    expect(selectEvictions([entry('a', 40, 1), entry('b', 60, 2)], 100)).toEqual([]);
+  });
+
+  it('evicts the least recently used entries until the rest fit', () => {
+    const entries = [entry('new', 50, 30), entry('old', 50, 10), entry('mid', 50, 20)];
+    expect(selectEvictions(entries, 100)).toEqual(['old']);
+    expect(selectEvictions(entries, 60)).toEqual(['old', 'mid']);
+  });
+
+  it('never evicts the entry it is told to keep', () => {
+    const entries = [entry('written', 80, 1), entry('other', 50, 2)];
+    expect(selectEvictions(entries, 100, 'written')).toEqual(['other']);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  AnalysisWorker,
+  AnalysisWorkerMessage,
+  AnalysisWorkerScope,
+  isAbortError,
+  runAnalysisWorker,
+  serveAnalysis,
+  throwIfAborted,
+} from '../analysisWorker';
+
+/**
+ * A worker whose replies are posted by the test
+ */
+class FakeWorker implements AnalysisWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: Array<{ message: unknown; transfer: Transferable[] }> = [];
+  terminated = false;
+
+  postMessage(message: unknown, transfer: Transferable[]) {
+    this.posted.push({ message, transfer });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(message: AnalysisWorkerMessage<unknown>) {
+    this.onmessage?.({ data: message } as MessageEvent);
+  }
+}
+
+/**
+ * A worker scope that records what the worker posts
+ */
+class FakeScope implements AnalysisWorkerScope {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  posted: Array<{ message: AnalysisWorkerMessage<unknown>; transfer?: Transferable[] }> = [];
+
+  postMessage(message: unknown, transfer?: Transferable[]) {
+    this.posted.push({ message: message as AnalysisWorkerMessage<unknown>, transfer });
+  }
+}
+
+describe('runAnalysisWorker', () => {
+  it('posts the request with its transfer list and resolves with the result', async () => {
+    const worker = new FakeWorker();
+    const samples = new Float32Array(4);
+    const result = runAnalysisWorker(
+      worker,
+      { samples },
+      {
+        transfer: [samples.buffer],
+      }
+    );
+
+    expect(worker.posted).toEqual([{ message: { samples }, transfer: [samples.buffer] }]);
+    worker.reply({ type: 'result', result: { bpm: 120 } });
+
+    await expect(result).resolves.toEqual({ bpm: 120 });
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('reports progress until the result arrives', async () => {
+    const worker = new FakeWorker();
+    const onProgress = jest.fn();
+    const result = runAnalysisWorker(worker, {}, { onProgress });
+
+    worker.reply({ type: 'progress', progress: 40, message: 'Detecting beats...' });
+    worker.reply({ type: 'progress', progress: 90, message: 'Detecting sections...' });
+    worker.reply({ type: 'result', result: null });
+    await result;
+
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith(90, 'Detecting sections...');
+  });
+
+  it('rejects with the error the worker reports', async () => {
+    const worker = new FakeWorker();
+    const result = runAnalysisWorker(worker, {});
+
+    worker.reply({ type: 'error', message: 'Out of memory' });
+
+    await expect(result).rejects.toThrow('Out of memory');
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('leaves a kept-alive worker running for the next request', async () => {
+    const worker = new FakeWorker();
+    const first = runAnalysisWorker(worker, { chunk: 0 }, { keepAlive: true });
+    worker.reply({ type: 'result', result: 'first' });
+    await expect(first).resolves.toBe('first');
+    expect(worker.terminated).toBe(false);
+
+    const second = runAnalysisWorker(worker, { chunk: 1 }, { keepAlive: true });
+    worker.reply({ type: 'error', message: 'Decoder failed' });
+
+    await expect(second).rejects.toThrow('Decoder failed');
+    expect(worker.posted).toHaveLength(2);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('terminates the worker and rejects with an AbortError when aborted', async () => {
+    const worker = new FakeWorker();
+    const controller = new AbortController();
+    const result = runAnalysisWorker(worker, {}, { signal: controller.signal });
+
+    controller.abort();
+
+    const error = await result.catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+    expect(worker.terminated).toBe(true);
+    expect(worker.onmessage).toBeNull();
+  });
+
+  it('does not start a worker for an already aborted signal', async () => {
+    const worker = new FakeWorker();
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await runAnalysisWorker(worker, {}, { signal: controller.signal }).catch(
+      (reason: unknown) => reason
+    );
+
+    expect(isAbortError(error)).toBe(true);
+    expect(worker.posted).toHaveLength(0);
+  });
+});
+
+describe('serveAnalysis', () => {
+  it('posts progress and then the result with its transfer list', async () => {
+    const scope = new FakeScope();
+    const samples = new Float32Array(8);
+    serveAnalysis<number, Float32Array>(
+      scope,
+      async (request: number, reportProgress) => {
+        reportProgress(50, 'Halfway');
+        return samples.fill(request);
+      },
+      (result: Float32Array) => [result.buffer]
+    );
+
+    await scope.onmessage?.({ data: 3 } as MessageEvent);
+
+    expect(scope.posted).toEqual([
+      { message: { type: 'progress', progress: 50, message: 'Halfway' }, transfer: undefined },
+      { message: { type: 'result', result: samples }, transfer: [samples.buffer] },
+    ]);
+  });
+
+  it('posts errors thrown by the analysis', async () => {
+    const scope = new FakeScope();
+    serveAnalysis(scope, async () => {
+      throw new Error('Could not decode');
+    });
+
+    await scope.onmessage?.({ data: {} } as MessageEvent);
+
+    expect(scope.posted).toEqual([
+      { message: { type: 'error', message: 'Could not decode' }, transfer: undefined },
+    ]);
+  });
+});
+
+describe('throwIfAborted', () => {
+  it('throws an AbortError only once the signal is aborted', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted()).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow('Analysis was cancelled');
+  });
+});
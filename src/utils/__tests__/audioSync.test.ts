@@ -0,0 +1,89 @@
+/**
+ * audioSync.test.ts
+ *
+ * Unit tests for the beat-grid helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getBeatAccent,
+  getBeatsPerBar,
+  getMeasurePosition,
+  getNearestBeatTime,
+  getNextBeatTime,
+  getPreviousBeatTime,
+  isOnBeat,
+} from '../audioSync';
+import { TempoMap } from '../tempoMap';
+
+/**
+ * Beats at 120 BPM in 3/4, starting with a pickup beat
+ */
+const beats = [0, 0.5, 1, 1.5, 2, 2.5, 3].map((time: number, index: number) => ({
+  time,
+  confidence: 1,
+  bar: Math.floor((index - 1) / 3) + 1,
+  beatInBar: ((index - 1 + 3) % 3) + 1,
+}));
+
+/**
+ * Four beats at 120 BPM from 1 second, then 60 BPM
+ */
+const tempoMap: TempoMap = {
+  segments: [
+    { startTime: 1, startBeat: 0, bpm: 120 },
+    { startTime: 3, startBeat: 4, bpm: 60 },
+  ],
+};
+
+describe('beat grid', () => {
+  it('should keep the constant grid for a BPM and offset', () => {
+    expect(getNearestBeatTime(1.3, 120, 0.1)).toBeCloseTo(1.1);
+    expect(getNextBeatTime(1.3, 120, 0.1)).toBeCloseTo(1.6);
+    expect(getPreviousBeatTime(1.3, 120, 0.1)).toBeCloseTo(1.1);
+    expect(isOnBeat(1.12, 120, 0.1)).toBe(true);
+    expect(getNearestBeatTime(1.3, 0)).toBe(1.3);
+  });
+
+  it('should follow a tempo map across a tempo change', () => {
+    expect(getNearestBeatTime(2.7, tempoMap)).toBeCloseTo(2.5);
+    expect(getNextBeatTime(3.2, tempoMap)).toBeCloseTo(4);
+    expect(getPreviousBeatTime(4.9, tempoMap)).toBeCloseTo(4);
+    expect(getPreviousBeatTime(0.8, tempoMap)).toBeCloseTo(0.5);
+    expect(isOnBeat(3.5, tempoMap)).toBe(false);
+    expect(isOnBeat(3.5, 120, 1)).toBe(true);
+    expect(getMeasurePosition(4, tempoMap, 4)).toBeCloseTo(0.25);
+  });
+});
+
+describe('getMeasurePosition', () => {
+  it('should follow labelled bars through a pickup', () => {
+    expect(getMeasurePosition(0.5, beats)).toBe(0);
+    expect(getMeasurePosition(1.25, beats)).toBeCloseTo(1.5 / 3);
+    expect(getMeasurePosition(0.25, beats)).toBeCloseTo(2.5 / 3);
+    expect(getMeasurePosition(2, beats)).toBe(0);
+  });
+
+  it('should keep counting from the BPM and offset', () => {
+    expect(getMeasurePosition(1.25, 120, 4, 0.25)).toBe(0.5);
+  });
+});
+
+describe('getBeatsPerBar', () => {
+  it('should count compound meters in dotted-quarter beats', () => {
+    expect(getBeatsPerBar({ numerator: 3, denominator: 4 })).toBe(3);
+    expect(getBeatsPerBar({ numerator: 6, denominator: 8 })).toBe(2);
+    expect(getBeatsPerBar({ numerator: 12, denominator: 8 })).toBe(4);
+    expect(getBeatsPerBar({ numerator: 3, denominator: 8 })).toBe(3);
+    expect(getBeatsPerBar()).toBe(4);
+  });
+});
+
+describe('getBeatAccent', () => {
+  it('should rank phrase starts over downbeats over other beats', () => {
+    expect(getBeatAccent({ bar: 5, beatInBar: 1 })).toBe(2);
+    expect(getBeatAccent({ bar: 2, beatInBar: 1 })).toBe(1);
+    expect(getBeatAccent({ bar: 2, beatInBar: 3 })).toBe(0);
+    expect(getBeatAccent({})).toBe(0);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * beatTracking.test.ts
+ *
+ * Tests for beat tracking against synthetic click tracks with known beats
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { labelBeats, meterToTimeSignature, trackBeats } from '../beatTracking';
+import {
+  beatFMeasure,
+  clickTrackCorpus,
+  createClickTrack,
+  meterCorpus,
+} from './fixtures/clickTracks';
+import { Beat } from '../../types/AudioAnalysis';
+
+const corpus = clickTrackCorpus().map((track) => ({
+  track,
+  result: trackBeats(track.samples, track.sampleRate),
+}));
+
+const noise = createClickTrack({
+  name: 'noise',
+  bpm: 120,
+  duration: 10,
+  noise: 0.3,
+  dropout: [0, 10],
+});
+
+describe('trackBeats', () => {
+  it.each(corpus.map(({ track, result }) => [track.name, track, result] as const))(
+    'should find the tempo and beats of %s',
+    (_name, track, result) => {
+      const times = result.beats.map((beat: Beat) => beat.time);
+      const confident = result.beats
+        .filter((beat: Beat) => beat.confidence >= 0.5)
+        .map((beat: Beat) => beat.time);
+
+      expect(Math.abs(result.bpm - track.bpm) / track.bpm).toBeLessThan(0.02);
+      expect(beatFMeasure(times, track.beats).fMeasure).toBeGreaterThan(0.85);
+      expect(beatFMeasure(confident, track.beats).fMeasure).toBeGreaterThan(0.9);
+    }
+  );
+
+  it('should give beats bridging a dropout no confidence', () => {
+    const { result } = corpus.find(({ track }) => track.name.includes('dropout'))!;
+    const bridging = result.beats.filter((beat: Beat) => beat.time > 5.1 && beat.time < 7.4);
+
+    expect(bridging.length).toBeGreaterThan(0);
+    bridging.forEach((beat: Beat) => expect(beat.confidence).toBeLessThan(0.1));
+  });
+
+  it('should have little confidence in beats found in noise', () => {
+    expect(trackBeats(noise.samples, noise.sampleRate).averageConfidence).toBeLessThan(0.4);
+  });
+
+  it('should give confidences that match how often beats are right', () => {
+    const scored = [
+      ...corpus,
+      { track: noise, result: trackBeats(noise.samples, noise.sampleRate) },
+    ].flatMap(({ track, result }) => {
+      const { matched } = beatFMeasure(
+        result.beats.map((beat: Beat) => beat.time),
+        track.beats
+      );
+      return result.beats.map((beat: Beat, index: number) => ({
+        confidence: beat.confidence,
+        correct: matched[index],
+      }));
+    });
+
+    // Expected calibration error over five confidence bins
+    const error = [0, 1, 2, 3, 4].reduce((sum: number, bin: number) => {
+      const inBin = scored.filter(
+        ({ confidence }) => Math.min(4, Math.floor(confidence * 5)) === bin
+      );
+      const confidence = inBin.reduce((total: number, beat) => total + beat.confidence, 0);
+      const correct = inBin.filter((beat) => beat.correct).length;
+      return sum + Math.abs(confidence - correct) / scored.length;
+    }, 0);
+
+    expect(error).toBeLessThan(0.05);
+  });
+
+  it('should find no beats in silence', () => {
+    const result = trackBeats(new Float32Array(22050 * 5), 22050);
+
+    expect(result.beats).toEqual([]);
+    expect(result.averageConfidence).toBe(0);
+    expect(result.tempoConfidence).toBe(0);
+  });
+
+  it('should report progress up to 100', () => {
+    const progress: number[] = [];
+    trackBeats(corpus[0].track.samples, corpus[0].track.sampleRate, {}, (value: number) =>
+      progress.push(value)
+    );
+
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress).toEqual([...progress].sort((a: number, b: number) => a - b));
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+});
+
+describe('meter detection', () => {
+  it.each(meterCorpus().map((track) => [track.name, track] as const))(
+    'should find the bars of %s',
+    (_name, track) => {
+      const result = trackBeats(track.samples, track.sampleRate);
+      const { numerator, denominator } = result.timeSignature;
+      const downbeats = result.beats
+        .filter((beat: Beat) => beat.beatInBar === 1)
+        .map((beat: Beat) => beat.time);
+
+      expect(`${numerator}/${denominator}`).toBe(track.timeSignature);
+      expect(result.meterConfidence).toBeGreaterThan(0.5);
+      expect(beatFMeasure(downbeats, track.downbeats).fMeasure).toBeGreaterThan(0.9);
+    }
+  );
+
+  it('should count a pickup as the end of bar 0', () => {
+    const [track] = meterCorpus();
+    const [pickup, one, two] = trackBeats(track.samples, track.sampleRate).beats;
+
+    expect(pickup).toMatchObject({ bar: 0, beatInBar: 4 });
+    expect(one).toMatchObject({ bar: 1, beatInBar: 1 });
+    expect(two).toMatchObject({ bar: 1, beatInBar: 2 });
+  });
+
+  it('should fall back to 4/4 when no beat is accented', () => {
+    const [track] = clickTrackCorpus();
+    const result = trackBeats(track.samples, track.sampleRate);
+
+    expect(result.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+    expect(result.meterConfidence).toBeLessThan(0.5);
+  });
+
+  it('should write compound meters in eighth notes', () => {
+    const meter = { beatsPerBar: 2, firstDownbeat: 0, confidence: 1 };
+
+    expect(meterToTimeSignature({ ...meter, subdivision: 3 })).toEqual({
+      numerator: 6,
+      denominator: 8,
+    });
+    expect(meterToTimeSignature({ ...meter, subdivision: 2 })).toEqual({
+      numerator: 2,
+      denominator: 4,
+    });
+    expect(
+      labelBeats([0, 1, 2].map((time) => ({ time, confidence: 1 })), { ...meter, subdivision: 3 })
+    ).toEqual([
+      { time: 0, confidence: 1, bar: 1, beatInBar: 1 },
+      { time: 1, confidence: 1, bar: 1, beatInBar: 2 },
+      { time: 2, confidence: 1, bar: 2, beatInBar: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from '@jest/globals';
+import { CameraMovementType, FlowVector } from '../../types/VideoAnalysis';
+import { FrameMotion, GlobalMotion } from '../../types/video-types';
+import { cameraMovements, fitGlobalMotion } from '../cameraMotion';
+
+const WIDTH = 320;
+const HEIGHT = 180;
+const COLUMNS = 16;
+const ROWS = 9;
+
+/**
+ * A grid of flow vectors
+ * @param flow Flow at a point, in frame widths from the centre, given the
+ * depth of the scene there (0.5 to 1.5)
+ */
+const field = (flow: (x: number, y: number, depth: number) => [number, number]): FlowVector[] =>
+  Array.from({ length: COLUMNS * ROWS }, (_, cell: number) => {
+    const x = ((cell % COLUMNS) + 0.5) / COLUMNS;
+    const y = (Math.floor(cell / COLUMNS) + 0.5) / ROWS;
+    const depth = 0.5 + ((cell * 7919) % 13) / 12;
+    const [u, v] = flow(x - 0.5, ((y - 0.5) * HEIGHT) / WIDTH, depth);
+    return { x, y, dx: u * WIDTH, dy: v * WIDTH, magnitude: Math.hypot(u, v) * WIDTH };
+  });
+
+const classify = (flow: FlowVector[]) =>
+  cameraMovements(
+    [
+      {
+        frameIndex: 1,
+        time: 1,
+        motionAmount: 0,
+        cameraMotion: fitGlobalMotion(flow, WIDTH, HEIGHT, 1),
+      },
+    ],
+    0,
+    1
+  )[0];
+
+/**
+ * Consecutive one-second pairs of frames with the given motion
+ */
+const pairs = (motions: Array<Partial<GlobalMotion>>): FrameMotion[] =>
+  motions.map((motion: Partial<GlobalMotion>, i: number) => ({
+    frameIndex: i + 1,
+    time: i + 1,
+    motionAmount: 0,
+    cameraMotion: {
+      interval: 1,
+      translateX: 0,
+      translateY: 0,
+      scale: 0,
+      rotation: 0,
+      residual: 0,
+      ...motion,
+    },
+  }));
+
+describe('fitGlobalMotion', () => {
+  it('recovers drift, scaling and rotation per second', () => {
+    const flow = field((x: number, y: number) => [
+      0.1 + 0.2 * x - 0.05 * y,
+      -0.04 + 0.05 * x + 0.2 * y,
+    ]);
+
+    const motion = fitGlobalMotion(flow, WIDTH, HEIGHT, 0.5);
+
+    expect(motion.translateX).toBeCloseTo(0.2);
+    expect(motion.translateY).toBeCloseTo(-0.08);
+    expect(motion.scale).toBeCloseTo(0.4);
+    expect(motion.rotation).toBeCloseTo(0.1);
+    expect(motion.residual).toBeCloseTo(0);
+  });
+
+  it('ignores a subject moving through a still shot', () => {
+    const flow = field((x: number, y: number) => (x > 0.2 && y > 0 ? [0.3, 0] : [0, 0]));
+
+    const motion = fitGlobalMotion(flow, WIDTH, HEIGHT, 1);
+
+    expect(Math.abs(motion.translateX)).toBeLessThan(0.01);
+    expect(classify(flow).type).toBe(CameraMovementType.STATIC);
+  });
+});
+
+describe('cameraMovements', () => {
+  it('tells each movement from its flow', () => {
+    const cases: Array<
+      [CameraMovementType, (x: number, y: number, depth: number) => [number, number]]
+    > = [
+      [CameraMovementType.STATIC, () => [0.002, 0]],
+      [CameraMovementType.PAN, () => [-0.1, 0]],
+      [CameraMovementType.TILT, () => [0, 0.1]],
+      [CameraMovementType.TRUCK_RIGHT, (_x, _y, depth: number) => [-0.1 * depth, 0]],
+      [CameraMovementType.TRUCK_LEFT, (_x, _y, depth: number) => [0.1 * depth, 0]],
+      [CameraMovementType.PEDESTAL_UP, (_x, _y, depth: number) => [0, 0.1 * depth]],
+      [CameraMovementType.ZOOM_IN, (x: number, y: number) => [0.2 * x, 0.2 * y]],
+      [CameraMovementType.ZOOM_OUT, (x: number, y: number) => [-0.2 * x, -0.2 * y]],
+      [
+        CameraMovementType.DOLLY_IN,
+        (x: number, y: number, depth: number) => [0.2 * x * depth, 0.2 * y * depth],
+      ],
+      [CameraMovementType.ROLL, (x: number, y: number) => [-0.2 * y, 0.2 * x]],
+    ];
+
+    cases.forEach(([type, flow]) => {
+      expect(classify(field(flow)).type).toBe(type);
+    });
+  });
+
+  it('gives the direction the camera drifts in', () => {
+    expect(classify(field(() => [-0.1, 0])).direction).toBe(0);
+    expect(classify(field(() => [0, 0.1])).direction).toBe(90);
+    expect(classify(field(() => [0.1, 0])).direction).toBe(180);
+  });
+
+  it('splits a scene into its movements, timed in milliseconds', () => {
+    const movements = cameraMovements(
+      pairs([{ translateX: -0.25 }, { translateX: -0.25 }, { translateX: -0.25 }, {}, {}, {}]),
+      0,
+      6
+    );
+
+    expect(movements).toMatchObject([
+      { type: CameraMovementType.PAN, startTime: 0, endTime: 3000, speed: 0.5, direction: 0 },
+      { type: CameraMovementType.STATIC, startTime: 3000, endTime: 6000 },
+    ]);
+    expect(movements[0].confidence).toBeCloseTo(1);
+  });
+
+  it('finds handheld shake where the drift keeps reversing', () => {
+    const movements = cameraMovements(
+      pairs([
+        { translateX: 0.05 },
+        { translateX: -0.06 },
+        { translateX: 0.05, translateY: 0.03 },
+        { translateX: -0.05 },
+      ]),
+      0,
+      4
+    );
+
+    expect(movements).toHaveLength(1);
+    expect(movements[0]).toMatchObject({
+      type: CameraMovementType.HANDHELD,
+      startTime: 0,
+      endTime: 4000,
+    });
+    expect(movements[0].direction).toBeUndefined();
+  });
+
+  it('keeps a pan that changes direction once', () => {
+    const movements = cameraMovements(
+      pairs([{ translateX: 0.1 }, { translateX: 0.1 }, { translateX: -0.1 }, { translateX: -0.1 }]),
+      0,
+      4
+    );
+
+    expect(movements).toMatchObject([
+      { type: CameraMovementType.PAN, direction: 180 },
+      { type: CameraMovementType.PAN, direction: 0 },
+    ]);
+  });
+
+  it('smooths over a single pair that breaks a movement', () => {
+    const movements = cameraMovements(
+      pairs([{ scale: 0.2 }, { scale: 0.2 }, {}, { scale: 0.2 }, { scale: 0.2 }]),
+      0,
+      5
+    );
+
+    expect(movements).toMatchObject([
+      { type: CameraMovementType.ZOOM_IN, startTime: 0, endTime: 5000 },
+    ]);
+  });
+
+  it('only uses pairs of frames that are both inside the part', () => {
+    const motion = pairs([{ translateX: 0.1 }, { translateX: 0.1 }, {}, {}, { translateY: 0.1 }]);
+
+    expect(cameraMovements(motion, 2, 4)).toMatchObject([
+      { type: CameraMovementType.STATIC, startTime: 2000, endTime: 4000 },
+    ]);
+    expect(cameraMovements(motion, 4.5, 5)).toEqual([]);
+  });
+});
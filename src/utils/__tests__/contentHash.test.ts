@@ -0,0 +1,53 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { hashBytes, hashFile } from '../contentHash';
+import { isAbortError } from '../analysisWorker';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('hashBytes', () => {
+  it('matches the SHA-256 test vectors', () => {
+    expect(hashBytes(new Uint8Array(0))).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(hashBytes(encode('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+    expect(hashBytes(encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('hashes input longer than a block', () => {
+    expect(hashBytes(encode('a'.repeat(1000)))).toBe(
+      '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+    );
+  });
+});
+
+describe('hashFile', () => {
+  const bytes = Uint8Array.from({ length: 10000 }, (_: unknown, i: number) => (i * 31) % 251);
+
+  it('gives the same hash whatever the chunk size', async () => {
+    const expected = hashBytes(bytes);
+    for (const chunkSize of [1000, 4096, 64, 7]) {
+      await expect(hashFile(new Blob([bytes]), { chunkSize })).resolves.toBe(expected);
+    }
+  });
+
+  it('reports progress for each chunk', async () => {
+    const onProgress = jest.fn();
+    await hashFile(new Blob([bytes]), { chunkSize: 4000, onProgress });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.4, 0.8, 1]);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await hashFile(new Blob([bytes]), { signal: controller.signal }).catch(
+      (reason: unknown) => reason
+    );
+    expect(isAbortError(error)).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * cutPlanner.test.ts
+ *
+ * Unit tests for choosing a shot for every cut at once
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CutCandidate, CutPlacement, CutSlot, planCuts, sceneEnergy } from '../cutPlanner';
+
+/**
+ * Builds back-to-back slots of one second with the given energies
+ */
+const createSlots = (...energies: number[]): CutSlot[] =>
+  energies.map((energy: number, index: number) => ({ time: index, duration: 1, energy }));
+
+/**
+ * Builds ten-second shots, one per video, with the given energies
+ */
+const createShots = (...energies: number[]): CutCandidate[] =>
+  energies.map((energy: number, index: number) => ({
+    videoId: `video-${index + 1}`,
+    sceneIndex: 0,
+    start: 0,
+    end: 10,
+    energy,
+  }));
+
+/**
+ * Lists the video of each placement, or null for an empty slot
+ */
+const videosOf = (plan: Array<CutPlacement | null>): Array<string | null> =>
+  plan.map((placement: CutPlacement | null) => placement?.candidate.videoId ?? null);
+
+describe('planCuts', () => {
+  it('should match the energy of each shot to the music', () => {
+    const plan = planCuts(createSlots(0.1, 0.9, 0.1, 0.9), createShots(0.9, 0.1));
+
+    expect(videosOf(plan)).toEqual(['video-2', 'video-1', 'video-2', 'video-1']);
+  });
+
+  it('should not use a shot straight after itself', () => {
+    const plan = planCuts(createSlots(0.9, 0.9, 0.9, 0.9, 0.9), createShots(0.9, 0.5));
+
+    expect(videosOf(plan)).toEqual(['video-1', 'video-2', 'video-1', 'video-2', 'video-1']);
+  });
+
+  it('should save a shot for the cut that needs it most', () => {
+    // Cutting to video 2 first matches better, but leaves nothing for the peak
+    const plan = planCuts(createSlots(0.8, 1), createShots(0.55, 1), { maxUses: 1 });
+
+    expect(videosOf(plan)).toEqual(['video-1', 'video-2']);
+  });
+
+  it('should keep to usage caps and leave slots empty once every shot is used up', () => {
+    const shots = createShots(0.5, 0.5);
+    shots[0].maxUses = 2;
+
+    const plan = planCuts(createSlots(0.5, 0.5, 0.5, 0.5), shots, { maxUses: 1 });
+
+    expect(videosOf(plan)).toEqual(['video-1', 'video-2', 'video-1', null]);
+  });
+
+  it('should cut each source forwards when keeping chronology', () => {
+    // One take in three scenes, whose energy falls as the music's rises
+    const take: CutCandidate[] = [0.9, 0.5, 0.1].map((energy: number, index: number) => ({
+      videoId: 'take',
+      sceneIndex: index,
+      start: index * 4,
+      end: index * 4 + 4,
+      energy,
+    }));
+    const slots = createSlots(0.1, 0.5, 0.9);
+
+    const free = planCuts(slots, take);
+    const chronological = planCuts(slots, take, { maintainChronology: true });
+
+    expect(free.map((placement) => placement?.candidate.sceneIndex)).toEqual([2, 1, 0]);
+    const starts = chronological.map((placement) => placement!.start);
+    expect(starts).toEqual([...starts].sort((a: number, b: number) => a - b));
+    // Cutting back into a scene picks up where the last cut left off
+    expect(
+      planCuts(createSlots(0.5, 0.5), take.slice(0, 1), {
+        maintainChronology: true,
+        backToBackPenalty: 0,
+      }).map((placement) => placement!.start)
+    ).toEqual([0, 1]);
+  });
+
+  it('should prefer shots the caller favours for a slot', () => {
+    const plan = planCuts(createSlots(0.5, 0.5), createShots(0.5, 0.5, 0.5), {
+      affinity: (slot: CutSlot, shot: CutCandidate) =>
+        slot.time === 1 && shot.videoId === 'video-3' ? 3 : 0,
+    });
+
+    expect(videosOf(plan)).toEqual(['video-1', 'video-3']);
+  });
+
+  it('should avoid shots too short for their slot', () => {
+    const shots = createShots(0.5, 0.3);
+    shots[0].end = 0.25;
+
+    expect(videosOf(planCuts([{ time: 0, duration: 2, energy: 0.5 }], shots))).toEqual(['video-2']);
+  });
+
+  it('should leave every slot empty without shots', () => {
+    expect(planCuts(createSlots(0.5, 0.5), [])).toEqual([null, null]);
+    expect(planCuts([], createShots(0.5))).toEqual([]);
+  });
+});
+
+describe('sceneEnergy', () => {
+  const motion = [0, 2, 4, 30].map((motionAmount: number, index: number) => ({
+    frameIndex: index,
+    time: index,
+    motionAmount,
+  }));
+
+  it('should scale the mean motion over the shot', () => {
+    expect(sceneEnergy(motion, 0, 3)).toBeCloseTo(0.2);
+    expect(sceneEnergy(motion, 3, 4)).toBe(1);
+  });
+
+  it('should give no energy to a shot without frames', () => {
+    expect(sceneEnergy(motion, 10, 12)).toBe(0);
+  });
+});
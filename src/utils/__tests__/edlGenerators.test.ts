@@ -0,0 +1,218 @@
+/**
+ * edlGenerators.test.ts
+ *
+ * Unit tests for the CMX3600 EDL writer
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createEDLFromEditDecisions,
+  generateCMX3600EDL,
+  exportEDL,
+} from '../edlGenerators';
+import {
+  EditDecisionList,
+  EDLFormat,
+  TrackType,
+  TransitionType,
+  createEmptyEDL,
+} from '../../types/EditDecision';
+
+const videoFiles: Record<string, File> = {
+  'video-1': new File([''], 'Beach Sunset.mp4', { type: 'video/mp4' }),
+  'video-2': new File([''], 'beach_sunrise.mov', { type: 'video/quicktime' }),
+};
+
+/**
+ * Builds an EDL of two back-to-back two-second clips
+ */
+const createTwoClipEDL = (framerate: number): EditDecisionList =>
+  createEDLFromEditDecisions(
+    [
+      { time: 0, videoId: 'video-1', start: 10, duration: 2 },
+      { time: 2, videoId: 'video-2', start: 5, duration: 2 },
+    ],
+    videoFiles,
+    null,
+    framerate
+  );
+
+/**
+ * Splits an EDL into its event lines
+ */
+const readEvents = (edl: string): string[] =>
+  edl.split('\n').filter((line: string) => /^\d{3}\s/.test(line));
+
+describe('generateCMX3600EDL', () => {
+  it('should write the title, frame code mode and one event per cut', () => {
+    const output = generateCMX3600EDL(createTwoClipEDL(25), { title: 'My Edit' });
+    const lines = output.split('\n');
+
+    expect(lines[0]).toBe('TITLE: My Edit');
+    expect(lines[1]).toBe('FCM: NON-DROP FRAME');
+    expect(readEvents(output)).toEqual([
+      '001  BEACHSUN V     C        00:00:10:00 00:00:12:00 01:00:00:00 01:00:02:00',
+      '002  BEACHSU1 V     C        00:00:05:00 00:00:07:00 01:00:02:00 01:00:04:00',
+    ]);
+    expect(output).toContain('* FROM CLIP NAME: Beach Sunset.mp4');
+    expect(output).toContain('* FROM CLIP NAME: beach_sunrise.mov');
+  });
+
+  it('should use drop-frame timecode at 29.97 unless disabled', () => {
+    const dropFrame = generateCMX3600EDL(createTwoClipEDL(29.97));
+    expect(dropFrame).toContain('FCM: DROP FRAME');
+    expect(readEvents(dropFrame)[0]).toContain('00:00:10;00 00:00:12;00 01:00:00;00 01:00:02;00');
+
+    const nonDropFrame = generateCMX3600EDL(createTwoClipEDL(29.97), { dropFrame: false });
+    expect(nonDropFrame).toContain('FCM: NON-DROP FRAME');
+    expect(readEvents(nonDropFrame)[0]).toContain('00:00:10:00 00:00:12:00 01:00:00:00 01:00:02:00');
+  });
+
+  it('should write a dissolve as a two-line event centered on the cut', () => {
+    const edl = createTwoClipEDL(25);
+    edl.transitions.push({
+      id: 'transition_1',
+      type: TransitionType.DISSOLVE,
+      duration: 0.5,
+      outgoingClipId: 'clip_0',
+      incomingClipId: 'clip_1',
+      centerPoint: 2,
+    });
+
+    expect(readEvents(generateCMX3600EDL(edl))).toEqual([
+      '001  BEACHSUN V     C        00:00:10:00 00:00:11:19 01:00:00:00 01:00:01:19',
+      '002  BEACHSUN V     C        00:00:11:19 00:00:11:19 01:00:01:19 01:00:01:19',
+      '002  BEACHSU1 V     D    013 00:00:04:19 00:00:07:00 01:00:01:19 01:00:04:00',
+    ]);
+  });
+
+  it('should build transitions from edit decisions within the available handles', () => {
+    const edl = createEDLFromEditDecisions(
+      [
+        { time: 0, videoId: 'video-1', start: 10, duration: 2 },
+        {
+          time: 2,
+          videoId: 'video-2',
+          start: 5,
+          duration: 2,
+          transitionType: TransitionType.DISSOLVE,
+          transitionDuration: 0.5,
+        },
+      ],
+      videoFiles,
+      null,
+      25,
+      // Beach Sunset.mp4 ends three frames after the outgoing clip's out point
+      {
+        'video-1': {
+          width: 1920,
+          height: 1080,
+          duration: 12.12,
+          fps: 25,
+          codec: 'h264',
+          bitrate: 0,
+        },
+      }
+    );
+
+    expect(edl.transitions).toEqual([
+      expect.objectContaining({
+        outgoingClipId: 'clip_0',
+        incomingClipId: 'clip_1',
+        centerPoint: 2,
+      }),
+    ]);
+    expect(readEvents(generateCMX3600EDL(edl)).slice(1)).toEqual([
+      '002  BEACHSUN V     C        00:00:11:22 00:00:11:22 01:00:01:22 01:00:01:22',
+      '002  BEACHSU1 V     D    006 00:00:04:22 00:00:07:00 01:00:01:22 01:00:04:00',
+    ]);
+  });
+
+  it('should write wipes with their pattern number', () => {
+    const edl = createTwoClipEDL(24);
+    edl.transitions.push({
+      id: 'transition_1',
+      type: TransitionType.WIPE,
+      duration: '00:00:00:12',
+      outgoingClipId: 'clip_0',
+      incomingClipId: 'clip_1',
+      centerPoint: 2,
+      parameters: { pattern: '2' },
+    });
+
+    expect(readEvents(generateCMX3600EDL(edl))[2]).toMatch(/^002 {2}BEACHSU1 V {5}W002 012 /);
+  });
+
+  it('should write the music as a stereo audio event after the video', () => {
+    const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+    const edl = createEDLFromEditDecisions(
+      [{ time: 0, videoId: 'video-1', start: 0, duration: 4 }],
+      videoFiles,
+      audioFile,
+      25
+    );
+
+    expect(readEvents(generateCMX3600EDL(edl))).toEqual([
+      '001  BEACHSUN V     C        00:00:00:00 00:00:04:00 01:00:00:00 01:00:04:00',
+      '002  SONG     AA    C        00:00:00:00 00:00:04:00 01:00:00:00 01:00:04:00',
+    ]);
+  });
+
+  it('should write mono music on a single channel', () => {
+    const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+    const edl = createEDLFromEditDecisions(
+      [{ time: 0, videoId: 'video-1', start: 0, duration: 4 }],
+      videoFiles,
+      audioFile,
+      25,
+      undefined,
+      { channels: 1 }
+    );
+
+    expect(readEvents(generateCMX3600EDL(edl))[1]).toMatch(/^002 {2}SONG {5}A {5}C /);
+  });
+
+  it('should write numbered audio channels for mono tracks', () => {
+    const edl = createEmptyEDL('Audio', 25);
+    edl.clips.push({
+      id: 'dialog',
+      sourceId: 'dialog.wav',
+      trackType: TrackType.AUDIO,
+      trackNumber: 2,
+      timelineInPoint: 0,
+      timelineOutPoint: 1,
+      sourceInPoint: 0,
+      sourceOutPoint: 1,
+    });
+
+    expect(readEvents(generateCMX3600EDL(edl))[0]).toMatch(/^001 {2}DIALOG {3}A2 {4}C /);
+  });
+
+  it('should use reel name overrides', () => {
+    const output = generateCMX3600EDL(createTwoClipEDL(25), {
+      reelNames: { 'video-1': 'A001C003' },
+    });
+
+    expect(readEvents(output)[0]).toMatch(/^001 {2}A001C003 V/);
+  });
+
+  it('should keep overridden reel names unique', () => {
+    const output = generateCMX3600EDL(createTwoClipEDL(25), {
+      reelNames: { 'video-1': 'CAMERA_A_0001', 'video-2': 'CAMERA_A_0002' },
+    });
+
+    expect(readEvents(output).map((line: string) => line.slice(5, 13))).toEqual([
+      'CAMERA_A',
+      'CAMERA_1',
+    ]);
+  });
+});
+
+describe('exportEDL', () => {
+  it('should dispatch CMX3600 and reject unsupported formats', () => {
+    const edl = createTwoClipEDL(25);
+
+    expect(exportEDL(edl, EDLFormat.CMX3600)).toBe(generateCMX3600EDL(edl));
+    expect(() => exportEDL(edl, EDLFormat.SONY9100)).toThrow('Unsupported EDL format');
+  });
+});
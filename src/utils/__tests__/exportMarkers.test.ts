@@ -0,0 +1,152 @@
+/**
+ * exportMarkers.test.ts
+ *
+ * Unit tests for building sequence markers from the music analysis
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createEditCutPoints, createExportMarkers, MarkerAnalysis } from '../exportMarkers';
+import { MarkerType } from '../../types/EditDecision';
+
+/**
+ * Builds an analysis with evenly spaced beats and the given sections
+ */
+const createAnalysis = (beatCount: number, numerator = 4): MarkerAnalysis => ({
+  beats: {
+    beats: Array.from({ length: beatCount }, (_: unknown, index: number) => ({
+      time: index * 0.5,
+      confidence: 0.9,
+    })),
+  },
+  tempo: { timeSignature: { numerator } },
+  sections: {
+    sections: [
+      { start: 0, duration: 4, label: 'intro', confidence: 0.8 },
+      {
+        start: 4,
+        duration: 4,
+        label: 'chorus',
+        confidence: 0.7,
+        characteristics: { energy: 0.9, mood: 'euphoric' },
+      },
+    ],
+  },
+});
+
+describe('createExportMarkers', () => {
+  it('should mark every downbeat by default', () => {
+    const markers = createExportMarkers(createAnalysis(9), [], { sections: false });
+
+    expect(markers.map((marker) => [marker.position, marker.label, marker.color])).toEqual([
+      [0, 'Bar 1', 'red'],
+      [2, 'Bar 2', 'red'],
+      [4, 'Bar 3', 'red'],
+    ]);
+  });
+
+  it('should number beats within the bar of the time signature', () => {
+    const markers = createExportMarkers(createAnalysis(4, 3), [], {
+      beats: 'all',
+      sections: false,
+    });
+
+    expect(markers.map((marker) => marker.label)).toEqual([
+      'Bar 1',
+      'Bar 1 Beat 2',
+      'Bar 1 Beat 3',
+      'Bar 2',
+    ]);
+    expect(markers[1]).toMatchObject({
+      type: MarkerType.MARKER,
+      color: 'green',
+      metadata: { kind: 'beat' },
+    });
+  });
+
+  it('should prefer bars labelled by the analysis', () => {
+    const beats = [
+      { time: 0.5, confidence: 1, bar: 0, beatInBar: 3 },
+      { time: 1, confidence: 1, bar: 1, beatInBar: 1 },
+      { time: 1.5, confidence: 1, bar: 1, beatInBar: 2 },
+    ];
+    const analysis: MarkerAnalysis = { beats: { beats } };
+
+    const markers = createExportMarkers(analysis, [], { beats: 'all', sections: false });
+
+    expect(markers.map((marker) => marker.label)).toEqual(['Pickup', 'Bar 1', 'Bar 1 Beat 2']);
+  });
+
+  it('should mark section starts as chapters with their labels', () => {
+    const markers = createExportMarkers(createAnalysis(0), [], { beats: 'none' });
+
+    expect(markers).toEqual([
+      expect.objectContaining({
+        type: MarkerType.CHAPTER,
+        position: 0,
+        label: 'Intro',
+        metadata: { kind: 'section', duration: 4, comment: '' },
+      }),
+      expect.objectContaining({
+        position: 4,
+        label: 'Chorus',
+        metadata: expect.objectContaining({ comment: 'euphoric' }),
+      }),
+    ]);
+  });
+
+  it('should keep existing cut points in timeline order', () => {
+    const cutPoint = {
+      id: 'note',
+      type: MarkerType.COMMENT,
+      position: 3,
+      label: 'Check sync',
+      color: 'yellow',
+    };
+    const markers = createExportMarkers(createAnalysis(9), [cutPoint]);
+
+    expect(markers.map((marker) => marker.id)).toEqual([
+      'beat_1',
+      'section_1',
+      'beat_5',
+      'note',
+      'beat_9',
+      'section_2',
+    ]);
+  });
+
+  it('should order cut points given as timecode by the time they read as', () => {
+    const cutPoints = [
+      { id: 'late', type: MarkerType.MARKER, position: '00:00:02:15' },
+      { id: 'early', type: MarkerType.MARKER, position: 1 },
+      { id: 'middle', type: MarkerType.MARKER, position: '00:00:01:12' },
+    ];
+    const markers = createExportMarkers(null, cutPoints, { frameRate: 24 });
+
+    expect(markers.map((marker) => marker.id)).toEqual(['early', 'middle', 'late']);
+  });
+
+  it('should return only the cut points without an analysis', () => {
+    expect(createExportMarkers(null)).toEqual([]);
+  });
+});
+
+describe('createEditCutPoints', () => {
+  it('should mark the edits that carry notes', () => {
+    const cutPoints = createEditCutPoints([
+      { id: 'a', startTime: 0 },
+      { id: 'b', startTime: 4, notes: ' Swap for the wide take ' },
+      { id: 'c', startTime: 8, notes: '  ' },
+    ]);
+
+    expect(cutPoints).toEqual([
+      {
+        id: 'edit_b',
+        type: MarkerType.COMMENT,
+        position: 4,
+        label: 'Cut 2',
+        color: 'yellow',
+        metadata: { kind: 'note', comment: 'Swap for the wide take' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * exportTransitions.test.ts
+ *
+ * Unit tests for fitting transitions to the media around their cuts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { alignTransitions, getEditTransition, TransitionClip } from '../exportTransitions';
+import { TransitionType } from '../../types/EditDecision';
+
+/**
+ * Builds two back-to-back 50-frame clips that each start 100 frames into their source
+ */
+const createClips = (overrides: Partial<TransitionClip>[] = []): TransitionClip[] =>
+  [
+    { recordIn: 0, recordOut: 50, sourceIn: 100 },
+    { recordIn: 50, recordOut: 100, sourceIn: 100 },
+  ].map((clip: TransitionClip, index: number) => ({ ...clip, ...overrides[index] }));
+
+describe('alignTransitions', () => {
+  it('should center a transition whose center point is on the cut', () => {
+    const [first, second] = alignTransitions(createClips(), [
+      null,
+      { duration: 13, centerPoint: 50 },
+    ]);
+
+    expect(first).toBeNull();
+    expect(second).toEqual({
+      cut: 50,
+      start: 44,
+      end: 57,
+      before: 6,
+      after: 7,
+      alignment: 'center',
+    });
+  });
+
+  it('should start or end a transition on the cut', () => {
+    expect(
+      alignTransitions(createClips(), [null, { duration: 10, centerPoint: 55 }])[1]
+    ).toMatchObject({ start: 50, end: 60, alignment: 'start' });
+    expect(
+      alignTransitions(createClips(), [null, { duration: 10, centerPoint: 45 }])[1]
+    ).toMatchObject({ start: 40, end: 50, alignment: 'end' });
+  });
+
+  it('should shorten a transition to the head handle of the incoming clip', () => {
+    const [, transition] = alignTransitions(createClips([{}, { sourceIn: 3 }]), [
+      null,
+      { duration: 20, centerPoint: 50 },
+    ]);
+
+    expect(transition).toEqual({
+      cut: 50,
+      start: 47,
+      end: 54,
+      before: 3,
+      after: 4,
+      alignment: 'center',
+    });
+  });
+
+  it('should shorten a transition to the tail handle of the outgoing clip', () => {
+    // The outgoing clip uses source frames 100-149 of 152
+    const [, transition] = alignTransitions(createClips([{ sourceDuration: 152 }]), [
+      null,
+      { duration: 20, centerPoint: 60 },
+    ]);
+
+    expect(transition).toMatchObject({ start: 50, end: 52, alignment: 'start' });
+  });
+
+  it('should fall back to a cut when there is no media to transition with', () => {
+    const requests = [null, { duration: 10, centerPoint: 50 }];
+
+    expect(alignTransitions(createClips([{ sourceDuration: 150 }]), requests)[1]).toBeNull();
+    expect(alignTransitions(createClips([{}, { sourceIn: 0 }]), requests)[1]).toBeNull();
+  });
+
+  it('should only join clips that meet', () => {
+    const clips = createClips([{}, { recordIn: 60 }]);
+
+    expect(alignTransitions(clips, [null, { duration: 10, centerPoint: 60 }])[1]).toBeNull();
+  });
+
+  it('should keep transitions on a short clip from overlapping', () => {
+    const clips: TransitionClip[] = [
+      { recordIn: 0, recordOut: 50, sourceIn: 100 },
+      { recordIn: 50, recordOut: 60, sourceIn: 100 },
+      { recordIn: 60, recordOut: 100, sourceIn: 100 },
+    ];
+    const [, first, second] = alignTransitions(clips, [
+      null,
+      { duration: 10, centerPoint: 55 },
+      { duration: 10, centerPoint: 55 },
+    ]);
+
+    expect(first).toMatchObject({ start: 50, end: 59 });
+    expect(second).toBeNull();
+  });
+});
+
+describe('getEditTransition', () => {
+  it('should default the duration and center the transition on the cut', () => {
+    expect(
+      getEditTransition({
+        time: 4,
+        videoId: 'video-1',
+        start: 0,
+        duration: 2,
+        transitionType: TransitionType.DISSOLVE,
+      })
+    ).toEqual({ type: TransitionType.DISSOLVE, duration: 0.5, centerPoint: 4 });
+  });
+
+  it('should treat cuts as no transition', () => {
+    const edit = { time: 4, videoId: 'video-1', start: 0, duration: 2 };
+
+    expect(getEditTransition(edit)).toBeNull();
+    expect(getEditTransition({ ...edit, transitionType: TransitionType.CUT })).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * clickTracks.ts
+ *
+ * Synthetic click tracks with known beat times, for testing beat tracking
+ */
+
+/**
+ * A generated track and the beats a listener would tap to
+ */
+export interface ClickTrack {
+  name: string;
+  sampleRate: number;
+  samples: Float32Array;
+  bpm: number;
+  /** Ground-truth beat times in seconds */
+  beats: number[];
+  /** Ground-truth downbeat times in seconds, when the track has a meter */
+  downbeats: number[];
+}
+
+interface ClickTrackSpec {
+  name: string;
+  bpm: number;
+  duration: number;
+  sampleRate?: number;
+  /** Time of the first beat in seconds */
+  offset?: number;
+  /** Amplitude of the white noise under the track */
+  noise?: number;
+  /** Largest random shift of each beat in seconds */
+  jitter?: number;
+  /** Beats in [start, end) seconds that are left silent */
+  dropout?: [number, number];
+  /** Draws beats as soft kicks under louder hi-hats on every eighth note */
+  kickAndHats?: boolean;
+  /** Accents the first beat of each bar with a kick and ticks each subdivision */
+  meter?: {
+    beatsPerBar: number;
+    subdivision: 2 | 3;
+    /** Beats before the first downbeat */
+    pickup?: number;
+  };
+  seed?: number;
+}
+
+/**
+ * Creates a deterministic random number generator (mulberry32)
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Adds a sound to the samples at a time, clipped to the end of the track
+ */
+const addSound = (
+  samples: Float32Array,
+  sampleRate: number,
+  time: number,
+  length: number,
+  sound: (t: number, index: number) => number
+) => {
+  const start = Math.round(time * sampleRate);
+  for (let i = 0; i < length * sampleRate && start + i < samples.length; i++) {
+    if (start + i >= 0) samples[start + i] += sound(i / sampleRate, i);
+  }
+};
+
+/**
+ * Generates a click track from a spec
+ */
+export function createClickTrack(spec: ClickTrackSpec): ClickTrack {
+  const {
+    name,
+    bpm,
+    duration,
+    sampleRate = 22050,
+    offset = 0,
+    noise = 0,
+    jitter = 0,
+    dropout,
+  } = spec;
+  const random = createRandom(spec.seed ?? 1);
+  const samples = new Float32Array(Math.round(duration * sampleRate));
+  const period = 60 / bpm;
+  const beats: number[] = [];
+  const downbeats: number[] = [];
+
+  // A pitch drop from 120 Hz to 50 Hz
+  const kick = (gain: number) => (t: number) => {
+    const phase = 2 * Math.PI * (50 * t + (70 / 20) * (1 - Math.exp(-20 * t)));
+    return gain * Math.sin(phase) * Math.exp(-t / 0.05);
+  };
+
+  for (let index = 0, time = offset; time < duration - 0.1; index++, time += period) {
+    if (dropout && time >= dropout[0] && time < dropout[1]) continue;
+    const beat = time + (random() * 2 - 1) * jitter;
+    const velocity = jitter > 0 ? 0.5 + 0.5 * random() : 1;
+    beats.push(beat);
+
+    if (spec.meter) {
+      const { beatsPerBar, subdivision, pickup = 0 } = spec.meter;
+      if ((index - pickup) % beatsPerBar === 0) {
+        downbeats.push(beat);
+        addSound(samples, sampleRate, beat, 0.15, kick(0.6));
+      }
+      for (let step = 1; step < subdivision; step++) {
+        addSound(samples, sampleRate, beat + (step * period) / subdivision, 0.02, (t: number) =>
+          0.1 * Math.sin(2 * Math.PI * 3000 * t) * Math.exp(-t / 0.004)
+        );
+      }
+    }
+
+    if (spec.kickAndHats) {
+      // Quieter than the hats
+      addSound(samples, sampleRate, beat, 0.15, kick(0.3 * velocity));
+    } else {
+      addSound(
+        samples,
+        sampleRate,
+        beat,
+        0.05,
+        (t: number) => velocity * 0.8 * Math.sin(2 * Math.PI * 1000 * t) * Math.exp(-t / 0.01)
+      );
+    }
+  }
+
+  if (spec.kickAndHats) {
+    for (let time = offset; time < duration - 0.1; time += period / 2) {
+      let last = 0;
+      addSound(samples, sampleRate, time, 0.04, (t: number) => {
+        // Differenced noise keeps the hat above the kick in frequency
+        const value = random() * 2 - 1;
+        const high = value - last;
+        last = value;
+        return 0.3 * high * Math.exp(-t / 0.008);
+      });
+    }
+  }
+
+  for (let i = 0; i < samples.length && noise > 0; i++) {
+    samples[i] += noise * (random() * 2 - 1);
+  }
+
+  return { name, sampleRate, samples, bpm, beats, downbeats };
+}
+
+/**
+ * Tracks covering clean clicks, an off-grid start under noise, a higher sample
+ * rate, heavy noise, soft kicks under hi-hats, a human feel and a dropout
+ */
+export const clickTrackCorpus = (): ClickTrack[] => [
+  createClickTrack({ name: 'clicks at 120 BPM', bpm: 120, duration: 10, offset: 0.1 }),
+  createClickTrack({
+    name: 'clicks at 96 BPM under noise',
+    bpm: 96,
+    duration: 12,
+    offset: 0.37,
+    noise: 0.05,
+    sampleRate: 44100,
+    seed: 2,
+  }),
+  createClickTrack({
+    name: 'clicks at 120 BPM under heavy noise',
+    bpm: 120,
+    duration: 10,
+    noise: 0.3,
+    seed: 5,
+  }),
+  createClickTrack({
+    name: 'kicks and hats at 90 BPM',
+    bpm: 90,
+    duration: 12,
+    offset: 0.25,
+    kickAndHats: true,
+    seed: 3,
+  }),
+  createClickTrack({
+    name: 'humanized clicks at 140 BPM',
+    bpm: 140,
+    duration: 10,
+    jitter: 0.012,
+    seed: 4,
+  }),
+  createClickTrack({
+    name: 'clicks at 110 BPM with a dropout',
+    bpm: 110,
+    duration: 12,
+    offset: 0.2,
+    dropout: [5, 7.5],
+  }),
+];
+
+/**
+ * Tracks in 4/4 with a pickup beat, 3/4, and 6/8 felt as two dotted-quarter beats
+ */
+export const meterCorpus = (): Array<ClickTrack & { timeSignature: string }> => [
+  {
+    ...createClickTrack({
+      name: '4/4 at 120 BPM with a pickup',
+      bpm: 120,
+      duration: 12,
+      offset: 0.2,
+      meter: { beatsPerBar: 4, subdivision: 2, pickup: 1 },
+    }),
+    timeSignature: '4/4',
+  },
+  {
+    ...createClickTrack({
+      name: '3/4 at 132 BPM',
+      bpm: 132,
+      duration: 12,
+      offset: 0.1,
+      noise: 0.02,
+      meter: { beatsPerBar: 3, subdivision: 2 },
+    }),
+    timeSignature: '3/4',
+  },
+  {
+    ...createClickTrack({
+      name: '6/8 at 100 BPM',
+      bpm: 100,
+      duration: 14,
+      offset: 0.3,
+      meter: { beatsPerBar: 2, subdivision: 3 },
+    }),
+    timeSignature: '6/8',
+  },
+];
+
+/**
+ * Scores detected beats against ground truth with the usual F-measure, where
+ * each true beat can be matched by one detection within the tolerance
+ * @returns F-measure from 0.0 to 1.0, and whether each detection was matched
+ */
+export function beatFMeasure(
+  detected: number[],
+  truth: number[],
+  tolerance: number = 0.07
+): { fMeasure: number; matched: boolean[] } {
+  const used = new Set<number>();
+  const matched = detected.map((time: number) => {
+    const index = truth.findIndex(
+      (beat: number, i: number) => !used.has(i) && Math.abs(beat - time) <= tolerance
+    );
+    if (index === -1) return false;
+    used.add(index);
+    return true;
+  });
+
+  const hits = used.size;
+  const precision = detected.length > 0 ? hits / detected.length : 0;
+  const recall = truth.length > 0 ? hits / truth.length : 0;
+  const fMeasure = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return { fMeasure, matched };
+}
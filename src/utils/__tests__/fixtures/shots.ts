@@ -0,0 +1,142 @@
+/**
+ * shots.ts
+ *
+ * Synthetic frames with known shot boundaries, for testing shot detection
+ */
+
+import { FramePixels } from '../../shotDetection';
+
+export const WIDTH = 160;
+export const HEIGHT = 90;
+
+type Rgb = [number, number, number];
+
+/**
+ * A shot's picture: a mosaic of tiles, coloured from the shot's palette
+ */
+export interface Look {
+  palette: Rgb[];
+  /** Tile size in pixels */
+  tile: number;
+  seed: number;
+}
+
+export const STREET: Look = {
+  palette: [
+    [200, 40, 30],
+    [230, 180, 20],
+    [120, 20, 10],
+    [250, 120, 60],
+  ],
+  tile: 20,
+  seed: 1,
+};
+
+export const FOREST: Look = {
+  palette: [
+    [20, 140, 40],
+    [30, 60, 200],
+    [10, 80, 30],
+    [90, 200, 220],
+  ],
+  tile: 28,
+  seed: 2,
+};
+
+export const STAGE: Look = {
+  palette: [
+    [140, 30, 180],
+    [240, 240, 240],
+    [60, 10, 90],
+    [200, 100, 220],
+  ],
+  tile: 24,
+  seed: 3,
+};
+
+/**
+ * Deterministic hash of integers to [0, 1)
+ */
+const hash = (...values: number[]): number => {
+  let h = 2166136261;
+  values.forEach((value: number) => {
+    h = Math.imul(h ^ (value & 0xffff), 16777619);
+    h = Math.imul(h ^ (value >>> 16), 16777619);
+  });
+  return ((h >>> 0) % 100000) / 100000;
+};
+
+/**
+ * The colour of a look at a point
+ */
+const colourAt = (look: Look, x: number, y: number): Rgb => {
+  const tileX = Math.floor(x / look.tile);
+  const tileY = Math.floor(y / look.tile);
+  return look.palette[Math.floor(hash(tileX, tileY, look.seed) * look.palette.length)];
+};
+
+/**
+ * Renders a frame
+ * @param pixel Colour of each pixel
+ * @param noiseSeed Varies the sensor noise from frame to frame
+ */
+const render = (pixel: (x: number, y: number) => Rgb, noiseSeed: number): FramePixels => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const offset = (y * WIDTH + x) * 4;
+      const noise = (hash(x, y, noiseSeed) - 0.5) * 8;
+      pixel(x, y).forEach((value: number, channel: number) => {
+        data[offset + channel] = value + noise;
+      });
+      data[offset + 3] = 255;
+    }
+  }
+  return { data: data as ImageData['data'], width: WIDTH, height: HEIGHT };
+};
+
+let frameCount = 0;
+
+/**
+ * A frame of a look, panned right by some pixels
+ */
+export const shot = (look: Look, pan: number = 0): FramePixels =>
+  render((x: number, y: number) => colourAt(look, x + pan, y), ++frameCount);
+
+/**
+ * A frame mixing two looks
+ * @param mix Share of the second look (0.0 to 1.0)
+ */
+export const blend = (from: Look, to: Look, mix: number): FramePixels =>
+  render((x: number, y: number) => {
+    const a = colourAt(from, x, y);
+    const b = colourAt(to, x, y);
+    return a.map((value: number, channel: number) => value + (b[channel] - value) * mix) as Rgb;
+  }, ++frameCount);
+
+/**
+ * A frame of a look darkened toward black
+ * @param level Share of the look left (0.0 is black)
+ */
+export const dim = (look: Look, level: number): FramePixels =>
+  render(
+    (x: number, y: number) => colourAt(look, x, y).map((value: number) => value * level) as Rgb,
+    ++frameCount
+  );
+
+/**
+ * A frame of a look lit by a camera flash
+ * @param strength Brightness added to each channel; 255 blows the frame out to white
+ */
+export const flash = (look: Look, strength: number = 170): FramePixels =>
+  render(
+    (x: number, y: number) =>
+      colourAt(look, x, y).map((value: number) => Math.min(255, value + strength)) as Rgb,
+    ++frameCount
+  );
+
+/**
+ * Several frames of a look
+ */
+export const hold = (look: Look, count: number): FramePixels[] =>
+  Array.from({ length: count }, () => shot(look));
@@ -0,0 +1,152 @@
+/**
+ * songs.ts
+ *
+ * Synthetic songs with known sections, for testing structure segmentation
+ */
+
+/**
+ * A section of a generated song
+ */
+export interface SongSection {
+  label: string;
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+}
+
+/**
+ * A generated song, its beats and where its sections fall
+ */
+export interface Song {
+  name: string;
+  sampleRate: number;
+  samples: Float32Array;
+  /** Ground-truth beat times in seconds */
+  beats: number[];
+  sections: SongSection[];
+}
+
+type Voice = 'pad' | 'bright' | 'pluck';
+
+interface PartSpec {
+  label: string;
+  bars: number;
+  /** Chords as MIDI note numbers, one per bar, repeated to fill the part */
+  chords: number[][];
+  voice: Voice;
+  gain: number;
+  /** Adds a kick on every beat */
+  drums?: boolean;
+}
+
+const CHORDS = {
+  C: [60, 64, 67],
+  Am: [57, 60, 64],
+  F: [53, 57, 60],
+  G: [55, 59, 62],
+  Dm: [50, 53, 57],
+  E: [52, 56, 59],
+  Em: [52, 55, 59],
+};
+
+/** Relative amplitude of each harmonic of a voice */
+const HARMONICS: Record<Voice, number[]> = {
+  pad: [1, 0.3],
+  bright: [1, 0.5, 0.33, 0.25, 0.2, 0.17],
+  pluck: [1, 0.6, 0.3],
+};
+
+/**
+ * Generates a song in 4/4 from its parts
+ */
+export function createSong(
+  name: string,
+  bpm: number,
+  parts: PartSpec[],
+  sampleRate: number = 11025
+): Song {
+  const period = 60 / bpm;
+  const totalBars = parts.reduce((total: number, part: PartSpec) => total + part.bars, 0);
+  const samples = new Float32Array(Math.round(totalBars * 4 * period * sampleRate));
+  const beats: number[] = [];
+  const sections: SongSection[] = [];
+
+  let bar = 0;
+  parts.forEach((part: PartSpec) => {
+    sections.push({
+      label: part.label,
+      start: bar * 4 * period,
+      end: (bar + part.bars) * 4 * period,
+    });
+
+    for (let partBar = 0; partBar < part.bars; partBar++, bar++) {
+      const chord = part.chords[partBar % part.chords.length];
+      const start = Math.round(bar * 4 * period * sampleRate);
+      const end = Math.round((bar + 1) * 4 * period * sampleRate);
+
+      for (let i = start; i < end && i < samples.length; i++) {
+        const t = (i - start) / sampleRate;
+        const sinceBeat = t % period;
+        const envelope =
+          part.voice === 'pluck' ? Math.exp(-sinceBeat / 0.15) : Math.min(1, t / 0.05);
+        let value = 0;
+        chord.forEach((note: number) => {
+          const frequency = 440 * 2 ** ((note - 69) / 12);
+          HARMONICS[part.voice].forEach((amplitude: number, h: number) => {
+            value += amplitude * Math.sin(2 * Math.PI * frequency * (h + 1) * t);
+          });
+        });
+        samples[i] += (part.gain * envelope * value) / chord.length;
+
+        if (part.drums) {
+          // A pitch drop from 120 Hz to 50 Hz
+          const phase =
+            2 * Math.PI * (50 * sinceBeat + (70 / 20) * (1 - Math.exp(-20 * sinceBeat)));
+          samples[i] += 0.5 * Math.sin(phase) * Math.exp(-sinceBeat / 0.05);
+        }
+      }
+
+      for (let beat = 0; beat < 4; beat++) beats.push((bar * 4 + beat) * period);
+    }
+  });
+
+  return { name, sampleRate, samples, beats, sections };
+}
+
+/**
+ * A pop song (intro, verse, chorus, verse, chorus, bridge, chorus, outro) and
+ * a shorter one that goes straight into the verse
+ */
+export const songCorpus = (): Song[] => {
+  const { C, Am, F, G, Dm, E, Em } = CHORDS;
+  const verse: PartSpec = {
+    label: 'verse',
+    bars: 8,
+    chords: [C, Am, F, G],
+    voice: 'pluck',
+    gain: 0.25,
+  };
+  const chorus: PartSpec = {
+    label: 'chorus',
+    bars: 8,
+    chords: [F, G, Em, Am],
+    voice: 'bright',
+    gain: 0.35,
+    drums: true,
+  };
+
+  return [
+    createSong('pop song at 120 BPM', 120, [
+      { label: 'intro', bars: 2, chords: [Am, F], voice: 'pad', gain: 0.2 },
+      verse,
+      chorus,
+      verse,
+      chorus,
+      { label: 'bridge', bars: 4, chords: [Dm, E], voice: 'pad', gain: 0.3 },
+      chorus,
+      { label: 'outro', bars: 2, chords: [C, G], voice: 'pad', gain: 0.15 },
+    ]),
+    createSong('verse and chorus at 100 BPM', 100, [verse, chorus, verse, chorus, chorus]),
+  ];
+};
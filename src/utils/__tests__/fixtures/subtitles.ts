@@ -0,0 +1,498 @@
+/**
+ * subtitles.ts
+ *
+ * Subtitle files in each format as real tools write them, and malformed ones
+ * with the line a parser should report
+ */
+import { SubtitleEntry } from '../../../plugins/pluginInterfaces';
+import { SubtitleFormat } from '../../subtitleFormats';
+
+/**
+ * A well-formed file and the entries it holds
+ */
+export interface SubtitleSample {
+  name: string;
+  format: SubtitleFormat;
+  text: string;
+  entries: Array<Partial<SubtitleEntry>>;
+}
+
+/**
+ * A malformed file
+ */
+export interface MalformedSubtitle {
+  name: string;
+  format: SubtitleFormat;
+  text: string;
+  /** 1-based line the error is on */
+  line: number;
+  /** Part of the error message */
+  message: string;
+}
+
+const lines = (...text: string[]) => text.join('\n');
+
+export const SUBTITLE_SAMPLES: SubtitleSample[] = [
+  {
+    name: 'SRT with styling tags and an \\an override',
+    format: 'srt',
+    text: lines(
+      '1',
+      '00:00:01,000 --> 00:00:03,500',
+      'Hello,',
+      'world',
+      '',
+      '2',
+      '00:00:04,250 --> 00:00:06,000',
+      '<font color="#FFFF00" face="Georgia"><b>Chorus!</b></font>',
+      '',
+      '3',
+      '00:01:02,003 --> 00:01:04,000 X1:100 X2:300 Y1:10 Y2:40',
+      '{\\an8}Up <i>top</i>',
+      ''
+    ),
+    entries: [
+      { id: '1', startTime: 1, endTime: 3.5, text: 'Hello,\nworld' },
+      {
+        id: '2',
+        startTime: 4.25,
+        endTime: 6,
+        text: 'Chorus!',
+        style: { color: '#ffff00', fontName: 'Georgia', bold: true },
+      },
+      { id: '3', startTime: 62.003, endTime: 64, text: 'Up top', style: { alignment: 8 } },
+    ],
+  },
+  {
+    name: 'SRT with CRLF line ends, a BOM and no trailing blank line',
+    format: 'srt',
+    text: '\uFEFF1\r\n00:00:00,500 --> 00:00:01,000\r\nOne\r\n\r\n2\r\n00:00:01,000 --> 00:00:02,000\r\nTwo',
+    entries: [
+      { id: '1', startTime: 0.5, endTime: 1, text: 'One' },
+      { id: '2', startTime: 1, endTime: 2, text: 'Two' },
+    ],
+  },
+  {
+    name: 'WebVTT with a header, notes, styles, regions and cue settings',
+    format: 'vtt',
+    text: lines(
+      'WEBVTT - Lyrics',
+      'Kind: captions',
+      '',
+      'NOTE Written by hand',
+      'over two lines',
+      '',
+      'STYLE',
+      '::cue { color: white; }',
+      '::cue(#chorus) { color: rgba(255, 0, 0, 0.5); font-size: 5vh; text-decoration: underline; }',
+      '',
+      'REGION',
+      'id:lyrics width:40% lines:3',
+      '',
+      '00:01.000 --> 00:03.000',
+      'No identifier &amp; <c.loud>a class</c>',
+      '',
+      'chorus',
+      '00:00:04.000 --> 00:00:06.000 position:10%,line-left line:80%,end align:left',
+      '<i><b>Sing</b> it</i>',
+      '',
+      'top',
+      '00:07.000 --> 00:08.000 line:0',
+      '<v Singer>Up here</v>',
+      ''
+    ),
+    entries: [
+      {
+        id: '1',
+        startTime: 1,
+        endTime: 3,
+        text: 'No identifier & a class',
+        style: { color: '#ffffff' },
+      },
+      {
+        id: 'chorus',
+        startTime: 4,
+        endTime: 6,
+        text: 'Sing it',
+        style: { color: '#ff000080', fontSize: 54, underline: true, italic: true, alignment: 1 },
+        position: { x: 0.1, y: 0.8 },
+      },
+      {
+        id: 'top',
+        startTime: 7,
+        endTime: 8,
+        text: 'Up here',
+        style: { color: '#ffffff', alignment: 8 },
+      },
+    ],
+  },
+  {
+    name: 'ASS from Aegisub with named styles and overrides',
+    format: 'ass',
+    text: lines(
+      '[Script Info]',
+      '; Script generated by Aegisub',
+      'Title: Lyrics',
+      'ScriptType: v4.00+',
+      'PlayResX: 1280',
+      'PlayResY: 720',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      'Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1',
+      'Style: Chorus,Impact,64,&H0000FFFF,&H000000FF,&H00000000,&H00000000,-1,0,0,0,100,100,0,0,1,2,2,8,10,10,10,1',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Not shown',
+      'Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,First line\\Nsecond, with a comma',
+      'Dialogue: 0,0:00:04.00,0:00:06.00,Chorus,,0,0,0,,Chorus',
+      'Dialogue: 0,0:00:07.00,0:00:08.00,Default,,0,0,0,,{\\an7\\pos(640,360)\\i1\\c&H0000FF&}Placed{\\i0} here',
+      ''
+    ),
+    entries: [
+      { id: '1', startTime: 1, endTime: 3.5, text: 'First line\nsecond, with a comma' },
+      {
+        id: '2',
+        startTime: 4,
+        endTime: 6,
+        text: 'Chorus',
+        style: {
+          fontName: 'Impact',
+          fontSize: 96,
+          color: '#ffff00',
+          bold: true,
+          italic: false,
+          underline: false,
+          strikeout: false,
+          alignment: 8,
+        },
+      },
+      {
+        id: '3',
+        startTime: 7,
+        endTime: 8,
+        text: 'Placed here',
+        style: { alignment: 7, italic: true, color: '#ff0000' },
+        position: { x: 0.5, y: 0.5 },
+      },
+    ],
+  },
+  {
+    name: 'SSA with decimal colours and legacy alignment',
+    format: 'ssa',
+    text: lines(
+      '[Script Info]',
+      'ScriptType: v4.00',
+      '',
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      'Style: Default,Tahoma,24,16777215,65535,65535,0,0,0,1,1,0,2,30,30,10,0,0',
+      'Style: Top,Tahoma,24,255,65535,65535,0,0,0,1,1,0,6,30,30,10,0,0',
+      '',
+      '[Events]',
+      'Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: Marked=0,0:00:01.00,0:00:02.00,Top,,0000,0000,0000,,At the top',
+      ''
+    ),
+    entries: [
+      {
+        startTime: 1,
+        endTime: 2,
+        text: 'At the top',
+        style: {
+          fontName: 'Tahoma',
+          fontSize: 90,
+          color: '#ff0000',
+          bold: false,
+          italic: false,
+          alignment: 8,
+        },
+      },
+    ],
+  },
+  {
+    name: 'TTML with styles, regions, nested timing and line breaks',
+    format: 'ttml',
+    text: lines(
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling"',
+      '    xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:frameRate="25" xml:lang="en">',
+      '  <head>',
+      '    <styling>',
+      '      <style xml:id="base" tts:fontFamily="Verdana" tts:color="#FFFFFF"/>',
+      '      <style xml:id="loud" style="base" tts:fontWeight="bold" tts:fontSize="2c"/>',
+      '    </styling>',
+      '    <layout>',
+      '      <region xml:id="bottom" tts:origin="10% 70%" tts:extent="80% 20%"',
+      '          tts:displayAlign="after" tts:textAlign="center"/>',
+      '    </layout>',
+      '  </head>',
+      '  <body region="bottom" style="base">',
+      '    <div begin="10s">',
+      '      <p begin="00:00:01.000" end="00:00:03.000">Two',
+      '        <br/>lines</p>',
+      '      <p begin="4s" dur="50f" style="loud"><span tts:fontStyle="italic">Loud</span></p>',
+      '    </div>',
+      '  </body>',
+      '</tt>'
+    ),
+    entries: [
+      {
+        startTime: 11,
+        endTime: 13,
+        text: 'Two\nlines',
+        style: { fontName: 'Verdana', color: '#ffffff' },
+        position: { x: 0.5, y: 0.9 },
+      },
+      {
+        startTime: 14,
+        endTime: 16,
+        text: 'Loud',
+        style: { fontName: 'Verdana', color: '#ffffff', bold: true, fontSize: 144, italic: true },
+        position: { x: 0.5, y: 0.9 },
+      },
+    ],
+  },
+  {
+    name: 'DFXP in the 2006 namespace with ticks',
+    format: 'ttml',
+    text: lines(
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<tt xmlns="http://www.w3.org/2006/10/ttaf1" xmlns:ttp="http://www.w3.org/2006/10/ttaf1#parameter"',
+      '    ttp:tickRate="10000000">',
+      '  <body>',
+      '    <div>',
+      '      <p begin="10000000t" end="25000000t" id="c1">Ticks</p>',
+      '    </div>',
+      '  </body>',
+      '</tt>'
+    ),
+    entries: [{ id: 'c1', startTime: 1, endTime: 2.5, text: 'Ticks', style: { alignment: 7 } }],
+  },
+];
+
+export const MALFORMED_SUBTITLES: MalformedSubtitle[] = [
+  {
+    name: 'SRT with a comma missing from a timestamp',
+    format: 'srt',
+    text: lines(
+      '1',
+      '00:00:01,000 --> 00:00:02,000',
+      'Fine',
+      '',
+      '2',
+      '00:00:03000 --> 00:00:04,000',
+      'Broken'
+    ),
+    line: 6,
+    message: 'invalid cue timing "00:00:03000 --> 00:00:04,000"',
+  },
+  {
+    name: 'SRT with text where a cue number belongs',
+    format: 'srt',
+    text: lines(
+      '1',
+      '00:00:01,000 --> 00:00:02,000',
+      'One',
+      '',
+      'Stray text',
+      '00:00:03,000 --> 00:00:04,000'
+    ),
+    line: 5,
+    message: 'expected a cue number, found "Stray text"',
+  },
+  {
+    name: 'SRT with a cue number and nothing after it',
+    format: 'srt',
+    text: lines('1', '00:00:01,000 --> 00:00:02,000', 'One', '', '2', ''),
+    line: 6,
+    message: 'expected the cue timing',
+  },
+  {
+    name: 'SRT with a cue that ends before it starts',
+    format: 'srt',
+    text: lines('1', '00:00:05,000 --> 00:00:02,000', 'Backwards'),
+    line: 2,
+    message: 'the cue ends before it starts',
+  },
+  {
+    name: 'SRT with 61 seconds',
+    format: 'srt',
+    text: lines('', '', '7', '00:00:61,000 --> 00:01:02,000', 'Too many seconds'),
+    line: 4,
+    message: 'invalid cue timing',
+  },
+  {
+    name: 'WebVTT without its header',
+    format: 'vtt',
+    text: lines('00:01.000 --> 00:02.000', 'No header'),
+    line: 1,
+    message: 'expected the file to start with "WEBVTT"',
+  },
+  {
+    name: 'WebVTT with a cue straight after the header',
+    format: 'vtt',
+    text: lines('WEBVTT', '00:01.000 --> 00:02.000', 'Too soon'),
+    line: 2,
+    message: 'expected a blank line after the header',
+  },
+  {
+    name: 'WebVTT with an SRT-style comma timestamp',
+    format: 'vtt',
+    text: lines(
+      'WEBVTT',
+      '',
+      'a',
+      '00:01.000 --> 00:02.000',
+      'Fine',
+      '',
+      'b',
+      '00:00:03,000 --> 00:00:04.000',
+      'Comma'
+    ),
+    line: 8,
+    message: 'invalid timestamp "00:00:03,000"',
+  },
+  {
+    name: 'WebVTT with two lines before the timings',
+    format: 'vtt',
+    text: lines('WEBVTT', '', 'id', 'another line', '00:01.000 --> 00:02.000'),
+    line: 4,
+    message: 'expected cue timings, found "another line"',
+  },
+  {
+    name: 'WebVTT with an identifier at the end of the file',
+    format: 'vtt',
+    text: lines('WEBVTT', '', '00:01.000 --> 00:02.000', 'One', '', 'dangling'),
+    line: 6,
+    message: 'expected cue timings after "dangling"',
+  },
+  {
+    name: 'WebVTT with no spaces around the arrow',
+    format: 'vtt',
+    text: lines('WEBVTT', '', '00:01.000-->00:02.000', 'Squashed'),
+    line: 3,
+    message: 'invalid cue timings',
+  },
+  {
+    name: 'ASS with a Dialogue before the Format line',
+    format: 'ass',
+    text: lines(
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      '',
+      '[Events]',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Too soon',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+    ),
+    line: 5,
+    message: 'Dialogue comes before the Format line',
+  },
+  {
+    name: 'ASS with a Dialogue missing fields',
+    format: 'ass',
+    text: lines(
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Fine,,0,0,0,,Text',
+      'Dialogue: 0,0:00:03.00,0:00:04.00,Short'
+    ),
+    line: 4,
+    message: 'expected 10 fields, found 4',
+  },
+  {
+    name: 'ASS with a bad time',
+    format: 'ass',
+    text: lines(
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      '',
+      'Dialogue: 0,0:00:01.00,0:0x:02.00,Default,,0,0,0,,Text'
+    ),
+    line: 4,
+    message: 'invalid time "0:0x:02.00"',
+  },
+  {
+    name: 'ASS with a Style before its Format line',
+    format: 'ass',
+    text: lines(
+      '[V4+ Styles]',
+      'Style: Default,Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0'
+    ),
+    line: 2,
+    message: 'Style comes before the Format line',
+  },
+  {
+    name: 'ASS with no [Events] section',
+    format: 'ass',
+    text: lines('[Script Info]', 'Title: Empty', 'ScriptType: v4.00+'),
+    line: 3,
+    message: 'no [Events] section',
+  },
+  {
+    name: 'ASS with an Events Format line that does not end with Text',
+    format: 'ass',
+    text: lines('[Events]', 'Format: Layer, Start, End, Text, Style'),
+    line: 2,
+    message: 'the Format line must name Start and End, and end with Text',
+  },
+  {
+    name: 'TTML with a mismatched close tag',
+    format: 'ttml',
+    text: lines(
+      '<tt xmlns="http://www.w3.org/ns/ttml">',
+      '  <body>',
+      '    <div>',
+      '      <p begin="1s" end="2s">Open</span>',
+      '    </div>',
+      '  </body>',
+      '</tt>'
+    ),
+    line: 4,
+    message: 'malformed XML',
+  },
+  {
+    name: 'TTML with an invalid time expression',
+    format: 'ttml',
+    text: lines(
+      '<?xml version="1.0"?>',
+      '<!-- a comment',
+      '     with <tags> in it -->',
+      '<tt xmlns="http://www.w3.org/ns/ttml">',
+      '  <body><div>',
+      '    <p begin="1s" end="2s">Fine</p>',
+      '    <p begin="1 second" end="2s">Bad</p>',
+      '  </div></body>',
+      '</tt>'
+    ),
+    line: 7,
+    message: 'invalid begin time "1 second"',
+  },
+  {
+    name: 'TTML with a paragraph that never ends',
+    format: 'ttml',
+    text: lines(
+      '<tt xmlns="http://www.w3.org/ns/ttml">',
+      '  <body>',
+      '    <div>',
+      '      <p',
+      '         begin="1s">Forever</p>',
+      '    </div>',
+      '  </body>',
+      '</tt>'
+    ),
+    line: 4,
+    message: 'the paragraph has no end time',
+  },
+  {
+    name: 'TTML with the wrong root element',
+    format: 'ttml',
+    text: lines(
+      '<?xml version="1.0"?>',
+      '<html xmlns="http://www.w3.org/1999/xhtml"><body/></html>'
+    ),
+    line: 2,
+    message: 'expected a <tt> root element in the TTML namespace',
+  },
+];
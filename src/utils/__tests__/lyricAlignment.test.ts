@@ -0,0 +1,125 @@
+/**
+ * lyricAlignment.test.ts
+ *
+ * Unit tests for snapping lyric lines to the beat
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { alignLyricsToBeats } from '../lyricAlignment';
+import { MarkerAnalysis } from '../exportMarkers';
+import { SubtitleEntry } from '../../plugins/pluginInterfaces';
+
+/**
+ * Builds an analysis with a beat every half second, in 4/4 from 0s, and
+ * sections at 0s, 4s and 8s
+ */
+const createAnalysis = (labelled = false, beatCount = 32): MarkerAnalysis => ({
+  beats: {
+    beats: Array.from({ length: beatCount }, (_: unknown, index: number) => ({
+      time: index * 0.5,
+      confidence: 0.9,
+      ...(labelled ? { bar: Math.floor(index / 4) + 1, beatInBar: (index % 4) + 1 } : {}),
+    })),
+  },
+  tempo: { timeSignature: { numerator: 4 } },
+  sections: {
+    sections: [
+      { start: 0, duration: 4, label: 'intro', confidence: 0.8 },
+      { start: 4, duration: 4, label: 'verse', confidence: 0.8 },
+      { start: 8, duration: 8, label: 'chorus', confidence: 0.8 },
+    ],
+  },
+});
+
+/**
+ * Builds lyric lines from start and end times
+ */
+const createLines = (...times: Array<[number, number]>): SubtitleEntry[] =>
+  times.map(([startTime, endTime]: [number, number], index: number) => ({
+    id: String(index + 1),
+    startTime,
+    endTime,
+    text: `Line ${index + 1}`,
+  }));
+
+/**
+ * Lists the start and end of each line
+ */
+const timesOf = (entries: SubtitleEntry[]): Array<[number, number]> =>
+  entries.map((entry: SubtitleEntry): [number, number] => [entry.startTime, entry.endTime]);
+
+describe('alignLyricsToBeats', () => {
+  it('should snap starts and ends to the nearest beat', () => {
+    const aligned = alignLyricsToBeats(createLines([0.62, 1.38], [2.2, 3.1]), createAnalysis(), {
+      stretch: false,
+    });
+
+    expect(timesOf(aligned)).toEqual([
+      [0.5, 1.5],
+      [2.0, 3.0],
+    ]);
+  });
+
+  it('should snap to downbeats when asked', () => {
+    const aligned = alignLyricsToBeats(createLines([2.9, 5.2]), createAnalysis(), {
+      snapTo: 'downbeat',
+      stretch: false,
+    });
+
+    expect(timesOf(aligned)).toEqual([[2, 6]]);
+  });
+
+  it('should hold a line until the end of its section', () => {
+    const aligned = alignLyricsToBeats(createLines([4.1, 5.1]), createAnalysis());
+
+    expect(timesOf(aligned)).toEqual([[4, 8]]);
+  });
+
+  it('should end a line where the next one starts', () => {
+    const aligned = alignLyricsToBeats(createLines([0.1, 1.1], [2.4, 3.6]), createAnalysis());
+
+    expect(timesOf(aligned)).toEqual([
+      [0, 2.5],
+      [2.5, 4],
+    ]);
+  });
+
+  it('should stretch to phrases of labelled bars', () => {
+    const lines = createLines([8.6, 9.4]);
+
+    expect(timesOf(alignLyricsToBeats(lines, createAnalysis(true)))).toEqual([[8.5, 16]]);
+    expect(timesOf(alignLyricsToBeats(lines, createAnalysis(true), { barsPerPhrase: 2 }))).toEqual([
+      [8.5, 12],
+    ]);
+  });
+
+  it('should keep lines that land on the same beat a beat apart', () => {
+    const aligned = alignLyricsToBeats(createLines([1.0, 1.2], [1.1, 1.3]), createAnalysis(), {
+      stretch: false,
+    });
+
+    expect(timesOf(aligned)).toEqual([
+      [1.0, 1.5],
+      [1.5, 2.0],
+    ]);
+  });
+
+  it('should return sorted copies and leave the input alone', () => {
+    const lines = createLines([3.1, 3.9], [0.9, 2.1]);
+
+    const aligned = alignLyricsToBeats(lines, createAnalysis(), { stretch: false });
+
+    expect(aligned.map((entry: SubtitleEntry) => entry.text)).toEqual(['Line 2', 'Line 1']);
+    expect(timesOf(lines)).toEqual([
+      [3.1, 3.9],
+      [0.9, 2.1],
+    ]);
+  });
+
+  it('should leave lines where they are without beats', () => {
+    const lines = createLines([0.3, 1.7]);
+
+    expect(timesOf(alignLyricsToBeats(lines, null))).toEqual([[0.3, 1.7]]);
+    expect(timesOf(alignLyricsToBeats(lines, { beats: { beats: [] } }))).toEqual([[0.3, 1.7]]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * multicamSync.test.ts
+ *
+ * Unit tests for lining clips up with the song by their scratch audio
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { alignClipToMaster, estimateOffset, SYNC_SAMPLE_RATE } from '../multicamSync';
+import { AudioSyncMethod } from '../../types/ProjectSettings';
+
+/**
+ * Builds a repeatable pseudo-random source in [-1, 1)
+ */
+const createNoise = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+};
+
+/**
+ * Builds a song of noise bursts at irregular times, like drum hits, over a quiet bed
+ */
+const createSong = (seconds: number, sampleRate = SYNC_SAMPLE_RATE, seed = 1): Float32Array => {
+  const noise = createNoise(seed);
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let nextHit = 0;
+  let hitStart = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (i >= nextHit) {
+      hitStart = i;
+      nextHit = i + Math.round((0.2 + 0.4 * Math.abs(noise())) * sampleRate);
+    }
+    const decay = Math.exp(-(i - hitStart) / (0.03 * sampleRate));
+    samples[i] = noise() * (0.05 + 0.8 * decay);
+  }
+  return samples;
+};
+
+/**
+ * Records a song on a camera: what it heard from `offset` seconds into the
+ * song, at a clock running `drift` fast, with room noise on top
+ */
+const recordClip = (
+  song: Float32Array,
+  offset: number,
+  seconds: number,
+  { drift = 0, noiseLevel = 0.1, sampleRate = SYNC_SAMPLE_RATE } = {}
+): Float32Array => {
+  const noise = createNoise(99);
+  const clip = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < clip.length; i++) {
+    const position = (offset + (i / sampleRate) * (1 + drift)) * SYNC_SAMPLE_RATE;
+    const index = Math.floor(position);
+    const heard =
+      index >= 0 && index + 1 < song.length
+        ? song[index] + (song[index + 1] - song[index]) * (position - index)
+        : 0;
+    clip[i] = heard + noise() * noiseLevel;
+  }
+  return clip;
+};
+
+describe('estimateOffset', () => {
+  const song = createSong(20);
+
+  it('should find where a clip starts in the song', () => {
+    const estimate = estimateOffset(song, recordClip(song, 5.25, 6));
+
+    expect(estimate.offset).toBeCloseTo(5.25, 3);
+    expect(estimate.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('should find a clip that started rolling before the playback', () => {
+    const estimate = estimateOffset(song, recordClip(song, -1.5, 6));
+
+    expect(estimate.offset).toBeCloseTo(-1.5, 3);
+  });
+
+  it('should match onset envelopes to within a frame', () => {
+    const estimate = estimateOffset(song, recordClip(song, 7.4, 8), { method: 'envelope' });
+
+    expect(Math.abs(estimate.offset - 7.4)).toBeLessThan(0.04);
+  });
+
+  it('should keep to the offsets it is given', () => {
+    const estimate = estimateOffset(song, recordClip(song, 5.25, 6), {
+      minOffset: 8,
+      maxOffset: 12,
+    });
+
+    expect(estimate.offset).toBeGreaterThanOrEqual(8);
+    expect(estimate.confidence).toBeLessThan(0.5);
+  });
+
+  it('should have little confidence in audio that is not the song', () => {
+    const estimate = estimateOffset(song, createSong(6, SYNC_SAMPLE_RATE, 7));
+
+    expect(estimate.confidence).toBeLessThan(0.5);
+  });
+
+  it('should have no confidence in silence', () => {
+    expect(estimateOffset(song, new Float32Array(8000)).confidence).toBe(0);
+  });
+});
+
+describe('alignClipToMaster', () => {
+  const song = createSong(30);
+
+  it('should align a clip recorded at another sample rate', () => {
+    const clip = recordClip(song, 4.5, 12, { sampleRate: 16000 });
+
+    const alignment = alignClipToMaster(
+      { samples: song, sampleRate: SYNC_SAMPLE_RATE },
+      { samples: clip, sampleRate: 16000 },
+      { applyNoiseReduction: true }
+    );
+
+    expect(alignment.globalOffset).toBeCloseTo(4.5, 2);
+    expect(alignment.confidence).toBeGreaterThan(0.8);
+    expect(alignment.drift).toBeCloseTo(0, 4);
+    expect(alignment.syncPoints.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should measure the drift of a camera clock running fast', () => {
+    const clip = recordClip(song, 3, 24, { drift: 0.0002 });
+
+    const alignment = alignClipToMaster(
+      { samples: song, sampleRate: SYNC_SAMPLE_RATE },
+      { samples: clip, sampleRate: SYNC_SAMPLE_RATE }
+    );
+
+    // 200 parts per million, measured to within 20
+    expect(Math.abs(alignment.drift! - 0.0002)).toBeLessThan(0.00002);
+    expect(alignment.globalOffset).toBeCloseTo(3, 2);
+    alignment.syncPoints.forEach((point) => {
+      const videoPosition = Number(point.videoPosition);
+      expect(Number(point.audioPosition)).toBeCloseTo(3 + videoPosition * 1.0002, 3);
+    });
+  });
+
+  it('should leave the drift alone without drift compensation', () => {
+    const clip = recordClip(song, 3, 24, { drift: 0.0002 });
+
+    const alignment = alignClipToMaster(
+      { samples: song, sampleRate: SYNC_SAMPLE_RATE },
+      { samples: clip, sampleRate: SYNC_SAMPLE_RATE },
+      { driftCompensation: false, method: AudioSyncMethod.ONSET_DETECTION }
+    );
+
+    expect(alignment.drift).toBe(0);
+    expect(alignment.maintainSyncByTimeStretch).toBe(false);
+    expect(alignment.metadata).toEqual({ method: 'envelope' });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * otioGenerators.test.ts
+ *
+ * Unit tests for the OpenTimelineIO timeline writer
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generateOTIO } from '../otioGenerators';
+import { createEDLFromEditDecisions, exportEDL } from '../edlGenerators';
+import { EditDecisionList, EDLFormat, MarkerType, TransitionType } from '../../types/EditDecision';
+
+const videoFiles: Record<string, File> = {
+  'video-1': new File([''], 'clip-a.mp4', { type: 'video/mp4' }),
+  'video-2': new File([''], 'clip-b.mp4', { type: 'video/mp4' }),
+};
+
+const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+
+/**
+ * Builds an EDL with a one-second hole between two clips and the music underneath
+ */
+const createEDL = (framerate: number): EditDecisionList =>
+  createEDLFromEditDecisions(
+    [
+      { time: 0, videoId: 'video-1', start: 10, duration: 2 },
+      { time: 2, videoId: 'video-2', start: 5, duration: 2 },
+      { time: 5, videoId: 'video-1', start: 20, duration: 1 },
+    ],
+    videoFiles,
+    audioFile,
+    framerate
+  );
+
+/**
+ * The parts of the OTIO schema the tests read
+ */
+interface OTIORationalTime {
+  OTIO_SCHEMA: 'RationalTime.1';
+  rate: number;
+  value: number;
+}
+
+interface OTIOTimeRange {
+  start_time: OTIORationalTime;
+  duration: OTIORationalTime;
+}
+
+interface OTIOMarker {
+  OTIO_SCHEMA: 'Marker.2';
+  name: string;
+  color: string;
+  marked_range: OTIOTimeRange;
+  comment: string;
+}
+
+interface OTIOGap {
+  OTIO_SCHEMA: 'Gap.1';
+  source_range: OTIOTimeRange;
+}
+
+interface OTIOClip {
+  OTIO_SCHEMA: 'Clip.2';
+  name: string;
+  metadata: { cineflux: { clipId: string; sourceId: string } };
+  source_range: OTIOTimeRange;
+  media_references: {
+    DEFAULT_MEDIA: {
+      OTIO_SCHEMA: 'ExternalReference.1';
+      available_range: OTIOTimeRange | null;
+      target_url: string;
+    };
+  };
+  active_media_reference_key: string;
+}
+
+interface OTIOTransition {
+  OTIO_SCHEMA: 'Transition.1';
+  transition_type: string;
+  in_offset: OTIORationalTime;
+  out_offset: OTIORationalTime;
+}
+
+interface OTIOTrack {
+  OTIO_SCHEMA: 'Track.1';
+  name: string;
+  kind: 'Video' | 'Audio';
+  children: Array<OTIOClip | OTIOGap | OTIOTransition>;
+}
+
+interface OTIOStack {
+  OTIO_SCHEMA: 'Stack.1';
+  markers: OTIOMarker[];
+  children: OTIOTrack[];
+}
+
+interface OTIOTimeline {
+  OTIO_SCHEMA: 'Timeline.1';
+  name: string;
+  global_start_time: OTIORationalTime;
+  tracks: OTIOStack;
+}
+
+const parse = (otio: string): OTIOTimeline => JSON.parse(otio);
+
+describe('generateOTIO', () => {
+  it('should write a timeline stack with a video and an audio track', () => {
+    const timeline = parse(generateOTIO(createEDL(25), { title: 'My Edit' }));
+
+    expect(timeline.OTIO_SCHEMA).toBe('Timeline.1');
+    expect(timeline.name).toBe('My Edit');
+    expect(timeline.global_start_time).toEqual({ OTIO_SCHEMA: 'RationalTime.1', rate: 25, value: 90000 });
+    expect(timeline.tracks.OTIO_SCHEMA).toBe('Stack.1');
+    expect(timeline.tracks.children.map((track: OTIOTrack) => [track.name, track.kind])).toEqual([
+      ['V1', 'Video'],
+      ['A1', 'Audio'],
+    ]);
+  });
+
+  it('should write clips with external references and gaps for holes', () => {
+    const timeline = parse(generateOTIO(createEDL(25), { mediaRoot: '/Volumes/Footage' }));
+    const video = timeline.tracks.children[0].children;
+
+    expect(video.map((item) => item.OTIO_SCHEMA)).toEqual(['Clip.2', 'Clip.2', 'Gap.1', 'Clip.2']);
+    const [first, , gap, last] = video as [OTIOClip, OTIOClip, OTIOGap, OTIOClip];
+    expect(first.source_range.start_time.value).toBe(250);
+    expect(first.source_range.duration.value).toBe(50);
+    expect(gap.source_range.duration.value).toBe(25);
+    expect(last.media_references.DEFAULT_MEDIA).toMatchObject({
+      OTIO_SCHEMA: 'ExternalReference.1',
+      target_url: 'file:///Volumes/Footage/clip-a.mp4',
+    });
+    expect(last.active_media_reference_key).toBe('DEFAULT_MEDIA');
+  });
+
+  it('should write rational NTSC rates and available ranges from metadata', () => {
+    const timeline = parse(
+      generateOTIO(createEDL(23.976), {
+        videoMetadata: {
+          'video-1': { width: 1920, height: 1080, duration: 60, fps: 23.976, codec: 'h264', bitrate: 0 },
+        },
+      })
+    );
+    const [clip, other] = timeline.tracks.children[0].children as OTIOClip[];
+
+    expect(clip.source_range.duration.rate).toBeCloseTo(24000 / 1001, 10);
+    expect(clip.media_references.DEFAULT_MEDIA.available_range?.duration.value).toBe(1439);
+    expect(other.media_references.DEFAULT_MEDIA.available_range).toBeNull();
+  });
+
+  it('should write transitions between the clips they join', () => {
+    const edl = createEDL(25);
+    edl.transitions.push({
+      id: 'transition_1',
+      type: TransitionType.DISSOLVE,
+      duration: 0.4,
+      outgoingClipId: 'clip_0',
+      incomingClipId: 'clip_1',
+      centerPoint: 2,
+    });
+
+    const video = parse(generateOTIO(edl)).tracks.children[0].children;
+
+    expect(video[1]).toMatchObject({
+      OTIO_SCHEMA: 'Transition.1',
+      transition_type: 'SMPTE_Dissolve',
+      in_offset: { value: 5 },
+      out_offset: { value: 5 },
+    });
+    expect((video[2] as OTIOClip).metadata.cineflux.clipId).toBe('clip_1');
+  });
+
+  it('should write cut points as timeline markers', () => {
+    const edl = createEDL(25);
+    edl.cutPoints.push(
+      { id: 'beat_1', type: MarkerType.MARKER, position: 1.5, label: 'Beat 1', confidence: 0.9 },
+      { id: 'chorus', type: MarkerType.CHAPTER, position: '00:00:04:00', label: 'Chorus', color: 'cyan' }
+    );
+
+    const markers = parse(generateOTIO(edl)).tracks.markers;
+
+    expect(markers).toHaveLength(2);
+    expect(markers[0]).toMatchObject({
+      OTIO_SCHEMA: 'Marker.2',
+      name: 'Beat 1',
+      color: 'RED',
+      marked_range: { start_time: { value: 38 }, duration: { value: 0 } },
+    });
+    expect(markers[1]).toMatchObject({ name: 'Chorus', color: 'CYAN', marked_range: { start_time: { value: 100 } } });
+  });
+
+  it('should be the DaVinci Resolve format of exportEDL', () => {
+    const edl = createEDL(25);
+
+    expect(exportEDL(edl, EDLFormat.DAVINCIRESOLVE)).toBe(generateOTIO(edl));
+  });
+});
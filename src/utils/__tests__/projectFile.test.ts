@@ -0,0 +1,245 @@
+/**
+ * projectFile.test.ts
+ *
+ * Unit tests for reading and writing .cineflux project files
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createProjectFile,
+  createWorkflowSnapshotFromProjectFile,
+  matchProjectMedia,
+  migrateProjectFile,
+  parseProjectFile,
+  serializeProjectFile,
+  ProjectFile,
+  ProjectFileError,
+} from '../projectFile';
+import { hashFile } from '../contentHash';
+import type { AppState } from '../../types/consolidated';
+
+const music = new File(['music'], 'song.mp3', { type: 'audio/mpeg', lastModified: 1000 });
+const take1 = new File(['take one'], 'take1.mp4', { type: 'video/mp4', lastModified: 2000 });
+const take2 = new File(['take two'], 'take2.mp4', { type: 'video/mp4', lastModified: 3000 });
+
+/**
+ * Stands in for hashMedia with a digest made from the file contents
+ */
+const fakeHash = (file: File): Promise<string> =>
+  new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve(
+        Array.from(reader.result as string, (char: string) => char.charCodeAt(0).toString(16))
+          .join('')
+          .padEnd(64, '0')
+          .slice(0, 64)
+      );
+    reader.readAsText(file);
+  });
+
+/**
+ * Builds a WorkflowContext state with two takes cut to a music track
+ */
+const createAppState = (): AppState =>
+  ({
+    workflow: { currentStep: 'editing' },
+    project: {
+      settings: { projectName: 'Night Drive', exportFormat: { frameRate: 25 } },
+      musicFile: { file: music, name: 'song.mp3', size: 5, type: 'audio/mpeg', duration: 8, url: 'blob:a' },
+      videoFiles: [
+        { id: 'v1', file: take1, name: 'take1.mp4', size: 8, type: 'video/mp4', fps: 25, url: 'blob:b' },
+        { id: 'v2', file: take2, name: 'take2.mp4', size: 8, type: 'video/mp4', fps: 25, url: 'blob:c' },
+      ],
+      rawVideoFiles: [],
+    },
+    analysis: { audio: { tempo: 120 }, video: null, isAnalyzing: false },
+    edit: {
+      decisions: [
+        { time: 0, clipIndex: 0, videoTime: 1, duration: 4, transition: 'cut' },
+        { time: 4, clipIndex: 1, videoTime: 2, duration: 4, transition: 'dissolve' },
+      ],
+    },
+    export: { settings: { format: 'premiere' }, exportComplete: true },
+  }) as unknown as AppState;
+
+const createFile = (): Promise<ProjectFile> =>
+  createProjectFile(createAppState(), { hash: fakeHash, savedAt: new Date('2026-01-02T03:04:05Z') });
+
+/**
+ * Expects a project file to be rejected for one field
+ */
+const expectInvalid = (data: unknown, field: string) => {
+  try {
+    parseProjectFile(JSON.stringify(data));
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProjectFileError);
+    expect((error as ProjectFileError).field).toBe(field);
+    return;
+  }
+  throw new Error(`Expected ${field} to be rejected`);
+};
+
+describe('createProjectFile', () => {
+  it('should reference media by path and content hash', async () => {
+    const file = await createFile();
+
+    expect(file).toMatchObject({ format: 'cineflux', version: 2, name: 'Night Drive' });
+    expect(file.savedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(file.media.map(({ id, role, path }) => ({ id, role, path }))).toEqual([
+      { id: 'music', role: 'music', path: 'song.mp3' },
+      { id: 'v1', role: 'video', path: 'take1.mp4' },
+      { id: 'v2', role: 'video', path: 'take2.mp4' },
+    ]);
+    expect(file.media[0].hash).toBe(await fakeHash(music));
+    expect(file.media[1].metadata).toEqual({ fps: 25 });
+  });
+
+  it('should identify media by the content hash the analysis cache uses', async () => {
+    const file = await createProjectFile(createAppState());
+
+    expect(file.media.map((media) => media.hash)).toEqual(
+      await Promise.all([music, take1, take2].map((media: File) => hashFile(media)))
+    );
+  });
+
+  it('should store the edit as an EditDecisionList of media IDs', async () => {
+    const { edl } = await createFile();
+    const video = edl.clips.filter((clip) => clip.trackType === 'video');
+
+    expect(edl.framerate).toBe(25);
+    expect(video.map((clip) => clip.sourceId)).toEqual(['v1', 'v2']);
+    expect(edl.transitions).toHaveLength(1);
+    expect(edl.transitions[0]).toMatchObject({ type: 'dissolve', incomingClipId: video[1].id });
+  });
+});
+
+describe('parseProjectFile', () => {
+  it('should read back what was written', async () => {
+    const file = await createFile();
+
+    expect(parseProjectFile(serializeProjectFile(file))).toEqual(JSON.parse(serializeProjectFile(file)));
+  });
+
+  it('should point at the offending field', async () => {
+    const file = JSON.parse(serializeProjectFile(await createFile()));
+
+    expectInvalid({ ...file, format: 'other' }, 'format');
+    expectInvalid({ ...file, media: [{ ...file.media[0], hash: 'abc' }] }, 'media[0].hash');
+    expectInvalid({ ...file, media: [file.media[0], { ...file.media[1], size: '8' }] }, 'media[1].size');
+    expectInvalid({ ...file, media: file.media.slice(0, 2) }, 'edl.clips[1].sourceId');
+    expectInvalid(
+      { ...file, edl: { ...file.edl, transitions: [{ ...file.edl.transitions[0], incomingClipId: 'x' }] } },
+      'edl.transitions[0].incomingClipId'
+    );
+    expectInvalid(
+      { ...file, analysis: { ...file.analysis, alignments: { v1: { syncPoints: [], globalOffset: 0 } } } },
+      'analysis.alignments.v1'
+    );
+  });
+
+  it('should reject files that are not JSON or are too new', async () => {
+    const file = JSON.parse(serializeProjectFile(await createFile()));
+
+    expect(() => parseProjectFile('{"format":')).toThrow('Invalid project file: is not valid JSON');
+    expect(() => parseProjectFile(JSON.stringify({ ...file, version: 3 }))).toThrow(
+      'Invalid project file: version is 3, but this version of CineFlux only reads up to version 2'
+    );
+  });
+
+  it('should open version 1 files, which have no alignments', async () => {
+    const file = JSON.parse(serializeProjectFile(await createFile()));
+    const { alignments: _alignments, ...analysis } = file.analysis;
+
+    expect(parseProjectFile(JSON.stringify({ ...file, version: 1, analysis })).analysis.alignments).toEqual({});
+  });
+});
+
+describe('migrateProjectFile', () => {
+  it('should apply each migration up to the target version', () => {
+    const migrations = {
+      1: (data: Record<string, unknown>) => ({ ...data, media: [] }),
+      2: (data: Record<string, unknown>) => ({ ...data, name: String(data.title) }),
+    };
+
+    expect(migrateProjectFile({ version: 1, title: 'Old' }, migrations, 3)).toEqual({
+      version: 3,
+      title: 'Old',
+      media: [],
+      name: 'Old',
+    });
+  });
+
+  it('should reject a version with no way forward', () => {
+    expect(() => migrateProjectFile({ version: 1 }, {}, 2)).toThrow(ProjectFileError);
+  });
+});
+
+describe('matchProjectMedia', () => {
+  it('should find renamed files by content and report the rest as missing', async () => {
+    const { media } = await createFile();
+    const renamed = new File(['take one'], 'A001_C003.mp4', { type: 'video/mp4' });
+    const sameSize = new File(['take 2!!'], 'take2.mp4', { type: 'video/mp4' });
+
+    const { matched, missing } = await matchProjectMedia(media, [renamed, sameSize], fakeHash);
+
+    expect(matched.get('v1')).toBe(renamed);
+    expect(missing.map((reference) => reference.id)).toEqual(['music', 'v2']);
+  });
+});
+
+describe('createWorkflowSnapshotFromProjectFile', () => {
+  it('should rebuild the edit decisions for the media that was found', async () => {
+    const file = await createFile();
+    const snapshot = createWorkflowSnapshotFromProjectFile(
+      file,
+      new Map([
+        ['music', music],
+        ['v1', take1],
+        ['v2', take2],
+      ])
+    );
+
+    expect(snapshot.currentStep).toBe('editing');
+    expect(snapshot.musicFile).toMatchObject({ name: 'song.mp3', duration: 8, mediaKey: 'song.mp3:5:1000' });
+    expect(snapshot.videoFiles.map((video) => video.id)).toEqual(['v1', 'v2']);
+    expect(snapshot.editDecisions).toEqual(createAppState().edit.decisions);
+    expect(snapshot.audioAnalysis).toEqual({ tempo: 120 });
+  });
+
+  it('should leave out the cuts from videos that were not found', async () => {
+    const file = await createFile();
+    const snapshot = createWorkflowSnapshotFromProjectFile(
+      file,
+      new Map([
+        ['music', music],
+        ['v2', take2],
+      ])
+    );
+
+    expect(snapshot.videoFiles.map((video) => video.id)).toEqual(['v2']);
+    expect(snapshot.editDecisions).toEqual([
+      { time: 4, clipIndex: 0, videoTime: 2, duration: 4, transition: 'dissolve' },
+    ]);
+  });
+
+  it('should keep the sync of the raw videos that were found', async () => {
+    const raw = new File(['raw take'], 'raw1.mp4', { type: 'video/mp4', lastModified: 4000 });
+    const state = createAppState();
+    state.project.rawVideoFiles = [
+      { id: 'raw-1', file: raw, name: 'raw1.mp4' },
+      { id: 'raw-2', name: 'raw2.mp4' },
+    ] as unknown as AppState['project']['rawVideoFiles'];
+    state.analysis.alignments = {
+      'raw-1': { syncPoints: [], globalOffset: 1.5 },
+      'raw-2': { syncPoints: [], globalOffset: -0.4 },
+    };
+    const file = parseProjectFile(serializeProjectFile(await createProjectFile(state, { hash: fakeHash })));
+
+    expect(file.analysis.alignments).toEqual({ 'raw-1': { syncPoints: [], globalOffset: 1.5 } });
+    expect(createWorkflowSnapshotFromProjectFile(file, new Map([['raw-1', raw]])).alignments).toEqual(
+      file.analysis.alignments
+    );
+    expect(createWorkflowSnapshotFromProjectFile(file, new Map()).alignments).toEqual({});
+  });
+});
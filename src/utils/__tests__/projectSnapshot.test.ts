@@ -0,0 +1,135 @@
+/**
+ * projectSnapshot.test.ts
+ *
+ * Unit tests for saving and restoring project state
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createProjectSnapshot,
+  createWorkflowSnapshot,
+  mediaKey,
+  restoreProjectSnapshot,
+  restoreWorkflowSnapshot,
+  ProjectSnapshotSource,
+} from '../projectSnapshot';
+import type { AppState } from '../../types/consolidated';
+
+const music = new File(['music'], 'song.mp3', { type: 'audio/mpeg', lastModified: 1000 });
+const clip = new File(['video'], 'take1.mp4', { type: 'video/mp4', lastModified: 2000 });
+
+/**
+ * Builds a WorkflowContext state with a music file, one raw video and an analysis
+ */
+const createAppState = (): AppState =>
+  ({
+    workflow: { currentStep: 'editing', analysisProgress: { percentage: 40 } },
+    project: {
+      settings: { projectName: 'Night Drive' },
+      musicFile: { file: music, name: 'song.mp3', duration: 180, url: 'blob:music' },
+      videoFiles: [],
+      rawVideoFiles: [{ id: 'raw-1', file: clip, name: 'take1.mp4', url: 'blob:clip' }],
+    },
+    analysis: {
+      audio: { tempo: 120 },
+      video: null,
+      isAnalyzing: true,
+      alignments: { 'raw-1': { syncPoints: [], globalOffset: 1.5 } },
+    },
+    edit: { decisions: [{ id: 'edit-1' }], currentEdit: null, selectedEditIndex: null },
+    export: { settings: { format: 'premiere' }, exportComplete: false },
+    ui: { errors: {} },
+  }) as unknown as AppState;
+
+describe('mediaKey', () => {
+  it('should identify a file by name, size and modification time', () => {
+    expect(mediaKey(music)).toBe('song.mp3:5:1000');
+  });
+});
+
+describe('createProjectSnapshot', () => {
+  const state = {
+    currentStep: 'editing',
+    settings: { projectName: 'Night Drive' },
+    audioAnalysis: null,
+    videoAnalyses: {},
+    editDecisions: [],
+    duration: 180,
+    musicFile: music,
+    videoFiles: [clip],
+    isPlaying: true,
+    currentTime: 42,
+  } as unknown as ProjectSnapshotSource;
+
+  it('should replace files with media keys and leave out playback state', () => {
+    const snapshot = createProjectSnapshot(state);
+
+    expect(snapshot.musicFile).toBe('song.mp3:5:1000');
+    expect(snapshot.videoFiles).toEqual(['take1.mp4:5:2000']);
+    expect(snapshot).not.toHaveProperty('currentTime');
+    expect(snapshot).not.toHaveProperty('isPlaying');
+  });
+
+  it('should restore the files that are still available', () => {
+    const files = new Map([[mediaKey(music), music]]);
+    const restored = restoreProjectSnapshot(createProjectSnapshot(state), files);
+
+    expect(restored.musicFile).toBe(music);
+    expect(restored.videoFiles).toEqual([]);
+    expect(restored.duration).toBe(180);
+  });
+});
+
+describe('createWorkflowSnapshot', () => {
+  it('should keep media metadata without files or object URLs', () => {
+    const snapshot = createWorkflowSnapshot(createAppState());
+
+    expect(snapshot.musicFile).toEqual({
+      name: 'song.mp3',
+      duration: 180,
+      mediaKey: 'song.mp3:5:1000',
+    });
+    expect(snapshot.rawVideoFiles).toEqual([
+      { id: 'raw-1', name: 'take1.mp4', mediaKey: 'take1.mp4:5:2000' },
+    ]);
+    expect(snapshot.editDecisions).toEqual([{ id: 'edit-1' }]);
+  });
+
+  it('should restore analyses, edits and media without resuming analysis', () => {
+    const snapshot = createWorkflowSnapshot(createAppState());
+    const files = new Map([
+      [mediaKey(music), music],
+      [mediaKey(clip), clip],
+    ]);
+    const fresh = {
+      ...createAppState(),
+      project: { ...createAppState().project, musicFile: null, rawVideoFiles: [] },
+      analysis: { audio: null, video: null, isAnalyzing: false },
+      edit: { decisions: [], currentEdit: null, selectedEditIndex: null },
+    } as AppState;
+
+    const restored = restoreWorkflowSnapshot(fresh, snapshot, files, (file: File) => `blob:${file.name}`);
+
+    const [raw] = restored.project.rawVideoFiles;
+    expect(restored.project.musicFile?.file).toBe(music);
+    expect(restored.project.musicFile).toHaveProperty('url', 'blob:song.mp3');
+    expect(restored.project.rawVideoFiles).toHaveLength(1);
+    expect(raw.file).toBe(clip);
+    expect(raw).toMatchObject({ id: 'raw-1', name: 'take1.mp4', url: 'blob:take1.mp4' });
+    expect(restored.analysis).toEqual({
+      audio: { tempo: 120 },
+      video: null,
+      isAnalyzing: false,
+      alignments: { 'raw-1': { syncPoints: [], globalOffset: 1.5 } },
+    });
+    expect(restored.edit.decisions).toEqual([{ id: 'edit-1' }]);
+  });
+
+  it('should drop media whose files could not be restored', () => {
+    const snapshot = createWorkflowSnapshot(createAppState());
+    const restored = restoreWorkflowSnapshot(createAppState(), snapshot, new Map(), () => '');
+
+    expect(restored.project.musicFile).toBeNull();
+    expect(restored.project.rawVideoFiles).toEqual([]);
+  });
+});
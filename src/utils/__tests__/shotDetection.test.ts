@@ -0,0 +1,159 @@
+import { describe, expect, it } from '@jest/globals';
+import { Scene } from '../../types/video-types';
+import {
+  detectShotBoundaries,
+  refineBoundary,
+  scenesToSceneChanges,
+  shotFeatures,
+} from '../shotDetection';
+import { blend, dim, flash, FOREST, hold, shot, STAGE, STREET } from './fixtures/shots';
+
+describe('detectShotBoundaries', () => {
+  it('finds nothing in a single shot', () => {
+    expect(detectShotBoundaries(hold(STREET, 8))).toEqual([]);
+  });
+
+  it('finds a hard cut', () => {
+    const boundaries = detectShotBoundaries([...hold(STREET, 6), ...hold(FOREST, 6)]);
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0]).toMatchObject({ startFrame: 6, endFrame: 6, type: 'cut' });
+    expect(boundaries[0].confidence).toBeGreaterThan(0.5);
+  });
+
+  it('finds cuts one frame apart', () => {
+    const boundaries = detectShotBoundaries([...hold(STREET, 5), shot(FOREST), ...hold(STAGE, 5)]);
+
+    expect(boundaries.map((boundary) => boundary.startFrame)).toEqual([5, 6]);
+  });
+
+  it('finds a dissolve and where it starts and ends', () => {
+    const boundaries = detectShotBoundaries([
+      ...hold(STREET, 6),
+      ...[0.2, 0.4, 0.6, 0.8].map((mix: number) => blend(STREET, FOREST, mix)),
+      ...hold(FOREST, 6),
+    ]);
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0]).toMatchObject({ startFrame: 6, endFrame: 10, type: 'dissolve' });
+  });
+
+  it('finds a fade through black', () => {
+    const boundaries = detectShotBoundaries([
+      ...hold(STREET, 6),
+      dim(STREET, 0.66),
+      dim(STREET, 0.33),
+      dim(STREET, 0),
+      dim(FOREST, 0.33),
+      dim(FOREST, 0.66),
+      ...hold(FOREST, 6),
+    ]);
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0]).toMatchObject({ startFrame: 6, endFrame: 11, type: 'fade' });
+  });
+
+  it('finds a fade out to black', () => {
+    const boundaries = detectShotBoundaries([
+      ...hold(STREET, 6),
+      dim(STREET, 0.75),
+      dim(STREET, 0.5),
+      dim(STREET, 0.25),
+      ...Array.from({ length: 4 }, () => dim(STREET, 0)),
+    ]);
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0].type).toBe('fade');
+  });
+
+  it('ignores a camera flash', () => {
+    expect(detectShotBoundaries([...hold(STREET, 6), flash(STREET), ...hold(STREET, 6)])).toEqual(
+      []
+    );
+  });
+
+  it('ignores a flash that blows out two frames', () => {
+    const frames = [...hold(STREET, 6), flash(STREET, 255), flash(STREET, 200), ...hold(STREET, 6)];
+
+    expect(detectShotBoundaries(frames)).toEqual([]);
+  });
+
+  it('still finds a cut straight after a flash', () => {
+    const frames = [...hold(STREET, 6), flash(STREET, 255), ...hold(FOREST, 6)];
+
+    expect(detectShotBoundaries(frames).map((boundary) => boundary.startFrame)).toContain(7);
+  });
+
+  it('ignores a pan', () => {
+    const frames = Array.from({ length: 12 }, (_, i: number) => shot(STREET, i * 6));
+
+    expect(detectShotBoundaries(frames)).toEqual([]);
+  });
+
+  it('finds a cut in the middle of a pan', () => {
+    const frames = [
+      ...Array.from({ length: 6 }, (_, i: number) => shot(STREET, i * 6)),
+      ...Array.from({ length: 6 }, (_, i: number) => shot(FOREST, i * 6)),
+    ];
+
+    expect(detectShotBoundaries(frames)).toMatchObject([{ startFrame: 6, type: 'cut' }]);
+  });
+
+  it('rejects frames whose pixels are missing', () => {
+    expect(() =>
+      detectShotBoundaries([{ data: new Uint8ClampedArray(16), width: 160, height: 90 }])
+    ).toThrow('Frame 0');
+  });
+});
+
+describe('refineBoundary', () => {
+  it('places a cut on the first frame of the new shot', () => {
+    const window = [...hold(STREET, 9), ...hold(FOREST, 7)].map((frame, i: number) =>
+      shotFeatures(frame, i)
+    );
+
+    expect(refineBoundary(window, 'cut')).toEqual({ startFrame: 9, endFrame: 9 });
+  });
+
+  it('finds the frames a dissolve spans', () => {
+    const window = [
+      ...hold(STREET, 5),
+      ...[0.2, 0.4, 0.6, 0.8].map((mix: number) => blend(STREET, FOREST, mix)),
+      ...hold(FOREST, 5),
+    ].map((frame, i: number) => shotFeatures(frame, i));
+
+    expect(refineBoundary(window, 'dissolve')).toEqual({ startFrame: 5, endFrame: 9 });
+  });
+
+  it('keeps the whole window when it is too short to refine', () => {
+    const window = [shot(STREET), shot(FOREST)].map((frame, i: number) => shotFeatures(frame, i));
+
+    expect(refineBoundary(window, 'cut')).toEqual({ startFrame: 1, endFrame: 1 });
+  });
+});
+
+describe('scenesToSceneChanges', () => {
+  it('reports a change where each scene after the first begins', () => {
+    const scene = (startTime: number, extra: Partial<Scene> = {}): Scene => ({
+      id: String(startTime),
+      startFrame: startTime,
+      endFrame: startTime,
+      startTime,
+      endTime: startTime,
+      duration: 0,
+      keyFrameIndex: startTime,
+      ...extra,
+    });
+
+    expect(
+      scenesToSceneChanges([
+        scene(0),
+        scene(4, { transitionIn: 'cut', boundaryConfidence: 0.9 }),
+        scene(9, { transitionIn: 'dissolve', boundaryConfidence: 0.7 }),
+      ])
+    ).toEqual([
+      { time: 4, confidence: 0.9, type: 'cut' },
+      { time: 9, confidence: 0.7, type: 'dissolve' },
+    ]);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals';
+import { SceneType } from '../../types/edit-types';
+import { BoundingBox } from '../../types/VideoAnalysis';
+import { classifyShotSize } from '../shotSize';
+
+const face = (height: number): BoundingBox => ({
+  x: 0.4,
+  y: 0.2,
+  width: (height * 9) / 16,
+  height,
+});
+
+describe('classifyShotSize', () => {
+  it('classifies a shot by how much of the frame a face fills', () => {
+    expect(classifyShotSize([face(0.45)])).toBe(SceneType.CLOSEUP);
+    expect(classifyShotSize([face(0.15)])).toBe(SceneType.MEDIUM);
+    expect(classifyShotSize([face(0.04)])).toBe(SceneType.WIDE);
+  });
+
+  it('goes by the nearest face', () => {
+    expect(classifyShotSize([face(0.05), face(0.3), face(0.1)])).toBe(SceneType.CLOSEUP);
+  });
+
+  it('gives no shot size without faces', () => {
+    expect(classifyShotSize([])).toBeUndefined();
+  });
+});
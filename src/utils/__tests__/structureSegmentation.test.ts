@@ -0,0 +1,113 @@
+import { describe, expect, it } from '@jest/globals';
+import { Section } from '../../types/AudioAnalysis';
+import { sectionsToSegments, segmentStructure } from '../structureSegmentation';
+import { songCorpus, Song } from './fixtures/songs';
+
+/**
+ * Fraction of the song where the detected label matches the true one
+ */
+const labelAccuracy = (song: Song, sections: Section[]): number => {
+  const duration = song.samples.length / song.sampleRate;
+  let matches = 0;
+  let total = 0;
+  for (let time = 0.25; time < duration; time += 0.5) {
+    const truth = song.sections.find((section) => time >= section.start && time < section.end);
+    const detected = sections.find(
+      (section) => time >= section.start && time < section.start + section.duration
+    );
+    total++;
+    if (truth && detected && truth.label === detected.label) matches++;
+  }
+  return matches / total;
+};
+
+describe('segmentStructure', () => {
+  const corpus = songCorpus();
+  const results = corpus.map((song: Song) => ({
+    song,
+    sections: segmentStructure(song.samples, song.sampleRate, song.beats),
+  }));
+
+  results.forEach(({ song, sections }) => {
+    describe(song.name, () => {
+      it('labels most of the song correctly', () => {
+        expect(labelAccuracy(song, sections)).toBeGreaterThan(0.85);
+      });
+
+      it('places each boundary within a bar of a true one', () => {
+        const bar = 4 * (song.beats[1] - song.beats[0]);
+        const truth = song.sections.map((section) => section.start);
+        sections.forEach((section: Section) => {
+          const nearest = Math.min(...truth.map((start) => Math.abs(start - section.start)));
+          expect(nearest).toBeLessThanOrEqual(bar);
+        });
+      });
+
+      it('gives repeated sections the same group', () => {
+        const groups = new Map<string, Set<string>>();
+        sections.forEach((section: Section) => {
+          const labelGroups = groups.get(section.label) ?? new Set<string>();
+          labelGroups.add(section.group ?? '');
+          groups.set(section.label, labelGroups);
+        });
+        expect(groups.get('verse')?.size).toBe(1);
+        expect(groups.get('chorus')?.size).toBe(1);
+        expect(groups.get('verse')).not.toEqual(groups.get('chorus'));
+      });
+
+      it('is confident in every section', () => {
+        sections.forEach((section: Section) => {
+          expect(section.confidence).toBeGreaterThan(0.5);
+          expect(section.confidence).toBeLessThanOrEqual(1);
+        });
+      });
+
+      it('covers the song without gaps', () => {
+        expect(sections[0].start).toBe(0);
+        for (let i = 1; i < sections.length; i++) {
+          expect(sections[i].start).toBeCloseTo(
+            sections[i - 1].start + sections[i - 1].duration,
+            6
+          );
+        }
+      });
+    });
+  });
+
+  it('finds the intro, bridge and outro of the pop song', () => {
+    const labels = results[0].sections.map((section: Section) => section.label);
+    expect(labels[0]).toBe('intro');
+    expect(labels).toContain('bridge');
+    expect(labels[labels.length - 1]).toBe('outro');
+  });
+
+  it('returns one section when there is too little to compare', () => {
+    const song = corpus[1];
+    const samples = song.samples.slice(0, song.sampleRate * 4);
+    const sections = segmentStructure(samples, song.sampleRate, []);
+    expect(sections).toHaveLength(1);
+    expect(sections[0].start).toBe(0);
+  });
+});
+
+describe('sectionsToSegments', () => {
+  it('maps labels to segment types', () => {
+    const segments = sectionsToSegments([
+      { start: 0, duration: 16, label: 'verse', confidence: 0.9, group: 'A' },
+      {
+        start: 16,
+        duration: 16,
+        label: 'chorus',
+        confidence: 0.8,
+        group: 'B',
+        characteristics: { energy: 1 },
+      },
+    ]);
+
+    expect(segments).toEqual([
+      expect.objectContaining({ startTime: 0, endTime: 16, type: 'verse', confidence: 0.9 }),
+      expect.objectContaining({ startTime: 16, endTime: 32, type: 'chorus', energy: 1 }),
+    ]);
+    expect(segments[1].metadata).toEqual({ group: 'B' });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, expect, it } from '@jest/globals';
+import { SubtitleData, SubtitleEntry } from '../../plugins/pluginInterfaces';
+import {
+  SubtitleFormat,
+  SubtitleParseError,
+  parseSubtitles,
+  resolveSubtitleFormat,
+  writeSubtitles,
+} from '../subtitleFormats';
+import {
+  MALFORMED_SUBTITLES,
+  MalformedSubtitle,
+  SUBTITLE_SAMPLES,
+  SubtitleSample,
+} from './fixtures/subtitles';
+
+const FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass', 'ssa', 'ttml'];
+
+/** Entries with every kind of style and placement */
+const STYLED: SubtitleEntry[] = [
+  { id: 'plain', startTime: 0.5, endTime: 2.25, text: 'Plain line' },
+  {
+    id: 'styled',
+    startTime: 3,
+    endTime: 5.5,
+    text: 'Two\nlines',
+    style: {
+      fontName: 'Georgia',
+      fontSize: 64,
+      color: '#ffcc00',
+      bold: true,
+      italic: true,
+      underline: true,
+    },
+  },
+  {
+    id: 'placed',
+    startTime: 61.75,
+    endTime: 3725.5,
+    text: 'Top left & <odd> text',
+    style: { alignment: 7, strikeout: true },
+    position: { x: 0.1, y: 0.05 },
+  },
+  {
+    id: 'centred',
+    startTime: 7,
+    endTime: 8,
+    text: 'Middle',
+    style: { alignment: 5 },
+    position: { x: 0.5, y: 0.4 },
+  },
+];
+
+/**
+ * Compares entries on what a format can say about them
+ */
+const expectEntries = (actual: SubtitleEntry[], expected: Array<Partial<SubtitleEntry>>) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((entry: Partial<SubtitleEntry>, i: number) => {
+    const { position, startTime, endTime, ...rest } = entry;
+    expect(actual[i]).toMatchObject(rest);
+    if (!('style' in entry)) expect(actual[i].style).toBeUndefined();
+    if (startTime !== undefined) expect(actual[i].startTime).toBeCloseTo(startTime, 3);
+    if (endTime !== undefined) expect(actual[i].endTime).toBeCloseTo(endTime, 3);
+    if (position) {
+      expect(actual[i].position?.x).toBeCloseTo(position.x, 4);
+      expect(actual[i].position?.y).toBeCloseTo(position.y, 4);
+    } else if ('position' in entry || entry.style === undefined) {
+      expect(actual[i].position).toBeUndefined();
+    }
+  });
+};
+
+describe('parseSubtitles', () => {
+  it.each(SUBTITLE_SAMPLES.map((sample): [string, SubtitleSample] => [sample.name, sample]))(
+    'reads %s',
+    (_name, sample) => {
+      expectEntries(parseSubtitles(sample.text, sample.format).entries, sample.entries);
+    }
+  );
+
+  it.each(MALFORMED_SUBTITLES.map((sample): [string, MalformedSubtitle] => [sample.name, sample]))(
+    'reports the line of the problem in %s',
+    (_name, sample) => {
+      const error = (() => {
+        try {
+          parseSubtitles(sample.text, sample.format);
+        } catch (caught: unknown) {
+          return caught;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(SubtitleParseError);
+      expect((error as SubtitleParseError).line).toBe(sample.line);
+      expect((error as SubtitleParseError).message).toContain(`at line ${sample.line}: `);
+      expect((error as SubtitleParseError).message).toContain(sample.message);
+    }
+  );
+
+  it('keeps the script title and Default style of an ASS file', () => {
+    const sample = SUBTITLE_SAMPLES.find((candidate) => candidate.format === 'ass')!;
+
+    expect(parseSubtitles(sample.text, 'ass').metadata).toEqual({
+      format: 'ass',
+      title: 'Lyrics',
+      defaultStyle: {
+        fontName: 'Arial',
+        fontSize: 72,
+        color: '#ffffff',
+        bold: false,
+        italic: false,
+        underline: false,
+        strikeout: false,
+        alignment: 2,
+      },
+    });
+  });
+
+  it('skips WebVTT style blocks that come after the first cue', () => {
+    const text = [
+      'WEBVTT',
+      '',
+      '00:01.000 --> 00:02.000',
+      'Cue',
+      '',
+      'STYLE',
+      '::cue { color: red; }',
+    ].join('\n');
+
+    expect(parseSubtitles(text, 'vtt').entries[0].style).toBeUndefined();
+  });
+});
+
+describe('writeSubtitles', () => {
+  it.each(FORMATS)('round-trips text, timing, style and position through %s', (format) => {
+    const written = writeSubtitles({ entries: STYLED }, format);
+    const { entries } = parseSubtitles(written, format);
+
+    // Only WebVTT and TTML keep identifiers; SRT and ASS number their cues
+    const expected = STYLED.map((entry: SubtitleEntry) => ({
+      ...entry,
+      id: format === 'vtt' || format === 'ttml' ? entry.id : expect.any(String),
+    }));
+    expectEntries(entries, expected as Array<Partial<SubtitleEntry>>);
+  });
+
+  it.each(FORMATS)(
+    'reads back what it wrote in %s after converting from every format',
+    (format) => {
+      SUBTITLE_SAMPLES.forEach((sample) => {
+        const parsed = parseSubtitles(sample.text, sample.format);
+        const converted = parseSubtitles(writeSubtitles(parsed, format), format);
+
+        expect(converted.entries.map((entry: SubtitleEntry) => entry.text)).toEqual(
+          parsed.entries.map((entry: SubtitleEntry) => entry.text)
+        );
+      });
+    }
+  );
+
+  it('writes SRT that plain players can read', () => {
+    const data: SubtitleData = {
+      entries: [
+        { id: 'a', startTime: 1.0005, endTime: 2, text: 'Bold', style: { bold: true } },
+        {
+          id: 'b',
+          startTime: 3,
+          endTime: 4,
+          text: 'Placed',
+          position: { x: 0.5, y: 0.5 },
+          style: { alignment: 5 },
+        },
+      ],
+    };
+
+    expect(writeSubtitles(data, 'srt')).toBe(
+      [
+        '1',
+        '00:00:01,001 --> 00:00:02,000',
+        '<b>Bold</b>',
+        '',
+        '2',
+        '00:00:03,000 --> 00:00:04,000',
+        '{\\an5\\pos(192,144)}Placed',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes WebVTT cue settings and style rules for cue identifiers', () => {
+    const written = writeSubtitles(
+      {
+        entries: [
+          {
+            id: '1',
+            startTime: 1,
+            endTime: 2,
+            text: 'Hi',
+            style: { color: '#ff0000', alignment: 9 },
+            position: { x: 0.9, y: 0.1 },
+          },
+        ],
+      },
+      'vtt'
+    );
+
+    expect(written).toBe(
+      [
+        'WEBVTT',
+        '',
+        'STYLE',
+        '::cue(#\\31 ) { color: #ff0000; }',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:02.000 position:90%,line-right line:10%,start align:right',
+        'Hi',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('resolveSubtitleFormat', () => {
+  it('knows formats by name and extension', () => {
+    expect(resolveSubtitleFormat('.SRT')).toBe('srt');
+    expect(resolveSubtitleFormat('webvtt')).toBe('vtt');
+    expect(resolveSubtitleFormat('dfxp')).toBe('ttml');
+    expect(resolveSubtitleFormat('xml')).toBe('ttml');
+    expect(resolveSubtitleFormat('sub')).toBeUndefined();
+  });
+});
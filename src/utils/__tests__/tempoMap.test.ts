@@ -0,0 +1,89 @@
+/**
+ * tempoMap.test.ts
+ *
+ * Unit tests for building and reading tempo maps
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createConstantTempoMap,
+  createTempoMap,
+  getBeatPosition,
+  getBeatTime,
+  getTempoAt,
+} from '../tempoMap';
+
+/**
+ * Beat times at a series of tempos, each held for a number of beats
+ */
+const beatsAt = (...parts: Array<[bpm: number, count: number]>): number[] => {
+  const times = [0.2];
+  parts.forEach(([bpm, count]) => {
+    for (let i = 0; i < count; i++) times.push(times[times.length - 1] + 60 / bpm);
+  });
+  return times;
+};
+
+describe('createTempoMap', () => {
+  it('should start a segment where the tempo changes', () => {
+    const times = beatsAt([120, 12], [150, 12]);
+    const { segments } = createTempoMap(times);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0]).toMatchObject({ startTime: 0.2, startBeat: 0 });
+    expect(segments[0].bpm).toBeCloseTo(120);
+    expect(segments[1].startTime).toBeCloseTo(6.2);
+    expect(segments[1].startBeat).toBe(12);
+    expect(segments[1].bpm).toBeCloseTo(150);
+  });
+
+  it('should keep one tempo through jitter', () => {
+    const times = beatsAt([100, 30]).map((time: number, index: number) =>
+      index % 2 === 0 ? time + 0.01 : time - 0.01
+    );
+
+    expect(createTempoMap(times).segments).toHaveLength(1);
+  });
+
+  it('should count the beats missing from a gap', () => {
+    const times = beatsAt([120, 20]);
+    const tempoMap = createTempoMap([...times.slice(0, 8), ...times.slice(11)]);
+
+    expect(tempoMap.segments).toHaveLength(1);
+    expect(getBeatTime(tempoMap, 15)).toBeCloseTo(times[15]);
+  });
+
+  it('should follow a slowing tempo to within 30 ms', () => {
+    const times = [0];
+    for (let i = 0; i < 40; i++) times.push(times[i] + 60 / (140 - i / 2));
+
+    const tempoMap = createTempoMap(times);
+
+    expect(tempoMap.segments.length).toBeGreaterThan(1);
+    times.forEach((time: number, index: number) => {
+      expect(Math.abs(getBeatTime(tempoMap, index) - time)).toBeLessThan(0.03);
+    });
+  });
+
+  it('should be empty with fewer than two beats', () => {
+    expect(createTempoMap([1]).segments).toEqual([]);
+  });
+});
+
+describe('getBeatPosition', () => {
+  it('should invert getBeatTime across tempo changes', () => {
+    const tempoMap = createTempoMap(beatsAt([120, 8], [90, 8]));
+
+    [-1, 0, 3.5, 8, 11.25, 20].forEach((position: number) => {
+      expect(getBeatPosition(tempoMap, getBeatTime(tempoMap, position))).toBeCloseTo(position);
+    });
+  });
+
+  it('should extend the first and last tempos beyond the beats', () => {
+    const tempoMap = createConstantTempoMap(120, 1);
+
+    expect(getBeatPosition(tempoMap, 0)).toBe(-2);
+    expect(getTempoAt(tempoMap, 100)).toBe(120);
+    expect(getBeatPosition(createConstantTempoMap(0), 1)).toBeNaN();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * timecode.test.ts
+ * 
+ * Unit tests for the frame rate and timecode utilities
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  resolveFrameRate,
+  secondsToFrames,
+  framesToSeconds,
+  framesToTimecode,
+  timecodeToFrames,
+  timecodeToSeconds,
+  STANDARD_FRAME_RATES
+} from '../timecode';
+
+describe('timecode', () => {
+  describe('resolveFrameRate', () => {
+    it('should resolve NTSC rates to 1000/1001 rationals', () => {
+      expect(resolveFrameRate(23.976)).toEqual({
+        numerator: 24000, denominator: 1001, timebase: 24, ntsc: true, dropFrame: false
+      });
+      expect(resolveFrameRate(29.97)).toEqual({
+        numerator: 30000, denominator: 1001, timebase: 30, ntsc: true, dropFrame: true
+      });
+      expect(resolveFrameRate(59.94)).toEqual({
+        numerator: 60000, denominator: 1001, timebase: 60, ntsc: true, dropFrame: true
+      });
+    });
+    
+    it('should resolve integer rates without NTSC or drop-frame flags', () => {
+      [24, 25, 30, 50, 60].forEach((fps: number) => {
+        expect(resolveFrameRate(fps)).toEqual({
+          numerator: fps, denominator: 1, timebase: fps, ntsc: false, dropFrame: false
+        });
+      });
+    });
+    
+    it('should accept exact rationals from ffprobe', () => {
+      expect(resolveFrameRate(24000 / 1001).numerator).toBe(24000);
+      expect(resolveFrameRate(30000 / 1001).timebase).toBe(30);
+    });
+    
+    it('should allow drop-frame to be disabled', () => {
+      expect(resolveFrameRate(29.97, false).dropFrame).toBe(false);
+    });
+    
+    it('should fall back to 30fps for invalid rates', () => {
+      expect(resolveFrameRate(0).timebase).toBe(30);
+      expect(resolveFrameRate(NaN).timebase).toBe(30);
+    });
+  });
+  
+  describe('secondsToFrames', () => {
+    it('should count the frames in one hour at each standard rate', () => {
+      const expected: Record<number, number> = {
+        23.976: 86314,
+        24: 86400,
+        25: 90000,
+        29.97: 107892,
+        30: 108000,
+        50: 180000,
+        59.94: 215784,
+        60: 216000
+      };
+      
+      STANDARD_FRAME_RATES.forEach((fps: number) => {
+        expect(secondsToFrames(3600, resolveFrameRate(fps))).toBe(expected[fps]);
+      });
+    });
+    
+    it('should round-trip frame numbers through seconds', () => {
+      STANDARD_FRAME_RATES.forEach((fps: number) => {
+        const rate = resolveFrameRate(fps);
+        [0, 1, 1001, 107892, 215783].forEach((frame: number) => {
+          expect(secondsToFrames(framesToSeconds(frame, rate), rate)).toBe(frame);
+        });
+      });
+    });
+  });
+  
+  describe('framesToTimecode', () => {
+    it('should format non-drop-frame timecode', () => {
+      expect(framesToTimecode(0, resolveFrameRate(25))).toBe('00:00:00:00');
+      expect(framesToTimecode(90000, resolveFrameRate(25))).toBe('01:00:00:00');
+      expect(framesToTimecode(86399, resolveFrameRate(23.976))).toBe('00:59:59:23');
+    });
+    
+    it('should skip frame numbers at minute boundaries in 29.97 drop-frame', () => {
+      const rate = resolveFrameRate(29.97);
+      expect(framesToTimecode(1799, rate)).toBe('00:00:59;29');
+      expect(framesToTimecode(1800, rate)).toBe('00:01:00;02');
+      expect(framesToTimecode(17982, rate)).toBe('00:10:00;00');
+      expect(framesToTimecode(107892, rate)).toBe('01:00:00;00');
+    });
+    
+    it('should skip four frame numbers per minute in 59.94 drop-frame', () => {
+      const rate = resolveFrameRate(59.94);
+      expect(framesToTimecode(3600, rate)).toBe('00:01:00;04');
+      expect(framesToTimecode(215784, rate)).toBe('01:00:00;00');
+    });
+  });
+  
+  describe('timecodeToFrames', () => {
+    it('should invert framesToTimecode at every standard rate', () => {
+      STANDARD_FRAME_RATES.forEach((fps: number) => {
+        const rate = resolveFrameRate(fps);
+        [0, 1, 1799, 1800, 1801, 17982, 107891, 107892, 215784].forEach((frame: number) => {
+          expect(timecodeToFrames(framesToTimecode(frame, rate), rate)).toBe(frame);
+        });
+      });
+    });
+    
+    it('should reject malformed timecode', () => {
+      expect(() => timecodeToFrames('1:00', resolveFrameRate(25))).toThrow('Invalid timecode');
+    });
+  });
+  
+  describe('timecodeToSeconds', () => {
+    it('should pass seconds through and parse timecode strings', () => {
+      const rate = resolveFrameRate(25);
+      expect(timecodeToSeconds(2.5, rate)).toBe(2.5);
+      expect(timecodeToSeconds('2.5', rate)).toBe(2.5);
+      expect(timecodeToSeconds('00:00:02:12', rate)).toBe(2.48);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * timelineImporters.test.ts
+ *
+ * Unit and round-trip tests for the xmeml, FCPXML and CMX3600 importers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parsePremiereXML,
+  parseFinalCutXML,
+  parseCMX3600EDL,
+  importTimeline,
+  relinkClips,
+  RelinkCandidate,
+} from '../timelineImporters';
+import { generatePremiereXML, generateFinalCutXML, ExportEditDecision } from '../xmlGenerators';
+import {
+  createEDLFromEditDecisions,
+  createEditDecisionsFromEDL,
+  generateCMX3600EDL,
+} from '../edlGenerators';
+import { EditDecisionList, MarkerType, TrackType, TransitionType } from '../../types/EditDecision';
+
+const videoFiles: Record<string, File> = {
+  'video-1': new File([''], 'clip-a.mp4', { type: 'video/mp4' }),
+  'video-2': new File([''], 'clip-b.mp4', { type: 'video/mp4' }),
+};
+
+const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+
+const candidates: RelinkCandidate[] = [
+  { id: 'video-1', name: 'clip-a.mp4', duration: 60 },
+  { id: 'video-2', name: 'clip-b.mp4', duration: 45 },
+];
+
+/**
+ * Cuts on irregular frame boundaries, with a hole before the last one
+ */
+const editDecisions: ExportEditDecision[] = [
+  { time: 0, videoId: 'video-1', start: 1.5, duration: 1.2 },
+  { time: 1.2, videoId: 'video-2', start: 3, duration: 0.8 },
+  { time: 2, videoId: 'video-1', start: 10, duration: 2.4 },
+  { time: 5, videoId: 'video-2', start: 0, duration: 1 },
+];
+
+/**
+ * Relinks an imported timeline and flattens it back into edit decisions
+ */
+const reimport = (edl: EditDecisionList): ExportEditDecision[] => {
+  const { edl: relinked, unmatched } = relinkClips(edl, candidates);
+  expect(unmatched).toEqual([]);
+  return createEditDecisionsFromEDL(relinked);
+};
+
+describe('parsePremiereXML', () => {
+  it('should read clips, the music track and the sequence rate', () => {
+    const xml = generatePremiereXML(editDecisions, videoFiles, audioFile, { frameRate: 29.97 });
+    const edl = parsePremiereXML(xml);
+
+    expect(edl.framerate).toBe(29.97);
+    expect(edl.clips.filter((clip) => clip.trackType === TrackType.VIDEO)).toHaveLength(4);
+    expect(edl.clips.find((clip) => clip.trackType === TrackType.AUDIO)?.sourceId).toBe('song.wav');
+  });
+
+  it('should read transitionitems and markers', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<xmeml version="4">
+  <sequence>
+    <name>Tweaked</name>
+    <rate><timebase>25</timebase><ntsc>FALSE</ntsc></rate>
+    <media>
+      <video>
+        <track>
+          <clipitem id="c1">
+            <name>clip-a.mp4</name>
+            <start>0</start><end>-1</end><in>0</in><out>56</out>
+            <file id="f1"><name>clip-a.mp4</name><duration>1500</duration></file>
+          </clipitem>
+          <transitionitem>
+            <start>44</start><end>56</end><alignment>center</alignment>
+            <effect><name>Dip to Black</name></effect>
+          </transitionitem>
+          <clipitem id="c2">
+            <name>clip-b.mp4</name>
+            <start>-1</start><end>100</end><in>100</in><out>150</out>
+            <file id="f2"><name>clip-b.mp4</name></file>
+          </clipitem>
+        </track>
+      </video>
+    </media>
+    <marker><name>Chorus</name><comment>Drop</comment><in>75</in><out>-1</out></marker>
+  </sequence>
+</xmeml>`;
+    const edl = parsePremiereXML(xml);
+
+    expect(edl.name).toBe('Tweaked');
+    expect(edl.clips.map((clip) => [clip.timelineInPoint, clip.timelineOutPoint])).toEqual([
+      [0, 2],
+      [2, 4],
+    ]);
+    expect(edl.clips[0].metadata?.sourceDuration).toBe(60);
+    expect(edl.transitions).toEqual([
+      expect.objectContaining({
+        type: TransitionType.DIP_TO_BLACK,
+        duration: 0.48,
+        centerPoint: 2,
+        outgoingClipId: edl.clips[0].id,
+        incomingClipId: edl.clips[1].id,
+      }),
+    ]);
+    expect(edl.cutPoints).toEqual([
+      expect.objectContaining({ type: MarkerType.MARKER, position: 3, label: 'Chorus', metadata: { comment: 'Drop' } }),
+    ]);
+  });
+
+  it('should reject documents without a sequence', () => {
+    expect(() => parsePremiereXML('<xmeml version="4"/>')).toThrow('No sequence found');
+    expect(() => parsePremiereXML('<xmeml')).toThrow('Invalid XML');
+  });
+});
+
+describe('parseFinalCutXML', () => {
+  it('should read spine clips, gaps and the connected music', () => {
+    const xml = generateFinalCutXML(editDecisions, videoFiles, audioFile, { frameRate: 25 });
+    const edl = parseFinalCutXML(xml);
+    const video = edl.clips.filter((clip) => clip.trackType === TrackType.VIDEO);
+    const music = edl.clips.find((clip) => clip.trackType === TrackType.AUDIO);
+
+    expect(edl.framerate).toBe(25);
+    expect(video.map((clip) => clip.timelineInPoint)).toEqual([0, 1.2, 2, 5]);
+    expect(music).toMatchObject({ sourceId: 'song.wav', timelineInPoint: 0, timelineOutPoint: 6 });
+    expect(music?.metadata).toMatchObject({ audioRole: 'music', channels: 2 });
+  });
+
+  it('should read spine transitions and markers in parent time', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<fcpxml version="1.10">
+  <resources>
+    <format id="r1" frameDuration="1/25s" width="1920" height="1080"/>
+    <asset id="r2" name="clip-a.mp4" start="0s" duration="60s" hasVideo="1" format="r1"/>
+    <asset id="r3" name="clip-b.mp4" start="0s" duration="45s" hasVideo="1" format="r1"/>
+  </resources>
+  <library>
+    <event name="Event">
+      <project name="Tweaked">
+        <sequence format="r1" duration="4s" tcStart="0s" tcFormat="NDF">
+          <spine>
+            <asset-clip ref="r2" offset="0s" name="clip-a.mp4" start="10s" duration="2s">
+              <marker start="11s" duration="1/25s" value="Beat" note="downbeat"/>
+            </asset-clip>
+            <transition name="Cross Dissolve" offset="44/25s" duration="12/25s"/>
+            <asset-clip ref="r3" offset="2s" name="clip-b.mp4" start="5s" duration="2s">
+              <chapter-marker start="6s" duration="1/25s" value="Chorus" posterOffset="0s"/>
+            </asset-clip>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>`;
+    const edl = parseFinalCutXML(xml);
+
+    expect(edl.name).toBe('Tweaked');
+    expect(edl.clips[1]).toMatchObject({ timelineInPoint: 2, sourceInPoint: 5, metadata: { sourceDuration: 45 } });
+    expect(edl.transitions).toEqual([
+      expect.objectContaining({ type: TransitionType.DISSOLVE, duration: 0.48, centerPoint: 2 }),
+    ]);
+    expect(edl.cutPoints.map((cutPoint) => [cutPoint.type, cutPoint.position, cutPoint.label])).toEqual([
+      [MarkerType.MARKER, 1, 'Beat'],
+      [MarkerType.CHAPTER, 3, 'Chorus'],
+    ]);
+  });
+});
+
+describe('parseCMX3600EDL', () => {
+  it('should read events, clip names and the frame code mode', () => {
+    const edl = createEDLFromEditDecisions(editDecisions, videoFiles, audioFile, 29.97);
+    const imported = parseCMX3600EDL(generateCMX3600EDL(edl), { framerate: 29.97 });
+
+    expect(imported.name).toBe(edl.name);
+    expect(imported.clips.map((clip) => [clip.sourceId, clip.trackType])).toEqual([
+      ['clip-a.mp4', TrackType.VIDEO],
+      ['clip-b.mp4', TrackType.VIDEO],
+      ['clip-a.mp4', TrackType.VIDEO],
+      ['clip-b.mp4', TrackType.VIDEO],
+      ['song.wav', TrackType.AUDIO],
+    ]);
+    expect(imported.clips[4].metadata).toMatchObject({ channels: 2, reel: 'SONG' });
+  });
+
+  it('should rebuild dissolves and wipes centered on the cut', () => {
+    const text = `TITLE: Tweaked
+FCM: NON-DROP FRAME
+
+001  CLIPA    V     C        00:00:10:00 00:00:11:19 01:00:00:00 01:00:01:19
+* FROM CLIP NAME: clip-a.mp4
+
+002  CLIPA    V     C        00:00:11:19 00:00:11:19 01:00:01:19 01:00:01:19
+002  CLIPB    V     W002 012 00:00:04:19 00:00:07:00 01:00:01:19 01:00:04:00
+* FROM CLIP NAME: clip-a.mp4
+* TO CLIP NAME: clip-b.mp4
+`;
+    const edl = parseCMX3600EDL(text, { framerate: 25 });
+
+    expect(edl.clips.map((clip) => [clip.timelineInPoint, clip.timelineOutPoint, clip.sourceInPoint])).toEqual([
+      [0, 2, 10],
+      [2, 4, 5],
+    ]);
+    expect(edl.transitions).toEqual([
+      expect.objectContaining({
+        type: TransitionType.WIPE,
+        duration: 0.48,
+        centerPoint: 2,
+        parameters: { pattern: '002' },
+      }),
+    ]);
+  });
+});
+
+describe('importTimeline', () => {
+  it('should detect the document format', () => {
+    const premiere = generatePremiereXML(editDecisions, videoFiles, null, { frameRate: 25 });
+    const fcpx = generateFinalCutXML(editDecisions, videoFiles, null, { frameRate: 25 });
+    const cmx = generateCMX3600EDL(createEDLFromEditDecisions(editDecisions, videoFiles, null, 25));
+
+    expect(importTimeline(premiere).format).toBe('premierexml');
+    expect(importTimeline(fcpx).format).toBe('fcpxml');
+    expect(importTimeline(cmx, { framerate: 25 }).format).toBe('cmx3600');
+    expect(() => importTimeline('hello')).toThrow('Unrecognized timeline format');
+  });
+});
+
+describe('relinkClips', () => {
+  const createImported = (name: string, sourceDuration?: number) =>
+    createEDLFromEditDecisions(
+      [{ time: 0, videoId: 'source', start: 0, duration: 1 }],
+      { source: new File([''], name) },
+      null,
+      25
+    ).clips.map((clip) => ({ ...clip, sourceId: name, metadata: { name, sourceDuration } }));
+
+  const relinkOne = (name: string, sourceDuration?: number, pool: RelinkCandidate[] = candidates) => {
+    const edl = createEDLFromEditDecisions([], {}, null, 25);
+    edl.clips = createImported(name, sourceDuration);
+    return relinkClips(edl, pool);
+  };
+
+  it('should match by name, ignoring case and extension', () => {
+    expect(relinkOne('CLIP-A.MP4').edl.clips[0].sourceId).toBe('video-1');
+    expect(relinkOne('clip-b.mov').edl.clips[0].sourceId).toBe('video-2');
+  });
+
+  it('should match 8-character reel names', () => {
+    expect(relinkOne('CLIPB').edl.clips[0].sourceId).toBe('video-2');
+  });
+
+  it('should pick the closest duration among files with the same name', () => {
+    const pool = [
+      { id: 'day-1', name: 'take.mp4', duration: 30 },
+      { id: 'day-2', name: 'take.mp4', duration: 12 },
+    ];
+
+    expect(relinkOne('take.mp4', 12, pool).edl.clips[0].sourceId).toBe('day-2');
+  });
+
+  it('should fall back to a unique duration match and report the rest', () => {
+    expect(relinkOne('renamed.mp4', 45).edl.clips[0].sourceId).toBe('video-2');
+
+    const result = relinkOne('unknown.mp4', 12);
+    expect(result.unmatched).toEqual(['unknown.mp4']);
+    expect(result.edl.clips[0].sourceId).toBe('unknown.mp4');
+  });
+});
+
+describe('round trips', () => {
+  it.each([23.976, 25, 29.97, 59.94])('should keep xmeml stable at %s fps', (frameRate: number) => {
+    const first = generatePremiereXML(editDecisions, videoFiles, audioFile, { frameRate });
+    const second = generatePremiereXML(reimport(parsePremiereXML(first)), videoFiles, audioFile, { frameRate });
+
+    expect(second).toBe(first);
+  });
+
+  it.each([23.976, 25, 29.97, 59.94])('should keep FCPXML stable at %s fps', (frameRate: number) => {
+    const first = generateFinalCutXML(editDecisions, videoFiles, audioFile, { frameRate });
+    const second = generateFinalCutXML(reimport(parseFinalCutXML(first)), videoFiles, audioFile, { frameRate });
+
+    expect(second).toBe(first);
+  });
+
+  it.each([23.976, 25, 29.97])('should keep transitions stable at %s fps', (frameRate: number) => {
+    const withTransitions = editDecisions.map((edit: ExportEditDecision) => ({ ...edit }));
+    Object.assign(withTransitions[1], { transitionType: TransitionType.DISSOLVE, transitionDuration: 0.4 });
+    Object.assign(withTransitions[2], {
+      transitionType: TransitionType.DIP_TO_BLACK,
+      transitionDuration: 0.2,
+      transitionCenter: 2.1,
+    });
+
+    const xmeml = generatePremiereXML(withTransitions, videoFiles, audioFile, { frameRate });
+    const xmemlAgain = generatePremiereXML(reimport(parsePremiereXML(xmeml)), videoFiles, audioFile, { frameRate });
+    expect(xmeml).toContain('<transitionitem>');
+    expect(xmemlAgain).toBe(xmeml);
+
+    const fcpxml = generateFinalCutXML(withTransitions, videoFiles, audioFile, { frameRate });
+    const fcpxmlAgain = generateFinalCutXML(reimport(parseFinalCutXML(fcpxml)), videoFiles, audioFile, { frameRate });
+    expect(fcpxml).toContain('<transition ');
+    expect(fcpxmlAgain).toBe(fcpxml);
+  });
+
+  it.each([25, 29.97])('should read synced takes back out of a multicam clip at %s fps', (frameRate: number) => {
+    const metadata = { width: 1920, height: 1080, duration: 60, fps: frameRate, codec: 'h264', bitrate: 0 };
+    // Clip B started rolling before the song, so the angles start at different times
+    const settings = {
+      frameRate,
+      videoMetadata: { 'video-1': metadata, 'video-2': { ...metadata, duration: 45 } },
+      alignments: {
+        'video-1': { syncPoints: [], globalOffset: 2 },
+        'video-2': { syncPoints: [], globalOffset: -0.4 },
+      },
+    };
+
+    const xmeml = generatePremiereXML(editDecisions, videoFiles, audioFile, settings);
+    const fromXmeml = reimport(parsePremiereXML(xmeml));
+    expect(xmeml).toContain('<sequence id="multicam-1">');
+    expect(fromXmeml.map((edit: ExportEditDecision) => edit.videoId)).toEqual(
+      editDecisions.map((edit: ExportEditDecision) => edit.videoId)
+    );
+    expect(generatePremiereXML(fromXmeml, videoFiles, audioFile, settings)).toBe(xmeml);
+
+    const fcpxml = generateFinalCutXML(editDecisions, videoFiles, audioFile, settings);
+    const fromFcpxml = reimport(parseFinalCutXML(fcpxml));
+    expect(fcpxml).toContain('<mc-clip ');
+    expect(fromFcpxml.map((edit: ExportEditDecision) => edit.start)).toEqual(
+      fromXmeml.map((edit: ExportEditDecision) => edit.start)
+    );
+    expect(generateFinalCutXML(fromFcpxml, videoFiles, audioFile, settings)).toBe(fcpxml);
+  });
+
+  it.each([23.976, 25, 29.97, 59.94])('should keep CMX3600 stable at %s fps', (frameRate: number) => {
+    const edl = createEDLFromEditDecisions(editDecisions, videoFiles, audioFile, frameRate);
+    edl.transitions.push({
+      id: 'transition_1',
+      type: TransitionType.DISSOLVE,
+      duration: 0.4,
+      outgoingClipId: 'clip_0',
+      incomingClipId: 'clip_1',
+      centerPoint: 1.2,
+    });
+
+    const first = generateCMX3600EDL(edl);
+    const imported = relinkClips(parseCMX3600EDL(first, { framerate: frameRate }), candidates).edl;
+    const second = generateCMX3600EDL(imported);
+
+    expect(second).toBe(first);
+  });
+});
@@ -0,0 +1,729 @@
+/**
+ * xmlGenerators.test.ts
+ *
+ * Unit tests for the NLE timeline XML generators
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generatePremiereXML, generateFinalCutXML, buildMediaUrl } from '../xmlGenerators';
+import { STANDARD_FRAME_RATES } from '../timecode';
+import { VideoMetadata } from '../../types/video-types';
+import { VideoResolution } from '../../types/ProjectSettings';
+import {
+  AlignmentInfo,
+  MarkerType,
+  TimelineCutPoint,
+  TransitionType,
+} from '../../types/EditDecision';
+import { SubtitleData } from '../../plugins/pluginInterfaces';
+
+const videoFiles: Record<string, File> = {
+  'video-1': new File([''], 'clip-a.mp4', { type: 'video/mp4' }),
+  'video-2': new File([''], 'clip-b.mp4', { type: 'video/mp4' }),
+};
+
+/**
+ * Builds back-to-back edit decisions of equal length
+ */
+const createEditDecisions = (count: number, duration: number) =>
+  Array.from({ length: count }, (_: unknown, index: number) => ({
+    time: index * duration,
+    videoId: index % 2 === 0 ? 'video-1' : 'video-2',
+    sceneIndex: 0,
+    start: 1.5,
+    duration,
+  }));
+
+/**
+ * Builds source metadata as VideoService.extractMetadata would return it
+ */
+const createMetadata = (overrides: Partial<VideoMetadata> = {}): VideoMetadata => ({
+  width: 1920,
+  height: 1080,
+  duration: 120,
+  fps: 30,
+  codec: 'h264',
+  bitrate: 5000000,
+  pixelAspectRatio: 1,
+  audioChannels: 2,
+  audioChannelLayout: 'stereo',
+  audioSampleRate: 48000,
+  ...overrides,
+});
+
+/**
+ * Reads every value of a simple element from an XML string
+ */
+const readValues = (xml: string, tag: string): string[] =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g'))).map(
+    (match: RegExpMatchArray) => match[1]
+  );
+
+describe('generatePremiereXML', () => {
+  it('should write the sequence frame total for each standard rate', () => {
+    // Five minutes of half-second cuts
+    const editDecisions = createEditDecisions(600, 0.5);
+    const expected: Record<number, number> = {
+      23.976: 7193,
+      24: 7200,
+      25: 7500,
+      29.97: 8991,
+      30: 9000,
+      50: 15000,
+      59.94: 17982,
+      60: 18000,
+    };
+
+    STANDARD_FRAME_RATES.forEach((fps: number) => {
+      const xml = generatePremiereXML(editDecisions, videoFiles, null, { frameRate: fps });
+      expect(readValues(xml, 'duration')[0]).toBe(expected[fps].toString());
+    });
+  });
+
+  it('should not drift when summing clip durations over a long sequence', () => {
+    STANDARD_FRAME_RATES.forEach((fps: number) => {
+      const editDecisions = createEditDecisions(600, 0.5);
+      const xml = generatePremiereXML(editDecisions, videoFiles, null, { frameRate: fps });
+
+      const [sequenceDuration, ...clipDurations] = readValues(xml, 'duration').map(Number);
+      const total = clipDurations.reduce((sum: number, value: number) => sum + value, 0);
+      expect(total).toBe(sequenceDuration);
+
+      // Each clip starts exactly where the previous one ended
+      const starts = readValues(xml, 'start').map(Number);
+      const ends = readValues(xml, 'end').map(Number);
+      for (let i = 1; i < starts.length; i++) {
+        expect(starts[i]).toBe(ends[i - 1]);
+      }
+    });
+  });
+
+  it('should write NTSC and drop-frame flags', () => {
+    const editDecisions = createEditDecisions(2, 1);
+
+    const ntscXml = generatePremiereXML(editDecisions, videoFiles, null, { frameRate: 29.97 });
+    expect(readValues(ntscXml, 'timebase')[0]).toBe('30');
+    expect(readValues(ntscXml, 'ntsc')[0]).toBe('TRUE');
+    expect(readValues(ntscXml, 'displayformat')[0]).toBe('DF');
+    expect(readValues(ntscXml, 'string')[0]).toBe('00:00:00;00');
+
+    const filmXml = generatePremiereXML(editDecisions, videoFiles, null, { frameRate: 23.976 });
+    expect(readValues(filmXml, 'timebase')[0]).toBe('24');
+    expect(readValues(filmXml, 'ntsc')[0]).toBe('TRUE');
+    expect(readValues(filmXml, 'displayformat')[0]).toBe('NDF');
+
+    const palXml = generatePremiereXML(editDecisions, videoFiles, null, { frameRate: 25 });
+    expect(readValues(palXml, 'timebase')[0]).toBe('25');
+    expect(readValues(palXml, 'ntsc')[0]).toBe('FALSE');
+  });
+
+  it('should fall back to the source clip frame rate', () => {
+    const xml = generatePremiereXML(createEditDecisions(2, 1), videoFiles, null, {
+      videoMetadata: {
+        'video-1': createMetadata({ fps: 25 }),
+        'video-2': createMetadata({ fps: 50 }),
+      },
+    });
+
+    const timebases = readValues(xml, 'timebase');
+    expect(timebases[0]).toBe('25');
+    expect(timebases).toContain('50');
+  });
+
+  it('should default to 30fps without frame rate information', () => {
+    const xml = generatePremiereXML(createEditDecisions(2, 1), videoFiles, null);
+    expect(readValues(xml, 'timebase')[0]).toBe('30');
+    expect(readValues(xml, 'duration')[0]).toBe('60');
+  });
+});
+
+describe('source media characteristics', () => {
+  const videoMetadata = {
+    'video-1': createMetadata({
+      width: 3840,
+      height: 2160,
+      fps: 25,
+      duration: 60,
+      audioChannels: 6,
+      audioChannelLayout: '5.1(side)',
+      audioSampleRate: 44100,
+      audioBitDepth: 24,
+    }),
+    'video-2': createMetadata({
+      width: 1440,
+      height: 1080,
+      pixelAspectRatio: 4 / 3,
+      audioChannels: 0,
+    }),
+  };
+
+  it('should write the real resolution, pixel aspect and audio layout to xmeml', () => {
+    const xml = generatePremiereXML(createEditDecisions(4, 1), videoFiles, null, { videoMetadata });
+
+    expect(readValues(xml, 'width')).toEqual(['3840', '3840', '1440']);
+    expect(readValues(xml, 'height')).toEqual(['2160', '2160', '1080']);
+    expect(readValues(xml, 'pixelaspectratio')).toEqual(['square', 'square', 'HD-(1440x1080)']);
+    expect(readValues(xml, 'channelcount')).toEqual(['6']);
+    expect(readValues(xml, 'layout')).toEqual(['5.1']);
+    expect(readValues(xml, 'samplerate')).toEqual(['44100']);
+    expect(readValues(xml, 'depth')).toEqual(['24']);
+
+    // 60 seconds of source media at 25fps
+    expect(xml).toContain('<duration>1500</duration>');
+  });
+
+  it('should define each source file once and reference it afterwards', () => {
+    const xml = generatePremiereXML(createEditDecisions(4, 1), videoFiles, null, { videoMetadata });
+
+    expect(readValues(xml, 'pathurl')).toHaveLength(2);
+    expect(xml.match(/<file id="file-1"\/>/g)).toHaveLength(1);
+    expect(xml.match(/<file id="file-2"\/>/g)).toHaveLength(1);
+  });
+
+  it('should use the export resolution for the sequence when set', () => {
+    const xml = generatePremiereXML(createEditDecisions(2, 1), videoFiles, null, {
+      videoMetadata,
+      resolution: VideoResolution.HD_720P,
+    });
+
+    expect(readValues(xml, 'width')[0]).toBe('1280');
+    expect(readValues(xml, 'height')[0]).toBe('720');
+  });
+
+  it('should write the music track sample rate, channels and bit depth', () => {
+    const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+    const xml = generatePremiereXML(createEditDecisions(2, 1), videoFiles, audioFile, {
+      frameRate: 25,
+      audioMetadata: { duration: 180, sampleRate: 44100, channels: 1, bitDepth: 24 },
+    });
+
+    expect(readValues(xml, 'samplerate')).toEqual(['44100', '44100']);
+    expect(readValues(xml, 'depth')).toEqual(['24', '24']);
+    expect(readValues(xml, 'layout')).toContain('mono');
+    expect(xml).toContain('<duration>4500</duration>');
+  });
+
+  it('should describe FCPXML assets with their real format and audio', () => {
+    const xml = generateFinalCutXML(createEditDecisions(2, 1), videoFiles, null, {
+      videoMetadata,
+      mediaRoot: '/Volumes/Footage',
+    });
+
+    expect(xml).toContain('<format id="r1" frameDuration="1/25s" width="3840" height="2160"/>');
+    expect(xml).toContain('<format id="r3" frameDuration="1/30s" width="1440" height="1080"/>');
+    expect(xml).toContain('src="file:///Volumes/Footage/clip-a.mp4"');
+    expect(xml).toContain(
+      'duration="60s" hasVideo="1" videoSources="1" format="r1" hasAudio="1" audioSources="1" audioChannels="6" audioRate="44100"'
+    );
+    expect(xml).not.toMatch(/name="clip-b.mp4"[^>]*hasAudio/);
+  });
+});
+
+describe('generateFinalCutXML', () => {
+  const parse = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+  it('should write well-formed FCPXML 1.10', () => {
+    const doc = parse(generateFinalCutXML(createEditDecisions(4, 1), videoFiles, null));
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.documentElement.getAttribute('version')).toBe('1.10');
+  });
+
+  it('should declare every resource that is referenced', () => {
+    const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+    const doc = parse(generateFinalCutXML(createEditDecisions(6, 1), videoFiles, audioFile));
+
+    const ids = Array.from(doc.querySelectorAll('resources > *')).map((element: Element) =>
+      element.getAttribute('id')
+    );
+    const refs = [
+      doc.querySelector('sequence')!.getAttribute('format'),
+      ...Array.from(doc.querySelectorAll('asset')).map((element: Element) =>
+        element.getAttribute('format')
+      ),
+      ...Array.from(doc.querySelectorAll('asset-clip')).map((element: Element) =>
+        element.getAttribute('ref')
+      ),
+    ].filter(Boolean);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    refs.forEach((ref: string | null) => expect(ids).toContain(ref));
+  });
+
+  it('should point each clip at the asset of its own video', () => {
+    const doc = parse(generateFinalCutXML(createEditDecisions(6, 1), videoFiles, null));
+
+    const assetNames: Record<string, string> = {};
+    doc.querySelectorAll('asset').forEach((asset: Element) => {
+      assetNames[asset.getAttribute('id')!] = asset.getAttribute('name')!;
+      expect(asset.querySelector('media-rep')!.getAttribute('kind')).toBe('original-media');
+    });
+
+    const clips = Array.from(doc.querySelectorAll('spine > asset-clip'));
+    expect(clips).toHaveLength(6);
+    clips.forEach((clip: Element) => {
+      expect(assetNames[clip.getAttribute('ref')!]).toBe(clip.getAttribute('name'));
+    });
+  });
+
+  it('should write rational times on frame boundaries', () => {
+    const editDecisions = [
+      { time: 0, videoId: 'video-1', start: 2.3333, duration: 1.2345 },
+      { time: 1.2345, videoId: 'video-2', start: 0.1, duration: 2 },
+    ];
+    const xml = generateFinalCutXML(editDecisions, videoFiles, null, { frameRate: 23.976 });
+
+    const times = Array.from(
+      xml.matchAll(/(?:offset|start|duration|frameDuration)="([^"]*)"/g)
+    ).map((match: RegExpMatchArray) => match[1]);
+    expect(times.length).toBeGreaterThan(0);
+    times.forEach((time: string) => {
+      expect(time).toMatch(/^(0|\d+|\d+\/\d+)s$/);
+      if (time.includes('/')) {
+        const [numerator, denominator] = time.slice(0, -1).split('/').map(Number);
+        // A whole number of 1001/24000s frames
+        expect(((numerator * 24000) / denominator / 1001) % 1).toBeCloseTo(0, 9);
+      }
+    });
+    expect(xml).toContain('frameDuration="1001/24000s"');
+    // 2.3333s snaps to frame 56
+    expect(xml).toContain('start="7007/3000s"');
+  });
+
+  it('should fill holes in the storyline with gaps', () => {
+    const editDecisions = [
+      { time: 1, videoId: 'video-1', start: 0, duration: 1 },
+      { time: 3, videoId: 'video-2', start: 0, duration: 1 },
+    ];
+    const doc = parse(generateFinalCutXML(editDecisions, videoFiles, null, { frameRate: 25 }));
+
+    const items = Array.from(doc.querySelector('spine')!.children).map((element: Element) => [
+      element.tagName,
+      element.getAttribute('offset'),
+      element.getAttribute('duration'),
+    ]);
+    expect(items).toEqual([
+      ['gap', '0s', '1s'],
+      ['asset-clip', '1s', '1s'],
+      ['gap', '2s', '1s'],
+      ['asset-clip', '3s', '1s'],
+    ]);
+    expect(doc.querySelector('sequence')!.getAttribute('duration')).toBe('4s');
+  });
+
+  it('should connect the music below the storyline', () => {
+    const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+    const doc = parse(
+      generateFinalCutXML(createEditDecisions(4, 1), videoFiles, audioFile, {
+        frameRate: 25,
+        audioMetadata: { duration: 200, sampleRate: 44100, channels: 2 },
+      })
+    );
+
+    const music = doc.querySelector('spine > asset-clip > asset-clip')!;
+    expect(music.getAttribute('lane')).toBe('-1');
+    expect(music.getAttribute('audioRole')).toBe('music');
+    // Connected at the parent's source in point (1.5s snapped to frame 38), which is sequence time zero
+    expect(music.getAttribute('offset')).toBe('38/25s');
+    expect(music.getAttribute('duration')).toBe('4s');
+    expect(doc.querySelector('sequence')!.getAttribute('audioRate')).toBe('44.1k');
+  });
+});
+
+describe('sequence markers', () => {
+  const parse = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+  const markers: TimelineCutPoint[] = [
+    { id: 'beat_1', type: MarkerType.MARKER, position: 0, label: 'Bar 1', color: 'red' },
+    {
+      id: 'section_2',
+      type: MarkerType.CHAPTER,
+      position: 2,
+      label: 'Chorus',
+      color: 'blue',
+      metadata: { duration: 1, comment: 'energetic & loud' },
+    },
+    { id: 'late', type: MarkerType.MARKER, position: 10, label: 'Past the end' },
+  ];
+
+  it('should write xmeml sequence markers with names, comments and colors', () => {
+    const doc = parse(
+      generatePremiereXML(createEditDecisions(4, 1), videoFiles, null, { frameRate: 25, markers })
+    );
+
+    const written = Array.from(doc.querySelectorAll('sequence > marker')).map((marker: Element) => [
+      marker.querySelector('name')!.textContent,
+      marker.querySelector('comment')!.textContent,
+      marker.querySelector('in')!.textContent,
+      marker.querySelector('out')!.textContent,
+    ]);
+    expect(written).toEqual([
+      ['Bar 1', '', '0', '-1'],
+      ['Chorus', 'energetic & loud', '50', '75'],
+    ]);
+    expect(doc.querySelector('sequence > marker pproColor')!.textContent).toBe(String(0xff3539e5));
+  });
+
+  it('should attach FCPXML markers to the storyline element under them', () => {
+    const doc = parse(
+      generateFinalCutXML(createEditDecisions(4, 1), videoFiles, null, { frameRate: 25, markers })
+    );
+
+    const clips = Array.from(doc.querySelectorAll('spine > asset-clip'));
+    // Marker starts are in the clip's source time, which begins at 1.5s (frame 38)
+    expect(clips[0].querySelector('marker')!.getAttribute('start')).toBe('38/25s');
+    expect(clips[0].querySelector('marker')!.getAttribute('value')).toBe('Bar 1');
+
+    const chapter = clips[2].querySelector('chapter-marker')!;
+    expect(chapter.getAttribute('start')).toBe('38/25s');
+    expect(chapter.getAttribute('duration')).toBe('1/25s');
+    expect(chapter.getAttribute('value')).toBe('Chorus');
+    expect(chapter.getAttribute('note')).toBe('energetic & loud');
+
+    expect(doc.querySelectorAll('marker, chapter-marker')).toHaveLength(2);
+  });
+
+  it('should not write markers when none are given', () => {
+    const xml = generateFinalCutXML(createEditDecisions(2, 1), videoFiles, null);
+
+    expect(xml).not.toContain('marker');
+    expect(generatePremiereXML(createEditDecisions(2, 1), videoFiles, null)).not.toContain(
+      '<marker>'
+    );
+  });
+});
+
+describe('lyric captions', () => {
+  const parse = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+  const captions: SubtitleData = {
+    entries: [
+      {
+        id: '1',
+        startTime: 0.6,
+        endTime: 1.6,
+        text: 'First line',
+        style: { bold: true, color: '#ff0000' },
+      },
+      { id: '2', startTime: 2.2, endTime: 5, text: 'Second\nline', style: { alignment: 8 } },
+      { id: '3', startTime: 6, endTime: 7, text: 'Past the end' },
+    ],
+  };
+
+  it('should write xmeml Text generators on a track above the edit', () => {
+    const doc = parse(
+      generatePremiereXML(createEditDecisions(4, 1), videoFiles, null, { frameRate: 25, captions })
+    );
+
+    const tracks = doc.querySelectorAll('video > track');
+    expect(tracks).toHaveLength(2);
+    const items = Array.from(tracks[1].querySelectorAll('generatoritem'));
+    // The second line is trimmed to the end of the sequence
+    expect(
+      items.map((item: Element) => [
+        item.querySelector(':scope > start')!.textContent,
+        item.querySelector(':scope > end')!.textContent,
+      ])
+    ).toEqual([
+      ['15', '40'],
+      ['55', '100'],
+    ]);
+
+    const parameter = (item: Element, id: string): Element =>
+      Array.from(item.querySelectorAll('parameter')).find(
+        (candidate: Element) => candidate.querySelector('parameterid')!.textContent === id
+      )!;
+    expect(parameter(items[0], 'str').querySelector('value')!.textContent).toBe('First line');
+    expect(parameter(items[0], 'fontstyle').querySelector('value')!.textContent).toBe('2');
+    expect(parameter(items[0], 'fontsize').querySelector('value')!.textContent).toBe('54');
+    expect(parameter(items[0], 'fontcolor').querySelector('red')!.textContent).toBe('255');
+    expect(parameter(items[0], 'fontcolor').querySelector('green')!.textContent).toBe('0');
+    expect(parameter(items[1], 'str').querySelector('value')!.textContent).toBe('Second\rline');
+    expect(parameter(items[1], 'origin').querySelector('vert')!.textContent).toBe('-0.4');
+  });
+
+  it('should connect FCPXML captions to the storyline element under them', () => {
+    const doc = parse(
+      generateFinalCutXML(createEditDecisions(4, 1), videoFiles, null, {
+        frameRate: 25,
+        captions: { ...captions, metadata: { language: 'de' } },
+      })
+    );
+
+    const clips = Array.from(doc.querySelectorAll('spine > asset-clip'));
+    const first = clips[0].querySelector('caption')!;
+    // Caption offsets are in the clip's source time, which begins at 1.5s (frame 38)
+    expect(first.getAttribute('offset')).toBe('53/25s');
+    expect(first.getAttribute('duration')).toBe('1s');
+    expect(first.getAttribute('lane')).toBe('1');
+    expect(first.getAttribute('role')).toBe('iTT?captionFormat=ITT.de');
+    expect(first.querySelector('text')!.getAttribute('placement')).toBe('bottom');
+
+    const ref = first.querySelector('text > text-style')!.getAttribute('ref');
+    const style = first.querySelector(`text-style-def[id="${ref}"] > text-style`)!;
+    expect(style.getAttribute('bold')).toBe('1');
+    expect(style.getAttribute('fontColor')).toBe('1 0 0 1');
+
+    const second = clips[2].querySelector('caption')!;
+    expect(second.getAttribute('offset')).toBe('43/25s');
+    expect(second.getAttribute('duration')).toBe('9/5s');
+    expect(second.querySelector('text')!.getAttribute('placement')).toBe('top');
+    expect(second.querySelector('text-style')!.textContent).toBe('Second\nline');
+
+    expect(doc.querySelectorAll('caption')).toHaveLength(2);
+    expect(doc.querySelector('parsererror')).toBeNull();
+  });
+
+  it('should not write a caption track without captions', () => {
+    const xml = generatePremiereXML(createEditDecisions(2, 1), videoFiles, null);
+
+    expect(xml).not.toContain('generatoritem');
+    expect(generateFinalCutXML(createEditDecisions(2, 1), videoFiles, null)).not.toContain(
+      '<caption'
+    );
+  });
+});
+
+describe('multicam clips', () => {
+  const parse = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+  const videoMetadata = { 'video-1': createMetadata(), 'video-2': createMetadata() };
+  // Clip B started rolling 0.4s before the song, so the multicam clip starts there
+  const alignments: Record<string, AlignmentInfo> = {
+    'video-1': { syncPoints: [], globalOffset: 2 },
+    'video-2': { syncPoints: [], globalOffset: -0.4 },
+  };
+
+  it('should nest a multicam source sequence with one track per angle in xmeml', () => {
+    const doc = parse(
+      generatePremiereXML(createEditDecisions(4, 1), videoFiles, null, {
+        frameRate: 25,
+        videoMetadata,
+        alignments,
+      })
+    );
+
+    const nested = doc.querySelector('clipitem > sequence[id="multicam-1"]')!;
+    expect(nested.querySelector(':scope > duration')!.textContent).toBe('3060');
+    const angles = Array.from(nested.querySelectorAll('video > track > clipitem'));
+    expect(
+      angles.map((angle: Element) => [
+        angle.querySelector('name')!.textContent,
+        angle.querySelector('start')!.textContent,
+        angle.querySelector('end')!.textContent,
+      ])
+    ).toEqual([
+      ['clip-a.mp4', '60', '3060'],
+      ['clip-b.mp4', '0', '3000'],
+    ]);
+
+    // Every edit nests the multicam sequence, defined once, on the track of its angle
+    const edits = Array.from(
+      doc.querySelectorAll('xmeml > sequence > media > video > track > clipitem')
+    );
+    expect(edits).toHaveLength(4);
+    expect(doc.querySelectorAll('sequence[id="multicam-1"] > name')).toHaveLength(1);
+    expect(
+      edits.map((edit: Element) => [
+        edit.querySelector(':scope > sourcetrack > trackindex')!.textContent,
+        edit.querySelector(':scope > in')!.textContent,
+        edit.querySelector(':scope > out')!.textContent,
+      ])
+    ).toEqual([
+      ['1', '98', '123'],
+      ['2', '38', '63'],
+      ['1', '98', '123'],
+      ['2', '38', '63'],
+    ]);
+    expect(doc.querySelector('parsererror')).toBeNull();
+  });
+
+  it('should switch FCPXML mc-clips between the angles of one multicam clip', () => {
+    const audioFile = new File([''], 'song.wav', { type: 'audio/wav' });
+    const doc = parse(
+      generateFinalCutXML(createEditDecisions(4, 1), videoFiles, audioFile, {
+        frameRate: 25,
+        videoMetadata,
+        alignments,
+      })
+    );
+
+    const media = doc.querySelector('resources > media')!;
+    const angles = Array.from(media.querySelectorAll('multicam > mc-angle'));
+    expect(angles.map((angle: Element) => angle.getAttribute('angleID'))).toEqual([
+      'video-1',
+      'video-2',
+    ]);
+    // Clip A starts 2.4s into the multicam clip, after a gap
+    expect(angles[0].querySelector('gap')!.getAttribute('duration')).toBe('12/5s');
+    expect(angles[0].querySelector('asset-clip')!.getAttribute('offset')).toBe('12/5s');
+    expect(angles[1].querySelector('gap')).toBeNull();
+
+    const clips = Array.from(doc.querySelectorAll('spine > mc-clip'));
+    expect(clips).toHaveLength(4);
+    clips.forEach((clip: Element) =>
+      expect(clip.getAttribute('ref')).toBe(media.getAttribute('id'))
+    );
+    expect(clips.map((clip: Element) => clip.getAttribute('start'))).toEqual([
+      '98/25s',
+      '38/25s',
+      '98/25s',
+      '38/25s',
+    ]);
+    const sources = clips.map((clip: Element) => clip.querySelector('mc-source')!);
+    expect(sources.map((source: Element) => source.getAttribute('angleID'))).toEqual([
+      'video-1',
+      'video-2',
+      'video-1',
+      'video-2',
+    ]);
+    sources.forEach((source: Element) => expect(source.getAttribute('srcEnable')).toBe('video'));
+
+    // The music still starts with the sequence, in the first clip's multicam time
+    const music = clips[0].querySelector('asset-clip[lane="-1"]')!;
+    expect(music.getAttribute('offset')).toBe('98/25s');
+    expect(doc.querySelector('parsererror')).toBeNull();
+  });
+
+  it('should keep takes that are not synced as plain clips', () => {
+    const settings = {
+      frameRate: 25 as const,
+      videoMetadata,
+      alignments: { 'video-1': alignments['video-1'] },
+    };
+    const premiere = parse(
+      generatePremiereXML(createEditDecisions(4, 1), videoFiles, null, settings)
+    );
+    const fcpx = parse(generateFinalCutXML(createEditDecisions(4, 1), videoFiles, null, settings));
+
+    expect(premiere.querySelectorAll('sequence[id="multicam-1"] video > track')).toHaveLength(1);
+    expect(premiere.querySelectorAll('clipitem > file')).toHaveLength(3);
+    expect(fcpx.querySelectorAll('mc-angle')).toHaveLength(1);
+    expect(fcpx.querySelectorAll('spine > mc-clip')).toHaveLength(2);
+    expect(fcpx.querySelectorAll('spine > asset-clip')).toHaveLength(2);
+  });
+
+  it('should not write a multicam clip without synced takes', () => {
+    expect(generatePremiereXML(createEditDecisions(2, 1), videoFiles, null)).not.toContain(
+      'multicam'
+    );
+    expect(generateFinalCutXML(createEditDecisions(2, 1), videoFiles, null)).not.toContain(
+      'multicam'
+    );
+  });
+});
+
+describe('transitions', () => {
+  const parse = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+  /**
+   * Builds two back-to-back two-second cuts joined by a transition
+   */
+  const createTransition = (transitionType: TransitionType, transitionCenter?: number) => [
+    { time: 0, videoId: 'video-1', start: 1.5, duration: 2 },
+    {
+      time: 2,
+      videoId: 'video-2',
+      start: 1.5,
+      duration: 2,
+      transitionType,
+      transitionDuration: 0.4,
+      transitionCenter,
+    },
+  ];
+
+  it('should write xmeml transitionitems between the clips they join', () => {
+    const doc = parse(
+      generatePremiereXML(createTransition(TransitionType.DISSOLVE), videoFiles, null, {
+        frameRate: 25,
+      })
+    );
+    const track = doc.querySelector('video > track')!;
+
+    expect(Array.from(track.children).map((element: Element) => element.tagName)).toEqual([
+      'clipitem',
+      'transitionitem',
+      'clipitem',
+    ]);
+    const transition = track.querySelector('transitionitem')!;
+    expect(transition.querySelector('start')!.textContent).toBe('45');
+    expect(transition.querySelector('end')!.textContent).toBe('55');
+    expect(transition.querySelector('alignment')!.textContent).toBe('center');
+    expect(transition.querySelector('effect > name')!.textContent).toBe('Cross Dissolve');
+
+    // The clips keep their cut points and leave the shared edge to the transition
+    const clips = track.querySelectorAll('clipitem');
+    expect(clips[0].querySelector('end')!.textContent).toBe('-1');
+    expect(clips[0].querySelector('out')!.textContent).toBe('88');
+    expect(clips[1].querySelector('start')!.textContent).toBe('-1');
+    expect(clips[1].querySelector('in')!.textContent).toBe('38');
+  });
+
+  it('should map dips and align transitions that start on the cut', () => {
+    const xml = generatePremiereXML(
+      createTransition(TransitionType.DIP_TO_BLACK, 2.2),
+      videoFiles,
+      null,
+      { frameRate: 25 }
+    );
+
+    expect(readValues(xml, 'alignment')).toEqual(['start']);
+    expect(readValues(xml, 'effectid')).toEqual(['Dip to Black']);
+    expect(readValues(xml, 'start')).toContain('50');
+    expect(readValues(xml, 'end')).toContain('60');
+  });
+
+  it('should shorten transitions to the media after the outgoing clip', () => {
+    // clip-a is 3.6s long, leaving two frames after the outgoing clip's last frame
+    const xml = generatePremiereXML(createTransition(TransitionType.DISSOLVE), videoFiles, null, {
+      frameRate: 25,
+      videoMetadata: { 'video-1': createMetadata({ duration: 3.6, fps: 25 }) },
+    });
+    const transition = parse(xml).querySelector('transitionitem')!;
+
+    expect(transition.querySelector('start')!.textContent).toBe('48');
+    expect(transition.querySelector('end')!.textContent).toBe('52');
+  });
+
+  it('should write FCPXML transitions with their effect resources', () => {
+    const doc = parse(
+      generateFinalCutXML(createTransition(TransitionType.DISSOLVE), videoFiles, null, {
+        frameRate: 25,
+      })
+    );
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    const transition = doc.querySelector('spine > transition')!;
+    expect(transition.getAttribute('name')).toBe('Cross Dissolve');
+    expect(transition.getAttribute('offset')).toBe('9/5s');
+    expect(transition.getAttribute('duration')).toBe('2/5s');
+
+    const effect = doc.querySelector('resources > effect')!;
+    expect(effect.getAttribute('name')).toBe('Cross Dissolve');
+    expect(transition.querySelector('filter-video')!.getAttribute('ref')).toBe(
+      effect.getAttribute('id')
+    );
+
+    // Without a known duration, clip-a must cover the five frames the dissolve uses after the cut
+    expect(doc.querySelector('asset[name="clip-a.mp4"]')!.getAttribute('duration')).toBe('93/25s');
+  });
+});
+
+describe('buildMediaUrl', () => {
+  it('should resolve file names against a POSIX media root', () => {
+    expect(buildMediaUrl('My Clip #1.mp4', '/Users/editor/Footage/')).toBe(
+      'file:///Users/editor/Footage/My%20Clip%20%231.mp4'
+    );
+  });
+
+  it('should resolve file names against a Windows media root', () => {
+    expect(buildMediaUrl('clip.mov', 'D:\\Projects\\Shoot Day 1')).toBe(
+      'file:///D:/Projects/Shoot%20Day%201/clip.mov'
+    );
+  });
+
+  it('should accept a file URL as the media root', () => {
+    expect(buildMediaUrl('clip.mov', 'file:///Volumes/RAID')).toBe('file:///Volumes/RAID/clip.mov');
+  });
+
+  it('should write a root-relative URL without a media root', () => {
+    expect(buildMediaUrl('clip.mov')).toBe('file:///clip.mov');
+  });
+});
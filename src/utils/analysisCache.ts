@@ -0,0 +1,98 @@
+// src/utils/analysisCache.ts
+import { hashBytes } from './contentHash';
+
+/**
+ * The analyzers whose results are cached
+ */
+export type AnalyzerName = 'audio' | 'video' | 'edit';
+
+/**
+ * What the cache knows about an entry without loading its value
+ */
+export interface CacheEntryInfo {
+  key: string;
+  analyzer: AnalyzerName;
+  /** Version of the analyzer that produced the value */
+  version: number;
+  /** Content hash of the media the value was worked out from */
+  contentHash: string;
+  /** Approximate size of the value in bytes */
+  size: number;
+  /** When the value was last read or written, in milliseconds since the epoch */
+  lastAccessed: number;
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal options give
+ * equal strings whatever order their keys were set in
+ * @param value The value
+ * @returns Canonical JSON
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item: unknown) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Builds the key an analysis result is cached under
+ *
+ * The analyzer version is kept in the entry rather than the key, so a new
+ * version replaces the old result instead of sitting beside it.
+ * @param analyzer The analyzer
+ * @param contentHash Content hash of the analyzed media
+ * @param options Options the analyzer ran with
+ * @returns The cache key
+ */
+export function analysisCacheKey(
+  analyzer: AnalyzerName,
+  contentHash: string,
+  options: unknown = {}
+): string {
+  const optionsHash = hashBytes(new TextEncoder().encode(stableStringify(options)));
+  return `${analyzer}:${contentHash}:${optionsHash.slice(0, 16)}`;
+}
+
+/**
+ * Estimates how many bytes a value takes up once stored
+ * @param value A JSON-serializable value
+ * @returns Approximate size in bytes
+ */
+export function estimateSize(value: unknown): number {
+  return (JSON.stringify(value) ?? '').length;
+}
+
+/**
+ * Picks the least recently used entries to drop so the rest fit a budget
+ * @param entries Every entry in the cache
+ * @param maxBytes Largest total size to keep
+ * @param keep Key of an entry never to drop, such as the one just written
+ * @returns Keys to delete
+ */
+export function selectEvictions(
+  entries: CacheEntryInfo[],
+  maxBytes: number,
+  keep?: string
+): string[] {
+  let total = entries.reduce((sum: number, entry: CacheEntryInfo) => sum + entry.size, 0);
+  const evictions: string[] = [];
+
+  [...entries]
+    .sort((a: CacheEntryInfo, b: CacheEntryInfo) => a.lastAccessed - b.lastAccessed)
+    .forEach((entry: CacheEntryInfo) => {
+      if (total <= maxBytes || entry.key === keep) return;
+      evictions.push(entry.key);
+      total -= entry.size;
+    });
+
+  return evictions;
+}
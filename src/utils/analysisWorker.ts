@@ -0,0 +1,158 @@
+// src/utils/analysisWorker.ts
+
+/**
+ * Messages posted by an analysis worker while it runs
+ */
+export type AnalysisWorkerMessage<TResult> =
+  | { type: 'progress'; progress: number; message: string }
+  | { type: 'result'; result: TResult }
+  | { type: 'error'; message: string };
+
+/**
+ * The parts of a Worker the main thread talks to
+ */
+export interface AnalysisWorker {
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  terminate(): void;
+}
+
+/**
+ * The parts of a worker's global scope an analysis worker talks to
+ */
+export interface AnalysisWorkerScope {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+}
+
+/**
+ * Options for running an analysis in a worker
+ */
+export interface AnalysisWorkerOptions {
+  /** Buffers moved to the worker rather than copied */
+  transfer?: Transferable[];
+  /** Called with the worker's progress */
+  onProgress?: (progress: number, message: string) => void;
+  /** Terminates the worker and rejects with an AbortError when aborted */
+  signal?: AbortSignal;
+  /**
+   * Leaves the worker running once it answers, so it can serve further
+   * requests; it is still terminated if it fails or is aborted
+   */
+  keepAlive?: boolean;
+}
+
+/**
+ * Whether analysis can be moved off the main thread
+ */
+export function canUseWorkers(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Creates the error an aborted analysis rejects with
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Analysis was cancelled', 'AbortError');
+}
+
+/**
+ * Checks whether an error came from cancelling an analysis
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted, so analysis that runs
+ * on the main thread can stop between steps
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * Sends a request to an analysis worker and waits for its result
+ *
+ * The worker is terminated once it answers, fails or is aborted, so each
+ * worker runs a single analysis, unless it is kept alive for more.
+ * @param worker A worker that serves the analysis and isn't busy with another
+ * @param request The request to post
+ * @param options Transfer list, progress callback and abort signal
+ * @returns Promise resolving to the worker's result
+ */
+export function runAnalysisWorker<TRequest, TResult>(
+  worker: AnalysisWorker,
+  request: TRequest,
+  options: AnalysisWorkerOptions = {}
+): Promise<TResult> {
+  const { transfer = [], onProgress, signal, keepAlive = false } = options;
+
+  return new Promise<TResult>((resolve, reject) => {
+    const finish = (terminate: boolean = true) => {
+      signal?.removeEventListener('abort', abort);
+      worker.onmessage = null;
+      worker.onerror = null;
+      if (terminate) worker.terminate();
+    };
+    const abort = () => {
+      finish();
+      reject(createAbortError());
+    };
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data as AnalysisWorkerMessage<TResult>;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress, message.message);
+      } else if (message.type === 'result') {
+        finish(!keepAlive);
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      finish();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Answers analysis requests inside a worker
+ * @param scope The worker's global scope
+ * @param handler Runs the analysis, reporting progress as it goes
+ * @param getTransfer Picks the buffers of the result to move back to the main thread
+ */
+export function serveAnalysis<TRequest, TResult>(
+  scope: AnalysisWorkerScope,
+  handler: (
+    request: TRequest,
+    reportProgress: (progress: number, message: string) => void
+  ) => Promise<TResult>,
+  getTransfer: (result: TResult) => Transferable[] = () => []
+): void {
+  const post = (message: AnalysisWorkerMessage<TResult>, transfer?: Transferable[]) =>
+    scope.postMessage(message, transfer);
+
+  scope.onmessage = async (event: MessageEvent) => {
+    try {
+      const result = await handler(event.data as TRequest, (progress, message) =>
+        post({ type: 'progress', progress, message })
+      );
+      post({ type: 'result', result }, getTransfer(result));
+    } catch (error: unknown) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
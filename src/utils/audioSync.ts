@@ -1,171 +1,201 @@
 // src/utils/audioSync.ts
+import { Beat } from '../types/AudioAnalysis';
+import { mixToMono, trackBeats } from './beatTracking';
+import { createConstantTempoMap, getBeatPosition, getBeatTime, TempoMap } from './tempoMap';
 
 /**
  * Utility functions for audio synchronization and beat detection
  */
 
+/**
+ * Resolves a BPM and offset, or a tempo map, to a tempo map
+ * @returns The tempo map, or null if there is no tempo to follow
+ */
+function resolveTempoMap(tempo: number | TempoMap, offset: number): TempoMap | null {
+  const tempoMap = typeof tempo === 'number' ? createConstantTempoMap(tempo, offset) : tempo;
+  return tempoMap.segments.length > 0 ? tempoMap : null;
+}
+
 /**
  * Calculates the nearest beat position based on BPM
  * @param currentTime Current playback time in seconds
- * @param bpm Beats per minute
- * @param offset Optional offset in seconds
+ * @param tempo Beats per minute, or a tempo map for music that changes tempo
+ * @param offset Optional offset in seconds, unused with a tempo map
  * @returns Time of the nearest beat in seconds
  */
-export function getNearestBeatTime(currentTime: number, bpm: number, offset: number = 0): number {
-  if (bpm <= 0) return currentTime;
-  
-  // Calculate beat duration in seconds
-  const beatDuration = 60 / bpm;
-  
-  // Calculate how many beats have passed since the offset
-  const beatsElapsed = (currentTime - offset) / beatDuration;
+export function getNearestBeatTime(
+  currentTime: number,
+  tempo: number | TempoMap,
+  offset: number = 0
+): number {
+  const tempoMap = resolveTempoMap(tempo, offset);
+  if (!tempoMap) return currentTime;
   
   // Round to the nearest beat
-  const nearestBeat = Math.round(beatsElapsed);
-  
-  // Calculate the time of the nearest beat
-  return offset + (nearestBeat * beatDuration);
+  return getBeatTime(tempoMap, Math.round(getBeatPosition(tempoMap, currentTime)));
 }
 
 /**
  * Detects if the current time is on a beat
  * @param currentTime Current playback time in seconds
- * @param bpm Beats per minute
- * @param offset Optional offset in seconds
+ * @param tempo Beats per minute, or a tempo map for music that changes tempo
+ * @param offset Optional offset in seconds, unused with a tempo map
  * @param tolerance Tolerance in seconds (default: 0.05)
  * @returns True if the current time is on a beat
  */
-export function isOnBeat(currentTime: number, bpm: number, offset: number = 0, tolerance: number = 0.05): boolean {
-  if (bpm <= 0) return false;
-  
-  // Calculate beat duration in seconds
-  const beatDuration = 60 / bpm;
-  
-  // Calculate how many beats have passed since the offset
-  const beatsElapsed = (currentTime - offset) / beatDuration;
-  
-  // Calculate the distance to the nearest beat
-  const nearestBeat = Math.round(beatsElapsed);
-  const distanceToBeat = Math.abs(beatsElapsed - nearestBeat) * beatDuration;
-  
-  // Check if we're within the tolerance
-  return distanceToBeat <= tolerance;
+export function isOnBeat(
+  currentTime: number,
+  tempo: number | TempoMap,
+  offset: number = 0,
+  tolerance: number = 0.05
+): boolean {
+  const tempoMap = resolveTempoMap(tempo, offset);
+  if (!tempoMap) return false;
+  
+  // Check if we're within the tolerance of the nearest beat
+  return Math.abs(getNearestBeatTime(currentTime, tempoMap) - currentTime) <= tolerance;
 }
 
 /**
  * Calculates the next beat time based on BPM
  * @param currentTime Current playback time in seconds
- * @param bpm Beats per minute
- * @param offset Optional offset in seconds
+ * @param tempo Beats per minute, or a tempo map for music that changes tempo
+ * @param offset Optional offset in seconds, unused with a tempo map
  * @returns Time of the next beat in seconds
  */
-export function getNextBeatTime(currentTime: number, bpm: number, offset: number = 0): number {
-  if (bpm <= 0) return currentTime;
-  
-  // Calculate beat duration in seconds
-  const beatDuration = 60 / bpm;
-  
-  // Calculate how many beats have passed since the offset
-  const beatsElapsed = (currentTime - offset) / beatDuration;
-  
-  // Calculate the next beat
-  const nextBeat = Math.ceil(beatsElapsed);
+export function getNextBeatTime(
+  currentTime: number,
+  tempo: number | TempoMap,
+  offset: number = 0
+): number {
+  const tempoMap = resolveTempoMap(tempo, offset);
+  if (!tempoMap) return currentTime;
   
-  // Calculate the time of the next beat
-  return offset + (nextBeat * beatDuration);
+  return getBeatTime(tempoMap, Math.ceil(getBeatPosition(tempoMap, currentTime)));
 }
 
 /**
  * Calculates the previous beat time based on BPM
  * @param currentTime Current playback time in seconds
- * @param bpm Beats per minute
- * @param offset Optional offset in seconds
+ * @param tempo Beats per minute, or a tempo map for music that changes tempo
+ * @param offset Optional offset in seconds, unused with a tempo map
  * @returns Time of the previous beat in seconds
  */
-export function getPreviousBeatTime(currentTime: number, bpm: number, offset: number = 0): number {
-  if (bpm <= 0) return currentTime;
-  
-  // Calculate beat duration in seconds
-  const beatDuration = 60 / bpm;
-  
-  // Calculate how many beats have passed since the offset
-  const beatsElapsed = (currentTime - offset) / beatDuration;
-  
-  // Calculate the previous beat
-  const previousBeat = Math.floor(beatsElapsed);
+export function getPreviousBeatTime(
+  currentTime: number,
+  tempo: number | TempoMap,
+  offset: number = 0
+): number {
+  const tempoMap = resolveTempoMap(tempo, offset);
+  if (!tempoMap) return currentTime;
   
-  // Calculate the time of the previous beat
-  return offset + (previousBeat * beatDuration);
+  return getBeatTime(tempoMap, Math.floor(getBeatPosition(tempoMap, currentTime)));
 }
 
 /**
  * Calculates the beat position (0 to 1) within the current measure
+ *
+ * Given beats labelled by beat tracking, the position follows their bars, so
+ * it stays on the one through pickups and tempo changes.
  * @param currentTime Current playback time in seconds
- * @param bpm Beats per minute
+ * @param beats Beats with `bar` and `beatInBar` set
+ * @returns Position within the measure (0 to 1)
+ */
+export function getMeasurePosition(currentTime: number, beats: Beat[]): number;
+/**
+ * Calculates the beat position (0 to 1) within the current measure
+ * @param currentTime Current playback time in seconds
+ * @param tempo Beats per minute, or a tempo map whose first beat is a downbeat
  * @param beatsPerMeasure Number of beats per measure (default: 4)
- * @param offset Optional offset in seconds
+ * @param offset Optional offset in seconds, unused with a tempo map
  * @returns Position within the measure (0 to 1)
  */
+export function getMeasurePosition(
+  currentTime: number,
+  tempo: number | TempoMap,
+  beatsPerMeasure?: number,
+  offset?: number
+): number;
 export function getMeasurePosition(
   currentTime: number, 
-  bpm: number, 
+  tempo: number | TempoMap | Beat[], 
   beatsPerMeasure: number = 4, 
   offset: number = 0
 ): number {
-  if (bpm <= 0) return 0;
+  if (Array.isArray(tempo)) return getLabelledMeasurePosition(currentTime, tempo);
+  const tempoMap = resolveTempoMap(tempo, offset);
+  if (!tempoMap) return 0;
   
-  // Calculate beat duration in seconds
-  const beatDuration = 60 / bpm;
-  
-  // Calculate how many beats have passed since the offset
-  const beatsElapsed = (currentTime - offset) / beatDuration;
+  // Calculate how many beats have passed since the first beat
+  const beatsElapsed = getBeatPosition(tempoMap, currentTime);
   
   // Calculate the position within the measure
   return (beatsElapsed % beatsPerMeasure) / beatsPerMeasure;
 }
 
+/**
+ * Calculates the position within the measure from labelled beats
+ */
+function getLabelledMeasurePosition(currentTime: number, beats: Beat[]): number {
+  const beatsPerBar = Math.max(0, ...beats.map((beat: Beat) => beat.beatInBar ?? 0));
+  let index = -1;
+  while (index + 1 < beats.length && beats[index + 1].time <= currentTime) index++;
+
+  const current = beats[index];
+  if (!current || current.beatInBar === undefined || beatsPerBar === 0) return 0;
+
+  // Interpolate toward the next beat, holding on the last one
+  const next = beats[index + 1];
+  const fraction = next ? (currentTime - current.time) / (next.time - current.time) : 0;
+
+  return (current.beatInBar - 1 + fraction) / beatsPerBar;
+}
+
+/**
+ * Counts the beats in a bar of a time signature
+ *
+ * Compound meters (6/8, 9/8, 12/8) are felt in dotted-quarter beats, three
+ * eighth notes each, which is how beat tracking counts them.
+ * @param timeSignature The time signature (default: 4/4)
+ * @returns Beats per bar
+ */
+export function getBeatsPerBar(
+  timeSignature?: { numerator: number; denominator?: number }
+): number {
+  if (!timeSignature || timeSignature.numerator <= 0) return 4;
+  const { numerator, denominator } = timeSignature;
+  return denominator === 8 && numerator > 3 && numerator % 3 === 0 ? numerator / 3 : numerator;
+}
+
+/**
+ * Rates how strong a place a beat is to cut on
+ * @param beat Beat labelled with `bar` and `beatInBar`
+ * @param barsPerPhrase Bars in a phrase (default: 4)
+ * @returns 2 on the first downbeat of a phrase, 1 on other downbeats, 0 elsewhere
+ *   or when the beat is unlabelled
+ */
+export function getBeatAccent(
+  beat: Pick<Beat, 'bar' | 'beatInBar'>,
+  barsPerPhrase: number = 4
+): number {
+  if (beat.beatInBar !== 1 || beat.bar === undefined) return 0;
+  return (beat.bar - 1) % barsPerPhrase === 0 ? 2 : 1;
+}
+
 /**
  * Detects beats in an audio buffer
  * @param audioBuffer The audio buffer to analyze
- * @param sensitivity Sensitivity of beat detection (0-1, default: 0.5)
+ * @param sensitivity Sensitivity of beat detection (0-1, default: 0.5); higher values keep
+ *   beats the tracker is less sure of
  * @returns Array of beat times in seconds
  */
 export async function detectBeats(audioBuffer: AudioBuffer, sensitivity: number = 0.5): Promise<number[]> {
-  // This is a simplified beat detection algorithm
-  // In a real app, you would use a more sophisticated algorithm
-  
-  const beats: number[] = [];
-  const threshold = 0.1 + (sensitivity * 0.4); // Adjust threshold based on sensitivity
-  
-  // Get the audio data
-  const channelData = audioBuffer.getChannelData(0);
-  const sampleRate = audioBuffer.sampleRate;
-  
-  // Calculate the window size (50ms)
-  const windowSize = Math.floor(sampleRate * 0.05);
-  
-  // Calculate energy for each window
-  let prevEnergy = 0;
-  for (let i = 0; i < channelData.length; i += windowSize) {
-    let energy = 0;
-    
-    // Calculate energy for this window
-    for (let j = 0; j < windowSize && i + j < channelData.length; j++) {
-      energy += Math.abs(channelData[i + j]);
-    }
-    
-    energy /= windowSize;
-    
-    // Check if this is a beat (energy spike)
-    if (energy > prevEnergy * (1 + threshold) && energy > 0.01) {
-      const beatTime = i / sampleRate;
-      beats.push(beatTime);
-    }
-    
-    prevEnergy = energy;
-  }
-  
-  return beats;
+  const minConfidence = (1 - sensitivity) * 0.5;
+  const { beats } = trackBeats(mixToMono(audioBuffer), audioBuffer.sampleRate);
+
+  return beats
+    .filter((beat: Beat) => beat.confidence >= minConfidence)
+    .map((beat: Beat) => beat.time);
 }
 
 /**
@@ -174,26 +204,12 @@ export async function detectBeats(audioBuffer: AudioBuffer, sensitivity: number
  * @returns Estimated BPM
  */
 export async function estimateBPM(audioBuffer: AudioBuffer): Promise<number> {
-  // Detect beats
-  const beats = await detectBeats(audioBuffer);
+  const { bpm, beats } = trackBeats(mixToMono(audioBuffer), audioBuffer.sampleRate);
   
   if (beats.length < 2) {
     return 120; // Default BPM if we can't detect enough beats
   }
   
-  // Calculate intervals between beats
-  const intervals: number[] = [];
-  for (let i = 1; i < beats.length; i++) {
-    intervals.push(beats[i] - beats[i - 1]);
-  }
-  
-  // Calculate the median interval
-  intervals.sort((a: any, b: any) => a - b);
-  const medianInterval = intervals[Math.floor(intervals.length / 2)];
-  
-  // Convert to BPM
-  const bpm = 60 / medianInterval;
-  
   // Round to nearest integer and ensure it's in a reasonable range
   return Math.max(60, Math.min(200, Math.round(bpm)));
 }
@@ -0,0 +1,615 @@
+// src/utils/beatTracking.ts
+import { Beat } from '../types/AudioAnalysis';
+import { createHannWindow, createMelFilterbank, decimate, fft, MelBand } from './spectrum';
+
+/**
+ * Beat tracking for music tracks
+ *
+ * Onsets are found with spectral flux: the rise in log-compressed magnitude
+ * across an STFT, summed over frequency. That responds to a soft kick as much
+ * as to a loud hi-hat, where plain energy thresholds only hear the loud one.
+ * The tempo is the autocorrelation peak of the onset envelope, weighted toward
+ * moderate tempos, and beats are placed by the dynamic program of Ellis (2007),
+ * which trades onset strength against keeping a steady beat period. Beats are
+ * then grouped into bars by which of them carry the strongest accents.
+ */
+
+/**
+ * Options for beat tracking
+ */
+export interface BeatTrackingOptions {
+  /** Slowest tempo considered in BPM (default: 40) */
+  minBpm?: number;
+  /** Fastest tempo considered in BPM (default: 240) */
+  maxBpm?: number;
+  /** Tempo the estimate is weighted toward in BPM (default: 120) */
+  preferredBpm?: number;
+  /** How strongly beats keep to the tempo; higher is stricter (default: 100) */
+  tightness?: number;
+}
+
+/**
+ * Onset strength over time
+ */
+export interface OnsetEnvelope {
+  /** Onset strength per frame, normalized to unit standard deviation */
+  values: Float32Array;
+  /** Onset strength below BASS_CUTOFF_HZ, where kicks and bass notes mark the bar */
+  bass: Float32Array;
+  /** Frames per second */
+  frameRate: number;
+}
+
+/**
+ * Result of beat tracking
+ */
+export interface BeatTrackingResult {
+  beats: Beat[];
+  /** Estimated tempo in BPM */
+  bpm: number;
+  /** How clearly the onsets repeat at that tempo (0.0 to 1.0) */
+  tempoConfidence: number;
+  timeSignature: { numerator: number; denominator: number };
+  /** How clearly the downbeats stand out (0.0 to 1.0) */
+  meterConfidence: number;
+  averageConfidence: number;
+}
+
+/**
+ * How beats group into bars
+ */
+export interface Meter {
+  /** Tracked beats per bar */
+  beatsPerBar: number;
+  /** Index of the first beat that starts a bar */
+  firstDownbeat: number;
+  /** Whether beats divide into two (simple meter) or three (compound meter) */
+  subdivision: 2 | 3;
+  /** How clearly the downbeats stand out (0.0 to 1.0) */
+  confidence: number;
+}
+
+/** STFT frame length in samples at the analysis rate */
+const FFT_SIZE = 1024;
+/** STFT hop in samples at the analysis rate */
+const HOP_SIZE = 256;
+/** Frames by which spectral flux peaks ahead of the onset that causes it */
+const ONSET_LAG_FRAMES = 1;
+/** Number of mel bands the spectrum is reduced to */
+const MEL_BANDS = 40;
+/** Mel bands centered below this frequency in Hz make up the bass onset envelope */
+const BASS_CUTOFF_HZ = 200;
+/** Gain applied before log compression of magnitudes */
+const LOG_COMPRESSION = 100;
+/** Half-width in seconds of the local mean subtracted from the onset envelope */
+const LOCAL_MEAN_SECONDS = 0.05;
+/** Peak-to-RMS onset ratio at which a beat is as likely real as not */
+const CONFIDENCE_MIDPOINT = 3;
+/** Steepness of the confidence curve around its midpoint */
+const CONFIDENCE_SLOPE = 2;
+/** Bar lengths in beats that meter detection chooses between */
+const BAR_LENGTHS = [2, 3, 4];
+/** Downbeat contrast (a t statistic) at which a bar length is as likely right as not */
+const METER_CONTRAST_MIDPOINT = 3;
+/** How much stronger onsets at thirds of a beat must be than at halves for a compound meter */
+const TRIPLE_SUBDIVISION_RATIO = 1.2;
+/** Spread of the tempo preference in octaves */
+const TEMPO_PRIOR_OCTAVES = 1;
+
+/**
+ * Mixes an audio buffer down to mono
+ * @param audioBuffer The audio buffer
+ * @returns The average of all channels
+ */
+export function mixToMono(audioBuffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(audioBuffer.length);
+  const channels = Math.max(1, audioBuffer.numberOfChannels);
+
+  for (let channel = 0; channel < channels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < mono.length && i < data.length; i++) {
+      mono[i] += data[i] / channels;
+    }
+  }
+
+  return mono;
+}
+
+/**
+ * Computes the spectral-flux onset envelope of a signal
+ *
+ * Frames are centered on their time, so frame `t` is at `t / frameRate` seconds.
+ * @param samples Mono signal
+ * @param sampleRate Sample rate in Hz
+ * @param progressCallback Optional callback for progress updates (0 to 100)
+ * @returns Onset strength per frame
+ */
+export function computeOnsetEnvelope(
+  samples: Float32Array,
+  sampleRate: number,
+  progressCallback?: (progress: number) => void
+): OnsetEnvelope {
+  const signal = decimate(samples, sampleRate);
+  const frameRate = signal.sampleRate / HOP_SIZE;
+  const frameCount = Math.floor(signal.samples.length / HOP_SIZE) + 1;
+  const bins = FFT_SIZE / 2 + 1;
+  const bands = createMelFilterbank(signal.sampleRate, FFT_SIZE, MEL_BANDS);
+  const magnitude = new Float64Array(bins);
+
+  const window = createHannWindow(FFT_SIZE);
+
+  const flux = new Float32Array(frameCount);
+  const bassFlux = new Float32Array(frameCount);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  let previous = new Float64Array(bands.length);
+  let current = new Float64Array(bands.length);
+
+  const progressStep = Math.max(1, Math.floor(frameCount / 20));
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (progressCallback && frame % progressStep === 0) {
+      progressCallback((frame / frameCount) * 100);
+    }
+
+    const offset = frame * HOP_SIZE - FFT_SIZE / 2;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const index = offset + i;
+      re[i] = index >= 0 && index < signal.samples.length ? signal.samples[index] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) magnitude[k] = Math.hypot(re[k], im[k]);
+
+    bands.forEach((band: MelBand, b: number) => {
+      let sum = 0;
+      for (let k = 0; k < band.weights.length; k++) {
+        sum += band.weights[k] * magnitude[band.start + k];
+      }
+      current[b] = Math.log1p(LOG_COMPRESSION * sum);
+      if (frame === 0 || current[b] <= previous[b]) return;
+      flux[frame] += current[b] - previous[b];
+      if (band.centerHz < BASS_CUTOFF_HZ) bassFlux[frame] += current[b] - previous[b];
+    });
+    [previous, current] = [current, previous];
+  }
+
+  return {
+    values: normalizeFlux(flux, frameRate),
+    bass: normalizeFlux(bassFlux, frameRate),
+    frameRate
+  };
+}
+
+/**
+ * Keeps the rises in spectral flux above its local average, scaled to unit
+ * standard deviation, so sustained texture does not read as onsets
+ * @param flux Spectral flux per frame
+ * @param frameRate Frames per second
+ * @returns Onset strength per frame
+ */
+function normalizeFlux(flux: Float32Array, frameRate: number): Float32Array {
+  const frameCount = flux.length;
+  const halfWidth = Math.max(1, Math.round(LOCAL_MEAN_SECONDS * frameRate));
+  const values = new Float32Array(frameCount);
+  let sum = 0;
+  let count = 0;
+  for (let i = -halfWidth; i < frameCount; i++) {
+    const entering = i + halfWidth;
+    const leaving = i - halfWidth - 1;
+    if (entering < frameCount) {
+      sum += flux[entering];
+      count++;
+    }
+    if (leaving >= 0) {
+      sum -= flux[leaving];
+      count--;
+    }
+    if (i >= 0) values[i] = Math.max(0, flux[i] - sum / count);
+  }
+
+  const std = standardDeviation(values);
+  if (std > 0) {
+    for (let i = 0; i < frameCount; i++) values[i] /= std;
+  }
+
+  return values;
+}
+
+/**
+ * Computes the standard deviation of a series
+ */
+function standardDeviation(values: Float32Array): number {
+  if (values.length === 0) return 0;
+
+  let mean = 0;
+  for (let i = 0; i < values.length; i++) mean += values[i];
+  mean /= values.length;
+
+  let variance = 0;
+  for (let i = 0; i < values.length; i++) variance += (values[i] - mean) ** 2;
+  return Math.sqrt(variance / values.length);
+}
+
+/**
+ * Estimates the tempo of an onset envelope by autocorrelation
+ *
+ * Each lag's autocorrelation is weighted by a log-normal preference around
+ * `preferredBpm`, which settles the choice between a tempo and its double or
+ * half, and the winning lag is refined by parabolic interpolation.
+ * @param envelope The onset envelope
+ * @param options Tempo range and preference
+ * @returns Tempo in BPM, beat period in frames and confidence
+ */
+export function estimateTempo(
+  envelope: OnsetEnvelope,
+  options: BeatTrackingOptions = {}
+): { bpm: number; period: number; confidence: number } {
+  const { minBpm = 40, maxBpm = 240, preferredBpm = 120 } = options;
+  const { values, frameRate } = envelope;
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm));
+  const maxLag = Math.min(values.length - 1, Math.ceil((60 * frameRate) / minBpm));
+
+  let energy = 0;
+  for (let i = 0; i < values.length; i++) energy += values[i] * values[i];
+  if (energy === 0 || maxLag <= minLag) {
+    return { bpm: preferredBpm, period: (60 * frameRate) / preferredBpm, confidence: 0 };
+  }
+
+  const correlation = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < values.length; i++) sum += values[i] * values[i - lag];
+    // Undo the shrinking overlap so long lags are not penalized
+    correlation[lag] = sum / (values.length - lag);
+  }
+
+  const weight = (lag: number) =>
+    Math.exp(-0.5 * (Math.log2((60 * frameRate) / lag / preferredBpm) / TEMPO_PRIOR_OCTAVES) ** 2);
+
+  let bestLag = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (correlation[lag] * weight(lag) > correlation[bestLag] * weight(bestLag)) bestLag = lag;
+  }
+
+  const left = correlation[bestLag - 1];
+  const center = correlation[bestLag];
+  const right = correlation[bestLag + 1];
+  const curvature = left - 2 * center + right;
+  const shift =
+    curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / curvature)) : 0;
+  const period = bestLag + shift;
+
+  return {
+    bpm: (60 * frameRate) / period,
+    period,
+    confidence: Math.max(0, Math.min(1, center / (energy / values.length)))
+  };
+}
+
+/**
+ * Places beats on an onset envelope by dynamic programming
+ *
+ * Each frame scores its onset strength plus the best score of a previous beat
+ * between half and twice a period earlier, less a penalty that grows with the
+ * log of how far that gap is from the period. The best path is traced back
+ * from the last strong frame, and weak beats at either end are dropped.
+ * @param envelope The onset envelope
+ * @param period Beat period in frames
+ * @param tightness Penalty weight for gaps that differ from the period
+ * @returns Beat positions in frames
+ */
+export function placeBeats(
+  envelope: OnsetEnvelope,
+  period: number,
+  tightness: number = 100
+): number[] {
+  const onsets = envelope.values;
+  const frameCount = onsets.length;
+  if (frameCount === 0 || !(period > 0)) return [];
+
+  // Smooth the onsets with a Gaussian a sixteenth of a period wide
+  const span = Math.round(period);
+  const localScore = new Float64Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let k = -span; k <= span; k++) {
+      const j = i + k;
+      if (j >= 0 && j < frameCount) sum += onsets[j] * Math.exp(-0.5 * ((k * 32) / period) ** 2);
+    }
+    localScore[i] = sum;
+  }
+
+  const maxScore = localScore.reduce((max: number, score: number) => Math.max(max, score), 0);
+  if (maxScore === 0) return [];
+
+  const nearest = Math.round(period / 2);
+  const farthest = Math.round(2 * period);
+  const cumulative = new Float64Array(frameCount);
+  const backlink = new Int32Array(frameCount).fill(-1);
+  let started = false;
+
+  for (let i = 0; i < frameCount; i++) {
+    let best = -Infinity;
+    let bestFrom = -1;
+    for (let gap = nearest; gap <= farthest; gap++) {
+      const from = i - gap;
+      const penalty = -tightness * Math.log(gap / period) ** 2;
+      const candidate = penalty + (from >= 0 ? cumulative[from] : 0);
+      if (candidate > best) {
+        best = candidate;
+        bestFrom = from;
+      }
+    }
+
+    cumulative[i] = localScore[i] + best;
+    // Nothing links back before the first real onset
+    if (!started && localScore[i] < 0.01 * maxScore) continue;
+    started = true;
+    backlink[i] = bestFrom;
+  }
+
+  // End on the best of the local maxima within a period of the last one that
+  // scores at least half the median maximum, so an off-beat at the very end
+  // does not pull the whole path off the beat
+  const maxima: number[] = [];
+  for (let i = 1; i < frameCount - 1; i++) {
+    if (cumulative[i] > cumulative[i - 1] && cumulative[i] >= cumulative[i + 1]) maxima.push(i);
+  }
+  if (maxima.length === 0) return [];
+  const sorted = maxima.map((i: number) => cumulative[i]).sort((a: number, b: number) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const strong = maxima.filter((i: number) => 2 * cumulative[i] > median);
+  const final = strong.length > 0 ? strong[strong.length - 1] : maxima[maxima.length - 1];
+  const last = strong
+    .filter((i: number) => i > final - period)
+    .reduce((best: number, i: number) => (cumulative[i] > cumulative[best] ? i : best), final);
+
+  const beats: number[] = [];
+  for (let frame = last; frame >= 0; frame = backlink[frame]) beats.unshift(frame);
+
+  return trimWeakBeats(beats, localScore);
+}
+
+/**
+ * Drops beats at the start and end that fall where there are no onsets
+ */
+function trimWeakBeats(beats: number[], localScore: Float64Array): number[] {
+  const strength = beats.map((frame: number) => localScore[frame]);
+  const smoothed = strength.map((_: number, index: number) => {
+    let sum = 0;
+    let weights = 0;
+    for (let k = -2; k <= 2; k++) {
+      const value = strength[index + k];
+      if (value === undefined) continue;
+      const weight = 0.5 + 0.5 * Math.cos((Math.PI * k) / 3);
+      sum += value * weight;
+      weights += weight;
+    }
+    return sum / weights;
+  });
+
+  const power = smoothed.reduce((sum: number, value: number) => sum + value * value, 0);
+  const rms = Math.sqrt(power / smoothed.length);
+  const threshold = 0.5 * rms;
+
+  let start = 0;
+  let end = beats.length;
+  while (start < end && smoothed[start] <= threshold) start++;
+  while (end > start && smoothed[end - 1] <= threshold) end--;
+
+  return beats.slice(start, end);
+}
+
+/**
+ * Estimates the probability that a beat falls on a real onset
+ *
+ * The feature is the peak onset strength within two frames of the beat over
+ * the RMS strength across two periods either side. A logistic maps it to a
+ * probability; its midpoint and slope are fitted so that, over the click-track
+ * corpus in the tests and over plain noise, beats given confidence p land
+ * within 70ms of a true beat about p of the time.
+ * @param onsets Onset envelope values
+ * @param frame Beat position in frames
+ * @param period Beat period in frames
+ * @returns Confidence from 0.0 to 1.0
+ */
+function beatConfidence(onsets: Float32Array, frame: number, period: number): number {
+  let peak = 0;
+  for (let i = Math.max(0, frame - 2); i <= Math.min(onsets.length - 1, frame + 2); i++) {
+    peak = Math.max(peak, onsets[i]);
+  }
+
+  const reach = Math.round(2 * period);
+  let sum = 0;
+  let count = 0;
+  for (let i = Math.max(0, frame - reach); i <= Math.min(onsets.length - 1, frame + reach); i++) {
+    sum += onsets[i] * onsets[i];
+    count++;
+  }
+  const rms = Math.sqrt(sum / count);
+  if (peak === 0 || rms === 0) return 0;
+
+  return 1 / (1 + Math.exp(-CONFIDENCE_SLOPE * (peak / rms - CONFIDENCE_MIDPOINT)));
+}
+
+/**
+ * Takes the peak of an onset envelope within a few frames of a position
+ */
+function peakNear(onsets: Float32Array, frame: number, reach: number): number {
+  let peak = 0;
+  const from = Math.max(0, Math.round(frame) - reach);
+  const to = Math.min(onsets.length - 1, Math.round(frame) + reach);
+  for (let i = from; i <= to; i++) peak = Math.max(peak, onsets[i]);
+  return peak;
+}
+
+/**
+ * Sums an onset envelope within a few frames of a position
+ */
+function sumNear(onsets: Float32Array, frame: number, reach: number): number {
+  let sum = 0;
+  const from = Math.max(0, Math.round(frame) - reach);
+  const to = Math.min(onsets.length - 1, Math.round(frame) + reach);
+  for (let i = from; i <= to; i++) sum += onsets[i];
+  return sum;
+}
+
+/**
+ * Finds how beats group into bars and where the bars start
+ *
+ * Each beat's accent is its onset strength plus its bass onset strength, as
+ * kicks and bass notes tend to land on the one. Every bar length in
+ * BAR_LENGTHS and every phase is scored by how far the accents of the beats
+ * it would call downbeats stand above the rest. Onsets between beats decide
+ * whether beats divide in two or in three, which tells 3/4 from 6/8: a 6/8
+ * bar is felt as two dotted-quarter beats. When no bar length stands out,
+ * 4/4 is assumed.
+ * @param envelope The onset envelope
+ * @param beatFrames Beat positions in frames
+ * @returns Beats per bar, the index of the first downbeat, the subdivision and a confidence
+ */
+export function detectMeter(envelope: OnsetEnvelope, beatFrames: number[]): Meter {
+  const fallback: Meter = { beatsPerBar: 4, firstDownbeat: 0, subdivision: 2, confidence: 0 };
+  if (beatFrames.length < 2 * Math.max(...BAR_LENGTHS)) return fallback;
+
+  const strengths = beatFrames.map(
+    (frame: number) => sumNear(envelope.values, frame, 2) + sumNear(envelope.bass, frame, 2)
+  );
+  // Measure each beat against the twelve around it, so slow swells do not mask the bar
+  const accents = Float32Array.from(strengths, (strength: number, index: number) => {
+    const from = Math.max(0, Math.min(index - 6, strengths.length - 12));
+    const neighbours = strengths.slice(from, from + 12);
+    const total = neighbours.reduce((sum: number, value: number) => sum + value, 0);
+    return strength - total / neighbours.length;
+  });
+  const std = standardDeviation(accents);
+  if (std === 0) return fallback;
+  const scores = Array.from(accents, (accent: number) => accent / std);
+
+  // Score every bar length and phase with a t statistic, so lengths with fewer
+  // downbeats are not favoured by chance
+  const mean = (values: number[]) =>
+    values.reduce((sum: number, value: number) => sum + value, 0) / values.length;
+  const candidates = BAR_LENGTHS.flatMap((length: number) =>
+    Array.from({ length }, (_: unknown, phase: number) => {
+      const isDownbeat = (index: number) => (index - phase) % length === 0;
+      const downbeats = scores.filter((_score: number, index: number) => isDownbeat(index));
+      const others = scores.filter((_score: number, index: number) => !isDownbeat(index));
+      const contrast =
+        (mean(downbeats) - mean(others)) / Math.sqrt(1 / downbeats.length + 1 / others.length);
+      return { length, phase, contrast };
+    })
+  );
+  const best = candidates.reduce((a, b) => (b.contrast > a.contrast ? b : a));
+  const confidence = 1 / (1 + Math.exp(-2 * (best.contrast - METER_CONTRAST_MIDPOINT)));
+
+  // Without a clear bar, assume 4/4 and start bars on the likeliest beat
+  if (confidence < 0.5) {
+    const common = candidates
+      .filter((candidate) => candidate.length === 4)
+      .reduce((a, b) => (b.contrast > a.contrast ? b : a));
+    return { ...fallback, firstDownbeat: common.phase, confidence };
+  }
+
+  // Compare onsets halfway between beats with those a third and two thirds of the way
+  let halves = 0;
+  let thirds = 0;
+  for (let i = 0; i + 1 < beatFrames.length; i++) {
+    const start = beatFrames[i];
+    const gap = beatFrames[i + 1] - start;
+    halves += peakNear(envelope.values, start + gap / 2, 1);
+    thirds += peakNear(envelope.values, start + gap / 3, 1) / 2;
+    thirds += peakNear(envelope.values, start + (2 * gap) / 3, 1) / 2;
+  }
+
+  return {
+    beatsPerBar: best.length,
+    firstDownbeat: best.phase,
+    subdivision: thirds > halves * TRIPLE_SUBDIVISION_RATIO ? 3 : 2,
+    confidence
+  };
+}
+
+/**
+ * Writes a meter as a time signature
+ *
+ * Simple meters count the tracked beats as quarter notes. Compound meters
+ * count eighth notes, three to each tracked beat, so two beats of three make 6/8.
+ * @param meter The detected meter
+ * @returns The time signature
+ */
+export function meterToTimeSignature(meter: Meter): { numerator: number; denominator: number } {
+  return meter.subdivision === 3
+    ? { numerator: meter.beatsPerBar * 3, denominator: 8 }
+    : { numerator: meter.beatsPerBar, denominator: 4 };
+}
+
+/**
+ * Labels beats with their bar number and position in the bar
+ *
+ * Bars are numbered from 1 at the first downbeat; beats before it are a
+ * pickup in bar 0, numbered as the end of a bar.
+ * @param beats Beats in time order
+ * @param meter The detected meter
+ * @returns The beats with `bar` and `beatInBar` set
+ */
+export function labelBeats<T extends Beat>(beats: T[], meter: Meter): T[] {
+  return beats.map((beat: T, index: number) => {
+    const position = index - meter.firstDownbeat;
+    const beatInBar = ((position % meter.beatsPerBar) + meter.beatsPerBar) % meter.beatsPerBar;
+    return {
+      ...beat,
+      bar: Math.floor(position / meter.beatsPerBar) + 1,
+      beatInBar: beatInBar + 1
+    };
+  });
+}
+
+/**
+ * Tracks the beats of a mono signal
+ * @param samples Mono signal
+ * @param sampleRate Sample rate in Hz
+ * @param options Tempo range, preference and tightness
+ * @param progressCallback Optional callback for progress updates (0 to 100)
+ * @returns Beats in seconds with confidences and bar positions, the tempo and the time signature
+ */
+export function trackBeats(
+  samples: Float32Array,
+  sampleRate: number,
+  options: BeatTrackingOptions = {},
+  progressCallback?: (progress: number) => void
+): BeatTrackingResult {
+  // The STFT is most of the work
+  const envelope = computeOnsetEnvelope(samples, sampleRate, (progress: number) =>
+    progressCallback?.(progress * 0.8)
+  );
+  const tempo = estimateTempo(envelope, options);
+  progressCallback?.(85);
+  const frames = placeBeats(envelope, tempo.period, options.tightness);
+
+  const meter = detectMeter(envelope, frames);
+
+  const beats: Beat[] = labelBeats(
+    frames.map((frame: number) => ({
+      time: (frame + ONSET_LAG_FRAMES) / envelope.frameRate,
+      confidence: beatConfidence(envelope.values, frame, tempo.period)
+    })),
+    meter
+  );
+  const averageConfidence = beats.length > 0
+    ? beats.reduce((sum: number, beat: Beat) => sum + beat.confidence, 0) / beats.length
+    : 0;
+
+  progressCallback?.(100);
+
+  return {
+    beats,
+    bpm: tempo.bpm,
+    tempoConfidence: tempo.confidence,
+    timeSignature: meterToTimeSignature(meter),
+    meterConfidence: meter.confidence,
+    averageConfidence
+  };
+}
@@ -0,0 +1,299 @@
+// src/utils/cameraMotion.ts
+import { CameraMovement, CameraMovementType, FlowVector } from '../types/VideoAnalysis';
+import { FrameMotion, GlobalMotion } from '../types/video-types';
+
+/**
+ * Camera movement classification
+ *
+ * The optical flow between two frames is fitted to a global motion model: a
+ * drift, a uniform scaling about the centre and a rotation, the way the whole
+ * picture moves when only the camera does. Vectors far from the fit, as on a
+ * subject moving through the shot, are left out and the model fitted again.
+ *
+ * A drift is a pan or tilt, a scaling a zoom and a rotation a roll. When the
+ * camera itself travels, near things move further than far ones, so the flow
+ * is spread around the fit by parallax; enough spread makes a drift a truck or
+ * pedestal and a scaling a dolly. Movement that keeps reversing from one pair
+ * of frames to the next is handheld shake.
+ */
+
+/** Frame widths per second the picture may move and still count as static */
+const STATIC_SPEED = 0.02;
+/** Frame widths per second at which a movement counts as fastest */
+const FAST_SPEED = 0.5;
+/** Spread around the fit, relative to the movement, that marks parallax */
+const PARALLAX_RATIO = 0.2;
+/** Typical distance of a point from the centre of the frame, in frame widths */
+const TYPICAL_RADIUS = 0.3;
+/** Vectors further from the first fit than this many times the median are outliers */
+const OUTLIER_RATIO = 2.5;
+
+/**
+ * Fits the optical flow between two frames to a global motion model
+ * @param flow Flow vectors, in pixels, at positions across the frame
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param interval Seconds between the two frames
+ * @returns How the whole picture moved, per second
+ */
+export function fitGlobalMotion(
+  flow: FlowVector[],
+  width: number,
+  height: number,
+  interval: number
+): GlobalMotion {
+  // Work in frame widths from the centre, so rates don't depend on resolution
+  const points = flow.map((vector: FlowVector) => ({
+    x: vector.x - 0.5,
+    y: ((vector.y - 0.5) * height) / width,
+    u: vector.dx / width,
+    v: vector.dy / width,
+  }));
+
+  type Point = (typeof points)[number];
+  const fit = (used: Point[]) => {
+    const count = Math.max(1, used.length);
+    const mean = (pick: (point: Point) => number) =>
+      used.reduce((sum: number, point: Point) => sum + pick(point), 0) / count;
+    const mx = mean((point: Point) => point.x);
+    const my = mean((point: Point) => point.y);
+    const mu = mean((point: Point) => point.u);
+    const mv = mean((point: Point) => point.v);
+
+    // Least squares for u = tx + a*x - b*y, v = ty + b*x + a*y
+    let spread = 0;
+    let scaleSum = 0;
+    let rotationSum = 0;
+    used.forEach((point: Point) => {
+      const x = point.x - mx;
+      const y = point.y - my;
+      const u = point.u - mu;
+      const v = point.v - mv;
+      spread += x * x + y * y;
+      scaleSum += x * u + y * v;
+      rotationSum += x * v - y * u;
+    });
+    const a = spread > 0 ? scaleSum / spread : 0;
+    const b = spread > 0 ? rotationSum / spread : 0;
+    const tx = mu - a * mx + b * my;
+    const ty = mv - b * mx - a * my;
+    const residual = (point: Point) =>
+      Math.hypot(
+        point.u - (tx + a * point.x - b * point.y),
+        point.v - (ty + b * point.x + a * point.y)
+      );
+    return { tx, ty, a, b, residual };
+  };
+
+  const first = fit(points);
+  const cutoff = Math.max(OUTLIER_RATIO * median(points.map(first.residual)), 1e-9);
+  const inliers = points.filter((point: Point) => first.residual(point) <= cutoff);
+  const model = inliers.length >= 3 ? fit(inliers) : first;
+  const seconds = interval > 0 ? interval : 1;
+
+  return {
+    interval: seconds,
+    translateX: model.tx / seconds,
+    translateY: model.ty / seconds,
+    scale: model.a / seconds,
+    rotation: model.b / seconds,
+    residual: median(points.map(model.residual)) / seconds,
+  };
+}
+
+/**
+ * How the camera moves between one pair of frames
+ */
+interface PairMovement {
+  type: CameraMovementType;
+  /** How far the picture's edge moves, in frame widths per second */
+  strength: number;
+  confidence: number;
+  /** Camera drift, in frame widths per second with up positive */
+  driftX: number;
+  driftY: number;
+  /** The pair's motion, with the time it ends at */
+  motion: GlobalMotion;
+  time: number;
+}
+
+/**
+ * Names the movement that best explains a pair's motion
+ */
+function classifyPair(motion: GlobalMotion, time: number): PairMovement {
+  const { translateX, translateY, scale, rotation, residual } = motion;
+  const drift = Math.hypot(translateX, translateY);
+  // Scaling and rotation move the picture's edge half a width from the centre
+  const zoom = Math.abs(scale) / 2;
+  const roll = Math.abs(rotation) / 2;
+  const strength = Math.max(drift, zoom, roll);
+  // The camera moves the opposite way to the picture
+  const pair = { strength, driftX: -translateX, driftY: translateY, motion, time };
+
+  if (strength < STATIC_SPEED) {
+    return {
+      ...pair,
+      type: CameraMovementType.STATIC,
+      confidence: 1 - strength / STATIC_SPEED / 2,
+    };
+  }
+
+  const confidence = strength / (drift + zoom + roll);
+  // Compared with how far the movement carries a typical point
+  const typical = strength === drift ? drift : Math.max(zoom, roll) * 2 * TYPICAL_RADIUS;
+  const parallax = residual / typical > PARALLAX_RATIO;
+  let type: CameraMovementType;
+  if (strength === drift) {
+    if (Math.abs(translateX) >= Math.abs(translateY)) {
+      const right = translateX < 0;
+      type = !parallax
+        ? CameraMovementType.PAN
+        : right
+          ? CameraMovementType.TRUCK_RIGHT
+          : CameraMovementType.TRUCK_LEFT;
+    } else {
+      const up = translateY > 0;
+      type = !parallax
+        ? CameraMovementType.TILT
+        : up
+          ? CameraMovementType.PEDESTAL_UP
+          : CameraMovementType.PEDESTAL_DOWN;
+    }
+  } else if (strength === zoom) {
+    if (scale > 0) {
+      type = parallax ? CameraMovementType.DOLLY_IN : CameraMovementType.ZOOM_IN;
+    } else {
+      type = parallax ? CameraMovementType.DOLLY_OUT : CameraMovementType.ZOOM_OUT;
+    }
+  } else {
+    type = CameraMovementType.ROLL;
+  }
+
+  return { ...pair, type, confidence };
+}
+
+/** Movements that have a direction across the frame */
+const DRIFTS = [
+  CameraMovementType.PAN,
+  CameraMovementType.TILT,
+  CameraMovementType.TRUCK_LEFT,
+  CameraMovementType.TRUCK_RIGHT,
+  CameraMovementType.PEDESTAL_UP,
+  CameraMovementType.PEDESTAL_DOWN,
+];
+
+/**
+ * Whether two pairs drift in opposing directions
+ */
+function reverses(a: PairMovement, b: PairMovement): boolean {
+  return (
+    a.type !== CameraMovementType.STATIC &&
+    b.type !== CameraMovementType.STATIC &&
+    a.driftX * b.driftX + a.driftY * b.driftY < 0
+  );
+}
+
+/**
+ * Works out how the camera moves through part of a clip
+ * @param motion Motion between consecutive sampled frames, as found by analysis
+ * @param startTime Start of the part in seconds
+ * @param endTime End of the part in seconds
+ * @returns Camera movements in order, with times in milliseconds; empty when
+ * no pair of frames falls in the part
+ */
+export function cameraMovements(
+  motion: FrameMotion[],
+  startTime: number,
+  endTime: number
+): CameraMovement[] {
+  const epsilon = 1e-6;
+  const pairs = motion
+    .filter(
+      (frame: FrameMotion) =>
+        frame.cameraMotion !== undefined &&
+        frame.time - frame.cameraMotion.interval >= startTime - epsilon &&
+        frame.time <= endTime + epsilon
+    )
+    .map((frame: FrameMotion) => classifyPair(frame.cameraMotion!, frame.time));
+
+  // A pair that reverses the drift of the pairs either side is shake, and so
+  // are they
+  const shaking = pairs.map(() => false);
+  for (let i = 1; i < pairs.length - 1; i++) {
+    if (reverses(pairs[i - 1], pairs[i]) && reverses(pairs[i], pairs[i + 1])) {
+      shaking[i - 1] = shaking[i] = shaking[i + 1] = true;
+    }
+  }
+  const types = pairs.map((pair: PairMovement, i: number) =>
+    shaking[i] ? CameraMovementType.HANDHELD : pair.type
+  );
+
+  // A single pair between two runs of the same movement is a wobble in it
+  for (let i = 1; i < types.length - 1; i++) {
+    if (types[i - 1] === types[i + 1] && types[i] !== types[i - 1]) {
+      types[i] = types[i - 1];
+    }
+  }
+
+  // A movement ends where the type changes, or a drift turns back on itself
+  const movements: CameraMovement[] = [];
+  let start = 0;
+  for (let i = 1; i <= pairs.length; i++) {
+    const turns = DRIFTS.includes(types[start]) && reverses(pairs[i - 1], pairs[i] ?? pairs[i - 1]);
+    if (i < pairs.length && types[i] === types[start] && !turns) continue;
+    movements.push(describeRun(pairs.slice(start, i), types[start]));
+    start = i;
+  }
+  return movements;
+}
+
+/**
+ * Describes a run of pairs that share a movement
+ */
+function describeRun(run: PairMovement[], type: CameraMovementType): CameraMovement {
+  const mean = (pick: (pair: PairMovement) => number) =>
+    run.reduce((sum: number, pair: PairMovement) => sum + pick(pair), 0) / run.length;
+  const strength = mean((pair: PairMovement) => pair.strength);
+  const first = run[0];
+
+  let confidence = mean((pair: PairMovement) => (pair.type === type ? pair.confidence : 0));
+  if (type === CameraMovementType.HANDHELD) {
+    // Shake goes nowhere overall
+    const drift = Math.hypot(
+      mean((pair: PairMovement) => pair.driftX),
+      mean((pair: PairMovement) => pair.driftY)
+    );
+    confidence = strength > 0 ? 1 - drift / strength / 2 : 0;
+  }
+
+  const movement: CameraMovement = {
+    type,
+    startTime: (first.time - first.motion.interval) * 1000,
+    endTime: run[run.length - 1].time * 1000,
+    confidence,
+    speed: Math.min(1, strength / FAST_SPEED),
+  };
+
+  if (DRIFTS.includes(type)) {
+    const degrees =
+      (Math.atan2(
+        mean((pair: PairMovement) => pair.driftY),
+        mean((pair: PairMovement) => pair.driftX)
+      ) *
+        180) /
+      Math.PI;
+    movement.direction = Math.round(degrees + 360) % 360;
+  }
+
+  return movement;
+}
+
+/**
+ * Middle value of a list of numbers
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a: number, b: number) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
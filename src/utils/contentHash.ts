@@ -0,0 +1,135 @@
+// src/utils/contentHash.ts
+import { throwIfAborted } from './analysisWorker';
+
+/**
+ * Options for hashing a file
+ */
+export interface HashOptions {
+  /** Bytes read at a time (default: 4 MiB) */
+  chunkSize?: number;
+  /** Called with the fraction of the file hashed so far (0.0 to 1.0) */
+  onProgress?: (progress: number) => void;
+  /** Stops hashing between chunks, rejecting with an AbortError */
+  signal?: AbortSignal;
+}
+
+/** SHA-256 round constants */
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+/**
+ * SHA-256 that takes its input in pieces, so a file never has to be in memory
+ * at once. WebCrypto only hashes whole buffers.
+ */
+class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(64);
+
+  update(bytes: Uint8Array): this {
+    this.totalLength += bytes.length;
+    let offset = 0;
+    while (offset < bytes.length) {
+      const take = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  digest(): string {
+    const bits = this.totalLength * 8;
+    const padding = new Uint8Array(((this.blockLength < 56 ? 56 : 120) - this.blockLength) + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+
+    return Array.from(this.state, (word: number) => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  private compress() {
+    const w = this.words;
+    const view = new DataView(this.block.buffer);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value: number, i: number) => {
+      this.state[i] = (this.state[i] + value) | 0;
+    });
+  }
+}
+
+/**
+ * Reads part of a blob
+ *
+ * FileReader rather than Blob.arrayBuffer, which older engines lack
+ */
+function readChunk(blob: Blob): Promise<Uint8Array> {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Hashes bytes with SHA-256
+ * @param bytes The bytes
+ * @returns The hash as 64 hex digits
+ */
+export function hashBytes(bytes: Uint8Array): string {
+  return new Sha256().update(bytes).digest();
+}
+
+/**
+ * Hashes the contents of a file with SHA-256, reading it a chunk at a time
+ * @param blob The file
+ * @param options Chunk size, progress callback and abort signal
+ * @returns Promise resolving to the hash as 64 hex digits
+ */
+export async function hashFile(blob: Blob, options: HashOptions = {}): Promise<string> {
+  const { chunkSize = 4 * 1024 * 1024, onProgress, signal } = options;
+  const hash = new Sha256();
+
+  for (let start = 0; start < blob.size; start += chunkSize) {
+    throwIfAborted(signal);
+    hash.update(await readChunk(blob.slice(start, start + chunkSize)));
+    onProgress?.(Math.min(1, (start + chunkSize) / blob.size));
+  }
+
+  return hash.digest();
+}
@@ -0,0 +1,208 @@
+// src/utils/cutPlanner.ts
+import { FrameMotion } from '../types/video-types';
+
+/**
+ * Cut planning
+ *
+ * Picking the best shot for each cut on its own fills a chorus with the same
+ * close-up and spends the shot a later cut needed. The planner fills every
+ * cut at once instead, with a beam search over the cut sequence: each partial
+ * edit is extended by every shot that may follow it, and only the best few
+ * are kept at each cut. A shot scores for matching the energy of the music
+ * under it, plus anything the caller adds, and loses score for repeating,
+ * most of all straight after itself, and for running out before its slot
+ * ends. Shots can be capped at a number of uses, and each source can be kept
+ * in the order it was shot, so a performance plays out as it happened.
+ */
+
+/**
+ * A stretch of the timeline to fill with a shot
+ */
+export interface CutSlot {
+  /** Time the slot starts on the timeline, in seconds */
+  time: number;
+  /** Length in seconds */
+  duration: number;
+  /** Energy of the music over the slot (0-1) */
+  energy: number;
+}
+
+/**
+ * A shot that slots can be filled from
+ */
+export interface CutCandidate {
+  /** ID of the source video */
+  videoId: string;
+  /** Index of the scene in its video */
+  sceneIndex: number;
+  /** Where the shot starts in its video, in seconds */
+  start: number;
+  /** Where the shot ends in its video, in seconds */
+  end: number;
+  /** Energy of the shot, such as its amount of motion (0-1) */
+  energy: number;
+  /** Most times this shot may be used, overriding the plan's maxUses */
+  maxUses?: number;
+}
+
+/**
+ * A shot chosen for a slot
+ */
+export interface CutPlacement<C extends CutCandidate = CutCandidate> {
+  candidate: C;
+  /** In point in the source video, in seconds */
+  start: number;
+}
+
+/**
+ * Options for planning cuts
+ */
+export interface CutPlanOptions<
+  S extends CutSlot = CutSlot,
+  C extends CutCandidate = CutCandidate,
+> {
+  /** Score for a perfect energy match, falling to 0 for opposite energies (default: 2) */
+  energyWeight?: number;
+  /** Score lost for each earlier use of a shot (default: 1) */
+  repeatPenalty?: number;
+  /** Further score lost for using a shot straight after itself (default: 4) */
+  backToBackPenalty?: number;
+  /** Score lost for a shot that covers none of its slot, scaled by the share left uncovered (default: 2) */
+  shortfallPenalty?: number;
+  /** Most times any one shot may be used (default: no limit) */
+  maxUses?: number;
+  /** Whether each source video is only ever cut forwards (default: false) */
+  maintainChronology?: boolean;
+  /** Partial edits kept at each cut (default: 16) */
+  beamWidth?: number;
+  /** Extra score for a shot in a slot, such as for a close-up on a chorus hit */
+  affinity?: (slot: S, candidate: C) => number;
+}
+
+/**
+ * The shots chosen so far, newest first
+ */
+interface PlanHistory {
+  index: number | null;
+  start: number;
+  previous: PlanHistory | null;
+}
+
+/**
+ * A partial edit kept in the beam
+ */
+interface BeamState {
+  score: number;
+  history: PlanHistory | null;
+  /** Times each candidate has been used */
+  uses: Int32Array;
+  /** Source time each video has been cut up to, when keeping chronology */
+  positions: Map<string, number>;
+}
+
+/** Seconds two times may differ by and still count as the same */
+const EPSILON = 1e-6;
+
+/** Motion amount that counts as full energy */
+const FULL_MOTION = 10;
+
+/**
+ * Chooses a shot for every slot at once
+ *
+ * The plan is deterministic: ties go to the earlier candidate. A slot that no
+ * shot may fill, because every shot is used up or already cut past, is left
+ * empty.
+ * @param slots Slots in timeline order
+ * @param candidates Shots to fill them from
+ * @param options How to score and constrain the plan
+ * @returns The shot chosen for each slot, or null for an empty slot
+ */
+export function planCuts<S extends CutSlot, C extends CutCandidate>(
+  slots: S[],
+  candidates: C[],
+  options: CutPlanOptions<S, C> = {}
+): Array<CutPlacement<C> | null> {
+  const {
+    energyWeight = 2,
+    repeatPenalty = 1,
+    backToBackPenalty = 4,
+    shortfallPenalty = 2,
+    maxUses = Infinity,
+    maintainChronology = false,
+    beamWidth = 16,
+  } = options;
+
+  let beam: BeamState[] = [
+    { score: 0, history: null, uses: new Int32Array(candidates.length), positions: new Map() },
+  ];
+
+  slots.forEach((slot: S) => {
+    // What a shot scores in this slot, whatever came before it
+    const base = candidates.map(
+      (candidate: C) =>
+        energyWeight * (1 - Math.abs(slot.energy - candidate.energy)) +
+        (options.affinity?.(slot, candidate) ?? 0)
+    );
+
+    const extensions: Array<{ state: BeamState; index: number; start: number; score: number }> = [];
+    beam.forEach((state: BeamState) => {
+      candidates.forEach((candidate: C, index: number) => {
+        if (state.uses[index] >= (candidate.maxUses ?? maxUses)) return;
+
+        const start = maintainChronology
+          ? Math.max(candidate.start, state.positions.get(candidate.videoId) ?? -Infinity)
+          : candidate.start;
+        const available = candidate.end - start;
+        if (available <= EPSILON) return;
+
+        let score = state.score + base[index] - repeatPenalty * state.uses[index];
+        if (state.history?.index === index) score -= backToBackPenalty;
+        if (available < slot.duration) score -= shortfallPenalty * (1 - available / slot.duration);
+        extensions.push({ state, index, start, score });
+      });
+    });
+
+    if (extensions.length === 0) {
+      beam = beam.map((state: BeamState) => ({
+        ...state,
+        history: { index: null, start: 0, previous: state.history },
+      }));
+      return;
+    }
+
+    // Sorting is stable, so ties keep the earlier state and candidate
+    extensions.sort((a, b) => b.score - a.score);
+    beam = extensions.slice(0, beamWidth).map(({ state, index, start, score }) => {
+      const uses = state.uses.slice();
+      uses[index]++;
+      const positions = new Map(state.positions);
+      if (maintainChronology) positions.set(candidates[index].videoId, start + slot.duration);
+      return { score, history: { index, start, previous: state.history }, uses, positions };
+    });
+  });
+
+  const placements: Array<CutPlacement<C> | null> = [];
+  for (let history = beam[0].history; history; history = history.previous) {
+    placements.unshift(
+      history.index === null ? null : { candidate: candidates[history.index], start: history.start }
+    );
+  }
+  return placements;
+}
+
+/**
+ * Measures the energy of a shot from the motion of its frames
+ * @param motionByFrame Motion of each analyzed frame of the video
+ * @param start Where the shot starts, in seconds
+ * @param end Where the shot ends, in seconds
+ * @returns The mean motion over the shot, scaled to 0-1, or 0 without frames in it
+ */
+export function sceneEnergy(motionByFrame: FrameMotion[], start: number, end: number): number {
+  const frames = motionByFrame.filter(
+    (frame: FrameMotion) => frame.time >= start && frame.time < end
+  );
+  if (frames.length === 0) return 0;
+  const mean =
+    frames.reduce((sum: number, frame: FrameMotion) => sum + frame.motionAmount, 0) / frames.length;
+  return Math.min(mean / FULL_MOTION, 1);
+}
@@ -0,0 +1,419 @@
+// src/utils/edlGenerators.ts
+import {
+  EditDecisionList,
+  EDLFormat,
+  MatchedClip,
+  Transition,
+  TransitionType,
+  TrackType,
+  createEmptyEDL
+} from '../types/EditDecision';
+import { VideoMetadata } from '../types/video-types';
+import {
+  FrameRate,
+  resolveFrameRate,
+  secondsToFrames,
+  framesToTimecode,
+  timecodeToFrames,
+  timecodeToSeconds
+} from './timecode';
+import type { ExportAudioMetadata, ExportEditDecision } from './xmlGenerators';
+import { alignTransitions, getEditTransition } from './exportTransitions';
+import { generateOTIO, OTIOExportOptions } from './otioGenerators';
+
+/**
+ * Options for writing a CMX3600 EDL
+ */
+export interface EDLExportOptions {
+  /** Title written to the TITLE: line (default: the EDL name) */
+  title?: string;
+  /** Whether to use drop-frame timecode when the frame rate allows it (default: true) */
+  dropFrame?: boolean;
+  /** Record timecode of the first frame of the sequence (default: 01:00:00:00) */
+  recordStart?: string;
+  /** Reel names by source ID, overriding names derived from the clip names */
+  reelNames?: Record<string, string>;
+}
+
+/** Reel name editors use for black and other generated sources */
+const BLACK_REEL = 'BL';
+
+/** Maximum length of a CMX3600 reel name */
+const REEL_NAME_LENGTH = 8;
+
+/**
+ * A clip resolved to whole frames on the record and source timelines
+ */
+interface EDLEvent {
+  clip: MatchedClip;
+  reel: string;
+  channel: string;
+  name: string;
+  recordIn: number;
+  recordOut: number;
+  sourceIn: number;
+  sourceOut: number;
+}
+
+/**
+ * Builds an EditDecisionList from the flat edit decisions used by the exporters
+ * @param editDecisions Edit decisions in seconds
+ * @param videoFiles Source video files keyed by video ID
+ * @param audioFile Music track laid under the cuts
+ * @param framerate Sequence frame rate
+ * @param videoMetadata Source video metadata keyed by video ID, used for transition handles
+ * @param audioMetadata Characteristics of the music track, giving its channel count (default: stereo)
+ * @returns EditDecisionList with one video clip per edit, a transition for each edit that
+ * has one, and the music on audio track 1
+ */
+export function createEDLFromEditDecisions(
+  editDecisions: ExportEditDecision[],
+  videoFiles: Record<string, File>,
+  audioFile: File | null,
+  framerate: number,
+  videoMetadata?: Record<string, VideoMetadata>,
+  audioMetadata?: ExportAudioMetadata
+): EditDecisionList {
+  const edl = createEmptyEDL('CineFlux Auto-Generated Sequence', framerate);
+  edl.format = EDLFormat.CMX3600;
+
+  const sorted = [...editDecisions].sort((a, b) => a.time - b.time);
+
+  let previousClipId: string | null = null;
+  sorted.forEach((decision, index) => {
+    const videoFile = videoFiles[decision.videoId];
+    if (!videoFile) return;
+
+    const transition = getEditTransition(decision);
+    if (transition && previousClipId) {
+      edl.transitions.push({
+        id: `transition_${edl.transitions.length + 1}`,
+        type: transition.type,
+        duration: transition.duration,
+        outgoingClipId: previousClipId,
+        incomingClipId: `clip_${index}`,
+        centerPoint: transition.centerPoint
+      });
+    }
+
+    const sourceDuration = videoMetadata?.[decision.videoId]?.duration;
+    previousClipId = `clip_${index}`;
+    edl.clips.push({
+      id: `clip_${index}`,
+      sourceId: decision.videoId,
+      trackType: TrackType.VIDEO,
+      trackNumber: 1,
+      timelineInPoint: decision.time,
+      timelineOutPoint: decision.time + decision.duration,
+      sourceInPoint: decision.start,
+      sourceOutPoint: decision.start + decision.duration,
+      enabled: true,
+      metadata: sourceDuration ? { name: videoFile.name, sourceDuration } : { name: videoFile.name }
+    });
+  });
+
+  const totalDuration = sorted.reduce(
+    (end, decision) => Math.max(end, decision.time + decision.duration),
+    0
+  );
+
+  if (audioFile && totalDuration > 0) {
+    edl.clips.push({
+      id: 'music',
+      sourceId: audioFile.name,
+      trackType: TrackType.AUDIO,
+      trackNumber: 1,
+      timelineInPoint: 0,
+      timelineOutPoint: totalDuration,
+      sourceInPoint: 0,
+      sourceOutPoint: totalDuration,
+      enabled: true,
+      metadata: { name: audioFile.name, channels: audioMetadata?.channels || 2 }
+    });
+  }
+
+  edl.totalDuration = totalDuration;
+
+  return edl;
+}
+
+/**
+ * Flattens an EditDecisionList back into the edit decisions used by the exporters
+ * @param edl The edit decision list
+ * @returns Edit decisions in seconds for the clips on video track 1, in timeline order,
+ * carrying the transition onto each clip
+ */
+export function createEditDecisionsFromEDL(edl: EditDecisionList): ExportEditDecision[] {
+  const rate = resolveFrameRate(edl.framerate);
+
+  return edl.clips
+    .filter(clip => clip.trackType === TrackType.VIDEO && clip.trackNumber === 1 && clip.enabled !== false)
+    .map(clip => {
+      const time = timecodeToSeconds(clip.timelineInPoint, rate);
+      const decision: ExportEditDecision = {
+        time,
+        videoId: clip.sourceId,
+        start: timecodeToSeconds(clip.sourceInPoint, rate),
+        duration: timecodeToSeconds(clip.timelineOutPoint, rate) - time
+      };
+
+      const transition = edl.transitions.find(candidate => candidate.incomingClipId === clip.id);
+      if (transition && transition.type !== TransitionType.CUT) {
+        decision.transitionType = transition.type;
+        decision.transitionDuration = timecodeToSeconds(transition.duration, rate);
+        decision.transitionCenter = timecodeToSeconds(transition.centerPoint, rate);
+      }
+
+      return decision;
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Derives a unique CMX3600 reel name from a clip name
+ * @param name Clip or file name
+ * @param used Reel names already assigned to other sources
+ * @returns Upper-case alphanumeric reel name of at most 8 characters
+ */
+function createReelName(name: string, used: Set<string>): string {
+  const base = name
+    .replace(/\.[^.]+$/, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .slice(0, REEL_NAME_LENGTH) || 'AX';
+
+  return claimReelName(base, used);
+}
+
+/**
+ * Claims a reel name no other source uses, numbering it when it is taken
+ * @param name Reel name wanted, cut to 8 characters
+ * @param used Reel names already assigned to other sources
+ * @returns The name, or the name with its end replaced by a number
+ */
+function claimReelName(name: string, used: Set<string>): string {
+  const base = name.slice(0, REEL_NAME_LENGTH);
+  let reel = base;
+  for (let suffix = 1; used.has(reel); suffix++) {
+    const tail = suffix.toString();
+    reel = base.slice(0, REEL_NAME_LENGTH - tail.length) + tail;
+  }
+
+  used.add(reel);
+  return reel;
+}
+
+/**
+ * Maps a clip's track to a CMX3600 channel field
+ * @param clip The clip
+ * @returns V for video, A/A2... for a single audio channel, AA for a stereo pair
+ */
+function channelForClip(clip: MatchedClip): string {
+  if (clip.trackType !== TrackType.AUDIO) return 'V';
+  if (clip.metadata?.channels === 2) return 'AA';
+  return clip.trackNumber > 1 ? `A${clip.trackNumber}` : 'A';
+}
+
+/**
+ * Maps a transition to its CMX3600 edit type code
+ * @param transition The transition, or undefined for a cut
+ * @returns C, D or W001
+ */
+function transitionCode(transition?: Transition): string {
+  if (!transition || transition.type === TransitionType.CUT) return 'C';
+  if (transition.type === TransitionType.WIPE) {
+    const pattern = parseInt(transition.parameters?.pattern ?? '', 10);
+    return `W${(Number.isFinite(pattern) ? pattern : 1).toString().padStart(3, '0')}`;
+  }
+  return 'D';
+}
+
+/**
+ * Formats one CMX3600 event line
+ */
+function formatEventLine(
+  eventNumber: number,
+  reel: string,
+  channel: string,
+  code: string,
+  transitionFrames: number | null,
+  sourceIn: string,
+  sourceOut: string,
+  recordIn: string,
+  recordOut: string
+): string {
+  const duration = transitionFrames === null ? '' : transitionFrames.toString().padStart(3, '0');
+
+  return [
+    `${eventNumber.toString().padStart(3, '0')} `,
+    reel.padEnd(REEL_NAME_LENGTH),
+    channel.padEnd(5),
+    code.padEnd(4),
+    duration.padEnd(3),
+    sourceIn,
+    sourceOut,
+    recordIn,
+    recordOut
+  ].join(' ');
+}
+
+/**
+ * Generates a CMX3600 EDL
+ *
+ * Numeric Timecode values in the EDL are read as seconds. Dissolves and wipes
+ * are written as a zero-length event on the outgoing reel followed by the
+ * incoming reel with the transition length in frames. Each transition is
+ * aligned on its center point and shortened to the handles either side of
+ * the cut (see alignTransitions).
+ * @param edl The edit decision list
+ * @param options Title, drop-frame and reel naming options
+ * @returns CMX3600 EDL text
+ */
+export function generateCMX3600EDL(edl: EditDecisionList, options: EDLExportOptions = {}): string {
+  const rate: FrameRate = resolveFrameRate(edl.framerate, options.dropFrame ?? true);
+  const recordStart = timecodeToFrames(options.recordStart ?? '01:00:00:00', rate);
+  const toFrames = (value: MatchedClip['timelineInPoint']) =>
+    secondsToFrames(timecodeToSeconds(value, rate), rate);
+  const tc = (frames: number) => framesToTimecode(frames, rate);
+
+  const usedReels = new Set<string>([BLACK_REEL]);
+  const reelsBySource = new Map<string, string>();
+  const reelFor = (clip: MatchedClip, name: string): string => {
+    let reel = reelsBySource.get(clip.sourceId);
+    if (!reel) {
+      const override = options.reelNames?.[clip.sourceId];
+      reel = override ? claimReelName(override, usedReels) : createReelName(name, usedReels);
+      reelsBySource.set(clip.sourceId, reel);
+    }
+    return reel;
+  };
+
+  // Resolve each enabled clip to frames, video events first then each audio channel
+  const events: EDLEvent[] = edl.clips
+    .filter(clip => clip.enabled !== false)
+    .map(clip => {
+      const name = clip.metadata?.name ?? clip.sourceId;
+      const recordIn = toFrames(clip.timelineInPoint);
+      const recordOut = Math.max(recordIn, toFrames(clip.timelineOutPoint));
+      const sourceIn = toFrames(clip.sourceInPoint);
+      return {
+        clip,
+        reel: reelFor(clip, name),
+        channel: channelForClip(clip),
+        name,
+        recordIn,
+        recordOut,
+        sourceIn,
+        sourceOut: sourceIn + recordOut - recordIn
+      };
+    })
+    .filter(event => event.recordOut > event.recordIn)
+    .sort((a, b) =>
+      (a.channel === 'V' ? 0 : 1) - (b.channel === 'V' ? 0 : 1) ||
+      a.channel.localeCompare(b.channel) ||
+      a.recordIn - b.recordIn
+    );
+
+  const transitionsByIncoming = new Map<string, Transition>();
+  edl.transitions.forEach(transition => transitionsByIncoming.set(transition.incomingClipId, transition));
+
+  const lines: string[] = [
+    `TITLE: ${options.title ?? edl.name}`,
+    `FCM: ${rate.dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    ''
+  ];
+
+  // Fit each dissolve or wipe to the handles around its cut
+  const aligned = alignTransitions(
+    events.map(event => {
+      const sourceDuration = event.clip.metadata?.sourceDuration;
+      return {
+        recordIn: event.recordIn,
+        recordOut: event.recordOut,
+        sourceIn: event.sourceIn,
+        sourceDuration: sourceDuration ? secondsToFrames(sourceDuration, rate) : undefined
+      };
+    }),
+    events.map((event, index) => {
+      const transition = transitionsByIncoming.get(event.clip.id);
+      if (!transition || transitionCode(transition) === 'C' || events[index - 1]?.clip.id !== transition.outgoingClipId) {
+        return null;
+      }
+      return {
+        duration: secondsToFrames(timecodeToSeconds(transition.duration, rate), rate),
+        centerPoint: toFrames(transition.centerPoint)
+      };
+    })
+  );
+
+  // Pull the incoming clip back to the transition start, trimming the outgoing clip to it
+  const transitionFrames = events.map((event, index) => {
+    const transition = aligned[index];
+    if (!transition) return 0;
+
+    const previous = events[index - 1];
+    event.recordIn -= transition.before;
+    event.sourceIn -= transition.before;
+    previous.recordOut -= transition.before;
+    previous.sourceOut -= transition.before;
+
+    return transition.end - transition.start;
+  });
+
+  events.forEach((event, index) => {
+    const eventNumber = index + 1;
+    const record = (frames: number) => tc(recordStart + frames);
+
+    if (transitionFrames[index] > 0) {
+      // Outgoing side of the transition: a zero-length edit at the transition start
+      const previous = events[index - 1];
+      const code = transitionCode(transitionsByIncoming.get(event.clip.id));
+
+      lines.push(formatEventLine(
+        eventNumber, previous.reel, event.channel, 'C', null,
+        tc(previous.sourceOut), tc(previous.sourceOut),
+        record(event.recordIn), record(event.recordIn)
+      ));
+      lines.push(formatEventLine(
+        eventNumber, event.reel, event.channel, code, transitionFrames[index],
+        tc(event.sourceIn), tc(event.sourceOut),
+        record(event.recordIn), record(event.recordOut)
+      ));
+      lines.push(`* FROM CLIP NAME: ${previous.name}`);
+      lines.push(`* TO CLIP NAME: ${event.name}`);
+    } else {
+      lines.push(formatEventLine(
+        eventNumber, event.reel, event.channel, 'C', null,
+        tc(event.sourceIn), tc(event.sourceOut),
+        record(event.recordIn), record(event.recordOut)
+      ));
+      lines.push(`* FROM CLIP NAME: ${event.name}`);
+    }
+
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Exports an EditDecisionList in the requested format
+ * @param edl The edit decision list
+ * @param format Target format
+ * @param options Export options for the target format
+ * @returns The exported document
+ */
+export function exportEDL(
+  edl: EditDecisionList,
+  format: EDLFormat,
+  options: EDLExportOptions & OTIOExportOptions = {}
+): string {
+  switch (format) {
+    case EDLFormat.CMX3600:
+      return generateCMX3600EDL(edl, options);
+    case EDLFormat.DAVINCIRESOLVE:
+      return generateOTIO(edl, options);
+    default:
+      throw new Error(`Unsupported EDL format: ${format}`);
+  }
+}
@@ -0,0 +1,166 @@
+// src/utils/exportMarkers.ts
+import { MarkerType, TimelineCutPoint } from '../types/EditDecision';
+import { Beat, Section } from '../types/AudioAnalysis';
+import { getBeatsPerBar } from './audioSync';
+import { resolveFrameRate, timecodeToSeconds } from './timecode';
+
+/**
+ * The parts of an audio analysis that become sequence markers
+ */
+export interface MarkerAnalysis {
+  beats?: { beats: Beat[] };
+  tempo?: { timeSignature?: { numerator: number; denominator?: number } };
+  sections?: { sections: Section[] };
+}
+
+/**
+ * Options for choosing which markers to export
+ */
+export interface ExportMarkerOptions {
+  /** Which beats get a marker (default: 'downbeats') */
+  beats?: 'all' | 'downbeats' | 'none';
+  /** Whether section boundaries get a chapter marker (default: true) */
+  sections?: boolean;
+  /** Frame rate cut points given as timecode are read at (default: 30) */
+  frameRate?: number;
+}
+
+/**
+ * The parts of an edit on the timeline that become a cut point
+ */
+export interface EditNote {
+  id: string;
+  /** Start of the edit on the timeline, in seconds */
+  startTime: number;
+  notes?: string;
+}
+
+/** Marker colors for each kind of generated marker */
+const MARKER_COLORS = {
+  downbeat: 'red',
+  beat: 'green',
+  section: 'blue',
+  note: 'yellow'
+};
+
+/**
+ * Returns whether a beat starts a bar
+ *
+ * Beats labelled by beat tracking are used as is; otherwise every Nth beat of
+ * the time signature is taken to be a downbeat, counting from the first beat.
+ * @param beat The beat
+ * @param index Index of the beat in the analysis
+ * @param beatsPerBar Beats per bar from the time signature
+ * @returns Whether the beat is a downbeat
+ */
+export function isDownbeat(beat: Beat, index: number, beatsPerBar: number): boolean {
+  if (beat.beatInBar !== undefined) return beat.beatInBar === 1;
+  return index % beatsPerBar === 0;
+}
+
+/**
+ * Builds the markers written into exported sequences
+ *
+ * Beats become MARKER cut points named by bar and beat, section starts become
+ * CHAPTER cut points carrying the section label, and any existing cut points
+ * are kept with their colors and comments. Generated positions are in seconds;
+ * cut points given as timecode are ordered by the time it reads as.
+ * @param analysis Audio analysis of the music track
+ * @param cutPoints Cut points already on the timeline
+ * @param options Which beats and sections to include
+ * @returns Cut points sorted by position
+ */
+export function createExportMarkers(
+  analysis: MarkerAnalysis | null | undefined,
+  cutPoints: TimelineCutPoint[] = [],
+  options: ExportMarkerOptions = {}
+): TimelineCutPoint[] {
+  const markers: TimelineCutPoint[] = [...cutPoints];
+  const beatMode = options.beats ?? 'downbeats';
+  const beatsPerBar = Math.max(1, getBeatsPerBar(analysis?.tempo?.timeSignature));
+
+  if (beatMode !== 'none') {
+    let bar = 0;
+    let beatInBar = 0;
+    (analysis?.beats?.beats ?? []).forEach((beat: Beat, index: number) => {
+      const downbeat = isDownbeat(beat, index, beatsPerBar);
+      if (downbeat) {
+        bar++;
+        beatInBar = 1;
+      } else {
+        beatInBar++;
+      }
+      if (!downbeat && beatMode === 'downbeats') return;
+      const barNumber = beat.bar ?? bar;
+      const position = beat.beatInBar ?? beatInBar;
+
+      markers.push({
+        id: `beat_${index + 1}`,
+        type: MarkerType.MARKER,
+        position: beat.time,
+        // Beats before the first downbeat are an upbeat into bar 1
+        label: downbeat
+          ? `Bar ${barNumber}`
+          : barNumber === 0
+            ? 'Pickup'
+            : `Bar ${barNumber} Beat ${position}`,
+        color: downbeat ? MARKER_COLORS.downbeat : MARKER_COLORS.beat,
+        confidence: beat.confidence,
+        metadata: { kind: downbeat ? 'downbeat' : 'beat' }
+      });
+    });
+  }
+
+  if (options.sections ?? true) {
+    (analysis?.sections?.sections ?? []).forEach((section: Section, index: number) => {
+      const label = section.label.charAt(0).toUpperCase() + section.label.slice(1);
+      markers.push({
+        id: `section_${index + 1}`,
+        type: MarkerType.CHAPTER,
+        position: section.start,
+        label,
+        color: MARKER_COLORS.section,
+        confidence: section.confidence,
+        metadata: {
+          kind: 'section',
+          duration: section.duration,
+          comment: section.characteristics?.mood ?? ''
+        }
+      });
+    });
+  }
+
+  const rate = resolveFrameRate(options.frameRate ?? 30);
+  return markers
+    .map((marker: TimelineCutPoint) => ({
+      marker,
+      seconds: timecodeToSeconds(marker.position, rate)
+    }))
+    .sort((a, b) => a.seconds - b.seconds)
+    .map(({ marker }) => marker);
+}
+
+/**
+ * Builds cut points for the edits on the timeline that carry notes
+ *
+ * Each becomes a COMMENT cut point at the start of the edit, named by its
+ * number on the timeline and carrying the note as its comment.
+ * @param edits Edits in timeline order
+ * @returns Cut points for the edits with notes
+ */
+export function createEditCutPoints(edits: EditNote[] = []): TimelineCutPoint[] {
+  return edits.flatMap((edit: EditNote, index: number) =>
+    edit.notes?.trim()
+      ? [
+          {
+            id: `edit_${edit.id}`,
+            type: MarkerType.COMMENT,
+            position: edit.startTime,
+            label: `Cut ${index + 1}`,
+            color: MARKER_COLORS.note,
+            metadata: { kind: 'note', comment: edit.notes.trim() }
+          }
+        ]
+      : []
+  );
+}
@@ -0,0 +1,132 @@
+// src/utils/exportTransitions.ts
+import { TransitionType } from '../types/EditDecision';
+import type { ExportEditDecision } from './xmlGenerators';
+
+/**
+ * Where a transition sits relative to the cut it covers
+ */
+export type TransitionAlignment = 'center' | 'start' | 'end';
+
+/**
+ * A clip on one track, in sequence frames
+ */
+export interface TransitionClip {
+  recordIn: number;
+  recordOut: number;
+  sourceIn: number;
+  /** Length of the source media in frames, if known */
+  sourceDuration?: number;
+}
+
+/**
+ * A transition onto a clip as the timeline asks for it, in sequence frames
+ */
+export interface TransitionRequest {
+  duration: number;
+  centerPoint: number;
+}
+
+/**
+ * A transition fitted to the media available on both sides of its cut
+ */
+export interface AlignedTransition {
+  /** Frame where the outgoing clip ends and the incoming clip starts */
+  cut: number;
+  /** First frame of the transition */
+  start: number;
+  /** Frame after the last frame of the transition */
+  end: number;
+  /** Frames before the cut, taken from the incoming clip's head handle */
+  before: number;
+  /** Frames after the cut, taken from the outgoing clip's tail handle */
+  after: number;
+  alignment: TransitionAlignment;
+}
+
+/** Transition length in seconds used when an edit does not give one */
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+
+/**
+ * Reads the transition onto an edit, if it has one
+ * @param edit The edit decision
+ * @returns Type, duration and center point in seconds, or null for a cut
+ */
+export function getEditTransition(
+  edit: ExportEditDecision
+): { type: TransitionType; duration: number; centerPoint: number } | null {
+  if (!edit.transitionType || edit.transitionType === TransitionType.CUT) return null;
+
+  return {
+    type: edit.transitionType,
+    duration: edit.transitionDuration ?? DEFAULT_TRANSITION_DURATION,
+    centerPoint: edit.transitionCenter ?? edit.time
+  };
+}
+
+/**
+ * Fits transitions to the handles of the clips they join
+ *
+ * A transition is centered on, starts at or ends at its cut, depending on
+ * where its center point falls; anything in between is centered, as the NLE
+ * formats only express those three alignments. It is then shortened until the
+ * incoming clip has enough media before its in point, the outgoing clip has
+ * enough media after its out point (when the source duration is known), and
+ * every clip keeps at least one frame outside its transitions.
+ * @param clips Clips of one track in timeline order
+ * @param requests The transition onto each clip, by index; the first is ignored
+ * @returns The fitted transition onto each clip, or null for a cut
+ */
+export function alignTransitions(
+  clips: TransitionClip[],
+  requests: Array<TransitionRequest | null | undefined>
+): Array<AlignedTransition | null> {
+  let previousAfter = 0;
+
+  return clips.map((clip: TransitionClip, index: number) => {
+    const request = requests[index];
+    const previous = clips[index - 1];
+    const duration = request ? Math.max(0, Math.round(request.duration)) : 0;
+    if (!request || !previous || previous.recordOut !== clip.recordIn || duration === 0) {
+      previousAfter = 0;
+      return null;
+    }
+
+    const cut = clip.recordIn;
+    const requestedBefore = cut - (request.centerPoint - Math.floor(duration / 2));
+
+    const maxBefore = Math.max(0, Math.min(
+      clip.sourceIn,
+      previous.recordOut - previous.recordIn - previousAfter - 1
+    ));
+    const outgoingSourceOut = previous.sourceIn + previous.recordOut - previous.recordIn;
+    const maxAfter = Math.max(0, Math.min(
+      clip.recordOut - clip.recordIn - 1,
+      previous.sourceDuration !== undefined ? previous.sourceDuration - outgoingSourceOut : Infinity
+    ));
+
+    let before: number;
+    let after: number;
+    let alignment: TransitionAlignment;
+    if (requestedBefore <= 0) {
+      alignment = 'start';
+      before = 0;
+      after = Math.min(duration, maxAfter);
+    } else if (requestedBefore >= duration) {
+      alignment = 'end';
+      before = Math.min(duration, maxBefore);
+      after = 0;
+    } else {
+      // Shorten from both sides so the cut stays in the middle, dropping it if one side is empty
+      const fitted = Math.min(duration, 2 * maxBefore + 1, 2 * maxAfter);
+      const length = fitted > 1 ? fitted : 0;
+      alignment = 'center';
+      before = Math.floor(length / 2);
+      after = length - before;
+    }
+
+    previousAfter = after;
+    if (before + after === 0) return null;
+
+    return { cut, start: cut - before, end: cut + after, before, after, alignment };
+  });
+}
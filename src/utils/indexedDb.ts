@@ -0,0 +1,26 @@
+// src/utils/indexedDb.ts
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param request The request
+ * @returns Promise resolving to the request result
+ */
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction has committed
+ * @param transaction The transaction
+ * @returns Promise resolving when the transaction completes
+ */
+export function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
@@ -0,0 +1,140 @@
+// src/utils/lyricAlignment.ts
+import { SubtitleEntry } from '../plugins/pluginInterfaces';
+import { Beat, Section } from '../types/AudioAnalysis';
+import { getBeatAccent, getBeatsPerBar } from './audioSync';
+import { isDownbeat, MarkerAnalysis } from './exportMarkers';
+
+/**
+ * Lyric-to-beat alignment
+ *
+ * Lyric lines are timed by hand or by a transcription, so they start a little
+ * before or after the beat the singer comes in on. Each line is moved onto
+ * the nearest beat (or downbeat), then held until the phrase ends: the next
+ * section, or the next phrase of labelled beats, whichever comes first, but
+ * never past the start of the next line.
+ */
+
+/**
+ * Options for aligning lyrics
+ */
+export interface LyricAlignmentOptions {
+  /** Which beats lines start and end on (default: 'beat') */
+  snapTo?: 'beat' | 'downbeat';
+  /** Whether lines are held until the end of their phrase (default: true) */
+  stretch?: boolean;
+  /** Bars in a phrase of labelled beats (default: 4) */
+  barsPerPhrase?: number;
+}
+
+/** Seconds two times may differ by and still count as the same */
+const EPSILON = 1e-6;
+
+/**
+ * Snaps lyric lines to the beat and stretches them to phrase boundaries
+ *
+ * Lines that would land on the same beat are kept apart, one beat after the
+ * other, and every line keeps at least one beat. Without beats the lines are
+ * returned unchanged.
+ * @param entries Lyric lines, with times in seconds
+ * @param analysis Audio analysis of the music track
+ * @param options How to align
+ * @returns New entries in time order; the input is left as it is
+ */
+export function alignLyricsToBeats(
+  entries: SubtitleEntry[],
+  analysis: MarkerAnalysis | null | undefined,
+  options: LyricAlignmentOptions = {}
+): SubtitleEntry[] {
+  const lines = [...entries]
+    .sort((a: SubtitleEntry, b: SubtitleEntry) => a.startTime - b.startTime)
+    .map((entry: SubtitleEntry) => ({ ...entry }));
+  const beats = analysis?.beats?.beats ?? [];
+  const grid = beatGrid(beats, analysis?.tempo?.timeSignature, options.snapTo ?? 'beat');
+  if (grid.length === 0) return lines;
+
+  lines.forEach((line: SubtitleEntry, i: number) => {
+    let start = nearest(grid, line.startTime);
+    const previous = lines[i - 1];
+    if (previous && start <= previous.startTime + EPSILON) {
+      start = after(grid, previous.startTime) ?? previous.startTime;
+    }
+    let end = nearest(grid, line.endTime);
+    if (end <= start + EPSILON) {
+      end = after(grid, start) ?? start + (line.endTime - line.startTime);
+    }
+    line.startTime = start;
+    line.endTime = end;
+  });
+
+  const boundaries =
+    options.stretch === false
+      ? []
+      : phraseBoundaries(analysis?.sections?.sections ?? [], beats, options.barsPerPhrase ?? 4);
+
+  lines.forEach((line: SubtitleEntry, i: number) => {
+    const next = lines[i + 1]?.startTime ?? Infinity;
+    // Hold the line to the end of its phrase
+    const phraseEnd = boundaries.find((time: number) => time >= line.endTime - EPSILON);
+    if (phraseEnd !== undefined && phraseEnd > line.endTime) {
+      line.endTime = phraseEnd;
+    }
+    // A line gives way to the next, unless they share a start the grid couldn't separate
+    if (next > line.startTime + EPSILON) {
+      line.endTime = Math.min(line.endTime, next);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Lists the times lines may be snapped to
+ */
+function beatGrid(
+  beats: Beat[],
+  timeSignature: { numerator: number; denominator?: number } | undefined,
+  snapTo: 'beat' | 'downbeat'
+): number[] {
+  const times = beats.map((beat: Beat) => beat.time).sort((a: number, b: number) => a - b);
+  if (snapTo === 'beat') return times;
+
+  const beatsPerBar = Math.max(1, getBeatsPerBar(timeSignature));
+  const downbeats = beats
+    .filter((beat: Beat, index: number) => isDownbeat(beat, index, beatsPerBar))
+    .map((beat: Beat) => beat.time)
+    .sort((a: number, b: number) => a - b);
+  // Too few bars to align to, so fall back on the beats
+  return downbeats.length >= 2 ? downbeats : times;
+}
+
+/**
+ * Lists where phrases end: the edges of each section and, when the beats are
+ * labelled with bars, the first downbeat of each phrase
+ */
+function phraseBoundaries(sections: Section[], beats: Beat[], barsPerPhrase: number): number[] {
+  const times = [
+    ...sections.flatMap((section: Section) => [section.start, section.start + section.duration]),
+    ...beats
+      .filter((beat: Beat) => getBeatAccent(beat, barsPerPhrase) === 2)
+      .map((beat: Beat) => beat.time),
+  ];
+  return times.sort((a: number, b: number) => a - b);
+}
+
+/**
+ * Finds the time in a sorted grid nearest to a time
+ */
+function nearest(grid: number[], time: number): number {
+  return grid.reduce(
+    (best: number, candidate: number) =>
+      Math.abs(candidate - time) < Math.abs(best - time) ? candidate : best,
+    grid[0]
+  );
+}
+
+/**
+ * Finds the first time in a sorted grid after a time
+ */
+function after(grid: number[], time: number): number | undefined {
+  return grid.find((candidate: number) => candidate > time + EPSILON);
+}
@@ -0,0 +1,370 @@
+// src/utils/multicamSync.ts
+import { AlignmentInfo, SyncPoint } from '../types/EditDecision';
+import { AudioSyncMethod, AudioSyncSettings } from '../types/ProjectSettings';
+import { computeOnsetEnvelope } from './beatTracking';
+import { fft } from './spectrum';
+
+/**
+ * Multi-camera sync by audio cross-correlation
+ *
+ * A performance is filmed to playback of the song, so each camera's scratch
+ * audio holds the song, starting wherever the playback was when the camera
+ * rolled. That point is the peak of the cross-correlation of the clip's audio
+ * with the master track. GCC-PHAT whitens the cross-spectrum before looking
+ * for it, so every frequency counts the same and room echo or a tinny camera
+ * mic don't smear the peak; envelope correlation compares onset envelopes
+ * instead, which still works when the mic hardly hears the playback's tone.
+ *
+ * Camera clocks run a little fast or slow, so a long take slides out of sync.
+ * Windows along the clip are aligned again near the global offset, and a line
+ * fitted through their offsets gives the drift.
+ */
+
+/** Sample rate audio is reduced to before it is correlated */
+export const SYNC_SAMPLE_RATE = 8000;
+
+/**
+ * How two signals are correlated
+ */
+export type CorrelationMethod = 'gcc-phat' | 'envelope';
+
+/**
+ * Mono audio and its sample rate
+ */
+export interface AudioSignal {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Where a clip lines up with the master
+ */
+export interface OffsetEstimate {
+  /** Time in the master at which the clip starts, in seconds; negative if the clip starts first */
+  offset: number;
+  /** How clearly the best match stands out from the next best (0.0 to 1.0) */
+  confidence: number;
+}
+
+/**
+ * Options for estimating an offset
+ */
+export interface OffsetOptions {
+  method?: CorrelationMethod;
+  /** Earliest offset considered in seconds (default: the clip ending as the master starts) */
+  minOffset?: number;
+  /** Latest offset considered in seconds (default: the clip starting as the master ends) */
+  maxOffset?: number;
+  /** Whether to ignore rumble and hiss outside NOISE_BAND_HZ (default: false) */
+  noiseReduction?: boolean;
+}
+
+/** How each sync method correlates audio; there is no model for ML matching, so it uses GCC-PHAT */
+const CORRELATION_METHODS: Record<AudioSyncMethod, CorrelationMethod> = {
+  [AudioSyncMethod.WAVEFORM_PEAK]: 'gcc-phat',
+  [AudioSyncMethod.SPECTRAL_FINGERPRINT]: 'gcc-phat',
+  [AudioSyncMethod.ONSET_DETECTION]: 'envelope',
+  [AudioSyncMethod.ML_AUDIO_MATCH]: 'gcc-phat',
+};
+
+/** Frequencies in Hz kept when noise reduction is on */
+const NOISE_BAND_HZ: [number, number] = [150, 3400];
+/** Seconds either side of the best match that can't hold the next best */
+const PEAK_EXCLUSION_SECONDS = 0.1;
+/** Length in seconds of each window aligned to measure drift */
+const DRIFT_WINDOW_SECONDS = 4;
+/** Most windows aligned to measure drift */
+const MAX_SYNC_POINTS = 8;
+/** Fastest drift believed, in seconds per second; more means the windows matched the wrong place */
+const MAX_DRIFT = 0.005;
+
+/**
+ * Finds where a clip lines up with the master track
+ * @param master Master track, at SYNC_SAMPLE_RATE
+ * @param clip The clip's audio, at SYNC_SAMPLE_RATE
+ * @param options Correlation method and offset range
+ * @returns The offset, or a confidence of 0 if the signals are silent or too short
+ */
+export function estimateOffset(
+  master: Float32Array,
+  clip: Float32Array,
+  options: OffsetOptions = {}
+): OffsetEstimate {
+  const { method = 'gcc-phat', noiseReduction = false } = options;
+  const signals =
+    method === 'envelope' ? envelopes(master, clip) : { master, clip, rate: SYNC_SAMPLE_RATE };
+  if (signals.master.length === 0 || signals.clip.length === 0) {
+    return { offset: 0, confidence: 0 };
+  }
+
+  const correlation = crossCorrelate(
+    signals.master,
+    signals.clip,
+    method === 'gcc-phat',
+    noiseReduction && method === 'gcc-phat' ? NOISE_BAND_HZ : undefined,
+    signals.rate
+  );
+  const size = correlation.length;
+  const at = (lag: number) => correlation[(lag + size) % size];
+  const minLag = Math.max(
+    -(signals.clip.length - 1),
+    Math.ceil((options.minOffset ?? -Infinity) * signals.rate)
+  );
+  const maxLag = Math.min(
+    signals.master.length - 1,
+    Math.floor((options.maxOffset ?? Infinity) * signals.rate)
+  );
+  if (maxLag < minLag) return { offset: 0, confidence: 0 };
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (at(lag) > at(best)) best = lag;
+  }
+  if (!(at(best) > 0)) return { offset: 0, confidence: 0 };
+
+  const exclusion = Math.max(1, Math.round(PEAK_EXCLUSION_SECONDS * signals.rate));
+  let runnerUp = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (Math.abs(lag - best) > exclusion) runnerUp = Math.max(runnerUp, at(lag));
+  }
+
+  // Refine the peak between samples by parabolic interpolation
+  const left = at(best - 1);
+  const right = at(best + 1);
+  const curvature = left - 2 * at(best) + right;
+  const shift =
+    curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / curvature)) : 0;
+
+  return {
+    offset: (best + shift) / signals.rate,
+    confidence: Math.max(0, Math.min(1, 1 - runnerUp / at(best))),
+  };
+}
+
+/**
+ * Aligns a clip's scratch audio to the master track
+ *
+ * The global offset is searched for across the whole master. Sync points are
+ * then found by aligning windows along the clip within `maxTimeOffset` of it,
+ * and with drift compensation on, a line fitted through the confident ones
+ * gives the drift and the offset at the start of the clip.
+ * @param master Master track, usually the song
+ * @param clip The clip's scratch audio
+ * @param settings Project sync settings
+ * @returns Alignment whose globalOffset is the time in the master at which the
+ *   clip starts (positive when the playback was already running) and whose
+ *   drift is the seconds that offset grows by per second of clip
+ */
+export function alignClipToMaster(
+  master: AudioSignal,
+  clip: AudioSignal,
+  settings: Partial<AudioSyncSettings> = {}
+): AlignmentInfo {
+  const {
+    method = AudioSyncMethod.WAVEFORM_PEAK,
+    confidenceThreshold = 0.8,
+    maxTimeOffset = 5000,
+    driftCompensation = true,
+    applyNoiseReduction = false,
+  } = settings;
+  const correlationMethod = CORRELATION_METHODS[method] ?? 'gcc-phat';
+  const masterSamples = resample(master, SYNC_SAMPLE_RATE);
+  const clipSamples = resample(clip, SYNC_SAMPLE_RATE);
+  const options = { method: correlationMethod, noiseReduction: applyNoiseReduction };
+
+  const global = estimateOffset(masterSamples, clipSamples, options);
+  const masterDuration = masterSamples.length / SYNC_SAMPLE_RATE;
+  const clipDuration = clipSamples.length / SYNC_SAMPLE_RATE;
+  const search = maxTimeOffset / 1000;
+
+  // Windows spread evenly over the part of the clip the master covers
+  const first = Math.max(0, -global.offset);
+  const last = Math.min(clipDuration, masterDuration - global.offset) - DRIFT_WINDOW_SECONDS;
+  const count =
+    global.confidence > 0 && last >= first
+      ? Math.min(MAX_SYNC_POINTS, Math.floor((last - first) / DRIFT_WINDOW_SECONDS) + 1)
+      : 0;
+  const syncPoints: SyncPoint[] = Array.from({ length: count }, (_: unknown, i: number) => {
+    const start = count > 1 ? first + ((last - first) * i) / (count - 1) : first;
+    const masterStart = Math.max(0, start + global.offset - search);
+    const masterEnd = Math.min(
+      masterDuration,
+      start + global.offset + DRIFT_WINDOW_SECONDS + search
+    );
+    const local = estimateOffset(
+      slice(masterSamples, masterStart, masterEnd),
+      slice(clipSamples, start, start + DRIFT_WINDOW_SECONDS),
+      { ...options, minOffset: 0, maxOffset: masterEnd - masterStart - DRIFT_WINDOW_SECONDS }
+    );
+    const videoPosition = start + DRIFT_WINDOW_SECONDS / 2;
+    return {
+      id: `sync-${i + 1}`,
+      audioPosition: masterStart + local.offset + DRIFT_WINDOW_SECONDS / 2,
+      videoPosition,
+      confidence: local.confidence,
+    };
+  });
+
+  const fit = driftCompensation
+    ? fitDrift(
+        syncPoints.filter((point: SyncPoint) => (point.confidence ?? 0) >= confidenceThreshold)
+      )
+    : null;
+
+  return {
+    syncPoints,
+    globalOffset: fit ? fit.offset : global.offset,
+    confidence: global.confidence,
+    drift: fit ? fit.drift : 0,
+    maintainSyncByTimeStretch: driftCompensation,
+    metadata: { method: correlationMethod },
+  };
+}
+
+/**
+ * Fits a line through the offsets of sync points, weighted by confidence
+ * @returns The offset at the start of the clip and the drift, or null if the
+ *   points are too few, too close together or drift implausibly fast
+ */
+function fitDrift(points: SyncPoint[]): { offset: number; drift: number } | null {
+  if (points.length < 2) return null;
+
+  let weight = 0;
+  let meanX = 0;
+  let meanY = 0;
+  points.forEach((point: SyncPoint) => {
+    const w = point.confidence ?? 1;
+    weight += w;
+    meanX += w * Number(point.videoPosition);
+    meanY += w * (Number(point.audioPosition) - Number(point.videoPosition));
+  });
+  meanX /= weight;
+  meanY /= weight;
+
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((point: SyncPoint) => {
+    const w = point.confidence ?? 1;
+    const x = Number(point.videoPosition) - meanX;
+    covariance += w * x * (Number(point.audioPosition) - Number(point.videoPosition) - meanY);
+    variance += w * x * x;
+  });
+  if (variance < DRIFT_WINDOW_SECONDS ** 2 / 4 / points.length) return null;
+
+  const drift = covariance / variance;
+  if (Math.abs(drift) > MAX_DRIFT) return null;
+  return { offset: meanY - drift * meanX, drift };
+}
+
+/**
+ * Cross-correlates two signals through the FFT
+ * @param whiten Whether to keep only the phase of the cross-spectrum (GCC-PHAT)
+ * @param band Frequencies in Hz outside which the cross-spectrum is dropped
+ * @param sampleRate Sample rate of the signals, for the band
+ * @returns Correlation by lag in samples, with negative lags wrapped to the end
+ */
+function crossCorrelate(
+  master: Float32Array,
+  clip: Float32Array,
+  whiten: boolean,
+  band: [number, number] | undefined,
+  sampleRate: number
+): Float64Array {
+  let size = 1;
+  while (size < master.length + clip.length) size <<= 1;
+
+  const masterRe = new Float64Array(size);
+  const masterIm = new Float64Array(size);
+  const clipRe = new Float64Array(size);
+  const clipIm = new Float64Array(size);
+  masterRe.set(master);
+  clipRe.set(clip);
+  fft(masterRe, masterIm);
+  fft(clipRe, clipIm);
+
+  // Multiply by the conjugate of the clip's spectrum, then conjugate again so
+  // the forward FFT computes the inverse
+  for (let k = 0; k < size; k++) {
+    let re = masterRe[k] * clipRe[k] + masterIm[k] * clipIm[k];
+    let im = masterIm[k] * clipRe[k] - masterRe[k] * clipIm[k];
+    const hz = (Math.min(k, size - k) * sampleRate) / size;
+    if (band && (hz < band[0] || hz > band[1])) {
+      re = 0;
+      im = 0;
+    } else if (whiten) {
+      const magnitude = Math.hypot(re, im);
+      re = magnitude > 1e-12 ? re / magnitude : 0;
+      im = magnitude > 1e-12 ? im / magnitude : 0;
+    }
+    masterRe[k] = re;
+    masterIm[k] = -im;
+  }
+  fft(masterRe, masterIm);
+
+  for (let k = 0; k < size; k++) masterRe[k] /= size;
+  return masterRe;
+}
+
+/**
+ * Resamples a signal, averaging over each output sample when reducing the rate
+ */
+function resample(signal: AudioSignal, sampleRate: number): Float32Array {
+  const { samples } = signal;
+  if (signal.sampleRate === sampleRate) return samples;
+
+  const step = signal.sampleRate / sampleRate;
+  const output = new Float32Array(Math.floor(samples.length / step));
+  if (step <= 1) {
+    for (let i = 0; i < output.length; i++) {
+      const position = i * step;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, samples.length - 1);
+      output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+    }
+    return output;
+  }
+
+  const sums = new Float64Array(samples.length + 1);
+  for (let i = 0; i < samples.length; i++) sums[i + 1] = sums[i] + samples[i];
+  for (let i = 0; i < output.length; i++) {
+    const from = Math.max(0, Math.floor((i - 0.5) * step));
+    const to = Math.max(from + 1, Math.min(samples.length, Math.floor((i + 0.5) * step)));
+    output[i] = (sums[to] - sums[from]) / (to - from);
+  }
+  return output;
+}
+
+/**
+ * Cuts the samples between two times in seconds out of a signal at SYNC_SAMPLE_RATE
+ */
+function slice(samples: Float32Array, start: number, end: number): Float32Array {
+  return samples.subarray(
+    Math.max(0, Math.round(start * SYNC_SAMPLE_RATE)),
+    Math.min(samples.length, Math.round(end * SYNC_SAMPLE_RATE))
+  );
+}
+
+/**
+ * Computes the onset envelopes of two signals at SYNC_SAMPLE_RATE, less their means
+ */
+function envelopes(
+  master: Float32Array,
+  clip: Float32Array
+): { master: Float32Array; clip: Float32Array; rate: number } {
+  const masterEnvelope = computeOnsetEnvelope(master, SYNC_SAMPLE_RATE);
+  return {
+    master: centered(masterEnvelope.values),
+    clip: centered(computeOnsetEnvelope(clip, SYNC_SAMPLE_RATE).values),
+    rate: masterEnvelope.frameRate,
+  };
+}
+
+/**
+ * Subtracts a series' mean, so correlation rewards shape rather than overlap
+ */
+function centered(values: Float32Array): Float32Array {
+  let mean = 0;
+  for (let i = 0; i < values.length; i++) mean += values[i];
+  mean /= values.length || 1;
+  return values.map((value: number) => value - mean);
+}
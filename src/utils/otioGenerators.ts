@@ -0,0 +1,290 @@
+// src/utils/otioGenerators.ts
+import {
+  EditDecisionList,
+  MatchedClip,
+  MarkerType,
+  TimelineCutPoint,
+  Transition,
+  TransitionType,
+  TrackType
+} from '../types/EditDecision';
+import { VideoMetadata } from '../types/video-types';
+import {
+  FrameRate,
+  frameRateToFps,
+  resolveFrameRate,
+  secondsToFrames,
+  timecodeToFrames,
+  timecodeToSeconds
+} from './timecode';
+import { buildMediaUrl } from './xmlGenerators';
+import { alignTransitions } from './exportTransitions';
+
+/**
+ * Options for writing an OpenTimelineIO timeline
+ */
+export interface OTIOExportOptions {
+  /** Timeline name (default: the EDL name) */
+  title?: string;
+  /** Timecode of the first frame of the timeline (default: 01:00:00:00) */
+  recordStart?: string;
+  /** Folder the editor keeps the media in, used to build file URLs */
+  mediaRoot?: string;
+  /** Source video metadata keyed by source ID, used for each clip's available range */
+  videoMetadata?: Record<string, VideoMetadata>;
+}
+
+/**
+ * A serialized OTIO object
+ */
+type OTIOObject = Record<string, unknown>;
+
+/** OTIO marker colors for each marker type */
+const MARKER_COLORS: Record<MarkerType, string> = {
+  [MarkerType.IN]: 'GREEN',
+  [MarkerType.OUT]: 'GREEN',
+  [MarkerType.MARKER]: 'RED',
+  [MarkerType.CHAPTER]: 'BLUE',
+  [MarkerType.COMMENT]: 'PURPLE',
+  [MarkerType.SYNC]: 'YELLOW'
+};
+
+/** Marker colors OTIO defines */
+const OTIO_COLORS = [
+  'PINK', 'RED', 'ORANGE', 'YELLOW', 'GREEN', 'CYAN', 'BLUE', 'PURPLE', 'MAGENTA', 'BLACK', 'WHITE'
+];
+
+/**
+ * Builds an OTIO RationalTime
+ * @param value Time in frames
+ * @param fps Frames per second
+ * @returns RationalTime.1 object
+ */
+function rationalTime(value: number, fps: number): OTIOObject {
+  return { OTIO_SCHEMA: 'RationalTime.1', rate: fps, value };
+}
+
+/**
+ * Builds an OTIO TimeRange
+ * @param start Start in frames
+ * @param duration Duration in frames
+ * @param fps Frames per second
+ * @returns TimeRange.1 object
+ */
+function timeRange(start: number, duration: number, fps: number): OTIOObject {
+  return {
+    OTIO_SCHEMA: 'TimeRange.1',
+    duration: rationalTime(duration, fps),
+    start_time: rationalTime(start, fps)
+  };
+}
+
+/**
+ * Maps a transition to the OTIO transition type
+ * @param transition The transition
+ * @returns SMPTE_Dissolve for dissolves, dips and fades, otherwise Custom_Transition
+ */
+function otioTransitionType(transition: Transition): string {
+  switch (transition.type) {
+    case TransitionType.DISSOLVE:
+    case TransitionType.DIP_TO_BLACK:
+    case TransitionType.DIP_TO_WHITE:
+    case TransitionType.FADE_IN:
+    case TransitionType.FADE_OUT:
+      return 'SMPTE_Dissolve';
+    default:
+      return 'Custom_Transition';
+  }
+}
+
+/**
+ * Builds an OTIO marker from a timeline cut point
+ * @param cutPoint The cut point
+ * @param toFrames Converts a Timecode value to frames
+ * @param fps Timeline frames per second
+ * @returns Marker.2 object
+ */
+function createMarker(
+  cutPoint: TimelineCutPoint,
+  toFrames: (value: TimelineCutPoint['position']) => number,
+  fps: number
+): OTIOObject {
+  const color = cutPoint.color?.toUpperCase();
+
+  return {
+    OTIO_SCHEMA: 'Marker.2',
+    metadata: {
+      cineflux: {
+        id: cutPoint.id,
+        type: cutPoint.type,
+        ...(cutPoint.confidence !== undefined ? { confidence: cutPoint.confidence } : {})
+      }
+    },
+    name: cutPoint.label ?? '',
+    color: color && OTIO_COLORS.includes(color) ? color : MARKER_COLORS[cutPoint.type] ?? 'RED',
+    marked_range: timeRange(toFrames(cutPoint.position), 0, fps),
+    comment: cutPoint.metadata?.comment ?? ''
+  };
+}
+
+/**
+ * Generates an OpenTimelineIO (.otio) timeline for DaVinci Resolve and other OTIO-capable tools
+ *
+ * Each track of the EDL becomes a Track of Clips with ExternalReferences, with
+ * Gaps filling holes between clips. Transitions sit between the clips they join,
+ * with offsets measured from the cut and fitted to the handles either side of
+ * it, and cut points become markers on the
+ * timeline stack. Numeric Timecode values in the EDL are read as seconds.
+ * @param edl The edit decision list
+ * @param options Naming, start timecode and media options
+ * @returns OTIO JSON text
+ */
+export function generateOTIO(edl: EditDecisionList, options: OTIOExportOptions = {}): string {
+  const rate: FrameRate = resolveFrameRate(edl.framerate);
+  const fps = frameRateToFps(rate);
+  const toFrames = (value: MatchedClip['timelineInPoint']) =>
+    secondsToFrames(timecodeToSeconds(value, rate), rate);
+
+  // Group clips into tracks: video tracks first, then audio, each by track number
+  const tracks = new Map<string, MatchedClip[]>();
+  edl.clips
+    .filter(clip => clip.enabled !== false)
+    .filter(clip => clip.trackType === TrackType.VIDEO || clip.trackType === TrackType.AUDIO)
+    .forEach(clip => {
+      const key = `${clip.trackType === TrackType.VIDEO ? 'V' : 'A'}${clip.trackNumber || 1}`;
+      tracks.set(key, [...(tracks.get(key) ?? []), clip]);
+    });
+
+  const trackKeys = Array.from(tracks.keys()).sort((a, b) =>
+    a[0] === b[0] ? parseInt(a.slice(1), 10) - parseInt(b.slice(1), 10) : a[0] === 'V' ? -1 : 1
+  );
+
+  const transitionsByIncoming = new Map<string, Transition>();
+  edl.transitions.forEach(transition => transitionsByIncoming.set(transition.incomingClipId, transition));
+
+  const otioTracks = trackKeys.map(key => {
+    // Overlapping clips are trimmed so the track stays sequential
+    const placed: Array<{ clip: MatchedClip; recordIn: number; recordOut: number; sourceIn: number }> = [];
+    let position = 0;
+    (tracks.get(key) ?? [])
+      .map(clip => ({ clip, recordIn: toFrames(clip.timelineInPoint), recordOut: toFrames(clip.timelineOutPoint) }))
+      .sort((a, b) => a.recordIn - b.recordIn)
+      .forEach(({ clip, recordIn, recordOut }) => {
+        const start = Math.max(recordIn, position);
+        if (recordOut <= start) return;
+
+        placed.push({ clip, recordIn: start, recordOut, sourceIn: toFrames(clip.sourceInPoint) + (start - recordIn) });
+        position = recordOut;
+      });
+
+    // Transitions overlap the clips they join, so they are fitted to the handles either side of the cut
+    const transitions = placed.map(({ clip }, index) => {
+      const transition = transitionsByIncoming.get(clip.id);
+      return transition && transition.type !== TransitionType.CUT && placed[index - 1]?.clip.id === transition.outgoingClipId
+        ? transition
+        : null;
+    });
+    const aligned = alignTransitions(
+      placed.map(({ clip, recordIn, recordOut, sourceIn }) => {
+        const sourceDuration = options.videoMetadata?.[clip.sourceId]?.duration ?? clip.metadata?.sourceDuration;
+        return {
+          recordIn,
+          recordOut,
+          sourceIn,
+          sourceDuration: sourceDuration ? secondsToFrames(sourceDuration, rate) : undefined
+        };
+      }),
+      transitions.map(transition => transition && {
+        duration: toFrames(transition.duration),
+        centerPoint: toFrames(transition.centerPoint)
+      })
+    );
+
+    const children: OTIOObject[] = [];
+    position = 0;
+
+    placed.forEach(({ clip, recordIn, recordOut, sourceIn }, index) => {
+      if (recordIn > position) {
+        children.push({
+          OTIO_SCHEMA: 'Gap.1',
+          metadata: {},
+          name: '',
+          source_range: timeRange(0, recordIn - position, fps),
+          effects: [],
+          markers: [],
+          enabled: true
+        });
+      }
+
+      const transition = transitions[index];
+      const fitted = aligned[index];
+      if (transition && fitted) {
+        children.push({
+          OTIO_SCHEMA: 'Transition.1',
+          metadata: { cineflux: { id: transition.id, type: transition.type } },
+          name: transition.name ?? '',
+          in_offset: rationalTime(fitted.before, fps),
+          out_offset: rationalTime(fitted.after, fps),
+          transition_type: otioTransitionType(transition)
+        });
+      }
+
+      const name: string = clip.metadata?.name ?? clip.sourceId;
+      const sourceDuration = options.videoMetadata?.[clip.sourceId]?.duration;
+
+      children.push({
+        OTIO_SCHEMA: 'Clip.2',
+        metadata: { cineflux: { clipId: clip.id, sourceId: clip.sourceId } },
+        name,
+        source_range: timeRange(sourceIn, recordOut - recordIn, fps),
+        effects: [],
+        markers: [],
+        enabled: true,
+        media_references: {
+          DEFAULT_MEDIA: {
+            OTIO_SCHEMA: 'ExternalReference.1',
+            metadata: {},
+            name,
+            available_range: sourceDuration ? timeRange(0, secondsToFrames(sourceDuration, rate), fps) : null,
+            available_image_bounds: null,
+            target_url: buildMediaUrl(name, options.mediaRoot)
+          }
+        },
+        active_media_reference_key: 'DEFAULT_MEDIA'
+      });
+
+      position = recordOut;
+    });
+
+    return {
+      OTIO_SCHEMA: 'Track.1',
+      metadata: {},
+      name: key,
+      source_range: null,
+      effects: [],
+      markers: [],
+      enabled: true,
+      children,
+      kind: key[0] === 'V' ? 'Video' : 'Audio'
+    };
+  });
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    metadata: {},
+    name: options.title ?? edl.name,
+    global_start_time: rationalTime(timecodeToFrames(options.recordStart ?? '01:00:00:00', rate), fps),
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      metadata: {},
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: edl.cutPoints.map(cutPoint => createMarker(cutPoint, toFrames, fps)),
+      enabled: true,
+      children: otioTracks
+    }
+  };
+
+  return JSON.stringify(timeline, null, 4);
+}
@@ -0,0 +1,580 @@
+// src/utils/projectFile.ts
+import type { AppState, EditDecision } from '../types/consolidated';
+import { EditDecisionList, MatchedClip, Transition, TransitionType, TrackType } from '../types/EditDecision';
+import { createEDLFromEditDecisions, createEditDecisionsFromEDL } from './edlGenerators';
+import type { ExportEditDecision } from './xmlGenerators';
+import { hashFile } from './contentHash';
+import { mediaKey, PersistedWorkflowState } from './projectSnapshot';
+
+/**
+ * The portable .cineflux project file
+ *
+ * A project file is a JSON document holding everything needed to reopen a
+ * project on another machine except the media itself. Media is referenced by
+ * its path relative to the folder it was added from, and by a content hash so
+ * the right files can be found again whatever they are called.
+ */
+
+/** File extension of project files */
+export const PROJECT_FILE_EXTENSION = '.cineflux';
+
+/** Schema version written by this build */
+export const PROJECT_FILE_VERSION = 2;
+
+/**
+ * What a media file is used for in the project
+ */
+export type ProjectMediaRole = 'music' | 'video' | 'raw-video';
+
+const MEDIA_ROLES: ProjectMediaRole[] = ['music', 'video', 'raw-video'];
+
+/**
+ * A media file referenced by a project file
+ */
+export interface ProjectFileMedia {
+  /** ID the project's edit decisions use for the file */
+  id: string;
+  role: ProjectMediaRole;
+  name: string;
+  /** Path relative to the folder the file was added from */
+  path: string;
+  type: string;
+  size: number;
+  /** SHA-256 of the file's content, as hashFile works it out for the analysis cache */
+  hash: string;
+  /** Other fields of the media entry, such as duration and dimensions */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A .cineflux project file
+ */
+export interface ProjectFile {
+  format: 'cineflux';
+  version: number;
+  /** ISO 8601 time the file was written */
+  savedAt: string;
+  name: string;
+  settings: AppState['project']['settings'];
+  exportSettings: AppState['export']['settings'];
+  media: ProjectFileMedia[];
+  /** Analysis results, so the media does not need analyzing again */
+  analysis: {
+    audio: AppState['analysis']['audio'];
+    video: AppState['analysis']['video'];
+    /** Alignment of each raw video to the music track, by media ID */
+    alignments: NonNullable<AppState['analysis']['alignments']>;
+  };
+  /** The edit, with video clips whose source IDs are media IDs */
+  edl: EditDecisionList;
+}
+
+/**
+ * Upgrades a project file from one schema version to the next
+ */
+export type ProjectFileMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the schema version they upgrade from
+ *
+ * When the schema changes, bump PROJECT_FILE_VERSION and add the migration
+ * from the previous version here, so older files keep opening.
+ */
+export const PROJECT_FILE_MIGRATIONS: Record<number, ProjectFileMigration> = {
+  // Version 2 keeps the audio sync of the raw videos
+  1: (data: Record<string, unknown>) => ({
+    ...data,
+    analysis: { ...(isRecord(data.analysis) ? data.analysis : {}), alignments: {} }
+  })
+};
+
+/**
+ * Error thrown when a project file cannot be read
+ */
+export class ProjectFileError extends Error {
+  /** Path of the offending field, such as `media[2].hash`, or '' for the whole file */
+  field: string;
+
+  constructor(field: string, message: string) {
+    super(field ? `Invalid project file: ${field} ${message}` : `Invalid project file: ${message}`);
+    this.name = 'ProjectFileError';
+    this.field = field;
+  }
+}
+
+/**
+ * Options for writing a project file
+ */
+export interface CreateProjectFileOptions {
+  /** Hashes media content (default: hashFile) */
+  hash?: (file: File) => Promise<string>;
+  /** Time recorded as the save time (default: now) */
+  savedAt?: Date;
+}
+
+/**
+ * The edit decision shape EditingStep keeps in WorkflowContext
+ */
+interface WorkflowEditDecision {
+  time: number;
+  clipIndex: number;
+  videoTime: number;
+  duration: number;
+  transition: string;
+}
+
+/** Transition names used by EditingStep, by transition type */
+const WORKFLOW_TRANSITIONS: Record<string, TransitionType> = {
+  dissolve: TransitionType.DISSOLVE,
+  fade: TransitionType.DIP_TO_BLACK,
+  wipe: TransitionType.WIPE
+};
+
+/**
+ * Names a transition the way EditingStep does
+ * @param type Transition type
+ * @returns 'dissolve', 'fade', 'wipe' or 'cut'
+ */
+function workflowTransition(type: TransitionType | undefined): string {
+  switch (type) {
+    case TransitionType.DISSOLVE:
+      return 'dissolve';
+    case TransitionType.WIPE:
+      return 'wipe';
+    case TransitionType.FADE_IN:
+    case TransitionType.FADE_OUT:
+    case TransitionType.DIP_TO_BLACK:
+    case TransitionType.DIP_TO_WHITE:
+      return 'fade';
+    default:
+      return 'cut';
+  }
+}
+
+/**
+ * Works out the path a media file is referenced by
+ * @param file The media file
+ * @returns The path relative to the folder it was picked or dropped from, or its name
+ */
+function mediaPath(file: File): string {
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\//, '');
+}
+
+/**
+ * Converts an edit decision from WorkflowContext into the shape the exporters use
+ * @param decision Edit decision in either shape
+ * @param videos The project's video files, which `clipIndex` indexes
+ * @returns The decision, or null if its clip no longer exists
+ */
+function toExportDecision(
+  decision: WorkflowEditDecision | ExportEditDecision,
+  videos: Array<{ id: string }>
+): ExportEditDecision | null {
+  if ('videoId' in decision) return decision;
+
+  const video = videos[decision.clipIndex];
+  if (!video) return null;
+
+  return {
+    time: decision.time,
+    videoId: video.id,
+    start: decision.videoTime ?? 0,
+    duration: decision.duration,
+    transitionType: WORKFLOW_TRANSITIONS[decision.transition] ?? TransitionType.CUT
+  };
+}
+
+/**
+ * Writes the current project as a project file
+ * @param state WorkflowContext state
+ * @param options Hash function and save time
+ * @returns The project file
+ */
+export async function createProjectFile(
+  state: AppState,
+  options: CreateProjectFileOptions = {}
+): Promise<ProjectFile> {
+  const hash = options.hash ?? hashFile;
+  const { settings, musicFile, videoFiles, rawVideoFiles } = state.project;
+
+  const entries: Array<{ role: ProjectMediaRole; entry: Record<string, unknown> }> = [
+    ...(musicFile ? [{ role: 'music' as const, entry: { id: 'music', ...musicFile } }] : []),
+    ...videoFiles.map((entry) => ({ role: 'video' as const, entry: { ...entry } })),
+    ...rawVideoFiles.map((entry) => ({ role: 'raw-video' as const, entry: { ...entry } }))
+  ];
+
+  const media: ProjectFileMedia[] = [];
+  const files: Record<string, File> = {};
+  for (const { role, entry } of entries) {
+    const { file, url: _url, id, name, size: _size, type: _type, ...metadata } = entry;
+    if (!(file instanceof File)) continue;
+
+    const mediaId = typeof id === 'string' ? id : `${role}_${media.length + 1}`;
+    files[mediaId] = file;
+    media.push({
+      id: mediaId,
+      role,
+      name: typeof name === 'string' ? name : file.name,
+      path: mediaPath(file),
+      type: file.type,
+      size: file.size,
+      hash: await hash(file),
+      metadata
+    });
+  }
+
+  const decisions = (state.edit.decisions as unknown as Array<WorkflowEditDecision | ExportEditDecision>)
+    .map((decision) => toExportDecision(decision, videoFiles))
+    .filter((decision): decision is ExportEditDecision => decision !== null);
+  const edl = createEDLFromEditDecisions(
+    decisions,
+    files,
+    musicFile?.file ?? null,
+    settings.exportFormat?.frameRate || 30
+  );
+  edl.name = settings.projectName;
+
+  // Alignments are kept for the raw videos whose files were written out
+  const rawMediaIds = new Set(
+    media.filter((entry: ProjectFileMedia) => entry.role === 'raw-video').map((entry: ProjectFileMedia) => entry.id)
+  );
+  const alignments = Object.fromEntries(
+    Object.entries(state.analysis.alignments ?? {}).filter(([id]) => rawMediaIds.has(id))
+  );
+
+  return {
+    format: 'cineflux',
+    version: PROJECT_FILE_VERSION,
+    savedAt: (options.savedAt ?? new Date()).toISOString(),
+    name: settings.projectName,
+    settings,
+    exportSettings: state.export.settings,
+    media,
+    analysis: {
+      audio: state.analysis.audio,
+      video: state.analysis.video,
+      alignments
+    },
+    edl
+  };
+}
+
+/**
+ * Writes a project file as JSON
+ * @param file The project file
+ * @returns JSON text
+ */
+export function serializeProjectFile(file: ProjectFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Returns whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, field: string): Record<string, unknown> {
+  if (!isRecord(value)) throw new ProjectFileError(field, 'must be an object');
+  return value;
+}
+
+function expectArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) throw new ProjectFileError(field, 'must be an array');
+  return value;
+}
+
+function expectString(value: unknown, field: string): string {
+  if (typeof value !== 'string') throw new ProjectFileError(field, 'must be a string');
+  return value;
+}
+
+function expectNumber(value: unknown, field: string, min: number = -Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ProjectFileError(field, 'must be a number');
+  }
+  if (value < min) throw new ProjectFileError(field, `must be at least ${min}`);
+  return value;
+}
+
+/**
+ * Checks a timeline position, which is seconds or a timecode string
+ */
+function expectTime(value: unknown, field: string): void {
+  if (typeof value === 'string') return;
+  expectNumber(value, field, 0);
+}
+
+/**
+ * Brings a project file up to the current schema version
+ * @param data Parsed project file
+ * @param migrations Migrations keyed by the version they upgrade from
+ * @param targetVersion Version to migrate to
+ * @returns The project file at the target version
+ */
+export function migrateProjectFile(
+  data: Record<string, unknown>,
+  migrations: Record<number, ProjectFileMigration> = PROJECT_FILE_MIGRATIONS,
+  targetVersion: number = PROJECT_FILE_VERSION
+): Record<string, unknown> {
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('version', 'must be a whole number of at least 1');
+  }
+  if (version > targetVersion) {
+    throw new ProjectFileError(
+      'version',
+      `is ${version}, but this version of CineFlux only reads up to version ${targetVersion}`
+    );
+  }
+
+  let migrated = data;
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new ProjectFileError('version', `is ${version}, which cannot be upgraded to ${version + 1}`);
+    }
+    version++;
+    migrated = { ...migrate(migrated), version };
+  }
+
+  return migrated;
+}
+
+/**
+ * Checks the media list of a project file
+ * @returns IDs of the media files
+ */
+function validateMedia(value: unknown): Map<string, ProjectMediaRole> {
+  const ids = new Map<string, ProjectMediaRole>();
+
+  expectArray(value, 'media').forEach((item: unknown, index: number) => {
+    const field = `media[${index}]`;
+    const media = expectRecord(item, field);
+
+    const id = expectString(media.id, `${field}.id`);
+    if (ids.has(id)) throw new ProjectFileError(`${field}.id`, `repeats the ID "${id}"`);
+
+    const role = expectString(media.role, `${field}.role`) as ProjectMediaRole;
+    if (!MEDIA_ROLES.includes(role)) {
+      throw new ProjectFileError(`${field}.role`, `must be one of ${MEDIA_ROLES.join(', ')}`);
+    }
+
+    expectString(media.name, `${field}.name`);
+    expectString(media.path, `${field}.path`);
+    expectString(media.type, `${field}.type`);
+    expectNumber(media.size, `${field}.size`, 0);
+    if (!/^[0-9a-f]{64}$/.test(expectString(media.hash, `${field}.hash`))) {
+      throw new ProjectFileError(`${field}.hash`, 'must be a SHA-256 digest in lowercase hex');
+    }
+    expectRecord(media.metadata, `${field}.metadata`);
+
+    ids.set(id, role);
+  });
+
+  return ids;
+}
+
+/**
+ * Checks the edit of a project file against its media
+ */
+function validateEDL(value: unknown, media: Map<string, ProjectMediaRole>): void {
+  const edl = expectRecord(value, 'edl');
+  expectString(edl.name, 'edl.name');
+  expectNumber(edl.framerate, 'edl.framerate', Number.MIN_VALUE);
+  expectArray(edl.cutPoints ?? [], 'edl.cutPoints');
+
+  const clipIds = new Set<string>();
+  expectArray(edl.clips, 'edl.clips').forEach((item: unknown, index: number) => {
+    const field = `edl.clips[${index}]`;
+    const clip = expectRecord(item, field);
+
+    clipIds.add(expectString(clip.id, `${field}.id`));
+    const sourceId = expectString(clip.sourceId, `${field}.sourceId`);
+    const trackType = expectString(clip.trackType, `${field}.trackType`);
+    expectNumber(clip.trackNumber, `${field}.trackNumber`, 1);
+    (['timelineInPoint', 'timelineOutPoint', 'sourceInPoint', 'sourceOutPoint'] as const).forEach(
+      (key: keyof MatchedClip) => expectTime(clip[key], `${field}.${key}`)
+    );
+
+    const role = media.get(sourceId);
+    if (trackType === TrackType.VIDEO && role !== 'video' && role !== 'raw-video') {
+      throw new ProjectFileError(`${field}.sourceId`, `"${sourceId}" does not match the ID of any video`);
+    }
+  });
+
+  expectArray(edl.transitions, 'edl.transitions').forEach((item: unknown, index: number) => {
+    const field = `edl.transitions[${index}]`;
+    const transition = expectRecord(item, field);
+
+    expectString(transition.type, `${field}.type`);
+    expectNumber(transition.duration, `${field}.duration`, 0);
+    (['outgoingClipId', 'incomingClipId'] as const).forEach((key: keyof Transition) => {
+      const clipId = expectString(transition[key], `${field}.${key}`);
+      if (!clipIds.has(clipId)) {
+        throw new ProjectFileError(`${field}.${key}`, `"${clipId}" does not match the ID of any clip`);
+      }
+    });
+  });
+}
+
+/**
+ * Checks a parsed project file, migrating it to the current schema first
+ * @param data Parsed JSON
+ * @returns The project file
+ * @throws {ProjectFileError} Naming the first field that is missing or wrong
+ */
+export function validateProjectFile(data: unknown): ProjectFile {
+  const root = expectRecord(data, '');
+  if (root.format !== 'cineflux') {
+    throw new ProjectFileError('format', 'must be "cineflux"');
+  }
+
+  const file = migrateProjectFile(root);
+  expectString(file.savedAt, 'savedAt');
+  expectString(file.name, 'name');
+  const settings = expectRecord(file.settings, 'settings');
+  expectString(settings.projectName, 'settings.projectName');
+  expectRecord(file.exportSettings, 'exportSettings');
+
+  const media = validateMedia(file.media);
+
+  const analysis = expectRecord(file.analysis, 'analysis');
+  if (analysis.audio !== null) expectRecord(analysis.audio, 'analysis.audio');
+  Object.entries(expectRecord(analysis.alignments, 'analysis.alignments')).forEach(([id, value]) => {
+    const field = `analysis.alignments.${id}`;
+    if (media.get(id) !== 'raw-video') {
+      throw new ProjectFileError(field, `"${id}" does not match the ID of any raw video`);
+    }
+    const alignment = expectRecord(value, field);
+    expectNumber(alignment.globalOffset, `${field}.globalOffset`);
+    expectArray(alignment.syncPoints, `${field}.syncPoints`);
+  });
+
+  validateEDL(file.edl, media);
+
+  return file as unknown as ProjectFile;
+}
+
+/**
+ * Reads a project file
+ * @param text Contents of a .cineflux file
+ * @returns The project file at the current schema version
+ * @throws {ProjectFileError} If the file is not valid JSON or fails validation
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectFileError('', `is not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+
+  return validateProjectFile(data);
+}
+
+/**
+ * Finds the files a project file refers to among files the user picked
+ *
+ * Only files of the recorded size are hashed. Among those, files at the
+ * recorded path are tried first, then files with the recorded name, so the
+ * usual case hashes one file per reference.
+ * @param media Media references from the project file
+ * @param files Files the user picked
+ * @param hash Hashes media content (default: hashFile)
+ * @returns Matched files by media ID, and the references left unmatched
+ */
+export async function matchProjectMedia(
+  media: ProjectFileMedia[],
+  files: File[],
+  hash: (file: File) => Promise<string> = hashFile
+): Promise<{ matched: Map<string, File>; missing: ProjectFileMedia[] }> {
+  const hashes = new Map<File, Promise<string>>();
+  const hashOf = (file: File): Promise<string> => {
+    if (!hashes.has(file)) hashes.set(file, hash(file));
+    return hashes.get(file)!;
+  };
+
+  const matched = new Map<string, File>();
+  const missing: ProjectFileMedia[] = [];
+  for (const reference of media) {
+    const rank = (file: File) =>
+      mediaPath(file) === reference.path ? 0 : file.name === reference.name ? 1 : 2;
+    const candidates = files
+      .filter((file: File) => file.size === reference.size)
+      .sort((a: File, b: File) => rank(a) - rank(b));
+
+    let match: File | undefined;
+    for (const candidate of candidates) {
+      if ((await hashOf(candidate)) === reference.hash) {
+        match = candidate;
+        break;
+      }
+    }
+
+    if (match) {
+      matched.set(reference.id, match);
+    } else {
+      missing.push(reference);
+    }
+  }
+
+  return { matched, missing };
+}
+
+/**
+ * Turns a project file into the workflow snapshot the project store opens
+ * @param file The project file
+ * @param files Media files by media ID; references without a file are dropped,
+ * along with the cuts that use them
+ * @returns Workflow snapshot whose media keys point at the given files
+ */
+export function createWorkflowSnapshotFromProjectFile(
+  file: ProjectFile,
+  files: Map<string, File>
+): PersistedWorkflowState {
+  const entries = (role: ProjectMediaRole) =>
+    file.media
+      .filter((media: ProjectFileMedia) => media.role === role && files.has(media.id))
+      .map((media: ProjectFileMedia) => ({
+        ...media.metadata,
+        id: media.id,
+        name: media.name,
+        size: media.size,
+        type: media.type,
+        mediaKey: mediaKey(files.get(media.id)!)
+      }));
+
+  const [musicFile = null] = entries('music');
+  const videoFiles = entries('video');
+
+  const clipIndexOf = (decision: ExportEditDecision) =>
+    videoFiles.findIndex((video) => video.id === decision.videoId);
+  const decisions: WorkflowEditDecision[] = createEditDecisionsFromEDL(file.edl)
+    .filter((decision: ExportEditDecision) => clipIndexOf(decision) >= 0)
+    .map((decision: ExportEditDecision) => ({
+      time: decision.time,
+      clipIndex: clipIndexOf(decision),
+      videoTime: decision.start,
+      duration: decision.duration,
+      transition: workflowTransition(decision.transitionType)
+    }));
+
+  return {
+    currentStep: decisions.length > 0 ? 'editing' : 'input',
+    settings: file.settings,
+    musicFile: musicFile as PersistedWorkflowState['musicFile'],
+    videoFiles: videoFiles as unknown as PersistedWorkflowState['videoFiles'],
+    rawVideoFiles: entries('raw-video') as unknown as PersistedWorkflowState['rawVideoFiles'],
+    audioAnalysis: file.analysis.audio,
+    videoAnalysis: file.analysis.video,
+    alignments: Object.fromEntries(
+      Object.entries(file.analysis.alignments).filter(([id]) => files.has(id))
+    ),
+    editDecisions: decisions as unknown as EditDecision[],
+    exportSettings: file.exportSettings,
+    exportComplete: false
+  };
+}
@@ -0,0 +1,230 @@
+// src/utils/projectSnapshot.ts
+import type { AppState, AudioAnalysis, VideoAnalysis, EditDecision, WorkflowStep } from '../types/consolidated';
+import type { ProjectSettings } from '../types/ProjectSettingsFix';
+
+/**
+ * Snapshots of application state that can be written to a project store
+ *
+ * Files cannot be kept alongside the rest of a project's state, so media is
+ * replaced by a key into the store's media table and put back on restore.
+ * Transient state such as playback position and analysis progress is left out.
+ */
+
+/**
+ * A media entry whose file is kept in the media table under `mediaKey`
+ */
+export type StoredMediaEntry<T> = Omit<T, 'file' | 'url'> & { mediaKey: string };
+
+/**
+ * State saved from ProjectContext
+ */
+export interface PersistedProjectState {
+  currentStep: WorkflowStep;
+  settings: ProjectSettings;
+  audioAnalysis: AudioAnalysis | null;
+  videoAnalyses: Record<string, VideoAnalysis>;
+  editDecisions: EditDecision[];
+  duration: number;
+  /** Media key of the music file */
+  musicFile: string | null;
+  /** Media keys of the video files */
+  videoFiles: string[];
+}
+
+/**
+ * State saved from WorkflowContext
+ */
+export interface PersistedWorkflowState {
+  currentStep: string;
+  settings: AppState['project']['settings'];
+  musicFile: StoredMediaEntry<NonNullable<AppState['project']['musicFile']>> | null;
+  videoFiles: StoredMediaEntry<AppState['project']['videoFiles'][number]>[];
+  rawVideoFiles: StoredMediaEntry<AppState['project']['rawVideoFiles'][number]>[];
+  audioAnalysis: AppState['analysis']['audio'];
+  videoAnalysis: AppState['analysis']['video'];
+  /** Absent from snapshots saved before raw videos were synced */
+  alignments?: AppState['analysis']['alignments'];
+  editDecisions: AppState['edit']['decisions'];
+  exportSettings: AppState['export']['settings'];
+  exportComplete: boolean;
+}
+
+/**
+ * The ProjectContext state a snapshot is taken from
+ */
+export type ProjectSnapshotSource = Omit<PersistedProjectState, 'musicFile' | 'videoFiles'> & {
+  musicFile: File | null;
+  videoFiles: File[];
+};
+
+/**
+ * Builds the key a media file is stored under
+ *
+ * The same file dropped into two projects maps to the same key, so it is only
+ * stored once.
+ * @param file The media file
+ * @returns Key made from the file's name, size and modification time
+ */
+export function mediaKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Replaces the file of a media entry with its media key
+ * @param entry Media entry holding a file
+ * @returns The entry without its file or object URL
+ */
+function storeMediaEntry<T extends { file?: File; url?: string }>(entry: T): StoredMediaEntry<T> {
+  const { file, url: _url, ...rest } = entry;
+  return { ...rest, mediaKey: file ? mediaKey(file) : '' } as StoredMediaEntry<T>;
+}
+
+/**
+ * Puts the file back into a stored media entry
+ * @param entry Stored media entry
+ * @param files Restored files by media key
+ * @param createUrl Creates the object URL for the file
+ * @returns The media entry, or null when its file could not be restored
+ */
+function restoreMediaEntry<T>(
+  entry: StoredMediaEntry<T>,
+  files: Map<string, File>,
+  createUrl: (file: File) => string
+): T | null {
+  const file = files.get(entry.mediaKey);
+  if (!file) return null;
+
+  const { mediaKey: _mediaKey, ...rest } = entry;
+  return { ...rest, file, url: createUrl(file) } as unknown as T;
+}
+
+/**
+ * Lists the files a ProjectContext state refers to
+ * @param state ProjectContext state
+ * @returns Music and video files
+ */
+export function getProjectMedia(state: ProjectSnapshotSource): File[] {
+  return [...(state.musicFile ? [state.musicFile] : []), ...state.videoFiles];
+}
+
+/**
+ * Lists the files a WorkflowContext state refers to
+ * @param state WorkflowContext state
+ * @returns Music, video and raw video files
+ */
+export function getWorkflowMedia(state: AppState): File[] {
+  const { musicFile, videoFiles, rawVideoFiles } = state.project;
+  return [musicFile, ...videoFiles, ...rawVideoFiles]
+    .map((entry) => (entry as { file?: File } | null)?.file)
+    .filter((file): file is File => Boolean(file));
+}
+
+/**
+ * Takes the persisted part of a ProjectContext state
+ * @param state ProjectContext state
+ * @returns Snapshot with media replaced by media keys
+ */
+export function createProjectSnapshot(state: ProjectSnapshotSource): PersistedProjectState {
+  return {
+    currentStep: state.currentStep,
+    settings: state.settings,
+    audioAnalysis: state.audioAnalysis,
+    videoAnalyses: state.videoAnalyses,
+    editDecisions: state.editDecisions,
+    duration: state.duration,
+    musicFile: state.musicFile ? mediaKey(state.musicFile) : null,
+    videoFiles: state.videoFiles.map(mediaKey)
+  };
+}
+
+/**
+ * Rebuilds a ProjectContext state from a snapshot
+ * @param snapshot Saved snapshot
+ * @param files Restored files by media key; missing files are dropped
+ * @returns The persisted part of the ProjectContext state
+ */
+export function restoreProjectSnapshot(
+  snapshot: PersistedProjectState,
+  files: Map<string, File>
+): ProjectSnapshotSource {
+  return {
+    ...snapshot,
+    musicFile: (snapshot.musicFile && files.get(snapshot.musicFile)) || null,
+    videoFiles: snapshot.videoFiles
+      .map((key: string) => files.get(key))
+      .filter((file): file is File => Boolean(file))
+  };
+}
+
+/**
+ * Takes the persisted part of a WorkflowContext state
+ * @param state WorkflowContext state
+ * @returns Snapshot with media replaced by media keys
+ */
+export function createWorkflowSnapshot(state: AppState): PersistedWorkflowState {
+  const { project } = state;
+  return {
+    currentStep: state.workflow.currentStep,
+    settings: project.settings,
+    musicFile: project.musicFile ? storeMediaEntry(project.musicFile) : null,
+    videoFiles: project.videoFiles.map(storeMediaEntry),
+    rawVideoFiles: project.rawVideoFiles.map(storeMediaEntry),
+    audioAnalysis: state.analysis.audio,
+    videoAnalysis: state.analysis.video,
+    alignments: state.analysis.alignments,
+    editDecisions: state.edit.decisions,
+    exportSettings: state.export.settings,
+    exportComplete: state.export.exportComplete
+  };
+}
+
+/**
+ * Applies a snapshot to a WorkflowContext state
+ *
+ * Media entries whose files could not be restored are dropped, and any
+ * analysis that was running when the snapshot was taken is not resumed. The
+ * current step is left alone, as it follows the route.
+ * @param state State to restore into
+ * @param snapshot Saved snapshot
+ * @param files Restored files by media key
+ * @param createUrl Creates object URLs for restored files (default: URL.createObjectURL)
+ * @returns The restored state
+ */
+export function restoreWorkflowSnapshot(
+  state: AppState,
+  snapshot: PersistedWorkflowState,
+  files: Map<string, File>,
+  createUrl: (file: File) => string = (file: File) => URL.createObjectURL(file)
+): AppState {
+  const restore = <T>(entries: StoredMediaEntry<T>[]): T[] =>
+    entries
+      .map((entry) => restoreMediaEntry(entry, files, createUrl))
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null) as T[];
+
+  return {
+    ...state,
+    project: {
+      ...state.project,
+      settings: snapshot.settings,
+      musicFile: snapshot.musicFile ? restoreMediaEntry(snapshot.musicFile, files, createUrl) : null,
+      videoFiles: restore(snapshot.videoFiles),
+      rawVideoFiles: restore(snapshot.rawVideoFiles)
+    },
+    analysis: {
+      ...state.analysis,
+      audio: snapshot.audioAnalysis,
+      video: snapshot.videoAnalysis,
+      alignments: snapshot.alignments,
+      isAnalyzing: false
+    },
+    edit: {
+      ...state.edit,
+      decisions: snapshot.editDecisions
+    },
+    export: {
+      ...state.export,
+      settings: snapshot.exportSettings,
+      exportComplete: snapshot.exportComplete
+    }
+  };
+}
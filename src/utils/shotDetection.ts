@@ -0,0 +1,512 @@
+// src/utils/shotDetection.ts
+import { SceneChange } from '../plugins/pluginInterfaces';
+import { Scene, ShotTransition } from '../types/video-types';
+
+/**
+ * Shot boundary detection
+ *
+ * Each frame is shrunk to a thumbnail and described by a colour histogram in
+ * HSV, a map of its edges and its mean luminance. Consecutive frames are
+ * compared by histogram intersection, which ignores where colours are and so
+ * barely moves when the camera pans, and by the edge change ratio, the share
+ * of edges that appear or vanish, which rises at a cut but stays low when only
+ * the lighting changes. Thresholds adapt to how much the frames around each
+ * comparison differ anyway, so busy footage doesn't cut on every frame.
+ *
+ * Gradual transitions are found by twin comparison: a run of frames that each
+ * differ a little, adding up to the difference of a cut. The run counts as a
+ * dissolve when its frames are mixes of the frames either side of it, and as a
+ * fade when it dips to black. Frames that differ briefly and then return to
+ * what came before, as in a camera flash, are not boundaries.
+ *
+ * Detection runs on frames sampled sparsely across a clip. refineBoundary
+ * then places each boundary on the exact frame, given every frame around it.
+ */
+
+/**
+ * The pixels of a frame, as in ImageData
+ */
+export type FramePixels = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+/**
+ * Options for shot boundary detection
+ */
+export interface ShotDetectionOptions {
+  /** Least histogram distance counted as a cut (0.0 to 1.0, default: 0.3) */
+  cutThreshold?: number;
+  /** Least histogram distance between frames inside a gradual transition (default: 0.08) */
+  gradualThreshold?: number;
+  /** Frames either side whose differences set the adaptive thresholds (default: 10) */
+  windowFrames?: number;
+}
+
+/**
+ * A detected boundary between two shots
+ */
+export interface ShotBoundary {
+  /** First frame that belongs to the new shot, including any transition frames */
+  startFrame: number;
+  /** First frame after the transition, showing only the new shot; equals startFrame for cuts */
+  endFrame: number;
+  type: ShotTransition;
+  /** How sure the detector is of the boundary (0.0 to 1.0) */
+  confidence: number;
+}
+
+/** Longest side of the thumbnail frames are shrunk to */
+const THUMBNAIL_SIZE = 96;
+/** Histogram bins for hue, saturation and value */
+const HUE_BINS = 16;
+const SATURATION_BINS = 4;
+const VALUE_BINS = 4;
+/** Sobel gradient magnitude, as |gx| + |gy| on 0-255 luminance, that marks an edge */
+const EDGE_STRENGTH = 64;
+/** Pixels an edge may move between frames and still count as the same edge */
+const EDGE_TOLERANCE = 1;
+/** Least edge change ratio for a boundary, so lighting changes aren't cuts */
+const MIN_EDGE_CHANGE = 0.4;
+/** Deviations above the typical nearby difference a cut must reach */
+const CUT_DEVIATIONS = 6;
+/** Deviations above the typical nearby difference that start a gradual transition */
+const GRADUAL_DEVIATIONS = 3;
+/** Scales a median absolute deviation to a standard deviation for normal data */
+const MAD_SCALE = 1.4826;
+/** Most frames a flash can last and still be ignored */
+const FLASH_FRAMES = 2;
+/** Mean luminance (0-255) at or below which a frame counts as black */
+const BLACK_LEVEL = 24;
+/** Fraction of the darker neighbour's luminance a dip must fall below to be a fade */
+const DIP_RATIO = 0.5;
+/** Largest mean residual, relative to the change across it, of a frame that is a mix */
+const MAX_BLEND_RESIDUAL = 0.35;
+/** Furthest a frame's mix may be from its share of the transition */
+const MAX_BLEND_DRIFT = 0.3;
+/**
+ * Share of the difference across a gradual transition within which a frame
+ * still counts as its old or new shot when the transition is refined
+ */
+const REFINE_SETTLE = 0.1;
+
+/**
+ * What is compared between frames; small enough to keep for every frame of a
+ * long clip once the pixels are gone
+ */
+export interface ShotFeatures {
+  /** HSV histogram, summing to 1 */
+  histogram: Float32Array;
+  /** Thumbnail luminance (0-255) */
+  luminance: Float32Array;
+  /** 1 where the thumbnail has an edge */
+  edges: Uint8Array;
+  /** The edges widened by EDGE_TOLERANCE */
+  nearEdges: Uint8Array;
+  edgeCount: number;
+  /** Mean of luminance */
+  brightness: number;
+}
+
+/**
+ * Shrinks a frame by averaging blocks of pixels, then works out its features
+ * @param frame The frame's pixels
+ * @param index Index of the frame, for errors
+ * @returns The frame's features
+ */
+export function shotFeatures(frame: FramePixels, index: number = 0): ShotFeatures {
+  const { data, width, height } = frame;
+  if (width < 1 || height < 1 || data.length < width * height * 4) {
+    throw new Error(`Frame ${index} has ${data.length} bytes for ${width}x${height} pixels`);
+  }
+
+  const block = Math.max(1, Math.ceil(Math.max(width, height) / THUMBNAIL_SIZE));
+  const w = Math.max(1, Math.floor(width / block));
+  const h = Math.max(1, Math.floor(height / block));
+  const size = w * h;
+  const histogram = new Float32Array(HUE_BINS * SATURATION_BINS * VALUE_BINS);
+  const luminance = new Float32Array(size);
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+      for (let by = y * block; by < Math.min(height, (y + 1) * block); by++) {
+        for (let bx = x * block; bx < Math.min(width, (x + 1) * block); bx++) {
+          const offset = (by * width + bx) * 4;
+          r += data[offset];
+          g += data[offset + 1];
+          b += data[offset + 2];
+          count++;
+        }
+      }
+      r /= count;
+      g /= count;
+      b /= count;
+
+      luminance[y * w + x] = 0.299 * r + 0.587 * g + 0.114 * b;
+
+      const max = Math.max(r, g, b);
+      const chroma = max - Math.min(r, g, b);
+      let hue = 0;
+      if (chroma > 0) {
+        if (max === r) hue = ((g - b) / chroma + 6) % 6;
+        else if (max === g) hue = (b - r) / chroma + 2;
+        else hue = (r - g) / chroma + 4;
+      }
+      const saturation = max > 0 ? chroma / max : 0;
+      const hueBin = Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS));
+      const saturationBin = Math.min(SATURATION_BINS - 1, Math.floor(saturation * SATURATION_BINS));
+      const valueBin = Math.min(VALUE_BINS - 1, Math.floor((max / 256) * VALUE_BINS));
+      histogram[(hueBin * SATURATION_BINS + saturationBin) * VALUE_BINS + valueBin] += 1 / size;
+    }
+  }
+
+  // Sobel gradients, then edges thinned to one pixel across by keeping only
+  // the strongest pixel along the gradient, so that close edges stay apart
+  const gradientX = new Float64Array(size);
+  const gradientY = new Float64Array(size);
+  const magnitude = new Float64Array(size);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const at = (dx: number, dy: number) => luminance[(y + dy) * w + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      gradientX[y * w + x] = gx;
+      gradientY[y * w + x] = gy;
+      magnitude[y * w + x] = Math.abs(gx) + Math.abs(gy);
+    }
+  }
+
+  const edges = new Uint8Array(size);
+  let edgeCount = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      if (magnitude[i] < EDGE_STRENGTH) continue;
+      const step = Math.abs(gradientX[i]) >= Math.abs(gradientY[i]) ? 1 : w;
+      if (magnitude[i] >= magnitude[i - step] && magnitude[i] > magnitude[i + step]) {
+        edges[i] = 1;
+        edgeCount++;
+      }
+    }
+  }
+
+  const nearEdges = new Uint8Array(size);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!edges[y * w + x]) continue;
+      for (
+        let ny = Math.max(0, y - EDGE_TOLERANCE);
+        ny <= Math.min(h - 1, y + EDGE_TOLERANCE);
+        ny++
+      ) {
+        for (
+          let nx = Math.max(0, x - EDGE_TOLERANCE);
+          nx <= Math.min(w - 1, x + EDGE_TOLERANCE);
+          nx++
+        ) {
+          nearEdges[ny * w + nx] = 1;
+        }
+      }
+    }
+  }
+
+  const brightness = luminance.reduce((sum: number, value: number) => sum + value, 0) / size;
+  return { histogram, luminance, edges, nearEdges, edgeCount, brightness };
+}
+
+/**
+ * Histogram intersection distance
+ * @returns 0 for identical colour distributions, 1 for ones with no colour in common
+ */
+function histogramDistance(a: ShotFeatures, b: ShotFeatures): number {
+  let overlap = 0;
+  for (let i = 0; i < a.histogram.length; i++) {
+    overlap += Math.min(a.histogram[i], b.histogram[i]);
+  }
+  return Math.max(0, 1 - overlap);
+}
+
+/**
+ * Edge change ratio: the larger of the share of a's edges with no edge near
+ * them in b, and the share of b's edges with none near them in a
+ */
+function edgeChangeRatio(a: ShotFeatures, b: ShotFeatures): number {
+  if (a.edgeCount === 0 && b.edgeCount === 0) return 0;
+  if (a.edgeCount === 0 || b.edgeCount === 0) return 1;
+  // Frames of different sizes can't be matched edge for edge
+  if (a.edges.length !== b.edges.length) return 1;
+
+  let exiting = 0;
+  let entering = 0;
+  for (let i = 0; i < a.edges.length; i++) {
+    if (a.edges[i] && !b.nearEdges[i]) exiting++;
+    if (b.edges[i] && !a.nearEdges[i]) entering++;
+  }
+  return Math.max(exiting / a.edgeCount, entering / b.edgeCount);
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a: number, b: number) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Fits the frames strictly between two others as mixes of them
+ * @param features Every frame's features
+ * @param from Frame the mix starts from
+ * @param to Frame the mix ends at
+ * @returns Mean residual of the fit relative to the change from `from` to
+ * `to`, or null if the frames aren't mixes in order
+ */
+function blendResidual(features: ShotFeatures[], from: number, to: number): number | null {
+  const a = features[from].luminance;
+  const b = features[to].luminance;
+  if (to - from < 2) return 0;
+  if (a.length !== b.length) return null;
+
+  let span = 0;
+  for (let i = 0; i < a.length; i++) span += (b[i] - a[i]) ** 2;
+  if (span === 0) return null;
+
+  let residual = 0;
+  for (let frame = from + 1; frame < to; frame++) {
+    const mix = features[frame].luminance;
+    if (mix.length !== a.length) return null;
+
+    // Least-squares share of b in the mix
+    let projection = 0;
+    for (let i = 0; i < a.length; i++) projection += (mix[i] - a[i]) * (b[i] - a[i]);
+    const share = projection / span;
+    if (Math.abs(share - (frame - from) / (to - from)) > MAX_BLEND_DRIFT) return null;
+
+    let error = 0;
+    for (let i = 0; i < a.length; i++) error += (mix[i] - a[i] - share * (b[i] - a[i])) ** 2;
+    residual += Math.sqrt(error / span);
+  }
+  return residual / (to - from - 1);
+}
+
+/**
+ * Checks whether the frames from one to another make a gradual transition
+ * @param features Every frame's features
+ * @param from Last frame before the transition
+ * @param to First frame after it
+ * @param threshold Distance a cut would have to reach
+ * @returns The boundary, or null if the frames aren't a dissolve or fade
+ */
+function matchGradual(
+  features: ShotFeatures[],
+  from: number,
+  to: number,
+  threshold: number
+): ShotBoundary | null {
+  if (histogramDistance(features[from], features[to]) < threshold) return null;
+  if (edgeChangeRatio(features[from], features[to]) < MIN_EDGE_CHANGE) return null;
+
+  let darkest = from;
+  for (let frame = from; frame <= to; frame++) {
+    if (features[frame].brightness < features[darkest].brightness) darkest = frame;
+  }
+  const dipLevel = Math.min(features[from].brightness, features[to].brightness) * DIP_RATIO;
+  const isFade = features[darkest].brightness <= Math.max(BLACK_LEVEL, dipLevel);
+
+  // A fade through black is a fade out to the darkest frame, then a fade in
+  const parts: [number, number][] =
+    isFade && darkest > from && darkest < to
+      ? [
+          [from, darkest],
+          [darkest, to],
+        ]
+      : [[from, to]];
+  const residuals = parts.map(([start, end]) => blendResidual(features, start, end));
+  if (residuals.some((residual: number | null) => residual === null)) return null;
+
+  const residual = Math.max(...(residuals as number[]));
+  if (residual > MAX_BLEND_RESIDUAL) return null;
+
+  return {
+    startFrame: from + 1,
+    endFrame: to,
+    type: isFade ? 'fade' : 'dissolve',
+    confidence: (2 - residual / MAX_BLEND_RESIDUAL) / 2,
+  };
+}
+
+/**
+ * Finds the boundaries between shots in a sequence of frames
+ * @param frames Frames sampled at a steady rate
+ * @param options Thresholds and the adaptive window
+ * @returns Boundaries in frame order
+ */
+export function detectShotBoundaries(
+  frames: FramePixels[],
+  options: ShotDetectionOptions = {}
+): ShotBoundary[] {
+  return findShotBoundaries(
+    frames.map((frame: FramePixels, index: number) => shotFeatures(frame, index)),
+    options
+  );
+}
+
+/**
+ * Finds the boundaries between shots from the features of their frames
+ * @param features Features of frames sampled at a steady rate, from shotFeatures
+ * @param options Thresholds and the adaptive window
+ * @returns Boundaries in frame order
+ */
+export function findShotBoundaries(
+  features: ShotFeatures[],
+  options: ShotDetectionOptions = {}
+): ShotBoundary[] {
+  const { cutThreshold = 0.3, gradualThreshold = 0.08, windowFrames = 10 } = options;
+  const count = features.length;
+
+  // Change i is from frame i - 1 to frame i
+  const distances = features.map((feature: ShotFeatures, i: number) =>
+    i > 0 ? histogramDistance(features[i - 1], feature) : 0
+  );
+  // Boundaries can make up much of a window in fast-cut footage, so the
+  // thresholds follow the quieter half of it
+  const thresholds = distances.map((_: number, i: number) => {
+    const quiet = distances
+      .filter((__: number, j: number) => j > 0 && j !== i && Math.abs(j - i) <= windowFrames)
+      .sort((a: number, b: number) => a - b);
+    quiet.splice(Math.ceil(quiet.length / 2));
+    const level = median(quiet);
+    const spread = MAD_SCALE * median(quiet.map((distance: number) => Math.abs(distance - level)));
+    return {
+      cut: Math.max(cutThreshold, level + CUT_DEVIATIONS * spread),
+      gradual: Math.max(gradualThreshold, level + GRADUAL_DEVIATIONS * spread),
+    };
+  });
+
+  const boundaries: ShotBoundary[] = [];
+  let change = 1;
+  while (change < count) {
+    if (distances[change] <= thresholds[change].gradual) {
+      change++;
+      continue;
+    }
+
+    let runEnd = change;
+    while (runEnd < count && distances[runEnd] > thresholds[runEnd].gradual) runEnd++;
+
+    const gradual =
+      runEnd - change >= 2
+        ? matchGradual(features, change - 1, runEnd - 1, thresholds[change].cut)
+        : null;
+    if (gradual) {
+      boundaries.push(gradual);
+      change = runEnd;
+      continue;
+    }
+
+    let cut = change;
+    while (cut < runEnd) {
+      const edgeChange = edgeChangeRatio(features[cut - 1], features[cut]);
+      if (distances[cut] <= thresholds[cut].cut || edgeChange < MIN_EDGE_CHANGE) {
+        cut++;
+        continue;
+      }
+
+      // A flash leaves the frames after it like the ones before
+      const flashEnd = [...Array(FLASH_FRAMES)]
+        .map((__: unknown, length: number) => cut + length + 1)
+        .find(
+          (after: number) =>
+            after < count &&
+            histogramDistance(features[cut - 1], features[after]) <= thresholds[cut].gradual
+        );
+      if (flashEnd !== undefined) {
+        cut = flashEnd + 1;
+        continue;
+      }
+
+      boundaries.push({
+        startFrame: cut,
+        endFrame: cut,
+        type: 'cut',
+        confidence: Math.min(1, (distances[cut] / thresholds[cut].cut + edgeChange) / 2),
+      });
+      cut++;
+    }
+    change = Math.max(runEnd, cut);
+  }
+
+  return boundaries;
+}
+
+/**
+ * Root mean square difference between two frames' luminance
+ */
+function luminanceDifference(a: ShotFeatures, b: ShotFeatures): number {
+  if (a.luminance.length !== b.luminance.length) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < a.luminance.length; i++) sum += (a.luminance[i] - b.luminance[i]) ** 2;
+  return Math.sqrt(sum / a.luminance.length);
+}
+
+/**
+ * Places a boundary found between two sampled frames on the exact frame
+ *
+ * A cut goes where consecutive frames differ most. A dissolve or fade starts
+ * at the first frame that has moved away from the old shot and ends at the
+ * first that has settled on the new one.
+ * @param features Features of every frame from the last sampled frame of the
+ * old shot to the first sampled frame of the new one
+ * @param type The kind of boundary found between them
+ * @returns Indexes into features of the first frame of the new shot, counting
+ * transition frames, and of the first frame after the transition
+ */
+export function refineBoundary(
+  features: ShotFeatures[],
+  type: ShotTransition
+): Pick<ShotBoundary, 'startFrame' | 'endFrame'> {
+  const last = features.length - 1;
+  if (last < 2) return { startFrame: last, endFrame: last };
+
+  if (type === 'cut') {
+    let cut = 1;
+    let strongest = -1;
+    for (let i = 1; i <= last; i++) {
+      const change =
+        histogramDistance(features[i - 1], features[i]) +
+        edgeChangeRatio(features[i - 1], features[i]);
+      if (change > strongest) {
+        strongest = change;
+        cut = i;
+      }
+    }
+    return { startFrame: cut, endFrame: cut };
+  }
+
+  const tolerance = REFINE_SETTLE * luminanceDifference(features[0], features[last]);
+  let startFrame = 1;
+  while (startFrame < last && luminanceDifference(features[0], features[startFrame]) <= tolerance) {
+    startFrame++;
+  }
+  let endFrame = startFrame;
+  while (endFrame < last && luminanceDifference(features[endFrame], features[last]) > tolerance) {
+    endFrame++;
+  }
+  return { startFrame, endFrame };
+}
+
+/**
+ * Converts scenes to the scene changes video analysis plugins report
+ * @param scenes Scenes from VideoService.detectScenes
+ * @returns One scene change where each scene after the first begins
+ */
+export function scenesToSceneChanges(scenes: Scene[]): SceneChange[] {
+  return scenes.slice(1).map((scene: Scene) => ({
+    time: scene.startTime,
+    confidence: scene.boundaryConfidence ?? 1,
+    type: scene.transitionIn ?? 'cut',
+  }));
+}
@@ -0,0 +1,33 @@
+// src/utils/shotSize.ts
+import { SceneType } from '../types/edit-types';
+import { BoundingBox } from '../types/VideoAnalysis';
+import { ShotSize } from '../types/video-types';
+
+/**
+ * Shot size classification
+ *
+ * How much of the frame the nearest face fills says how close the shot is: a
+ * face a quarter of the frame high or more is a close-up, one down to about a
+ * twelfth is a medium shot, and anything smaller is wide. A frame with no face
+ * has no shot size, since a close-up of hands on a guitar can't be told from a
+ * landscape by faces alone.
+ */
+
+/** Least face height, as a share of the frame's, of a close-up */
+const CLOSEUP_FACE_HEIGHT = 0.25;
+/** Least face height, as a share of the frame's, of a medium shot */
+const MEDIUM_FACE_HEIGHT = 0.08;
+
+/**
+ * Classifies a frame's shot size from the faces in it
+ * @param faces Faces found in the frame, in coordinates normalized to the frame
+ * @returns The shot size, or undefined when there are no faces
+ */
+export function classifyShotSize(faces: BoundingBox[]): ShotSize | undefined {
+  if (faces.length === 0) return undefined;
+
+  const nearest = Math.max(...faces.map((face: BoundingBox) => face.height));
+  if (nearest >= CLOSEUP_FACE_HEIGHT) return SceneType.CLOSEUP;
+  if (nearest >= MEDIUM_FACE_HEIGHT) return SceneType.MEDIUM;
+  return SceneType.WIDE;
+}
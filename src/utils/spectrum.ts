@@ -0,0 +1,133 @@
+// src/utils/spectrum.ts
+
+/**
+ * Spectral analysis helpers shared by the audio analyses
+ */
+
+/** Sample rate signals are reduced to before analysis */
+export const ANALYSIS_SAMPLE_RATE = 22050;
+
+/**
+ * Reduces a signal to roughly the analysis sample rate by averaging blocks of samples
+ * @returns The reduced signal and its sample rate
+ */
+export function decimate(
+  samples: Float32Array,
+  sampleRate: number
+): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_SAMPLE_RATE));
+  if (factor === 1) return { samples, sampleRate };
+
+  const reduced = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < reduced.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    reduced[i] = sum / factor;
+  }
+
+  return { samples: reduced, sampleRate: sampleRate / factor };
+}
+
+/**
+ * Computes an in-place radix-2 FFT
+ * @param re Real parts, replaced by the transform
+ * @param im Imaginary parts, replaced by the transform
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * A triangular mel filter over a run of FFT bins
+ */
+export interface MelBand {
+  /** First FFT bin the filter covers */
+  start: number;
+  weights: Float64Array;
+  /** Center frequency in Hz */
+  centerHz: number;
+}
+
+/**
+ * Builds triangular filters spaced evenly on the mel scale
+ *
+ * Mel bands are narrow at low frequencies, so a kick drum spans several of
+ * them instead of a handful of FFT bins against the hundreds a hi-hat covers.
+ * @param sampleRate Sample rate in Hz
+ * @param fftSize FFT length the filters apply to
+ * @param bandCount Number of bands
+ * @returns One filter per band, from low to high
+ */
+export function createMelFilterbank(
+  sampleRate: number,
+  fftSize: number,
+  bandCount: number
+): MelBand[] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const binWidth = sampleRate / fftSize;
+  const maxMel = toMel(sampleRate / 2);
+  const edges = Array.from(
+    { length: bandCount + 2 },
+    (_: unknown, i: number) => toHz((maxMel * i) / (bandCount + 1)) / binWidth
+  );
+
+  return Array.from({ length: bandCount }, (_: unknown, band: number) => {
+    const [low, center, high] = edges.slice(band, band + 3);
+    const start = Math.ceil(low);
+    const end = Math.max(start, Math.floor(high));
+    const weights = new Float64Array(end - start + 1);
+    for (let k = start; k <= end; k++) {
+      const rising = (k - low) / (center - low);
+      const falling = (high - k) / (high - center);
+      weights[k - start] = Math.max(0, k <= center ? rising : falling);
+    }
+    return { start, weights, centerHz: center * binWidth };
+  });
+}
+
+/**
+ * Creates a Hann window
+ * @param size Window length in samples
+ * @returns The window
+ */
+export function createHannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
@@ -0,0 +1,479 @@
+// src/utils/structureSegmentation.ts
+import { Section } from '../types/AudioAnalysis';
+import { AudioSegment } from '../types/workflow';
+import { createHannWindow, createMelFilterbank, decimate, fft, MelBand } from './spectrum';
+
+/**
+ * Music structure segmentation
+ *
+ * Each beat is described by its chroma (which pitch classes sound, so the
+ * harmony) and its MFCCs (the shape of the spectrum, so the timbre), and every
+ * beat is compared with every other in a self-similarity matrix. Boundaries are
+ * the peaks of Foote's checkerboard novelty along its diagonal, where the music
+ * stops resembling what came just before. Sections whose beats repeat in order
+ * show up as stripes parallel to the diagonal; those get the same letter, and
+ * the letters are named from how often they come back, how loud they are and
+ * where they fall in the song.
+ */
+
+/**
+ * Options for structure segmentation
+ */
+export interface StructureOptions {
+  /** Fewest beats in a section (default: 8) */
+  minSectionBeats?: number;
+  /**
+   * Beats either side of a boundary that are compared across it (default: 16).
+   * Longer than a chord progression, so a verse isn't split where its chords turn
+   */
+  noveltyBeats?: number;
+}
+
+/** STFT frame length in samples at the analysis rate */
+const FFT_SIZE = 4096;
+/** STFT hop in samples at the analysis rate */
+const HOP_SIZE = 2048;
+/** Number of mel bands the MFCCs are taken from */
+const MEL_BANDS = 40;
+/** Number of MFCCs kept, leaving out the first, which only follows loudness */
+const MFCC_COUNT = 12;
+/** Frequency range in Hz folded into the chroma */
+const CHROMA_RANGE_HZ = [55, 4000];
+/** Beat spacing in seconds used when too few beats were found */
+const FALLBACK_BEAT_SECONDS = 0.5;
+/** Beats either side averaged along each diagonal, to bring out repeated sequences */
+const PATH_SMOOTHING_BEATS = 2;
+/** Novelty, as a fraction of the strongest, below which no boundary is placed */
+const MIN_NOVELTY = 0.25;
+/** Beats two sections may be out of step by and still count as a repeat */
+const REPEAT_SHIFT_BEATS = 2;
+/** Sequence similarity at which two sections are as likely repeats as not */
+const REPEAT_SIMILARITY = 0.6;
+/** Steepness of the repeat confidence around REPEAT_SIMILARITY */
+const REPEAT_SLOPE = 20;
+
+/**
+ * Per-beat features of a signal
+ */
+interface BeatFeatures {
+  chroma: Float64Array[];
+  timbre: Float64Array[];
+  /** RMS level of each beat */
+  energy: number[];
+}
+
+/**
+ * A run of beats found by segmentation
+ */
+interface Segment {
+  /** First beat */
+  start: number;
+  /** Beat after the last */
+  end: number;
+  group: number;
+  /** How surely the segment does or doesn't repeat (0.0 to 1.0) */
+  confidence: number;
+}
+
+/**
+ * Splits a song into sections and labels them intro, verse, chorus, bridge or outro
+ * @param samples Mono signal
+ * @param sampleRate Sample rate in Hz
+ * @param beatTimes Beat times in seconds; a fixed grid is used if there are too few
+ * @param options Options for segmentation
+ * @returns Sections covering the whole signal, in time order
+ */
+export function segmentStructure(
+  samples: Float32Array,
+  sampleRate: number,
+  beatTimes: number[],
+  options: StructureOptions = {}
+): Section[] {
+  const { minSectionBeats = 8, noveltyBeats = 16 } = options;
+  const duration = samples.length / sampleRate;
+  const beats =
+    beatTimes.length >= 2 * minSectionBeats
+      ? beatTimes
+      : Array.from(
+          { length: Math.ceil(duration / FALLBACK_BEAT_SECONDS) },
+          (_: unknown, i: number) => i * FALLBACK_BEAT_SECONDS
+        );
+
+  const features = computeBeatFeatures(samples, sampleRate, beats);
+  const similarity = selfSimilarity(features);
+  const boundaries = pickBoundaries(computeNovelty(similarity, noveltyBeats), minSectionBeats);
+
+  const segments: Segment[] = boundaries.map((start: number, index: number) => ({
+    start,
+    end: boundaries[index + 1] ?? beats.length,
+    group: -1,
+    confidence: 0,
+  }));
+  const merged = mergeRepeats(groupSegments(segments, smoothDiagonals(similarity)));
+
+  const timeOf = (beat: number) => (beat === 0 ? 0 : beat >= beats.length ? duration : beats[beat]);
+  const energies = merged.map((segment: Segment) =>
+    mean(features.energy.slice(segment.start, segment.end))
+  );
+  const loudest = Math.max(...energies, Number.EPSILON);
+  const labels = nameGroups(merged, energies);
+
+  return merged.map((segment: Segment, index: number) => ({
+    start: timeOf(segment.start),
+    duration: timeOf(segment.end) - timeOf(segment.start),
+    label: labels[index],
+    confidence: segment.confidence,
+    group: String.fromCharCode(65 + segment.group),
+    characteristics: { energy: energies[index] / loudest },
+  }));
+}
+
+/**
+ * Converts sections to the audio segments the edit engines cut to
+ * @param sections Sections from segmentStructure
+ * @returns One segment per section, typed by its label
+ */
+export function sectionsToSegments(sections: Section[]): AudioSegment[] {
+  return sections.map((section: Section) => ({
+    startTime: section.start,
+    endTime: section.start + section.duration,
+    duration: section.duration,
+    type: section.label,
+    energy: section.characteristics?.energy,
+    confidence: section.confidence,
+    metadata: { group: section.group },
+  }));
+}
+
+/**
+ * Averages chroma, MFCCs and level over each beat
+ */
+function computeBeatFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  beats: number[]
+): BeatFeatures {
+  const signal = decimate(samples, sampleRate);
+  const bins = FFT_SIZE / 2 + 1;
+  const binWidth = signal.sampleRate / FFT_SIZE;
+  const bands = createMelFilterbank(signal.sampleRate, FFT_SIZE, MEL_BANDS);
+  const window = createHannWindow(FFT_SIZE);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const logMel = new Float64Array(MEL_BANDS);
+
+  // Pitch class of each FFT bin in the chroma range, or -1
+  const pitchClass = Array.from({ length: bins }, (_: unknown, k: number) => {
+    const hz = k * binWidth;
+    if (hz < CHROMA_RANGE_HZ[0] || hz > CHROMA_RANGE_HZ[1]) return -1;
+    return (((Math.round(12 * Math.log2(hz / 440)) + 9) % 12) + 12) % 12;
+  });
+
+  const chroma = beats.map(() => new Float64Array(12));
+  const timbre = beats.map(() => new Float64Array(MFCC_COUNT));
+  const energy = beats.map(() => 0);
+  const frameCounts = beats.map(() => 0);
+
+  const frameCount = Math.floor(signal.samples.length / HOP_SIZE) + 1;
+  let beat = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    const time = (frame * HOP_SIZE) / signal.sampleRate;
+    while (beat + 1 < beats.length && beats[beat + 1] <= time) beat++;
+
+    const offset = frame * HOP_SIZE - FFT_SIZE / 2;
+    let power = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const index = offset + i;
+      const value = index >= 0 && index < signal.samples.length ? signal.samples[index] : 0;
+      power += value * value;
+      re[i] = value * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      const magnitude = Math.hypot(re[k], im[k]);
+      if (pitchClass[k] >= 0) chroma[beat][pitchClass[k]] += magnitude;
+      re[k] = magnitude;
+    }
+
+    bands.forEach((band: MelBand, b: number) => {
+      let sum = 0;
+      for (let k = 0; k < band.weights.length; k++) sum += band.weights[k] * re[band.start + k];
+      logMel[b] = Math.log(1e-6 + sum);
+    });
+    for (let c = 0; c < MFCC_COUNT; c++) {
+      // DCT-II of the log mel spectrum, from the second coefficient
+      let sum = 0;
+      for (let b = 0; b < MEL_BANDS; b++) {
+        sum += logMel[b] * Math.cos((Math.PI * (c + 1) * (b + 0.5)) / MEL_BANDS);
+      }
+      timbre[beat][c] += sum;
+    }
+
+    energy[beat] += Math.sqrt(power / FFT_SIZE);
+    frameCounts[beat]++;
+  }
+
+  // Beats shorter than a hop borrow the features of the beat before
+  beats.forEach((_time: number, i: number) => {
+    if (frameCounts[i] > 0) {
+      timbre[i].forEach((value: number, c: number) => (timbre[i][c] = value / frameCounts[i]));
+      energy[i] /= frameCounts[i];
+    } else if (i > 0) {
+      chroma[i].set(chroma[i - 1]);
+      timbre[i].set(timbre[i - 1]);
+      energy[i] = energy[i - 1];
+    }
+  });
+
+  // Standardize each MFCC over the song, so the timbre it shares throughout drops out
+  for (let c = 0; c < MFCC_COUNT; c++) {
+    const values = timbre.map((vector: Float64Array) => vector[c]);
+    const average = mean(values);
+    const spread = Math.sqrt(mean(values.map((value: number) => (value - average) ** 2))) || 1;
+    timbre.forEach((vector: Float64Array) => (vector[c] = (vector[c] - average) / spread));
+  }
+
+  chroma.forEach(normalize);
+  timbre.forEach(normalize);
+  return { chroma, timbre, energy };
+}
+
+/**
+ * Compares every beat with every other, averaging harmony and timbre similarity
+ * @returns Cosine similarity of each pair of beats (-1.0 to 1.0)
+ */
+function selfSimilarity({ chroma, timbre }: BeatFeatures): Float64Array[] {
+  return chroma.map((_vector: Float64Array, i: number) =>
+    Float64Array.from(
+      chroma,
+      (_other: Float64Array, j: number) =>
+        (dot(chroma[i], chroma[j]) + dot(timbre[i], timbre[j])) / 2
+    )
+  );
+}
+
+/**
+ * Averages each cell with its neighbors along the diagonal, so beats only stay
+ * alike if the beats around them are alike in the same order
+ */
+function smoothDiagonals(similarity: Float64Array[]): Float64Array[] {
+  const n = similarity.length;
+  return similarity.map((row: Float64Array, i: number) =>
+    row.map((_value: number, j: number) => {
+      let sum = 0;
+      let count = 0;
+      for (let d = -PATH_SMOOTHING_BEATS; d <= PATH_SMOOTHING_BEATS; d++) {
+        if (i + d < 0 || j + d < 0 || i + d >= n || j + d >= n) continue;
+        sum += similarity[i + d][j + d];
+        count++;
+      }
+      return sum / count;
+    })
+  );
+}
+
+/**
+ * Correlates a Gaussian-tapered checkerboard kernel along the diagonal
+ *
+ * Near the ends of the song the kernel shrinks to stay centered, so a short
+ * intro is compared with as much of the verse as it is long.
+ * @returns Novelty before each beat, from 0.0 up
+ */
+function computeNovelty(similarity: Float64Array[], halfWidth: number): Float64Array {
+  const n = similarity.length;
+  const taper = (offset: number) => Math.exp(-0.5 * ((offset + 0.5) / (halfWidth / 2)) ** 2);
+  const novelty = new Float64Array(n);
+
+  for (let i = 1; i < n; i++) {
+    const reach = Math.min(halfWidth, i, n - i);
+    let sum = 0;
+    let weight = 0;
+    for (let a = -reach; a < reach; a++) {
+      for (let b = -reach; b < reach; b++) {
+        const w = taper(a) * taper(b);
+        sum += ((a < 0) === (b < 0) ? w : -w) * similarity[i + a][i + b];
+        weight += w;
+      }
+    }
+    novelty[i] = Math.max(0, sum / weight);
+  }
+
+  return novelty;
+}
+
+/**
+ * Takes the strongest novelty peaks at least a section apart
+ * @returns Section start beats in order, starting with beat 0
+ */
+function pickBoundaries(novelty: Float64Array, minSectionBeats: number): number[] {
+  const n = novelty.length;
+  const strongest = Math.max(...novelty, Number.EPSILON);
+  const peaks = Array.from(novelty.keys()).filter(
+    (i: number) =>
+      i >= minSectionBeats &&
+      i <= n - minSectionBeats &&
+      novelty[i] >= MIN_NOVELTY * strongest &&
+      novelty[i] >= novelty[i - 1] &&
+      novelty[i] >= novelty[i + 1]
+  );
+
+  const chosen: number[] = [];
+  peaks
+    .sort((a: number, b: number) => novelty[b] - novelty[a])
+    .forEach((peak: number) => {
+      if (chosen.every((beat: number) => Math.abs(beat - peak) >= minSectionBeats)) {
+        chosen.push(peak);
+      }
+    });
+
+  return [0, ...chosen.sort((a: number, b: number) => a - b)];
+}
+
+/**
+ * Scores how closely one segment's beats repeat another's, in order
+ *
+ * The shorter segment slides along the longer one, so a segment that repeats
+ * only part of another, such as the first half of a verse split off by a chord
+ * change, still matches it.
+ * @returns Mean similarity along the best-aligned diagonal
+ */
+function repeatSimilarity(similarity: Float64Array[], a: Segment, b: Segment): number {
+  const [short, long] = a.end - a.start <= b.end - b.start ? [a, b] : [b, a];
+  const length = short.end - short.start;
+  let best = -1;
+  for (
+    let offset = -REPEAT_SHIFT_BEATS;
+    offset <= long.end - long.start - length + REPEAT_SHIFT_BEATS;
+    offset++
+  ) {
+    let sum = 0;
+    let count = 0;
+    for (let k = 0; k < length; k++) {
+      const j = long.start + offset + k;
+      if (j < long.start || j >= long.end) continue;
+      sum += similarity[short.start + k][j];
+      count++;
+    }
+    if (count >= length - REPEAT_SHIFT_BEATS) best = Math.max(best, sum / count);
+  }
+  return best;
+}
+
+/**
+ * Gives segments that repeat each other, directly or through another segment,
+ * the same group, numbered in order of first appearance
+ */
+function groupSegments(segments: Segment[], similarity: Float64Array[]): Segment[] {
+  const scores = segments.map((a: Segment) =>
+    segments.map((b: Segment) => (a === b ? -1 : repeatSimilarity(similarity, a, b)))
+  );
+
+  // Union-find joining each segment to the one it repeats most closely. Only
+  // the closest, so a fragment that straddles a verse and a chorus can't chain
+  // the two together
+  const parent = segments.map((_segment: Segment, i: number) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  scores.forEach((row: number[], i: number) => {
+    const closest = row.indexOf(Math.max(...row));
+    if (row[closest] >= REPEAT_SIMILARITY) parent[find(closest)] = find(i);
+  });
+
+  const groups = new Map<number, number>();
+  return segments.map((segment: Segment, i: number) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, groups.size);
+
+    // How surely the segment does or doesn't repeat
+    const best = Math.max(...scores[i]);
+    const confidence = 1 / (1 + Math.exp(-REPEAT_SLOPE * (best - REPEAT_SIMILARITY)));
+    return {
+      ...segment,
+      group: groups.get(root) ?? 0,
+      confidence: best >= REPEAT_SIMILARITY ? confidence : 1 - confidence,
+    };
+  });
+}
+
+/**
+ * Joins neighboring segments of the same group, such as a chorus played twice
+ */
+function mergeRepeats(segments: Segment[]): Segment[] {
+  return segments.reduce((merged: Segment[], segment: Segment) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.group === segment.group) {
+      previous.end = segment.end;
+      previous.confidence = Math.min(previous.confidence, segment.confidence);
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Names each segment from its group
+ *
+ * The loudest group that comes back is the chorus and the other groups that
+ * come back are verses. Material heard once is the intro at the start, the
+ * outro at the end and a bridge in between. With a single repeated group, it
+ * is the chorus if it is louder than the song overall.
+ */
+function nameGroups(segments: Segment[], energies: number[]): string[] {
+  const groupCount = Math.max(...segments.map((segment: Segment) => segment.group)) + 1;
+  const counts = new Array<number>(groupCount).fill(0);
+  const beats = new Array<number>(groupCount).fill(0);
+  const loudness = new Array<number>(groupCount).fill(0);
+  segments.forEach((segment: Segment, i: number) => {
+    counts[segment.group]++;
+    beats[segment.group] += segment.end - segment.start;
+    loudness[segment.group] += energies[i] * (segment.end - segment.start);
+  });
+
+  const level = (group: number) => loudness[group] / beats[group];
+  const songLevel = sum(loudness) / sum(beats);
+  const repeated = Array.from(counts.keys()).filter((group: number) => counts[group] > 1);
+  const [loudest] = [...repeated].sort((a: number, b: number) => level(b) - level(a));
+  const chorus =
+    loudest !== undefined && (repeated.length > 1 || level(loudest) >= songLevel) ? loudest : -1;
+
+  return segments.map((segment: Segment, i: number) => {
+    if (segment.group === chorus) return 'chorus';
+    if (counts[segment.group] > 1 || segments.length === 1) return 'verse';
+    if (i === 0) return 'intro';
+    if (i === segments.length - 1) return 'outro';
+    return 'bridge';
+  });
+}
+
+/**
+ * Scales a vector to unit length in place, leaving silence at zero
+ */
+function normalize(vector: Float64Array): void {
+  const length = Math.sqrt(dot(vector, vector));
+  if (length > 0) vector.forEach((value: number, i: number) => (vector[i] = value / length));
+}
+
+/**
+ * Takes the dot product of two vectors
+ */
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Adds up a list of numbers
+ */
+function sum(values: number[]): number {
+  return values.reduce((total: number, value: number) => total + value, 0);
+}
+
+/**
+ * Averages a list of numbers, or returns 0 for none
+ */
+function mean(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
@@ -0,0 +1,1681 @@
+// src/utils/subtitleFormats.ts
+import { SubtitleData, SubtitleEntry, SubtitleStyle } from '../plugins/pluginInterfaces';
+
+/**
+ * Subtitle parsing and writing
+ *
+ * SRT, WebVTT, ASS/SSA and TTML (DFXP) are read into SubtitleEntry objects and
+ * written back out. Each format's way of styling and placing a cue is mapped
+ * onto the entry's style and position, so converting between formats keeps as
+ * much of both as the target format can express:
+ *
+ * - SRT: <b>, <i>, <u>, <s> and <font> tags around the whole cue, and the ASS
+ *   {\an} and {\pos} overrides players accept in SRT, laid out on 384x288
+ * - WebVTT: cue settings, ::cue rules in STYLE blocks and <b>, <i>, <u> tags
+ * - ASS/SSA: styles and the override block at the start of each line
+ * - TTML: style attributes, and regions for placement
+ *
+ * Malformed input throws a SubtitleParseError giving the line of the problem.
+ */
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'ssa' | 'ttml';
+
+/** Names of each format, for messages */
+export const SUBTITLE_FORMAT_NAMES: Record<SubtitleFormat, string> = {
+  srt: 'SRT',
+  vtt: 'WebVTT',
+  ass: 'ASS',
+  ssa: 'SSA',
+  ttml: 'TTML',
+};
+
+/** Format names and file extensions, by the format they are */
+const FORMAT_ALIASES: Record<string, SubtitleFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  webvtt: 'vtt',
+  ass: 'ass',
+  ssa: 'ssa',
+  ttml: 'ttml',
+  dfxp: 'ttml',
+  xml: 'ttml',
+};
+
+/** Frame height that font sizes are given in pixels of */
+const REFERENCE_HEIGHT = 1080;
+/** Frame that ASS scripts without PlayResX/PlayResY, and SRT overrides, are laid out on */
+const ASS_DEFAULT_WIDTH = 384;
+const ASS_DEFAULT_HEIGHT = 288;
+/** Frame written ASS scripts and TTML documents are laid out on */
+const WRITE_WIDTH = 1920;
+const WRITE_HEIGHT = 1080;
+
+/**
+ * Thrown for subtitle text that can't be read
+ */
+export class SubtitleParseError extends Error {
+  format: SubtitleFormat;
+  /** 1-based line of the problem */
+  line: number;
+
+  constructor(format: SubtitleFormat, line: number, message: string) {
+    super(`Invalid ${SUBTITLE_FORMAT_NAMES[format]} subtitles at line ${line}: ${message}`);
+    this.name = 'SubtitleParseError';
+    this.format = format;
+    this.line = line;
+  }
+}
+
+/**
+ * Finds the format a format name or file extension refers to
+ * @param name Such as 'srt', '.vtt' or 'dfxp'
+ * @returns The format, or undefined if it isn't one
+ */
+export function resolveSubtitleFormat(name: string): SubtitleFormat | undefined {
+  return FORMAT_ALIASES[name.trim().toLowerCase().replace(/^\./, '')];
+}
+
+/**
+ * Reads subtitles
+ * @param text Subtitle file contents
+ * @param format Format of the file
+ * @throws SubtitleParseError if the text is malformed
+ */
+export function parseSubtitles(text: string, format: SubtitleFormat): SubtitleData {
+  switch (format) {
+    case 'srt':
+      return parseSRT(text);
+    case 'vtt':
+      return parseWebVTT(text);
+    case 'ass':
+    case 'ssa':
+      return parseASS(text);
+    case 'ttml':
+      return parseTTML(text);
+  }
+}
+
+/**
+ * Writes subtitles
+ * @param data Subtitles to write
+ * @param format Format to write them in
+ * @returns The file contents
+ */
+export function writeSubtitles(data: SubtitleData, format: SubtitleFormat): string {
+  switch (format) {
+    case 'srt':
+      return writeSRT(data);
+    case 'vtt':
+      return writeWebVTT(data);
+    case 'ass':
+    case 'ssa':
+      return writeASS(data, format);
+    case 'ttml':
+      return writeTTML(data);
+  }
+}
+
+// SRT
+
+const SRT_TIMING =
+  /^\s*(\d+):([0-5]\d):([0-5]\d)[,.](\d{1,3})\s*-->\s*(\d+):([0-5]\d):([0-5]\d)[,.](\d{1,3})(?:\s.*)?$/;
+
+/**
+ * Reads SubRip subtitles
+ * @throws SubtitleParseError if the text is malformed
+ */
+export function parseSRT(text: string): SubtitleData {
+  const lines = splitLines(text);
+  const entries: SubtitleEntry[] = [];
+  const fail = (index: number, message: string) =>
+    new SubtitleParseError('srt', index + 1, message);
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    // The cue number, which some writers leave out
+    const counter = lines[i].trim();
+    const numbered = /^\d+$/.test(counter);
+    let timingIndex = i;
+    if (numbered) {
+      timingIndex = i + 1;
+    } else if (!counter.includes('-->')) {
+      throw fail(i, `expected a cue number, found "${counter}"`);
+    }
+
+    const timing = lines[timingIndex] ?? '';
+    if (timing.trim() === '') {
+      throw fail(timingIndex, 'expected the cue timing');
+    }
+    const match = timing.match(SRT_TIMING);
+    if (!match) {
+      throw fail(timingIndex, `invalid cue timing "${timing.trim()}"`);
+    }
+    const startTime = clockSeconds(match[1], match[2], match[3], match[4].padEnd(3, '0'));
+    const endTime = clockSeconds(match[5], match[6], match[7], match[8].padEnd(3, '0'));
+    if (endTime < startTime) {
+      throw fail(timingIndex, 'the cue ends before it starts');
+    }
+
+    i = timingIndex + 1;
+    const textLines: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '') {
+      textLines.push(lines[i++]);
+    }
+
+    entries.push({
+      id: numbered ? counter : String(entries.length + 1),
+      startTime,
+      endTime,
+      ...parseSrtText(textLines.join('\n')),
+    });
+  }
+
+  return { entries, metadata: { format: 'srt' } };
+}
+
+/**
+ * Reads the text of an SRT cue, with the tags and overrides around it
+ */
+function parseSrtText(raw: string): Pick<SubtitleEntry, 'text' | 'style' | 'position'> {
+  let style: SubtitleStyle = {};
+  let position: SubtitleEntry['position'];
+
+  const block = raw.match(/^\s*\{(\\[^}]*)\}/);
+  if (block) {
+    const overrides = parseOverrides(block[1], ASS_DEFAULT_WIDTH, ASS_DEFAULT_HEIGHT);
+    style = overrides.style;
+    position = overrides.position;
+  }
+
+  const text = unwrapTags(
+    raw.replace(/\{\\[^}]*\}/g, ''),
+    ['b', 'i', 'u', 's', 'font'],
+    (name, attributes) => {
+      if (name === 'font') {
+        const font = parseAttributes(attributes);
+        if (font.face) style.fontName = font.face;
+        if (font.color && parseColor(font.color)) style.color = parseColor(font.color);
+        if (font.size && Number(font.size) > 0) {
+          style.fontSize = round((Number(font.size) * REFERENCE_HEIGHT) / ASS_DEFAULT_HEIGHT, 1);
+        }
+      } else {
+        style[TAG_FLAGS[name]] = true;
+      }
+    }
+  );
+
+  return {
+    text: text.replace(/<\/?(?:b|i|u|s|font)(?:\s[^>]*)?>/gi, '').trim(),
+    ...definedStyle(style),
+    ...(position && { position }),
+  };
+}
+
+/**
+ * Writes SubRip subtitles
+ */
+export function writeSRT(data: SubtitleData): string {
+  return data.entries
+    .map(
+      (entry: SubtitleEntry, i: number) =>
+        `${i + 1}\n${formatClock(entry.startTime, ',', 3)} --> ${formatClock(entry.endTime, ',', 3)}\n${writeSrtText(entry)}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Writes the text of an SRT cue, wrapped in tags for its style
+ */
+function writeSrtText(entry: SubtitleEntry): string {
+  const style = entry.style ?? {};
+  // A blank line would end the cue
+  let text = entry.text
+    .split('\n')
+    .filter((line: string) => line.trim() !== '')
+    .join('\n');
+
+  (['strikeout', 'underline', 'italic', 'bold'] as const).forEach((flag) => {
+    if (style[flag]) text = `<${FLAG_TAGS[flag]}>${text}</${FLAG_TAGS[flag]}>`;
+  });
+
+  const font: string[] = [];
+  if (style.fontName) font.push(`face="${style.fontName}"`);
+  if (style.color) font.push(`color="${style.color.slice(0, 7)}"`);
+  if (style.fontSize) {
+    font.push(`size="${round((style.fontSize * ASS_DEFAULT_HEIGHT) / REFERENCE_HEIGHT, 3)}"`);
+  }
+  if (font.length) text = `<font ${font.join(' ')}>${text}</font>`;
+
+  const overrides = writePlacement(entry, ASS_DEFAULT_WIDTH, ASS_DEFAULT_HEIGHT, false);
+  return overrides ? `{${overrides}}${text}` : text;
+}
+
+// WebVTT
+
+const VTT_TIMESTAMP = /^(?:(\d{2,}):)?([0-5]\d):([0-5]\d)\.(\d{3})$/;
+
+/**
+ * A ::cue rule from a STYLE block
+ */
+interface CueRule {
+  /** Identifier of the cue it applies to, or undefined for every cue */
+  id?: string;
+  style: SubtitleStyle;
+}
+
+/**
+ * A cue as read, before styles are applied
+ */
+interface VttCue {
+  id?: string;
+  startTime: number;
+  endTime: number;
+  settings: Pick<SubtitleEntry, 'style' | 'position'>;
+  /** Cue text with its markup */
+  raw: string;
+}
+
+/**
+ * Reads WebVTT subtitles
+ * @throws SubtitleParseError if the text is malformed
+ */
+export function parseWebVTT(text: string): SubtitleData {
+  const lines = splitLines(text);
+  const fail = (index: number, message: string) =>
+    new SubtitleParseError('vtt', index + 1, message);
+
+  if (!/^WEBVTT(?:[ \t].*)?$/.test(lines[0])) {
+    throw fail(0, 'expected the file to start with "WEBVTT"');
+  }
+  let i = 1;
+  while (i < lines.length && lines[i].trim() !== '') {
+    if (lines[i].includes('-->')) {
+      throw fail(i, 'expected a blank line after the header');
+    }
+    i++;
+  }
+
+  const rules: CueRule[] = [];
+  const cues: VttCue[] = [];
+
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    // A block runs to a blank line, or to a second line of timings
+    const start = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '') {
+      if (lines[i].includes('-->') && block.some((line: string) => line.includes('-->'))) break;
+      block.push(lines[i++]);
+    }
+
+    if (/^NOTE(?:[ \t]|$)/.test(block[0]) || /^REGION[ \t]*$/.test(block[0])) continue;
+    if (/^STYLE[ \t]*$/.test(block[0])) {
+      // Style blocks after the first cue are ignored
+      if (cues.length === 0) rules.push(...parseCueRules(block.slice(1).join('\n')));
+      continue;
+    }
+
+    const timingIndex = block[0].includes('-->') ? 0 : 1;
+    if (block[timingIndex] === undefined) {
+      throw fail(start, `expected cue timings after "${block[0].trim()}"`);
+    }
+    if (!block[timingIndex].includes('-->')) {
+      throw fail(start + timingIndex, `expected cue timings, found "${block[timingIndex].trim()}"`);
+    }
+    const timing = block[timingIndex].match(/^(\S+)[ \t]+-->[ \t]+(\S+)(.*)$/);
+    if (!timing) {
+      throw fail(start + timingIndex, `invalid cue timings "${block[timingIndex].trim()}"`);
+    }
+    const [startTime, endTime] = [timing[1], timing[2]].map((value: string) => {
+      const time = value.match(VTT_TIMESTAMP);
+      if (!time) throw fail(start + timingIndex, `invalid timestamp "${value}"`);
+      return clockSeconds(time[1], time[2], time[3], time[4]);
+    });
+    if (endTime < startTime) {
+      throw fail(start + timingIndex, 'the cue ends before it starts');
+    }
+
+    const id = timingIndex === 1 ? block[0].trim() : undefined;
+    cues.push({
+      id,
+      startTime,
+      endTime,
+      settings: parseCueSettings(timing[3]),
+      raw: block.slice(timingIndex + 1).join('\n'),
+    });
+  }
+
+  const entries = cues.map((cue: VttCue, i: number) => {
+    // Settings first, then ::cue rules, then tags around the text
+    const style: SubtitleStyle = { ...cue.settings.style };
+    rules
+      .filter((rule: CueRule) => rule.id === undefined || rule.id === cue.id)
+      .forEach((rule: CueRule) => Object.assign(style, rule.style));
+    const text = unwrapTags(cue.raw, ['b', 'i', 'u'], (name: string) => {
+      style[TAG_FLAGS[name]] = true;
+    });
+
+    const entry: SubtitleEntry = {
+      id: cue.id ?? String(i + 1),
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      text: decodeEntities(text.replace(/<[^>]*>/g, '')).trim(),
+      ...definedStyle(style),
+    };
+    if (cue.settings.position) entry.position = cue.settings.position;
+    return entry;
+  });
+
+  return { entries, metadata: { format: 'vtt' } };
+}
+
+/**
+ * Reads the settings after a cue's timings into its position and alignment
+ */
+function parseCueSettings(text: string): Pick<SubtitleEntry, 'style' | 'position'> {
+  const settings: Record<string, string> = {};
+  text
+    .trim()
+    .split(/[ \t]+/)
+    .forEach((setting: string) => {
+      const colon = setting.indexOf(':');
+      if (colon > 0) settings[setting.slice(0, colon)] = setting.slice(colon + 1);
+    });
+
+  // Columns and rows count from the left and from the bottom
+  const align = settings.align ?? 'center';
+  let column = /^(left|start)$/.test(align) ? 0 : /^(right|end)$/.test(align) ? 2 : 1;
+  let x = [0, 0.5, 1][column];
+  const position = settings.position?.match(
+    /^(\d+(?:\.\d+)?)%(?:,(line-left|center|line-right))?$/
+  );
+  if (position) {
+    x = Number(position[1]) / 100;
+    if (position[2]) column = ['line-left', 'center', 'line-right'].indexOf(position[2]);
+  }
+
+  let row = 0;
+  let y: number | undefined;
+  const line = settings.line?.match(/^(-?\d+(?:\.\d+)?)(%)?(?:,(start|center|end))?$/);
+  if (line) {
+    row = ['end', 'center', 'start'].indexOf(line[3] ?? 'start');
+    if (line[2]) {
+      y = Number(line[1]) / 100;
+    } else if (!line[3]) {
+      // Line numbers count down from the top, or up from the bottom when negative
+      row = Number(line[1]) < 0 ? 0 : 2;
+    }
+  }
+
+  const alignment = row * 3 + column + 1;
+  return {
+    ...(alignment !== 2 && { style: { alignment } }),
+    ...(y !== undefined && { position: { x: round(x, 5), y: round(y, 5) } }),
+  };
+}
+
+/**
+ * Reads the ::cue rules of a STYLE block
+ */
+function parseCueRules(css: string): CueRule[] {
+  const rules: CueRule[] = [];
+  const pattern = /([^{}]+)\{([^}]*)\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(css.replace(/\/\*[\s\S]*?\*\//g, '')))) {
+    const style = parseDeclarations(match[2]);
+    match[1].split(',').forEach((selector: string) => {
+      const trimmed = selector.trim();
+      if (trimmed === '::cue') {
+        rules.push({ style });
+        return;
+      }
+      const id = trimmed.match(/^::cue\(\s*#((?:\\[0-9a-fA-F]{1,6}[ \t]?|\\.|[^\s)\\])+)\s*\)$/);
+      if (id) rules.push({ id: cssUnescape(id[1]), style });
+    });
+  }
+  return rules;
+}
+
+/**
+ * Reads CSS declarations into a style
+ */
+function parseDeclarations(text: string): SubtitleStyle {
+  const style: SubtitleStyle = {};
+  text.split(';').forEach((declaration: string) => {
+    const colon = declaration.indexOf(':');
+    if (colon < 0) return;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+
+    switch (property) {
+      case 'color':
+        if (parseColor(value)) style.color = parseColor(value);
+        break;
+      case 'font-family':
+        style.fontName = value
+          .split(',')[0]
+          .trim()
+          .replace(/^["']|["']$/g, '');
+        break;
+      case 'font-size': {
+        const size = value.match(/^(\d+(?:\.\d+)?)(vh|px)$/);
+        if (size) {
+          const pixels =
+            size[2] === 'vh' ? (Number(size[1]) * REFERENCE_HEIGHT) / 100 : Number(size[1]);
+          style.fontSize = round(pixels, 1);
+        }
+        break;
+      }
+      case 'font-weight':
+        style.bold = /^(bold|bolder)$/.test(value) || Number(value) >= 600;
+        break;
+      case 'font-style':
+        style.italic = /^(italic|oblique)/.test(value);
+        break;
+      case 'text-decoration':
+        if (value === 'none') {
+          style.underline = false;
+          style.strikeout = false;
+        }
+        if (value.includes('underline')) style.underline = true;
+        if (value.includes('line-through')) style.strikeout = true;
+        break;
+    }
+  });
+  return style;
+}
+
+/**
+ * Writes WebVTT subtitles
+ */
+export function writeWebVTT(data: SubtitleData): string {
+  const used = new Set<string>();
+  const cues = data.entries.map((entry: SubtitleEntry, i: number) => {
+    // Identifiers can't hold line breaks or "-->", and must be unique
+    let id = entry.id.replace(/\s+/g, ' ').replace(/-->/g, '->').trim() || String(i + 1);
+    while (used.has(id)) id = `${id}_`;
+    used.add(id);
+    return { entry, id };
+  });
+
+  const rules = cues
+    .map(({ entry, id }) => {
+      const declarations = writeDeclarations(entry.style ?? {});
+      return declarations ? `::cue(#${cssEscape(id)}) { ${declarations} }` : '';
+    })
+    .filter(Boolean);
+
+  const blocks = cues.map(({ entry, id }) => {
+    const style = entry.style ?? {};
+    let text = escapeMarkup(entry.text)
+      .split('\n')
+      .filter((line: string) => line.trim() !== '')
+      .join('\n');
+    (['underline', 'italic', 'bold'] as const).forEach((flag) => {
+      if (style[flag]) text = `<${FLAG_TAGS[flag]}>${text}</${FLAG_TAGS[flag]}>`;
+    });
+    const settings = writeCueSettings(entry);
+    return `${id}\n${formatClock(entry.startTime, '.', 3)} --> ${formatClock(entry.endTime, '.', 3)}${settings ? ` ${settings}` : ''}\n${text}\n`;
+  });
+
+  return ['WEBVTT\n', ...(rules.length ? [`STYLE\n${rules.join('\n')}\n`] : []), ...blocks].join(
+    '\n'
+  );
+}
+
+/**
+ * Writes the cue settings that place a cue
+ */
+function writeCueSettings(entry: SubtitleEntry): string {
+  const alignment = entry.style?.alignment ?? 2;
+  const column = (alignment - 1) % 3;
+  const row = Math.floor((alignment - 1) / 3);
+  const settings: string[] = [];
+
+  if (entry.position) {
+    settings.push(
+      `position:${percent(entry.position.x)}%,${['line-left', 'center', 'line-right'][column]}`
+    );
+    settings.push(`line:${percent(entry.position.y)}%,${['end', 'center', 'start'][row]}`);
+  } else if (row === 2) {
+    settings.push('line:0');
+  } else if (row === 1) {
+    settings.push('line:50%,center');
+  }
+  if (column !== 1) {
+    settings.push(`align:${column === 0 ? 'left' : 'right'}`);
+  }
+  return settings.join(' ');
+}
+
+/**
+ * Writes the CSS for the parts of a style WebVTT can't give with tags
+ */
+function writeDeclarations(style: SubtitleStyle): string {
+  const declarations: string[] = [];
+  if (style.color) declarations.push(`color: ${style.color};`);
+  if (style.fontName) declarations.push(`font-family: "${style.fontName.replace(/"/g, '')}";`);
+  if (style.fontSize) {
+    declarations.push(`font-size: ${round((style.fontSize / REFERENCE_HEIGHT) * 100, 4)}vh;`);
+  }
+  if (style.bold === false) declarations.push('font-weight: normal;');
+  if (style.italic === false) declarations.push('font-style: normal;');
+  if (style.strikeout !== undefined || style.underline === false) {
+    const lines = [style.underline && 'underline', style.strikeout && 'line-through'].filter(
+      Boolean
+    );
+    declarations.push(`text-decoration: ${lines.join(' ') || 'none'};`);
+  }
+  return declarations.join(' ');
+}
+
+// ASS/SSA
+
+/** Fields written in ASS styles and events */
+const ASS_STYLE_FORMAT =
+  'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const SSA_STYLE_FORMAT =
+  'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding';
+const ASS_EVENT_FORMAT = 'Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+const SSA_EVENT_FORMAT = 'Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+
+/** Style written as Default when the subtitles don't give one */
+const ASS_DEFAULT_STYLE: SubtitleStyle = {
+  fontName: 'Arial',
+  fontSize: 72,
+  color: '#ffffff',
+  bold: false,
+  italic: false,
+  underline: false,
+  strikeout: false,
+  alignment: 2,
+};
+
+/**
+ * A line of a [Styles] or [Events] section, by field name
+ */
+interface AssRecord {
+  fields: Record<string, string>;
+  /** 0-based line it's on */
+  index: number;
+}
+
+/**
+ * Reads Advanced SubStation Alpha or SubStation Alpha subtitles
+ *
+ * Each entry's style holds what its named style and override block set beyond
+ * the script's Default style, which is returned as metadata.defaultStyle.
+ * @throws SubtitleParseError if the text is malformed
+ */
+export function parseASS(text: string): SubtitleData {
+  const lines = splitLines(text);
+  const info: Record<string, string> = {};
+  const styleRecords: AssRecord[] = [];
+  const dialogues: AssRecord[] = [];
+  let section = '';
+  let legacy = false;
+  let styleFormat: string[] | null = null;
+  let eventFormat: string[] | null = null;
+  let hasEvents = false;
+  const format = (): SubtitleFormat => (legacy ? 'ssa' : 'ass');
+  const fail = (index: number, message: string) =>
+    new SubtitleParseError(format(), index + 1, message);
+
+  const record = (fieldNames: string[], value: string, index: number): AssRecord => {
+    // The last field is free text and may hold commas
+    const values = value.split(',');
+    if (values.length < fieldNames.length) {
+      throw fail(index, `expected ${fieldNames.length} fields, found ${values.length}`);
+    }
+    const head = values.slice(0, fieldNames.length - 1);
+    const fields: Record<string, string> = {};
+    fieldNames.forEach((name: string, i: number) => {
+      fields[name] = i < head.length ? head[i].trim() : values.slice(head.length).join(',');
+    });
+    return { fields, index };
+  };
+
+  lines.forEach((raw: string, index: number) => {
+    const line = raw.trim();
+    if (!line || line.startsWith(';') || line.startsWith('!:')) return;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].trim().toLowerCase();
+      if (section === 'v4 styles') legacy = true;
+      if (section === 'events') hasEvents = true;
+      return;
+    }
+
+    const field = line.match(/^([^:]+):\s*(.*)$/);
+    if (section === 'script info') {
+      if (field) info[field[1].trim()] = field[2].trim();
+      return;
+    }
+    if (section !== 'events' && !section.startsWith('v4')) return;
+    if (!field) {
+      throw fail(index, `expected "Key: value", found "${line}"`);
+    }
+
+    const key = field[1].trim();
+    if (key === 'Format') {
+      const names = field[2].split(',').map((name: string) => name.trim().toLowerCase());
+      if (section === 'events') {
+        if (
+          !names.includes('start') ||
+          !names.includes('end') ||
+          names[names.length - 1] !== 'text'
+        ) {
+          throw fail(index, 'the Format line must name Start and End, and end with Text');
+        }
+        eventFormat = names;
+      } else {
+        styleFormat = names;
+      }
+    } else if (key === 'Style' && section !== 'events') {
+      if (!styleFormat) throw fail(index, 'Style comes before the Format line');
+      styleRecords.push(record(styleFormat, field[2], index));
+    } else if (key === 'Dialogue' && section === 'events') {
+      if (!eventFormat) throw fail(index, 'Dialogue comes before the Format line');
+      dialogues.push(record(eventFormat, field[2], index));
+    }
+  });
+
+  if (!hasEvents) {
+    throw fail(Math.max(0, lines.length - 1), 'no [Events] section');
+  }
+  if (info.ScriptType && /^v4\.00$/i.test(info.ScriptType)) legacy = true;
+
+  // Players work one side out from the other when only one is given
+  let playResX = Number(info.PlayResX) || 0;
+  let playResY = Number(info.PlayResY) || 0;
+  if (!playResX && !playResY) {
+    playResX = ASS_DEFAULT_WIDTH;
+    playResY = ASS_DEFAULT_HEIGHT;
+  } else if (!playResY) {
+    playResY = playResX === 1280 ? 1024 : (playResX * 3) / 4;
+  } else if (!playResX) {
+    playResX = playResY === 1024 ? 1280 : (playResY * 4) / 3;
+  }
+
+  const styles = new Map<string, SubtitleStyle>();
+  styleRecords.forEach(({ fields }: AssRecord) => {
+    styles.set(fields.name.replace(/^\*/, ''), parseAssStyle(fields, playResY, legacy));
+  });
+  const defaultStyle = styles.get('Default');
+
+  const entries = dialogues.map(({ fields, index }: AssRecord, i: number) => {
+    const [startTime, endTime] = [fields.start, fields.end].map((value: string) => {
+      const time = value.match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.:](\d+))?$/);
+      if (!time || Number(time[2]) > 59 || Number(time[3]) > 59) {
+        throw fail(index, `invalid time "${value}"`);
+      }
+      return clockSeconds(time[1], time[2], time[3], time[4] ?? '0');
+    });
+    if (endTime < startTime) {
+      throw fail(index, 'the line ends before it starts');
+    }
+
+    const name = (fields.style ?? '').replace(/^\*/, '');
+    const style: SubtitleStyle = name !== 'Default' ? { ...styles.get(name) } : {};
+    let position: SubtitleEntry['position'];
+    const leading = fields.text.match(/^(?:\{[^}]*\})+/);
+    if (leading) {
+      const overrides = parseOverrides(leading[0].replace(/[{}]/g, ''), playResX, playResY, legacy);
+      Object.assign(style, overrides.style);
+      position = overrides.position;
+    }
+
+    const entry: SubtitleEntry = {
+      id: String(i + 1),
+      startTime,
+      endTime,
+      text: fields.text
+        .replace(/\{[^}]*\}/g, '')
+        .replace(/\\[Nn]/g, '\n')
+        .replace(/\\h/g, '\u00A0'),
+      ...definedStyle(style),
+    };
+    if (position) entry.position = position;
+    return entry;
+  });
+
+  return {
+    entries,
+    metadata: {
+      format: format(),
+      ...(info.Title && { title: info.Title }),
+      ...(defaultStyle && { defaultStyle }),
+    },
+  };
+}
+
+/**
+ * Reads a style line
+ */
+function parseAssStyle(
+  fields: Record<string, string>,
+  playResY: number,
+  legacy: boolean
+): SubtitleStyle {
+  const style: SubtitleStyle = {};
+  const flag = (value: string | undefined) =>
+    value !== undefined && value !== '' && Number(value) !== 0;
+  if (fields.fontname) style.fontName = fields.fontname;
+  if (Number(fields.fontsize) > 0) {
+    style.fontSize = round((Number(fields.fontsize) * REFERENCE_HEIGHT) / playResY, 1);
+  }
+  const color = fields.primarycolour && parseAssColor(fields.primarycolour);
+  if (color) style.color = color;
+  if (fields.bold !== undefined) style.bold = flag(fields.bold);
+  if (fields.italic !== undefined) style.italic = flag(fields.italic);
+  if (fields.underline !== undefined) style.underline = flag(fields.underline);
+  if (fields.strikeout !== undefined) style.strikeout = flag(fields.strikeout);
+  const alignment = Number(fields.alignment);
+  if (alignment) style.alignment = legacy ? fromLegacyAlignment(alignment) : alignment;
+  return style;
+}
+
+/**
+ * Reads the override tags of an ASS override block, or one at the start of an SRT cue
+ * @param block Tags, each starting with a backslash
+ * @param playResX Width of the frame \pos is given on
+ * @param playResY Height of the frame \pos and \fs are given on
+ * @param legacy Whether \a uses SSA's alignment numbers
+ */
+function parseOverrides(
+  block: string,
+  playResX: number,
+  playResY: number,
+  legacy = false
+): { style: SubtitleStyle; position?: { x: number; y: number } } {
+  const style: SubtitleStyle = {};
+  let position: { x: number; y: number } | undefined;
+  let alpha: number | undefined;
+
+  block
+    .split('\\')
+    .slice(1)
+    .forEach((tag: string) => {
+      let match: RegExpMatchArray | null;
+      if ((match = tag.match(/^pos\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)/))) {
+        position = {
+          x: round(Number(match[1]) / playResX, 5),
+          y: round(Number(match[2]) / playResY, 5),
+        };
+      } else if ((match = tag.match(/^an([1-9])$/))) {
+        style.alignment = Number(match[1]);
+      } else if ((match = tag.match(/^a(\d+)$/))) {
+        style.alignment =
+          legacy || Number(match[1]) > 3 ? fromLegacyAlignment(Number(match[1])) : Number(match[1]);
+      } else if ((match = tag.match(/^fn(.+)$/))) {
+        style.fontName = match[1].trim();
+      } else if ((match = tag.match(/^fs(\d+(?:\.\d+)?)$/))) {
+        style.fontSize = round((Number(match[1]) * REFERENCE_HEIGHT) / playResY, 1);
+      } else if ((match = tag.match(/^1?c&H([0-9a-f]{1,6})&?$/i))) {
+        style.color = parseAssColor(`&H${match[1]}`);
+      } else if ((match = tag.match(/^(?:1a|alpha)&H([0-9a-f]{1,2})&?$/i))) {
+        alpha = 255 - parseInt(match[1], 16);
+      } else if ((match = tag.match(/^b(\d+)$/))) {
+        style.bold = Number(match[1]) !== 0;
+      } else if ((match = tag.match(/^([ius])([01])$/))) {
+        style[TAG_FLAGS[match[1]]] = match[2] === '1';
+      }
+    });
+
+  if (style.color && alpha !== undefined) {
+    const [r, g, b] = colorChannels(style.color);
+    style.color = rgbaHex(r, g, b, alpha);
+  }
+  return { style, position };
+}
+
+/**
+ * Writes Advanced SubStation Alpha or SubStation Alpha subtitles
+ * @param data Subtitles; metadata.defaultStyle, if given, is written as the Default style
+ * @param format 'ass' or 'ssa'
+ */
+export function writeASS(data: SubtitleData, format: 'ass' | 'ssa' = 'ass'): string {
+  const legacy = format === 'ssa';
+  const base: SubtitleStyle = { ...ASS_DEFAULT_STYLE, ...data.metadata?.defaultStyle };
+  const flag = (value: boolean | undefined) => (value ? '-1' : '0');
+  const color = legacy
+    ? (value: string) => String(parseInt(formatAssColor(value).slice(4), 16))
+    : formatAssColor;
+  const alignment = legacy ? toLegacyAlignment(base.alignment ?? 2) : (base.alignment ?? 2);
+  const style = legacy
+    ? `Style: Default,${base.fontName},${base.fontSize},${color(base.color!)},255,0,0,${flag(base.bold)},${flag(base.italic)},1,3,0,${alignment},60,60,50,0,1`
+    : `Style: Default,${base.fontName},${base.fontSize},${color(base.color!)},&H000000FF,&H00000000,&H80000000,${flag(base.bold)},${flag(base.italic)},${flag(base.underline)},${flag(base.strikeout)},100,100,0,0,1,3,0,${alignment},60,60,50,1`;
+
+  const events = data.entries.map((entry: SubtitleEntry) => {
+    const text = entry.text.replace(/\r?\n/g, '\\N');
+    const overrides = writeOverrides(entry, legacy);
+    const start = formatClock(entry.startTime, '.', 2, 1);
+    const end = formatClock(entry.endTime, '.', 2, 1);
+    return `Dialogue: ${legacy ? 'Marked=0' : '0'},${start},${end},Default,,0,0,0,,${overrides ? `{${overrides}}` : ''}${text}`;
+  });
+
+  return [
+    '[Script Info]',
+    ...(data.metadata?.title ? [`Title: ${data.metadata.title}`] : []),
+    `ScriptType: ${legacy ? 'v4.00' : 'v4.00+'}`,
+    `PlayResX: ${WRITE_WIDTH}`,
+    `PlayResY: ${WRITE_HEIGHT}`,
+    'WrapStyle: 0',
+    '',
+    legacy ? '[V4 Styles]' : '[V4+ Styles]',
+    `Format: ${legacy ? SSA_STYLE_FORMAT : ASS_STYLE_FORMAT}`,
+    style,
+    '',
+    '[Events]',
+    `Format: ${legacy ? SSA_EVENT_FORMAT : ASS_EVENT_FORMAT}`,
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Writes the override tags for an entry's style and position
+ */
+function writeOverrides(entry: SubtitleEntry, legacy: boolean): string {
+  const style = entry.style ?? {};
+  const tags: string[] = [];
+  if (style.fontName) tags.push(`\\fn${style.fontName}`);
+  if (style.fontSize)
+    tags.push(`\\fs${round((style.fontSize * WRITE_HEIGHT) / REFERENCE_HEIGHT, 2)}`);
+  if (style.color) {
+    const color = formatAssColor(style.color);
+    tags.push(`\\c&H${color.slice(4)}&`);
+    if (color.slice(2, 4) !== '00') tags.push(`\\1a&H${color.slice(2, 4)}&`);
+  }
+  (['bold', 'italic', 'underline', 'strikeout'] as const).forEach((flag) => {
+    if (style[flag] !== undefined) tags.push(`\\${FLAG_TAGS[flag]}${style[flag] ? 1 : 0}`);
+  });
+  return tags.join('') + writePlacement(entry, WRITE_WIDTH, WRITE_HEIGHT, legacy);
+}
+
+/**
+ * Writes the alignment and \pos override tags that place an entry
+ */
+function writePlacement(
+  entry: SubtitleEntry,
+  width: number,
+  height: number,
+  legacy: boolean
+): string {
+  const alignment = entry.style?.alignment;
+  let tags = '';
+  if (alignment !== undefined && (alignment !== 2 || entry.position)) {
+    tags += legacy ? `\\a${toLegacyAlignment(alignment)}` : `\\an${alignment}`;
+  }
+  if (entry.position) {
+    tags += `\\pos(${round(entry.position.x * width, 3)},${round(entry.position.y * height, 3)})`;
+  }
+  return tags;
+}
+
+/**
+ * Reads an ASS colour, &HAABBGGRR with AA the transparency, or SSA's decimal BGR
+ */
+function parseAssColor(value: string): string | undefined {
+  const trimmed = value.trim();
+  const hex = trimmed.match(/^&H([0-9a-f]{1,8})&?$/i);
+  const number = hex ? parseInt(hex[1], 16) : /^-?\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : NaN;
+  if (Number.isNaN(number)) return undefined;
+  return rgbaHex(
+    number & 255,
+    (number >>> 8) & 255,
+    (number >>> 16) & 255,
+    255 - ((number >>> 24) & 255)
+  );
+}
+
+/**
+ * Writes a colour as &HAABBGGRR
+ */
+function formatAssColor(color: string): string {
+  const [r, g, b, a] = colorChannels(color);
+  return `&H${[255 - a, b, g, r].map(hexByte).join('').toUpperCase()}`;
+}
+
+/** SSA's alignment numbers run 1-3 along the bottom, 5-7 along the top and 9-11 across the middle */
+function fromLegacyAlignment(value: number): number {
+  return value >= 9 ? value - 5 : value >= 5 ? value + 2 : value;
+}
+
+function toLegacyAlignment(value: number): number {
+  return value >= 7 ? value - 2 : value >= 4 ? value + 5 : value;
+}
+
+// TTML
+
+const TTML_NAMESPACES = [
+  'http://www.w3.org/ns/ttml',
+  'http://www.w3.org/2006/10/ttaf1',
+  'http://www.w3.org/2006/04/ttaf1',
+];
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+/** Rows of cells TTML divides the frame into unless ttp:cellResolution says otherwise */
+const TTML_CELL_ROWS = 15;
+
+/**
+ * Timing parameters of a TTML document
+ */
+interface TtmlTiming {
+  frameRate: number;
+  subFrameRate: number;
+  tickRate: number;
+}
+
+/**
+ * Reads TTML or DFXP subtitles
+ * @throws SubtitleParseError if the text is malformed
+ */
+export function parseTTML(text: string): SubtitleData {
+  const source = text.replace(/^\uFEFF/, '');
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    const message = (error.textContent ?? '').trim();
+    throw new SubtitleParseError('ttml', xmlErrorLine(message), `malformed XML (${message})`);
+  }
+
+  // Match elements to the lines their start tags are on
+  const tagLines = startTagLines(source);
+  const lineOf = new Map<Element, number>();
+  Array.from(doc.getElementsByTagName('*')).forEach((element: Element, i: number) => {
+    lineOf.set(element, tagLines[i] ?? 1);
+  });
+  const fail = (element: Element, message: string) =>
+    new SubtitleParseError('ttml', lineOf.get(element) ?? 1, message);
+
+  const tt = doc.documentElement;
+  if (tt.localName !== 'tt' || !TTML_NAMESPACES.includes(tt.namespaceURI ?? '')) {
+    throw fail(tt, 'expected a <tt> root element in the TTML namespace');
+  }
+
+  const frameRate = Number(parameter(tt, 'frameRate')) || 30;
+  const [numerator, denominator] = (parameter(tt, 'frameRateMultiplier') ?? '1 1')
+    .split(/\s+/)
+    .map(Number);
+  const timing: TtmlTiming = {
+    frameRate: (frameRate * (numerator || 1)) / (denominator || 1),
+    subFrameRate: Number(parameter(tt, 'subFrameRate')) || 1,
+    tickRate: Number(parameter(tt, 'tickRate')) || (parameter(tt, 'frameRate') ? frameRate : 1),
+  };
+  const cellRows =
+    Number((parameter(tt, 'cellResolution') ?? '').split(/\s+/)[1]) || TTML_CELL_ROWS;
+  const rootExtent = (styling(tt, 'extent') ?? '').match(/^(\d+(?:\.\d+)?)px\s+(\d+(?:\.\d+)?)px$/);
+  const root = rootExtent
+    ? { width: Number(rootExtent[1]), height: Number(rootExtent[2]) }
+    : { width: WRITE_WIDTH, height: WRITE_HEIGHT };
+
+  const byId = new Map<string, Element>();
+  Array.from(doc.getElementsByTagName('*')).forEach((element: Element) => {
+    const id = element.getAttributeNS(XML_NAMESPACE, 'id') || element.getAttribute('id');
+    if (id) byId.set(id, element);
+  });
+
+  /** Style attributes an element sets itself, through the styles it refers to and then inline */
+  const ownStyle = (element: Element, seen = new Set<Element>()): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    seen.add(element);
+    (element.getAttribute('style') ?? '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((id: string) => {
+        const referenced = byId.get(id);
+        if (referenced && referenced.localName === 'style' && !seen.has(referenced)) {
+          Object.assign(attributes, ownStyle(referenced, seen));
+        }
+      });
+    Array.from(element.attributes).forEach((attribute: Attr) => {
+      if (isStylingNamespace(attribute.namespaceURI))
+        attributes[attribute.localName] = attribute.value;
+    });
+    return attributes;
+  };
+
+  const time = (element: Element, name: string): number | undefined => {
+    const value = element.getAttribute(name);
+    if (value === null) return undefined;
+    const seconds = ttmlTime(value, timing);
+    if (seconds === undefined) throw fail(element, `invalid ${name} time "${value}"`);
+    return seconds;
+  };
+
+  const entries: SubtitleEntry[] = [];
+  const body = Array.from(tt.children).find((child: Element) => child.localName === 'body');
+
+  const visit = (
+    element: Element,
+    offset: number,
+    parentEnd: number | undefined,
+    inherited: Record<string, string>,
+    region: string | null,
+    preserve: boolean
+  ) => {
+    const begin = offset + (time(element, 'begin') ?? 0);
+    const end = time(element, 'end');
+    const dur = time(element, 'dur');
+    const endTime = end !== undefined ? offset + end : dur !== undefined ? begin + dur : parentEnd;
+    const attributes = { ...inherited, ...ownStyle(element) };
+    const regionId = element.getAttribute('region') ?? region;
+    const space = element.getAttributeNS(XML_NAMESPACE, 'space');
+    const preserveSpace = space ? space === 'preserve' : preserve;
+
+    if (element.localName !== 'p') {
+      Array.from(element.children)
+        .filter((child: Element) => child.localName === 'div' || child.localName === 'p')
+        .forEach((child: Element) =>
+          visit(child, begin, endTime, attributes, regionId, preserveSpace)
+        );
+      return;
+    }
+
+    if (endTime === undefined) {
+      throw fail(element, 'the paragraph has no end time');
+    }
+    if (endTime < begin) {
+      throw fail(element, 'the paragraph ends before it starts');
+    }
+
+    // A span around the whole paragraph styles all of it
+    const spans = Array.from(element.children);
+    const wrapped =
+      spans.length === 1 &&
+      spans[0].localName === 'span' &&
+      Array.from(element.childNodes).every(
+        (node: Node) => node === spans[0] || (node.nodeType === 3 && !node.textContent?.trim())
+      );
+    if (wrapped) Object.assign(attributes, ownStyle(spans[0]));
+
+    const regionElement = regionId ? byId.get(regionId) : undefined;
+    // Style set on the region is inherited by what's shown in it
+    const layout = regionElement ? { ...ownStyle(regionElement), ...attributes } : attributes;
+    const placement = ttmlPlacement(layout, root, regionElement !== undefined);
+
+    const entry: SubtitleEntry = {
+      id:
+        element.getAttributeNS(XML_NAMESPACE, 'id') ||
+        element.getAttribute('id') ||
+        String(entries.length + 1),
+      startTime: begin,
+      endTime,
+      text: ttmlText(element, preserveSpace),
+      ...definedStyle({ ...ttmlStyle(layout, root.height, cellRows), ...placement.style }),
+    };
+    if (placement.position) entry.position = placement.position;
+    entries.push(entry);
+  };
+
+  if (body) {
+    visit(body, 0, undefined, {}, null, false);
+  }
+
+  const language = tt.getAttributeNS(XML_NAMESPACE, 'lang');
+  return { entries, metadata: { format: 'ttml', ...(language && { language }) } };
+}
+
+/**
+ * Reads the text of a paragraph, with <br/> as line breaks
+ */
+function ttmlText(element: Element, preserve: boolean): string {
+  const collect = (node: Node): string => {
+    if (node.nodeType === 3) {
+      return preserve ? (node.textContent ?? '') : (node.textContent ?? '').replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== 1) return '';
+    const name = (node as Element).localName;
+    if (name === 'br') return '\n';
+    if (name === 'metadata') return '';
+    return Array.from(node.childNodes).map(collect).join('');
+  };
+  const text = collect(element);
+  return preserve
+    ? text
+    : text
+        .split('\n')
+        .map((line: string) => line.trim())
+        .join('\n')
+        .trim();
+}
+
+/**
+ * Reads TTML style attributes into a style
+ */
+function ttmlStyle(
+  attributes: Record<string, string>,
+  rootHeight: number,
+  cellRows: number
+): SubtitleStyle {
+  const style: SubtitleStyle = {};
+  if (attributes.color && parseColor(attributes.color, 255))
+    style.color = parseColor(attributes.color, 255);
+  if (attributes.fontFamily) {
+    style.fontName = attributes.fontFamily
+      .split(',')[0]
+      .trim()
+      .replace(/^["']|["']$/g, '');
+  }
+  if (attributes.fontSize) {
+    // With two sizes, the second is the height
+    const sizes = attributes.fontSize.trim().split(/\s+/);
+    const size = sizes[sizes.length - 1].match(/^(\d+(?:\.\d+)?)(px|c|%)$/);
+    if (size) {
+      const value = Number(size[1]);
+      const cell = REFERENCE_HEIGHT / cellRows;
+      const pixels =
+        size[2] === 'px'
+          ? (value * REFERENCE_HEIGHT) / rootHeight
+          : size[2] === 'c'
+            ? value * cell
+            : (value / 100) * cell;
+      style.fontSize = round(pixels, 1);
+    }
+  }
+  if (attributes.fontWeight) style.bold = attributes.fontWeight === 'bold';
+  if (attributes.fontStyle) style.italic = /^(italic|oblique)$/.test(attributes.fontStyle);
+  if (attributes.textDecoration) {
+    const decoration = attributes.textDecoration.split(/\s+/);
+    if (decoration.includes('underline')) style.underline = true;
+    if (decoration.includes('noUnderline') || decoration.includes('none')) style.underline = false;
+    if (decoration.includes('lineThrough')) style.strikeout = true;
+    if (decoration.includes('noLineThrough') || decoration.includes('none'))
+      style.strikeout = false;
+  }
+  return style;
+}
+
+/**
+ * Works out an entry's alignment and position from the region it's shown in
+ * @param attributes The region's style attributes, then the paragraph's
+ * @param root Size of the root container, for lengths in pixels
+ * @param inRegion Whether the paragraph is in a region; without one it fills the frame
+ */
+function ttmlPlacement(
+  attributes: Record<string, string>,
+  root: { width: number; height: number },
+  inRegion: boolean
+): { style: SubtitleStyle; position?: { x: number; y: number } } {
+  const textAlign = attributes.textAlign ?? 'start';
+  const column = /^(left|start)$/.test(textAlign) ? 0 : /^(right|end)$/.test(textAlign) ? 2 : 1;
+  const row = ['after', 'center', 'before'].indexOf(attributes.displayAlign ?? 'before');
+  const alignment = Math.max(0, row) * 3 + column + 1;
+  const style = alignment !== 2 ? { alignment } : {};
+
+  const origin = inRegion ? ttmlLengths(attributes.origin, root) : undefined;
+  if (!origin) return { style };
+  const extent = ttmlLengths(attributes.extent, root) ?? [1 - origin[0], 1 - origin[1]];
+  return {
+    style,
+    position: {
+      x: round(origin[0] + (extent[0] * column) / 2, 5),
+      y: round(origin[1] + (extent[1] * (2 - Math.max(0, row))) / 2, 5),
+    },
+  };
+}
+
+/**
+ * Reads a pair of TTML lengths as shares of the frame
+ */
+function ttmlLengths(
+  value: string | undefined,
+  root: { width: number; height: number }
+): [number, number] | undefined {
+  const parts = (value ?? '').trim().split(/\s+/);
+  if (parts.length !== 2) return undefined;
+  const lengths = parts.map((part: string, i: number) => {
+    const length = part.match(/^(-?\d+(?:\.\d+)?)(%|px)$/);
+    if (!length) return NaN;
+    return length[2] === '%'
+      ? Number(length[1]) / 100
+      : Number(length[1]) / (i ? root.height : root.width);
+  });
+  return lengths.some(Number.isNaN) ? undefined : [lengths[0], lengths[1]];
+}
+
+/**
+ * Reads a TTML time expression
+ * @returns Seconds, or undefined if the expression is invalid
+ */
+function ttmlTime(value: string, timing: TtmlTiming): number | undefined {
+  const trimmed = value.trim();
+  const clock = trimmed.match(/^(\d{2,}):(\d{2}):(\d{2})(?:\.(\d+)|:(\d{2,})(?:\.(\d+))?)?$/);
+  if (clock) {
+    let seconds = clockSeconds(clock[1], clock[2], clock[3], clock[4] ?? '0');
+    if (clock[5]) {
+      const subFrames = clock[6] ? Number(clock[6]) / timing.subFrameRate : 0;
+      seconds += (Number(clock[5]) + subFrames) / timing.frameRate;
+    }
+    return seconds;
+  }
+
+  const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (!offset) return undefined;
+  const amount = Number(offset[1]);
+  switch (offset[2]) {
+    case 'h':
+      return amount * 3600;
+    case 'm':
+      return amount * 60;
+    case 's':
+      return amount;
+    case 'ms':
+      return amount / 1000;
+    case 'f':
+      return amount / timing.frameRate;
+    default:
+      return amount / timing.tickRate;
+  }
+}
+
+/**
+ * Writes TTML subtitles
+ *
+ * Styles are written on each paragraph, and placement as regions shared by
+ * the paragraphs placed alike.
+ */
+export function writeTTML(data: SubtitleData): string {
+  const regions = new Map<string, { id: string; element: string }>();
+  const regionFor = (entry: SubtitleEntry): string => {
+    const alignment = entry.style?.alignment ?? 2;
+    const key = `${alignment} ${entry.position?.x} ${entry.position?.y}`;
+    if (!regions.has(key)) {
+      const id = !entry.position && alignment === 2 ? 'bottom' : `region${regions.size + 1}`;
+      regions.set(key, { id, element: writeRegion(id, alignment, entry.position) });
+    }
+    return regions.get(key)!.id;
+  };
+
+  const used = new Set<string>();
+  const paragraphs = data.entries.map((entry: SubtitleEntry, i: number) => {
+    let id = /^[A-Za-z_][\w.-]*$/.test(entry.id) ? entry.id : `sub${i + 1}`;
+    while (used.has(id)) id = `${id}_`;
+    used.add(id);
+
+    const attributes = [
+      `xml:id="${id}"`,
+      `begin="${formatClock(entry.startTime, '.', 3)}"`,
+      `end="${formatClock(entry.endTime, '.', 3)}"`,
+      `region="${regionFor(entry)}"`,
+      ...writeTtmlStyle(entry.style ?? {}),
+    ];
+    const text = entry.text.split('\n').map((line: string) => escapeMarkup(line)).join('<br/>');
+    return `      <p ${attributes.join(' ')}>${text}</p>`;
+  });
+
+  const language = data.metadata?.language ?? 'en';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:timeBase="media" xml:lang="${escapeMarkup(language, true)}" tts:extent="${WRITE_WIDTH}px ${WRITE_HEIGHT}px">`,
+    '  <head>',
+    '    <layout>',
+    ...Array.from(regions.values()).map(({ element }) => `      ${element}`),
+    '    </layout>',
+    '  </head>',
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Writes a region that places its paragraphs' alignment point at a position
+ */
+function writeRegion(id: string, alignment: number, position?: { x: number; y: number }): string {
+  const column = (alignment - 1) % 3;
+  const row = Math.floor((alignment - 1) / 3);
+  const attributes = [
+    `xml:id="${id}"`,
+    `tts:displayAlign="${['after', 'center', 'before'][row]}"`,
+    `tts:textAlign="${['left', 'center', 'right'][column]}"`,
+  ];
+
+  if (position) {
+    // The region reaches from the position to the frame's edge, or equally
+    // either side of it when centred
+    const span = (value: number, side: number): [number, number] => {
+      if (side === 0) return [value, 1 - value];
+      if (side === 2) return [0, value];
+      const half = Math.min(value, 1 - value);
+      return [value - half, half * 2];
+    };
+    const [left, width] = span(position.x, column);
+    const [top, height] = span(position.y, 2 - row);
+    attributes.push(`tts:origin="${percent(left)}% ${percent(top)}%"`);
+    attributes.push(`tts:extent="${percent(width)}% ${percent(height)}%"`);
+  }
+  return `<region ${attributes.join(' ')}/>`;
+}
+
+/**
+ * Writes a style as TTML style attributes
+ */
+function writeTtmlStyle(style: SubtitleStyle): string[] {
+  const attributes: string[] = [];
+  if (style.fontName) attributes.push(`tts:fontFamily="${escapeMarkup(style.fontName, true)}"`);
+  if (style.fontSize) {
+    attributes.push(
+      `tts:fontSize="${round((style.fontSize * WRITE_HEIGHT) / REFERENCE_HEIGHT, 2)}px"`
+    );
+  }
+  if (style.color) attributes.push(`tts:color="${style.color}"`);
+  if (style.bold !== undefined)
+    attributes.push(`tts:fontWeight="${style.bold ? 'bold' : 'normal'}"`);
+  if (style.italic !== undefined)
+    attributes.push(`tts:fontStyle="${style.italic ? 'italic' : 'normal'}"`);
+  const decoration = [
+    style.underline !== undefined && (style.underline ? 'underline' : 'noUnderline'),
+    style.strikeout !== undefined && (style.strikeout ? 'lineThrough' : 'noLineThrough'),
+  ].filter(Boolean);
+  if (decoration.length) attributes.push(`tts:textDecoration="${decoration.join(' ')}"`);
+  return attributes;
+}
+
+/**
+ * Reads a TTML parameter attribute
+ */
+function parameter(element: Element, name: string): string | undefined {
+  const attribute = Array.from(element.attributes).find(
+    (candidate: Attr) =>
+      candidate.localName === name && (candidate.namespaceURI ?? '').endsWith('#parameter')
+  );
+  return attribute?.value;
+}
+
+/**
+ * Reads a TTML style attribute set on an element itself
+ */
+function styling(element: Element, name: string): string | undefined {
+  const attribute = Array.from(element.attributes).find(
+    (candidate: Attr) => candidate.localName === name && isStylingNamespace(candidate.namespaceURI)
+  );
+  return attribute?.value;
+}
+
+function isStylingNamespace(namespace: string | null): boolean {
+  return namespace !== null && /#styl(ing|e)$/.test(namespace);
+}
+
+/**
+ * Finds the line a parser error message points at
+ *
+ * Parsers give it as "3:19: message", "line 3 at column 19" or "Line Number 3".
+ */
+function xmlErrorLine(message: string): number {
+  const match = message.match(/^(\d+):\d+/) ?? message.match(/line(?:\s+number)?\s+(\d+)/i);
+  return match ? Number(match[1]) : 1;
+}
+
+/**
+ * Lists the line each start tag is on, in document order
+ */
+function startTagLines(xml: string): number[] {
+  const lines: number[] = [];
+  const pattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<[A-Za-z_]/g;
+  let line = 1;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    for (let i = last; i < match.index; i++) {
+      if (xml.charCodeAt(i) === 10) line++;
+    }
+    last = match.index;
+    if (/^<[A-Za-z_]$/.test(match[0])) lines.push(line);
+  }
+  return lines;
+}
+
+// Shared
+
+/** Style flags set by a markup tag */
+const TAG_FLAGS: Record<string, 'bold' | 'italic' | 'underline' | 'strikeout'> = {
+  b: 'bold',
+  i: 'italic',
+  u: 'underline',
+  s: 'strikeout',
+};
+const FLAG_TAGS = { bold: 'b', italic: 'i', underline: 'u', strikeout: 's' } as const;
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  red: '#ff0000',
+  lime: '#00ff00',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  aqua: '#00ffff',
+  magenta: '#ff00ff',
+  fuchsia: '#ff00ff',
+  silver: '#c0c0c0',
+  gray: '#808080',
+  grey: '#808080',
+  maroon: '#800000',
+  olive: '#808000',
+  purple: '#800080',
+  teal: '#008080',
+  navy: '#000080',
+  orange: '#ffa500',
+};
+
+/**
+ * Reads a hex, rgb() or rgba() colour, or one of the basic colour names
+ * @param alphaScale What rgba() alpha counts up to: 1 in CSS, 255 in TTML
+ * @returns The colour as #rrggbb or #rrggbbaa, or undefined if it isn't one
+ */
+function parseColor(value: string, alphaScale = 1): string | undefined {
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+  if (color === 'transparent') return '#00000000';
+
+  const short = color.match(/^#([0-9a-f]{3,4})$/);
+  if (short) {
+    const [r, g, b, a = 'f'] = short[1].split('');
+    return parseColor(`#${r}${r}${g}${g}${b}${b}${a}${a}`);
+  }
+  const hex = color.match(/^#([0-9a-f]{6})([0-9a-f]{2})?$/);
+  if (hex) {
+    return hex[2] && hex[2] !== 'ff' ? `#${hex[1]}${hex[2]}` : `#${hex[1]}`;
+  }
+  const rgb = color.match(
+    /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*(\d+(?:\.\d+)?)\s*)?\)$/
+  );
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 255 : Math.round((Number(rgb[4]) / alphaScale) * 255);
+    return rgbaHex(Number(rgb[1]), Number(rgb[2]), Number(rgb[3]), alpha);
+  }
+  return undefined;
+}
+
+/**
+ * Splits a colour into its red, green, blue and alpha channels (0-255)
+ * @param color Colour as #rrggbb, #rrggbbaa or any form parseColor reads
+ * @returns The channels, or opaque white if it isn't a colour
+ */
+export function colorChannels(color: string): [number, number, number, number] {
+  const hex = parseColor(color) ?? '#ffffff';
+  const channel = (i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  return [channel(0), channel(1), channel(2), hex.length > 7 ? channel(3) : 255];
+}
+
+function rgbaHex(r: number, g: number, b: number, a = 255): string {
+  const hex = [r, g, b].map(hexByte).join('');
+  return a >= 255 ? `#${hex}` : `#${hex}${hexByte(a)}`;
+}
+
+function hexByte(value: number): string {
+  return Math.max(0, Math.min(255, Math.round(value)))
+    .toString(16)
+    .padStart(2, '0');
+}
+
+/**
+ * Strips markup tags that enclose the whole text, innermost last
+ * @param names Tags to strip
+ * @param onTag Called with the name and attributes of each tag stripped
+ */
+function unwrapTags(
+  text: string,
+  names: string[],
+  onTag: (name: string, attributes: string) => void
+): string {
+  for (;;) {
+    const trimmed = text.trim();
+    const open = trimmed.match(/^<([a-z]+)((?:\.[^\s>]*)?(?:\s[^>]*)?)>/i);
+    if (!open || !names.includes(open[1].toLowerCase())) return text;
+    const name = open[1].toLowerCase();
+    const close = `</${name}>`;
+    if (!trimmed.toLowerCase().endsWith(close)) return text;
+    const inner = trimmed.slice(open[0].length, trimmed.length - close.length);
+    if (!isBalanced(inner, name)) return text;
+    onTag(name, open[2]);
+    text = inner;
+  }
+}
+
+/**
+ * Whether every tag of a name in some text is closed after it opens
+ */
+function isBalanced(text: string, name: string): boolean {
+  const pattern = new RegExp(`<(/?)${name}(?=[\\s.>])[^>]*>`, 'gi');
+  let depth = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    depth += match[1] ? -1 : 1;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+/**
+ * Reads name="value" attributes
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+}
+
+/**
+ * Escapes text for markup, and quotes too when it's an attribute value
+ */
+function escapeMarkup(text: string, attribute = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: '\u00A0',
+    lrm: '\u200E',
+    rlm: '\u200F',
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity: string, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return named[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Escapes a cue identifier for a CSS #id selector
+ */
+function cssEscape(id: string): string {
+  return Array.from(id)
+    .map((char: string, i: number) =>
+      /[A-Za-z_-]/.test(char) || (i > 0 && /\d/.test(char))
+        ? char
+        : `\\${char.codePointAt(0)!.toString(16)} `
+    )
+    .join('');
+}
+
+function cssUnescape(text: string): string {
+  return text.replace(
+    /\\([0-9a-fA-F]{1,6})[ \t]?|\\(.)/g,
+    (_match: string, hex?: string, char?: string) =>
+      hex ? String.fromCodePoint(parseInt(hex, 16)) : (char ?? '')
+  );
+}
+
+/**
+ * Leaves out a style with nothing in it
+ */
+function definedStyle(style: SubtitleStyle): Pick<SubtitleEntry, 'style'> {
+  const defined = Object.fromEntries(
+    Object.entries(style).filter(([, value]) => value !== undefined)
+  ) as SubtitleStyle;
+  return Object.keys(defined).length ? { style: defined } : {};
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+}
+
+/**
+ * Writes a time as h:mm:ss with a fraction
+ * @param separator Between the seconds and the fraction
+ * @param fractionDigits Digits of the fraction
+ * @param hourDigits Digits the hours are padded to
+ */
+function formatClock(
+  seconds: number,
+  separator: string,
+  fractionDigits: number,
+  hourDigits = 2
+): string {
+  const unit = 10 ** fractionDigits;
+  const total = Math.max(0, Math.round(seconds * unit));
+  const whole = Math.floor(total / unit);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${String(Math.floor(whole / 3600)).padStart(hourDigits, '0')}:${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}${separator}${String(total % unit).padStart(fractionDigits, '0')}`;
+}
+
+function clockSeconds(
+  hours: string | undefined,
+  minutes: string,
+  seconds: string,
+  fraction: string
+): number {
+  return (
+    Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction}`)
+  );
+}
+
+function percent(share: number): number {
+  return round(share * 100, 3);
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,169 @@
+// src/utils/tempoMap.ts
+
+/**
+ * A stretch of music at a constant tempo
+ */
+export interface TempoSegment {
+  /** Time of the first beat of the segment in seconds */
+  startTime: number;
+  /** Beats from the start of the map to the first beat of the segment */
+  startBeat: number;
+  /** Beats per minute */
+  bpm: number;
+}
+
+/**
+ * A piecewise-constant tempo, so beat grids can follow music that speeds up,
+ * slows down or drifts
+ */
+export interface TempoMap {
+  /** Segments in time order; empty when there was no tempo to measure */
+  segments: TempoSegment[];
+}
+
+/**
+ * Options for building a tempo map from beats
+ */
+export interface TempoMapOptions {
+  /** Relative change in beat period that starts a new segment (default: 0.03) */
+  tolerance?: number;
+  /** Fewest beats in a segment (default: 4) */
+  minBeats?: number;
+}
+
+/** Intervals in the median filter that smooths over jitter and missed beats */
+const SMOOTHING_WINDOW = 5;
+
+/**
+ * Creates a tempo map with one tempo throughout
+ * @param bpm Beats per minute
+ * @param offset Time of the first beat in seconds (default: 0)
+ * @returns A single-segment tempo map, or an empty one if the BPM is not positive
+ */
+export function createConstantTempoMap(bpm: number, offset: number = 0): TempoMap {
+  return { segments: bpm > 0 ? [{ startTime: offset, startBeat: 0, bpm }] : [] };
+}
+
+/**
+ * Creates a tempo map from beat-to-beat intervals
+ *
+ * Intervals are median filtered, and a missed beat counts as however many
+ * periods it spans, so the grid keeps counting through gaps. A new segment
+ * starts wherever the period moves away from the current segment's average,
+ * and each segment's BPM is fitted to the beats at both of its ends, so the
+ * grid lands on the beat at every tempo change.
+ * @param beatTimes Beat times in seconds
+ * @param options Options for segmenting the tempo
+ * @returns The tempo map, empty if there are fewer than two beats
+ */
+export function createTempoMap(beatTimes: number[], options: TempoMapOptions = {}): TempoMap {
+  const { tolerance = 0.03, minBeats = 4 } = options;
+  const times = [...beatTimes].sort((a: number, b: number) => a - b);
+  if (times.length < 2) return { segments: [] };
+
+  const intervals = times.slice(1).map((time: number, index: number) => time - times[index]);
+  const periods = medianFilter(intervals);
+  const steps = intervals.map((interval: number, index: number) =>
+    Math.max(1, Math.round(interval / periods[index]))
+  );
+  const smoothed = medianFilter(
+    intervals.map((interval: number, index: number) => interval / steps[index])
+  );
+
+  // Each boundary is the index of the beat that starts a segment. The period
+  // and the average of the periods ahead must both have moved from the opening
+  // periods of the segment, so alternating long and short intervals don't
+  // start one but a gradual slowdown does. Segments hold at least minBeats beats
+  const boundaries = [0];
+  smoothed.forEach((period: number, index: number) => {
+    const start = boundaries[boundaries.length - 1];
+    if (index - start < minBeats || index + minBeats > smoothed.length) return;
+    const reference = average(smoothed.slice(start, start + minBeats));
+    const hasMoved = (value: number) => Math.abs(value - reference) > tolerance * reference;
+    if (hasMoved(period) && hasMoved(average(smoothed.slice(index, index + minBeats)))) {
+      boundaries.push(index);
+    }
+  });
+  boundaries.push(times.length - 1);
+
+  const segments: TempoSegment[] = [];
+  let startBeat = 0;
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const [start, end] = [boundaries[i], boundaries[i + 1]];
+    const beats = steps.slice(start, end).reduce((total: number, step: number) => total + step, 0);
+    const bpm = (60 * beats) / (times[end] - times[start]);
+    segments.push({ startTime: times[start], startBeat, bpm });
+    startBeat += beats;
+  }
+
+  return { segments };
+}
+
+/**
+ * Finds the segment in effect at a point, extending the first segment backward
+ * and the last forward
+ */
+function findSegment(
+  tempoMap: TempoMap,
+  isAfterStart: (segment: TempoSegment) => boolean
+): TempoSegment | undefined {
+  const { segments } = tempoMap;
+  let index = 0;
+  while (index + 1 < segments.length && isAfterStart(segments[index + 1])) index++;
+  return segments[index];
+}
+
+/**
+ * Converts a time to a position in beats
+ * @param tempoMap The tempo map
+ * @param time Time in seconds
+ * @returns Beats since the first beat of the map, fractional between beats; NaN
+ *   for an empty map
+ */
+export function getBeatPosition(tempoMap: TempoMap, time: number): number {
+  const segment = findSegment(tempoMap, (next: TempoSegment) => next.startTime <= time);
+  if (!segment) return NaN;
+  return segment.startBeat + (time - segment.startTime) / (60 / segment.bpm);
+}
+
+/**
+ * Converts a position in beats to a time
+ * @param tempoMap The tempo map
+ * @param position Beats since the first beat of the map
+ * @returns Time in seconds; NaN for an empty map
+ */
+export function getBeatTime(tempoMap: TempoMap, position: number): number {
+  const segment = findSegment(tempoMap, (next: TempoSegment) => next.startBeat <= position);
+  if (!segment) return NaN;
+  return segment.startTime + (position - segment.startBeat) * (60 / segment.bpm);
+}
+
+/**
+ * Gets the tempo at a time
+ * @param tempoMap The tempo map
+ * @param time Time in seconds
+ * @returns Beats per minute, or 0 for an empty map
+ */
+export function getTempoAt(tempoMap: TempoMap, time: number): number {
+  return findSegment(tempoMap, (next: TempoSegment) => next.startTime <= time)?.bpm ?? 0;
+}
+
+/**
+ * Averages a list of numbers
+ */
+function average(values: number[]): number {
+  return values.reduce((total: number, value: number) => total + value, 0) / values.length;
+}
+
+/**
+ * Applies a centered median filter, narrowing the window at the ends
+ */
+function medianFilter(values: number[]): number[] {
+  const half = Math.floor(SMOOTHING_WINDOW / 2);
+  return values.map((_value: number, index: number) => {
+    const window = values
+      .slice(Math.max(0, index - half), index + half + 1)
+      .sort((a: number, b: number) => a - b);
+    return window[Math.floor(window.length / 2)];
+  });
+}
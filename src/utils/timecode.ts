@@ -0,0 +1,166 @@
+// src/utils/timecode.ts
+
+/**
+ * Frame rate and timecode utilities shared by the timeline exporters
+ */
+
+/**
+ * A frame rate expressed as an exact rational number of frames per second
+ */
+export interface FrameRate {
+  /** Rate numerator (e.g. 24000 for 23.976) */
+  numerator: number;
+  /** Rate denominator (e.g. 1001 for 23.976) */
+  denominator: number;
+  /** Integer frames-per-second counted by timecode (e.g. 24 for 23.976) */
+  timebase: number;
+  /** Whether this is a 1000/1001 NTSC rate */
+  ntsc: boolean;
+  /** Whether timecode at this rate uses drop-frame counting */
+  dropFrame: boolean;
+}
+
+/** Frame rates that editors expect to see in an exported sequence */
+export const STANDARD_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+/**
+ * Resolves a decimal frame rate to its exact rational form
+ * @param fps Frames per second (e.g. 23.976, 29.97, 25)
+ * @param dropFrame Whether to use drop-frame timecode when the rate allows it (default: true)
+ * @returns The matching FrameRate
+ */
+export function resolveFrameRate(fps: number, dropFrame: boolean = true): FrameRate {
+  if (!Number.isFinite(fps) || fps <= 0) {
+    fps = 30;
+  }
+
+  const timebase = Math.max(1, Math.round(fps));
+
+  // An NTSC rate sits at timebase * 1000/1001 (e.g. 29.97 for 30)
+  const ntsc = Math.abs(fps - (timebase * 1000) / 1001) < Math.abs(fps - timebase);
+
+  return {
+    numerator: ntsc ? timebase * 1000 : timebase,
+    denominator: ntsc ? 1001 : 1,
+    timebase,
+    ntsc,
+    // Drop-frame counting only exists for 29.97 and its multiples
+    dropFrame: dropFrame && ntsc && timebase % 30 === 0
+  };
+}
+
+/**
+ * Returns the exact frames per second of a frame rate
+ * @param rate The frame rate
+ * @returns Frames per second as a decimal
+ */
+export function frameRateToFps(rate: FrameRate): number {
+  return rate.numerator / rate.denominator;
+}
+
+/**
+ * Converts a time in seconds to the nearest frame number
+ *
+ * Always convert absolute timeline positions and derive durations from the
+ * difference of two positions; summing rounded durations drifts over a long
+ * sequence.
+ * @param seconds Time in seconds
+ * @param rate The frame rate
+ * @returns Frame number
+ */
+export function secondsToFrames(seconds: number, rate: FrameRate): number {
+  return Math.round((seconds * rate.numerator) / rate.denominator);
+}
+
+/**
+ * Converts a frame number to a time in seconds
+ * @param frames Frame number
+ * @param rate The frame rate
+ * @returns Time in seconds
+ */
+export function framesToSeconds(frames: number, rate: FrameRate): number {
+  return (frames * rate.denominator) / rate.numerator;
+}
+
+/**
+ * Number of frame numbers skipped at each minute boundary in drop-frame timecode
+ * @param rate The frame rate
+ * @returns Frames dropped per minute (2 for 29.97, 4 for 59.94)
+ */
+function droppedFramesPerMinute(rate: FrameRate): number {
+  return (rate.timebase / 30) * 2;
+}
+
+/**
+ * Formats a frame number as SMPTE timecode
+ * @param frames Frame number
+ * @param rate The frame rate
+ * @returns Timecode as HH:MM:SS:FF (or HH:MM:SS;FF for drop-frame)
+ */
+export function framesToTimecode(frames: number, rate: FrameRate): string {
+  const negative = frames < 0;
+  let count = Math.abs(Math.round(frames));
+
+  if (rate.dropFrame) {
+    const dropped = droppedFramesPerMinute(rate);
+    const framesPerMinute = rate.timebase * 60 - dropped;
+    const framesPerTenMinutes = framesPerMinute * 10 + dropped;
+
+    const tenMinuteBlocks = Math.floor(count / framesPerTenMinutes);
+    const remainder = count % framesPerTenMinutes;
+
+    // Add back the frame numbers skipped so far so the count can be split as non-drop
+    count += dropped * 9 * tenMinuteBlocks;
+    if (remainder > dropped) {
+      count += dropped * Math.floor((remainder - dropped) / framesPerMinute);
+    }
+  }
+
+  const ff = count % rate.timebase;
+  const totalSeconds = Math.floor(count / rate.timebase);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600);
+
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const separator = rate.dropFrame ? ';' : ':';
+
+  return `${negative ? '-' : ''}${pad(hh)}:${pad(mm)}:${pad(ss)}${separator}${pad(ff)}`;
+}
+
+/**
+ * Parses SMPTE timecode back to a frame number
+ * @param timecode Timecode as HH:MM:SS:FF or HH:MM:SS;FF
+ * @param rate The frame rate
+ * @returns Frame number
+ */
+export function timecodeToFrames(timecode: string, rate: FrameRate): number {
+  const match = timecode.trim().match(/^(-)?(\d+)[:;.](\d+)[:;.](\d+)[:;.,](\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid timecode: ${timecode}`);
+  }
+
+  const [, sign, hh, mm, ss, ff] = match;
+  const totalMinutes = parseInt(hh, 10) * 60 + parseInt(mm, 10);
+
+  let frames = (totalMinutes * 60 + parseInt(ss, 10)) * rate.timebase + parseInt(ff, 10);
+
+  // Remove the frame numbers drop-frame timecode skips at each non-tenth minute
+  if (rate.dropFrame) {
+    frames -= droppedFramesPerMinute(rate) * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  return sign ? -frames : frames;
+}
+
+/**
+ * Converts a Timecode value to seconds
+ * @param value Seconds as a number, or SMPTE timecode as a string
+ * @param rate The frame rate used to read timecode strings
+ * @returns Time in seconds
+ */
+export function timecodeToSeconds(value: string | number, rate: FrameRate): number {
+  if (typeof value === 'number') return value;
+  if (/^-?\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value);
+  return framesToSeconds(timecodeToFrames(value, rate), rate);
+}
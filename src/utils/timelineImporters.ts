@@ -0,0 +1,795 @@
+// src/utils/timelineImporters.ts
+import {
+  EditDecisionList,
+  EDLFormat,
+  MatchedClip,
+  MarkerType,
+  TimelineCutPoint,
+  Transition,
+  TransitionType,
+  TrackType,
+  createEmptyEDL
+} from '../types/EditDecision';
+import {
+  FrameRate,
+  frameRateToFps,
+  framesToSeconds,
+  resolveFrameRate,
+  secondsToFrames,
+  timecodeToFrames
+} from './timecode';
+
+/**
+ * Options for reading a timeline back into an EditDecisionList
+ */
+export interface TimelineImportOptions {
+  /** Frame rate of a CMX3600 EDL, which does not record one (default: 30) */
+  framerate?: number;
+  /** Record timecode of the first frame of a CMX3600 EDL (default: 01:00:00:00) */
+  recordStart?: string;
+}
+
+/**
+ * An already-imported media file that imported clips can be relinked to
+ */
+export interface RelinkCandidate {
+  /** ID the project uses for the file */
+  id: string;
+  /** File name */
+  name: string;
+  /** Duration in seconds, if known */
+  duration?: number;
+}
+
+/**
+ * Result of relinking an imported timeline to project media
+ */
+export interface RelinkResult {
+  /** The timeline with video clips pointing at candidate IDs */
+  edl: EditDecisionList;
+  /** Source names that no candidate matched */
+  unmatched: string[];
+}
+
+/** Metadata stored on imported clips and markers */
+type ImportMetadata = NonNullable<MatchedClip['metadata']>;
+
+/**
+ * Collects clips, transitions and markers while a timeline is being read
+ */
+class TimelineBuilder {
+  readonly edl: EditDecisionList;
+  private clipCount = 0;
+
+  constructor(name: string, rate: FrameRate, format: EDLFormat) {
+    this.edl = createEmptyEDL(name, Math.round(frameRateToFps(rate) * 1000) / 1000);
+    this.edl.format = format;
+  }
+
+  /**
+   * Adds a clip, with all times in seconds
+   */
+  addClip(
+    trackType: TrackType,
+    trackNumber: number,
+    timelineIn: number,
+    timelineOut: number,
+    sourceIn: number,
+    metadata: ImportMetadata,
+    enabled: boolean = true
+  ): MatchedClip {
+    const clip: MatchedClip = {
+      id: `clip_${this.clipCount++}`,
+      sourceId: metadata.name,
+      trackType,
+      trackNumber,
+      timelineInPoint: timelineIn,
+      timelineOutPoint: timelineOut,
+      sourceInPoint: sourceIn,
+      sourceOutPoint: sourceIn + (timelineOut - timelineIn),
+      enabled,
+      metadata
+    };
+
+    this.edl.clips.push(clip);
+    return clip;
+  }
+
+  /**
+   * Adds a transition between two clips, with all times in seconds
+   */
+  addTransition(
+    type: TransitionType,
+    name: string,
+    duration: number,
+    centerPoint: number,
+    outgoing: MatchedClip,
+    incoming: MatchedClip,
+    parameters?: Transition['parameters']
+  ): void {
+    this.edl.transitions.push({
+      id: `transition_${this.edl.transitions.length + 1}`,
+      type,
+      duration,
+      outgoingClipId: outgoing.id,
+      incomingClipId: incoming.id,
+      centerPoint,
+      name,
+      ...(parameters ? { parameters } : {})
+    });
+  }
+
+  /**
+   * Adds a marker at a position in seconds
+   */
+  addMarker(type: MarkerType, position: number, label: string, metadata: ImportMetadata = {}): void {
+    this.edl.cutPoints.push({
+      id: `marker_${this.edl.cutPoints.length + 1}`,
+      type,
+      position,
+      label,
+      metadata
+    });
+  }
+
+  /**
+   * Sorts the markers and totals the duration of the finished timeline
+   */
+  finish(): EditDecisionList {
+    this.edl.cutPoints.sort((a: TimelineCutPoint, b: TimelineCutPoint) => (a.position as number) - (b.position as number));
+    this.edl.totalDuration = this.edl.clips.reduce(
+      (end: number, clip: MatchedClip) => Math.max(end, clip.timelineOutPoint as number),
+      0
+    );
+    return this.edl;
+  }
+}
+
+/**
+ * Maps an NLE transition name to a TransitionType
+ * @param name Effect name (e.g. 'Cross Dissolve', 'Dip to Black')
+ * @returns The matching transition type
+ */
+function transitionTypeFromName(name: string): TransitionType {
+  const normalized = name.toLowerCase();
+  if (normalized.includes('black') || normalized.includes('fade to color')) return TransitionType.DIP_TO_BLACK;
+  if (normalized.includes('white')) return TransitionType.DIP_TO_WHITE;
+  if (normalized.includes('wipe')) return TransitionType.WIPE;
+  if (normalized.includes('dissolve')) return TransitionType.DISSOLVE;
+  return TransitionType.CUSTOM;
+}
+
+/**
+ * Parses an XML document, rejecting malformed input
+ * @param xml XML text
+ * @returns The parsed document
+ */
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim() ?? 'parse error'}`);
+  }
+  return doc;
+}
+
+/**
+ * Returns the direct children of an element, optionally filtered by tag name
+ */
+function childElements(element: Element | null | undefined, tagName?: string): Element[] {
+  if (!element) return [];
+  return Array.from(element.children).filter((child: Element) => !tagName || child.tagName === tagName);
+}
+
+/**
+ * Returns the first direct child of an element with the given tag name
+ */
+function childElement(element: Element | null | undefined, tagName: string): Element | undefined {
+  return childElements(element, tagName)[0];
+}
+
+/**
+ * Returns the trimmed text of the first direct child with the given tag name
+ */
+function childText(element: Element | null | undefined, tagName: string): string | undefined {
+  return childElement(element, tagName)?.textContent?.trim();
+}
+
+/**
+ * Reads a frame rate from an xmeml <rate> element
+ * @param rateElement The <rate> element
+ * @param dropFrame Whether the timeline uses drop-frame timecode
+ * @param fallback Rate to use if the element is missing (default: 30)
+ * @returns The frame rate
+ */
+function xmemlFrameRate(rateElement: Element | undefined, dropFrame: boolean, fallback?: FrameRate): FrameRate {
+  if (!rateElement && fallback) return fallback;
+
+  const timebase = parseInt(childText(rateElement, 'timebase') ?? '30', 10);
+  const ntsc = childText(rateElement, 'ntsc')?.toUpperCase() === 'TRUE';
+  return resolveFrameRate(ntsc ? (timebase * 1000) / 1001 : timebase, dropFrame);
+}
+
+/**
+ * Parses FCP7/Premiere xmeml into an EditDecisionList
+ *
+ * Every video and audio track is read, with clips linked to the source names in
+ * their <file> elements, transitionitems rebuilt as transitions between the
+ * clips either side of them, and sequence markers as cut points. A clip that
+ * nests a multicam sequence is linked to the file of the angle its source
+ * track picks, with its in point moved from multicam time to the angle's own
+ * source time. All times are written in seconds.
+ * @param xml xmeml document
+ * @returns The imported EditDecisionList
+ */
+export function parsePremiereXML(xml: string): EditDecisionList {
+  const doc = parseXml(xml);
+  const sequence = doc.getElementsByTagName('sequence')[0];
+  if (!doc.getElementsByTagName('xmeml')[0] || !sequence) {
+    throw new Error('No sequence found in xmeml document');
+  }
+
+  const displayFormat = childText(childElement(sequence, 'timecode'), 'displayformat');
+  const rate = xmemlFrameRate(childElement(sequence, 'rate'), displayFormat !== 'NDF');
+  const seconds = (frames: number) => framesToSeconds(frames, rate);
+  const builder = new TimelineBuilder(childText(sequence, 'name') ?? 'Imported Sequence', rate, EDLFormat.PREMIEREXML);
+
+  // A file is defined once and referenced by ID afterwards
+  const files = new Map<string, { name: string; duration?: number; channels?: number }>();
+  Array.from(doc.getElementsByTagName('file')).forEach((file: Element) => {
+    const name = childText(file, 'name');
+    const id = file.getAttribute('id');
+    if (!name || !id) return;
+
+    const fileRate = xmemlFrameRate(childElement(file, 'rate'), rate.dropFrame, rate);
+    const duration = childText(file, 'duration');
+    const channels = childText(childElement(childElement(file, 'media'), 'audio'), 'channelcount');
+
+    files.set(id, {
+      name,
+      duration: duration ? framesToSeconds(parseInt(duration, 10), fileRate) : undefined,
+      channels: channels ? parseInt(channels, 10) : undefined
+    });
+  });
+
+  // A multicam sequence is defined once, nested in the first clip that uses it,
+  // with one video track per angle
+  const multicams = new Map<string, Element[][]>();
+  Array.from(doc.getElementsByTagName('sequence')).forEach((nested: Element) => {
+    const id = nested.getAttribute('id');
+    const nestedMedia = childElement(nested, 'media');
+    if (nested === sequence || !id || !nestedMedia) return;
+
+    multicams.set(
+      id,
+      childElements(childElement(nestedMedia, 'video'), 'track').map((track: Element) =>
+        childElements(track, 'clipitem')
+      )
+    );
+  });
+
+  // The file a clip plays and its in point in that file, in frames
+  const clipSource = (item: Element): { fileElement?: Element; sourceIn: number } => {
+    const sourceIn = parseInt(childText(item, 'in') ?? '0', 10);
+    const nested = childElement(item, 'sequence');
+    if (!nested) return { fileElement: childElement(item, 'file'), sourceIn };
+
+    // The source track picks the angle, and the angle clip covering the in point plays
+    const angles = multicams.get(nested.getAttribute('id') ?? '') ?? [];
+    const trackIndex = parseInt(childText(childElement(item, 'sourcetrack'), 'trackindex') ?? '1', 10);
+    const angle = (angles[trackIndex - 1] ?? []).find(
+      (candidate: Element) => sourceIn < parseInt(childText(candidate, 'end') ?? '0', 10)
+    );
+    if (!angle) return { sourceIn };
+
+    return {
+      fileElement: childElement(angle, 'file'),
+      sourceIn:
+        sourceIn -
+        parseInt(childText(angle, 'start') ?? '0', 10) +
+        parseInt(childText(angle, 'in') ?? '0', 10)
+    };
+  };
+
+  const readTrack = (track: Element, trackType: TrackType, trackNumber: number) => {
+    const items = childElements(track).filter(
+      (item: Element) => item.tagName === 'clipitem' || item.tagName === 'transitionitem'
+    );
+
+    // The cut under a transition, where the clips either side of it meet
+    const cutFrame = (transition: Element) => {
+      const start = parseInt(childText(transition, 'start') ?? '0', 10);
+      const end = parseInt(childText(transition, 'end') ?? '0', 10);
+      const alignment = childText(transition, 'alignment') ?? 'center';
+      if (alignment.startsWith('start')) return start;
+      if (alignment.startsWith('end')) return end;
+      return start + Math.floor((end - start) / 2);
+    };
+
+    let previousClip: MatchedClip | null = null;
+    let pendingTransition: Element | null = null;
+
+    items.forEach((item: Element, index: number) => {
+      if (item.tagName === 'transitionitem') {
+        pendingTransition = item;
+        return;
+      }
+
+      const { fileElement, sourceIn } = clipSource(item);
+      const file = fileElement ? files.get(fileElement.getAttribute('id') ?? '') : undefined;
+      const name = file?.name ?? childText(item, 'name') ?? `Clip ${index + 1}`;
+
+      let start = parseInt(childText(item, 'start') ?? '-1', 10);
+      let end = parseInt(childText(item, 'end') ?? '-1', 10);
+
+      // Clips joined by a transition leave the shared edge as -1
+      const next = items[index + 1];
+      if (start < 0 && pendingTransition) start = cutFrame(pendingTransition);
+      if (end < 0 && next?.tagName === 'transitionitem') end = cutFrame(next);
+      if (start < 0 || end <= start) return;
+
+      const metadata: ImportMetadata = { name };
+      if (file?.duration !== undefined) metadata.sourceDuration = file.duration;
+      if (trackType === TrackType.AUDIO && file?.channels) metadata.channels = file.channels;
+
+      const clip = builder.addClip(
+        trackType,
+        trackNumber,
+        seconds(start),
+        seconds(end),
+        seconds(sourceIn),
+        metadata,
+        childText(item, 'enabled')?.toUpperCase() !== 'FALSE'
+      );
+
+      const transition: Element | null = pendingTransition;
+      if (transition && previousClip) {
+        const transitionStart = parseInt(childText(transition, 'start') ?? '0', 10);
+        const duration = parseInt(childText(transition, 'end') ?? '0', 10) - transitionStart;
+        const effectName = childText(childElement(transition, 'effect'), 'name') ?? 'Cross Dissolve';
+
+        builder.addTransition(
+          transitionTypeFromName(effectName),
+          effectName,
+          seconds(duration),
+          seconds(transitionStart + Math.floor(duration / 2)),
+          previousClip,
+          clip
+        );
+      }
+
+      previousClip = clip;
+      pendingTransition = null;
+    });
+  };
+
+  const media = childElement(sequence, 'media');
+  childElements(childElement(media, 'video'), 'track').forEach((track: Element, index: number) =>
+    readTrack(track, TrackType.VIDEO, index + 1)
+  );
+  childElements(childElement(media, 'audio'), 'track').forEach((track: Element, index: number) =>
+    readTrack(track, TrackType.AUDIO, index + 1)
+  );
+
+  childElements(sequence, 'marker').forEach((marker: Element) => {
+    const markerIn = parseInt(childText(marker, 'in') ?? '0', 10);
+    const markerOut = parseInt(childText(marker, 'out') ?? '-1', 10);
+    const metadata: ImportMetadata = { comment: childText(marker, 'comment') ?? '' };
+    if (markerOut > markerIn) metadata.duration = seconds(markerOut - markerIn);
+
+    builder.addMarker(MarkerType.MARKER, seconds(markerIn), childText(marker, 'name') ?? '', metadata);
+  });
+
+  return builder.finish();
+}
+
+/**
+ * Reads an FCPXML rational time (e.g. '1001/30000s', '5s')
+ * @param value Rational time attribute
+ * @returns Time in seconds
+ */
+function fcpxSeconds(value: string | null): number {
+  if (!value) return 0;
+
+  const match = value.match(/^(-?\d+)(?:\/(\d+))?s$/);
+  if (!match) {
+    throw new Error(`Invalid FCPXML time: ${value}`);
+  }
+
+  return parseInt(match[1], 10) / (match[2] ? parseInt(match[2], 10) : 1);
+}
+
+/**
+ * Parses FCPXML into an EditDecisionList
+ *
+ * Clips on the primary storyline become video track 1; connected clips become
+ * higher video tracks or, for audio-only assets, audio tracks by lane. An
+ * mc-clip is linked to the asset of the angle its video comes from, with its
+ * start moved from multicam time to the asset's own source time. Spine
+ * transitions join the clips either side of them, and markers and chapter
+ * markers become cut points. All times are written in seconds.
+ * @param xml FCPXML document
+ * @returns The imported EditDecisionList
+ */
+export function parseFinalCutXML(xml: string): EditDecisionList {
+  const doc = parseXml(xml);
+  const sequence = doc.getElementsByTagName('sequence')[0];
+  if (!doc.getElementsByTagName('fcpxml')[0] || !sequence) {
+    throw new Error('No sequence found in FCPXML document');
+  }
+
+  const resources = new Map<string, Element>();
+  Array.from(doc.getElementsByTagName('resources')[0]?.children ?? []).forEach((resource: Element) => {
+    const id = resource.getAttribute('id');
+    if (id) resources.set(id, resource);
+  });
+
+  const frameDuration = fcpxSeconds(resources.get(sequence.getAttribute('format') ?? '')?.getAttribute('frameDuration') ?? '1/30s');
+  const rate = resolveFrameRate(1 / frameDuration, sequence.getAttribute('tcFormat') !== 'NDF');
+  const project = sequence.parentElement;
+  const builder = new TimelineBuilder(
+    project?.getAttribute('name') ?? 'Imported Project',
+    rate,
+    EDLFormat.FCPXML
+  );
+
+  // Rational times are snapped to the sequence frame grid
+  const seconds = (value: string | null) =>
+    framesToSeconds(secondsToFrames(fcpxSeconds(value), rate), rate);
+
+  const readMarkers = (element: Element, parentOffset: number, parentStart: number) => {
+    childElements(element).forEach((marker: Element) => {
+      if (marker.tagName !== 'marker' && marker.tagName !== 'chapter-marker') return;
+
+      builder.addMarker(
+        marker.tagName === 'chapter-marker' ? MarkerType.CHAPTER : MarkerType.MARKER,
+        parentOffset + seconds(marker.getAttribute('start')) - parentStart,
+        marker.getAttribute('value') ?? '',
+        { comment: marker.getAttribute('note') ?? '' }
+      );
+    });
+  };
+
+  // The asset a clip plays and its start in that asset, in seconds
+  const clipSource = (element: Element): { asset?: Element; start: number } => {
+    const resource = resources.get(element.getAttribute('ref') ?? '');
+    const start = seconds(element.getAttribute('start'));
+    if (element.tagName !== 'mc-clip') return { asset: resource, start };
+
+    // The angle the video comes from, and its clip covering the start
+    const sources = childElements(element, 'mc-source');
+    const source =
+      sources.find((candidate: Element) => ['video', 'all'].includes(candidate.getAttribute('srcEnable') ?? 'all')) ??
+      sources[0];
+    const angle = childElements(childElement(resource, 'multicam'), 'mc-angle').find(
+      (candidate: Element) => candidate.getAttribute('angleID') === source?.getAttribute('angleID')
+    );
+    const angleClip = childElements(angle, 'asset-clip').find(
+      (candidate: Element) =>
+        start < seconds(candidate.getAttribute('offset')) + seconds(candidate.getAttribute('duration'))
+    );
+    if (!angleClip) return { start };
+
+    return {
+      asset: resources.get(angleClip.getAttribute('ref') ?? ''),
+      start: start - seconds(angleClip.getAttribute('offset')) + seconds(angleClip.getAttribute('start'))
+    };
+  };
+
+  const addAssetClip = (element: Element, timelineIn: number, trackType: TrackType, trackNumber: number) => {
+    const { asset, start } = clipSource(element);
+    const name = asset?.getAttribute('name') ?? element.getAttribute('name') ?? 'Clip';
+    const metadata: ImportMetadata = { name };
+
+    if (asset?.getAttribute('duration')) metadata.sourceDuration = seconds(asset.getAttribute('duration'));
+    if (trackType === TrackType.AUDIO && asset?.getAttribute('audioChannels')) {
+      metadata.channels = parseInt(asset.getAttribute('audioChannels') ?? '2', 10);
+    }
+    if (element.getAttribute('audioRole')) metadata.audioRole = element.getAttribute('audioRole');
+
+    return builder.addClip(
+      trackType,
+      trackNumber,
+      timelineIn,
+      timelineIn + seconds(element.getAttribute('duration')),
+      start,
+      metadata,
+      element.getAttribute('enabled') !== '0'
+    );
+  };
+
+  let previousClip: MatchedClip | null = null;
+  let pendingTransition: Element | null = null;
+
+  childElements(childElement(sequence, 'spine')).forEach((item: Element) => {
+    if (item.tagName === 'transition') {
+      pendingTransition = item;
+      return;
+    }
+    if (!['asset-clip', 'mc-clip', 'gap'].includes(item.tagName)) return;
+
+    const offset = seconds(item.getAttribute('offset'));
+    const start = seconds(item.getAttribute('start'));
+
+    // Connected clips are positioned in their parent's source time
+    childElements(item, 'asset-clip').forEach((connected: Element) => {
+      const lane = parseInt(connected.getAttribute('lane') ?? '1', 10);
+      const asset = resources.get(connected.getAttribute('ref') ?? '');
+      const audioOnly = asset?.getAttribute('hasVideo') !== '1' && asset?.getAttribute('hasAudio') === '1';
+
+      addAssetClip(
+        connected,
+        offset + seconds(connected.getAttribute('offset')) - start,
+        audioOnly ? TrackType.AUDIO : TrackType.VIDEO,
+        audioOnly ? Math.abs(lane) : lane + 1
+      );
+    });
+    readMarkers(item, offset, start);
+
+    if (item.tagName === 'gap') {
+      previousClip = null;
+      pendingTransition = null;
+      return;
+    }
+
+    const clip = addAssetClip(item, offset, TrackType.VIDEO, 1);
+
+    const transition: Element | null = pendingTransition;
+    if (transition && previousClip) {
+      const transitionStart = secondsToFrames(fcpxSeconds(transition.getAttribute('offset')), rate);
+      const duration = secondsToFrames(fcpxSeconds(transition.getAttribute('duration')), rate);
+      const name = transition.getAttribute('name') ?? 'Cross Dissolve';
+
+      builder.addTransition(
+        transitionTypeFromName(name),
+        name,
+        framesToSeconds(duration, rate),
+        framesToSeconds(transitionStart + Math.floor(duration / 2), rate),
+        previousClip,
+        clip
+      );
+    }
+
+    previousClip = clip;
+    pendingTransition = null;
+  });
+
+  return builder.finish();
+}
+
+/**
+ * Parses a CMX3600 EDL into an EditDecisionList
+ *
+ * Record times are measured from the record start timecode. A dissolve or wipe
+ * (a zero-length outgoing event followed by the incoming event) is rebuilt as a
+ * transition centered on the cut between the two clips. Clip names come from
+ * FROM CLIP NAME comments, falling back to the reel name.
+ * @param text EDL text
+ * @param options Frame rate and record start of the EDL
+ * @returns The imported EditDecisionList
+ */
+export function parseCMX3600EDL(text: string, options: TimelineImportOptions = {}): EditDecisionList {
+  const lines = text.split(/\r?\n/);
+  const title = lines.find((line: string) => line.startsWith('TITLE:'))?.slice(6).trim();
+  const fcm = lines.find((line: string) => line.startsWith('FCM:'))?.slice(4).trim().toUpperCase();
+  const dropFrame = fcm ? !fcm.startsWith('NON') : /\d;\d/.test(text);
+  const rate = resolveFrameRate(options.framerate ?? 30, dropFrame);
+  const builder = new TimelineBuilder(title ?? 'Imported EDL', rate, EDLFormat.CMX3600);
+
+  const eventPattern = /^(\d+)\s+(\S+)\s+(\S+)\s+(C|D|W\d+|K\S*)\s+(?:(\d+)\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s*$/;
+
+  interface EventLine {
+    number: string;
+    reel: string;
+    channel: string;
+    code: string;
+    transitionFrames: number;
+    sourceIn: number;
+    sourceOut: number;
+    recordIn: number;
+    recordOut: number;
+    name?: string;
+  }
+
+  // Group lines by event number; a transition event has an outgoing and an incoming line
+  const events: EventLine[][] = [];
+  lines.forEach((line: string) => {
+    const match = line.match(eventPattern);
+    if (match) {
+      const [, number, reel, channel, code, transitionFrames, srcIn, srcOut, recIn, recOut] = match;
+      const event: EventLine = {
+        number,
+        reel,
+        channel: channel.toUpperCase(),
+        code,
+        transitionFrames: transitionFrames ? parseInt(transitionFrames, 10) : 0,
+        sourceIn: timecodeToFrames(srcIn, rate),
+        sourceOut: timecodeToFrames(srcOut, rate),
+        recordIn: timecodeToFrames(recIn, rate),
+        recordOut: timecodeToFrames(recOut, rate)
+      };
+
+      const last = events[events.length - 1];
+      if (last && last[0].number === number) {
+        last.push(event);
+      } else {
+        events.push([event]);
+      }
+      return;
+    }
+
+    const comment = line.match(/^\*\s*(FROM|TO) CLIP NAME:\s*(.*)$/i);
+    const current = events[events.length - 1];
+    if (comment && current) {
+      const target = comment[1].toUpperCase() === 'FROM' ? current[0] : current[current.length - 1];
+      target.name = comment[2].trim();
+    }
+  });
+
+  // Record times before the record start timecode mean the EDL starts at zero
+  const recordStart = timecodeToFrames(options.recordStart ?? '01:00:00:00', rate);
+  const earliest = Math.min(...events.flat().map((event: EventLine) => event.recordIn));
+  const recordOffset = earliest >= recordStart ? recordStart : 0;
+  const seconds = (frames: number) => framesToSeconds(frames, rate);
+
+  // The last clip on each channel, for joining transitions
+  const lastClips = new Map<string, MatchedClip>();
+
+  const addEventClips = (event: EventLine, sourceIn: number, recordIn: number): MatchedClip[] => {
+    const name = event.name ?? event.reel;
+    const added: MatchedClip[] = [];
+    const timelineIn = seconds(recordIn - recordOffset);
+    const timelineOut = seconds(event.recordOut - recordOffset);
+
+    if (event.channel.includes('V') || event.channel === 'B') {
+      added.push(builder.addClip(TrackType.VIDEO, 1, timelineIn, timelineOut, seconds(sourceIn), { name, reel: event.reel }));
+    }
+
+    const audio = event.channel === 'B' ? 'AA' : event.channel.replace('/V', '').replace(/^V$/, '');
+    if (audio.startsWith('A')) {
+      const stereo = audio === 'AA';
+      const trackNumber = stereo || audio === 'A' ? 1 : parseInt(audio.slice(1), 10) || 1;
+      const metadata: ImportMetadata = { name, reel: event.reel };
+      if (stereo) metadata.channels = 2;
+      added.push(builder.addClip(TrackType.AUDIO, trackNumber, timelineIn, timelineOut, seconds(sourceIn), metadata));
+    }
+
+    added.forEach((clip: MatchedClip) => lastClips.set(`${clip.trackType}${clip.trackNumber}`, clip));
+    return added;
+  };
+
+  events.forEach((event: EventLine[]) => {
+    const incoming = event[event.length - 1];
+
+    if (event.length < 2 || incoming.code === 'C' || incoming.transitionFrames === 0) {
+      event
+        .filter((line: EventLine) => line.recordOut > line.recordIn)
+        .forEach((line: EventLine) => addEventClips(line, line.sourceIn, line.recordIn));
+      return;
+    }
+
+    // Restore the cut at the transition's center: extend the outgoing clip and trim the incoming one
+    const half = Math.floor(incoming.transitionFrames / 2);
+    const cut = incoming.recordIn + half;
+    const outgoingClips = new Map(lastClips);
+
+    addEventClips(incoming, incoming.sourceIn + half, cut).forEach((clip: MatchedClip) => {
+      const outgoing = outgoingClips.get(`${clip.trackType}${clip.trackNumber}`);
+      if (!outgoing) return;
+
+      const extension = seconds(cut - recordOffset) - (outgoing.timelineOutPoint as number);
+      outgoing.timelineOutPoint = seconds(cut - recordOffset);
+      outgoing.sourceOutPoint = (outgoing.sourceOutPoint as number) + extension;
+
+      const type = incoming.code.startsWith('W') ? TransitionType.WIPE : TransitionType.DISSOLVE;
+      builder.addTransition(
+        type,
+        type === TransitionType.WIPE ? `Wipe ${incoming.code.slice(1)}` : 'Cross Dissolve',
+        seconds(incoming.transitionFrames),
+        seconds(cut - recordOffset),
+        outgoing,
+        clip,
+        type === TransitionType.WIPE ? { pattern: incoming.code.slice(1) } : undefined
+      );
+    });
+  });
+
+  return builder.finish();
+}
+
+/**
+ * Detects the format of a timeline document and parses it
+ * @param text xmeml, FCPXML or CMX3600 text
+ * @param options Frame rate and record start for EDLs
+ * @returns The imported EditDecisionList
+ */
+export function importTimeline(text: string, options: TimelineImportOptions = {}): EditDecisionList {
+  if (/<xmeml[\s>]/.test(text)) return parsePremiereXML(text);
+  if (/<fcpxml[\s>]/.test(text)) return parseFinalCutXML(text);
+  if (/^(TITLE:|FCM:|\d{3,}\s)/m.test(text)) return parseCMX3600EDL(text, options);
+
+  throw new Error('Unrecognized timeline format. Please choose an xmeml, FCPXML or CMX3600 EDL file.');
+}
+
+/**
+ * Reduces a file or reel name to the characters reel names keep
+ */
+function normalizeName(name: string): string {
+  return name.replace(/\.[^.]+$/, '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Relinks the video clips of an imported timeline to already-imported files
+ *
+ * Each source is matched by file name, then by name without extension, then
+ * as an 8-character reel name. When several files match, the one whose
+ * duration is closest to the source duration wins; when none do, a single
+ * file whose duration matches the source duration to within a frame is used.
+ * @param edl The imported EditDecisionList
+ * @param candidates Files already imported into the project
+ * @returns The relinked timeline and the source names left unmatched
+ */
+export function relinkClips(edl: EditDecisionList, candidates: RelinkCandidate[]): RelinkResult {
+  const rate = resolveFrameRate(edl.framerate);
+  const frameTolerance = framesToSeconds(1, rate);
+  const links = new Map<string, RelinkCandidate | null>();
+  const names = new Map<string, string>();
+
+  const closestDuration = (matches: RelinkCandidate[], sourceDuration?: number) => {
+    if (matches.length <= 1 || sourceDuration === undefined) return matches[0];
+    return [...matches].sort(
+      (a, b) =>
+        Math.abs((a.duration ?? Infinity) - sourceDuration) - Math.abs((b.duration ?? Infinity) - sourceDuration)
+    )[0];
+  };
+
+  const findCandidate = (clip: MatchedClip): RelinkCandidate | null => {
+    const name: string = clip.metadata?.name ?? clip.sourceId;
+    const sourceDuration: number | undefined = clip.metadata?.sourceDuration;
+    const key = normalizeName(name);
+
+    const byName = [
+      candidates.filter((candidate: RelinkCandidate) => candidate.name.toLowerCase() === name.toLowerCase()),
+      candidates.filter((candidate: RelinkCandidate) => normalizeName(candidate.name) === key),
+      key.length > 0 && key.length <= 8
+        ? candidates.filter((candidate: RelinkCandidate) => normalizeName(candidate.name).startsWith(key))
+        : []
+    ].find((matches: RelinkCandidate[]) => matches.length > 0);
+
+    if (byName) return closestDuration(byName, sourceDuration) ?? null;
+
+    if (sourceDuration !== undefined) {
+      const byDuration = candidates.filter(
+        (candidate: RelinkCandidate) =>
+          candidate.duration !== undefined && Math.abs(candidate.duration - sourceDuration) <= frameTolerance
+      );
+      if (byDuration.length === 1) return byDuration[0];
+    }
+
+    return null;
+  };
+
+  const clips = edl.clips.map((clip: MatchedClip) => {
+    if (clip.trackType !== TrackType.VIDEO) return clip;
+
+    if (!links.has(clip.sourceId)) {
+      links.set(clip.sourceId, findCandidate(clip));
+      names.set(clip.sourceId, clip.metadata?.name ?? clip.sourceId);
+    }
+
+    const candidate = links.get(clip.sourceId);
+    if (!candidate) return clip;
+
+    return {
+      ...clip,
+      sourceId: candidate.id,
+      metadata: { ...clip.metadata, name: candidate.name, importedName: clip.metadata?.name ?? clip.sourceId }
+    };
+  });
+
+  const unmatched = Array.from(links.entries())
+    .filter(([, candidate]) => candidate === null)
+    .map(([sourceId]) => names.get(sourceId) ?? sourceId);
+
+  return { edl: { ...edl, clips }, unmatched };
+}
@@ -574,6 +574,22 @@ export function ensureOpenCVLoaded(): Promise<void> {
         return;
       }
       
+      // Workers have no document to add a script tag to, so wait for the
+      // bundled module to initialize instead
+      if (typeof document === 'undefined') {
+        import('@techstark/opencv-js')
+          .then((module) => {
+            const cv = ((module as { default?: unknown }).default ?? module) as OpenCVModule;
+            if (cv.Mat) {
+              resolve();
+            } else {
+              cv.onRuntimeInitialized = () => resolve();
+            }
+          })
+          .catch(reject);
+        return;
+      }
+
       // If cv.Mat exists, OpenCV is already loaded
       if ((window as any).cv && (window as any).cv.Mat) {
         console.log('OpenCV.js already loaded');
@@ -1,18 +1,734 @@
 // src/utils/xmlGenerators.ts
 
+import { ExportFormatSettings } from '../types/ProjectSettings';
+import { AlignmentInfo, MarkerType, TimelineCutPoint, TransitionType } from '../types/EditDecision';
+import { VideoMetadata } from '../types/video-types';
+import { SubtitleData, SubtitleEntry, SubtitleStyle } from '../plugins/pluginInterfaces';
+import { colorChannels } from './subtitleFormats';
+import {
+  FrameRate,
+  resolveFrameRate,
+  secondsToFrames,
+  framesToTimecode,
+  timecodeToSeconds
+} from './timecode';
+import {
+  AlignedTransition,
+  TransitionClip,
+  alignTransitions,
+  getEditTransition
+} from './exportTransitions';
+
+/**
+ * Timeline formats the export modal can write
+ */
+export type TimelineExportFormat = 'premiere' | 'fcpx' | 'edl' | 'resolve';
+
+/**
+ * A single cut on the exported timeline, with all times in seconds
+ */
+export interface ExportEditDecision {
+  /** Position of the cut on the timeline */
+  time: number;
+  /** ID of the source video */
+  videoId: string;
+  /** Index of the source scene the cut was taken from */
+  sceneIndex?: number;
+  /** In point in the source video */
+  start: number;
+  /** Duration of the cut */
+  duration: number;
+  /** Transition from the previous cut onto this one (default: a hard cut) */
+  transitionType?: TransitionType;
+  /** Length of the transition (default: DEFAULT_TRANSITION_DURATION) */
+  transitionDuration?: number;
+  /** Center of the transition on the timeline (default: the cut) */
+  transitionCenter?: number;
+}
+
+/**
+ * Characteristics of the music track, as decoded by AudioService
+ */
+export interface ExportAudioMetadata {
+  /** Duration in seconds */
+  duration?: number;
+  /** Sample rate in Hz */
+  sampleRate?: number;
+  /** Number of channels */
+  channels?: number;
+  /** Bits per sample (default: 16) */
+  bitDepth?: number;
+}
+
+/**
+ * Settings that control how a timeline is written to XML
+ */
+export interface XMLExportSettings {
+  /** Sequence frame rate; defaults to the first clip's source frame rate, then 30 */
+  frameRate?: ExportFormatSettings['frameRate'];
+  /** Sequence resolution (e.g. '1920x1080'); defaults to the first clip's resolution */
+  resolution?: ExportFormatSettings['resolution'];
+  /** Whether 29.97/59.94 sequences use drop-frame timecode (default: true) */
+  dropFrame?: boolean;
+  /** Source video metadata keyed by video ID, as produced by VideoService.extractMetadata */
+  videoMetadata?: Record<string, VideoMetadata>;
+  /** Music track metadata */
+  audioMetadata?: ExportAudioMetadata;
+  /** Folder the editor keeps the media in, used to build file URLs (e.g. '/Volumes/Footage') */
+  mediaRoot?: string;
+  /** Sequence markers; numeric positions are in seconds (see createExportMarkers) */
+  markers?: TimelineCutPoint[];
+  /** Lines written as a caption track, such as lyrics; times are in seconds */
+  captions?: SubtitleData;
+  /** Alignment of synced takes to the music, by video ID; these are written as the angles of one multicam clip */
+  alignments?: Record<string, AlignmentInfo>;
+}
+
+/**
+ * A sequence marker snapped to sequence frames
+ */
+interface SequenceMarker {
+  frame: number;
+  /** Length in frames, or 0 for a point marker */
+  duration: number;
+  name: string;
+  comment: string;
+  color?: string;
+  chapter: boolean;
+}
+
+/**
+ * A caption snapped to sequence frames
+ */
+interface SequenceCaption {
+  frame: number;
+  /** Length in frames */
+  duration: number;
+  text: string;
+  style: SubtitleStyle & typeof DEFAULT_CAPTION_STYLE;
+  position?: { x: number; y: number };
+}
+
+/**
+ * A synced take on the timeline of the multicam clip, in sequence frames
+ */
+interface MulticamAngle {
+  videoId: string;
+  /** Frame of the multicam clip the take starts on */
+  offset: number;
+  /** Length in frames */
+  duration: number;
+}
+
+/**
+ * The synced takes, gathered into one multicam clip
+ */
+interface SequenceMulticam {
+  angles: MulticamAngle[];
+  /** Length in frames */
+  duration: number;
+}
+
+/** Sample rate written when the real one is unknown */
+const DEFAULT_SAMPLE_RATE = 48000;
+// Bit depth written when the source doesn't report one, as for compressed audio
+const DEFAULT_BIT_DEPTH = 16;
+
+/** Frame size written when the real one is unknown */
+const DEFAULT_FRAME_SIZE = { width: 1920, height: 1080 };
+
+/** Caption style used where neither the line nor the file sets one */
+const DEFAULT_CAPTION_STYLE = { fontName: 'Arial', fontSize: 54, color: '#ffffff' };
+
+/** Name of the multicam clip the synced takes are gathered into */
+const MULTICAM_NAME = 'CineFlux Multicam';
+
+/**
+ * Escapes text for use in XML element content and attribute values
+ * @param value Text to escape
+ * @returns Escaped text
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Builds a file URL for a media file so the editor can relink it on their machine
+ * @param fileName Name of the media file
+ * @param mediaRoot Folder containing the media (POSIX, Windows or file:// form)
+ * @returns Percent-encoded file URL
+ */
+export function buildMediaUrl(fileName: string, mediaRoot: string = ''): string {
+  const root = mediaRoot
+    .trim()
+    .replace(/^file:\/\/(localhost)?/i, '')
+    .replace(/\\/g, '/')
+    .replace(/\/+$/, '');
+  const path = root ? `${root}/${fileName}` : fileName;
+
+  const encoded = path
+    .split('/')
+    .map((segment: string, index: number) =>
+      // Keep Windows drive letters (C:) readable
+      index <= 1 && /^[A-Za-z]:$/.test(segment) ? segment : encodeURIComponent(segment)
+    )
+    .join('/');
+
+  return `file://${encoded.startsWith('/') ? '' : '/'}${encoded}`;
+}
+
+/**
+ * Picks the sequence frame rate from the export settings or the first source clip
+ * @param editDecisions Array of edit decisions
+ * @param settings Export settings
+ * @returns The sequence frame rate
+ */
+export function resolveSequenceFrameRate(
+  editDecisions: ExportEditDecision[],
+  settings: XMLExportSettings = {}
+): FrameRate {
+  if (settings.frameRate) {
+    return resolveFrameRate(settings.frameRate, settings.dropFrame);
+  }
+
+  for (const edit of editDecisions) {
+    const sourceRate = settings.videoMetadata?.[edit.videoId]?.fps;
+    if (sourceRate) {
+      return resolveFrameRate(sourceRate, settings.dropFrame);
+    }
+  }
+
+  return resolveFrameRate(30, settings.dropFrame);
+}
+
+/**
+ * Picks the sequence frame size from the export settings or the first source clip
+ * @param editDecisions Array of edit decisions
+ * @param settings Export settings
+ * @returns Width and height in pixels
+ */
+export function resolveSequenceFrameSize(
+  editDecisions: ExportEditDecision[],
+  settings: XMLExportSettings = {}
+): { width: number; height: number } {
+  const match = (settings.resolution || '').match(/^(\d+)x(\d+)$/);
+  if (match) {
+    return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+  }
+
+  for (const edit of editDecisions) {
+    const metadata = settings.videoMetadata?.[edit.videoId];
+    if (metadata?.width && metadata?.height) {
+      return { width: metadata.width, height: metadata.height };
+    }
+  }
+
+  return DEFAULT_FRAME_SIZE;
+}
+
+/** RGB values for the marker color names used by cut points */
+const MARKER_RGB: Record<string, [number, number, number]> = {
+  red: [229, 57, 53],
+  orange: [251, 140, 0],
+  yellow: [253, 216, 53],
+  green: [67, 160, 71],
+  cyan: [0, 172, 193],
+  blue: [30, 136, 229],
+  purple: [142, 36, 170],
+  magenta: [216, 27, 96],
+  pink: [236, 64, 122],
+  white: [255, 255, 255],
+  black: [0, 0, 0]
+};
+
+/**
+ * Snaps cut points to sequence frames, dropping any that fall outside the sequence
+ * @param markers Cut points to write
+ * @param rate Sequence frame rate
+ * @param sequenceFrames Length of the sequence in frames
+ * @returns Markers in timeline order
+ */
+function resolveSequenceMarkers(
+  markers: TimelineCutPoint[] = [],
+  rate: FrameRate,
+  sequenceFrames: number
+): SequenceMarker[] {
+  return markers
+    .map((marker: TimelineCutPoint) => {
+      const seconds = timecodeToSeconds(marker.position, rate);
+      const frame = secondsToFrames(seconds, rate);
+      const length = Number(marker.metadata?.duration) || 0;
+      return {
+        frame,
+        duration: length > 0 ? secondsToFrames(seconds + length, rate) - frame : 0,
+        name: marker.label ?? '',
+        comment: marker.metadata?.comment ?? '',
+        color: marker.color?.toLowerCase(),
+        chapter: marker.type === MarkerType.CHAPTER
+      };
+    })
+    .filter((marker: SequenceMarker) => marker.frame >= 0 && marker.frame < sequenceFrames)
+    .sort((a: SequenceMarker, b: SequenceMarker) => a.frame - b.frame);
+}
+
+/**
+ * Snaps caption lines to sequence frames, trimming them to the sequence
+ * @param captions Caption lines; a defaultStyle in the metadata applies to every line
+ * @param rate Sequence frame rate
+ * @param sequenceFrames Length of the sequence in frames
+ * @returns Captions in timeline order
+ */
+function resolveSequenceCaptions(
+  captions: SubtitleData | undefined,
+  rate: FrameRate,
+  sequenceFrames: number
+): SequenceCaption[] {
+  const defaultStyle: SubtitleStyle | undefined = captions?.metadata?.defaultStyle;
+  return (captions?.entries ?? [])
+    .map((entry: SubtitleEntry) => {
+      const frame = Math.max(0, secondsToFrames(entry.startTime, rate));
+      return {
+        frame,
+        duration: Math.min(secondsToFrames(entry.endTime, rate), sequenceFrames) - frame,
+        text: entry.text,
+        style: { ...DEFAULT_CAPTION_STYLE, ...defaultStyle, ...entry.style },
+        position: entry.position
+      };
+    })
+    .filter((caption: SequenceCaption) => caption.frame < sequenceFrames && caption.duration > 0 && caption.text.trim())
+    .sort((a: SequenceCaption, b: SequenceCaption) => a.frame - b.frame);
+}
+
+/**
+ * Places each synced take on the timeline of one multicam clip
+ *
+ * The multicam clip runs in song time, so a take starts at its offset into
+ * the song; takes that started rolling before the song push the whole clip
+ * later.
+ * @param editDecisions Array of edit decisions
+ * @param videoFiles Map of video files by ID
+ * @param settings Export settings
+ * @param rate Sequence frame rate
+ * @param sequenceFrames Length of the sequence in frames, taken as the length
+ *   of a take whose duration is unknown
+ * @returns The angles in the order they were aligned, or null without synced takes
+ */
+function resolveSequenceMulticam(
+  editDecisions: ExportEditDecision[],
+  videoFiles: Record<string, File>,
+  settings: XMLExportSettings,
+  rate: FrameRate,
+  sequenceFrames: number
+): SequenceMulticam | null {
+  const takes = Object.entries(settings.alignments ?? {})
+    .filter(([videoId]) => videoFiles[videoId])
+    .map(([videoId, alignment]: [string, AlignmentInfo]) => {
+      const sourceDuration = settings.videoMetadata?.[videoId]?.duration;
+      const usedFrames = editDecisions
+        .filter((edit: ExportEditDecision) => edit.videoId === videoId)
+        .map((edit: ExportEditDecision) => secondsToFrames(edit.start + edit.duration, rate));
+      return {
+        videoId,
+        start: secondsToFrames(alignment.globalOffset, rate),
+        duration: sourceDuration
+          ? secondsToFrames(sourceDuration, rate)
+          : Math.max(sequenceFrames, ...usedFrames)
+      };
+    });
+  if (takes.length === 0) return null;
+
+  const origin = Math.min(0, ...takes.map((take) => take.start));
+  const angles = takes.map(({ videoId, start, duration }) => ({ videoId, offset: start - origin, duration }));
+  return {
+    angles,
+    duration: Math.max(...angles.map((angle: MulticamAngle) => angle.offset + angle.duration))
+  };
+}
+
+/**
+ * Works out where a caption sits in the frame
+ * @param caption The caption
+ * @returns Shares of the frame width and height from the top left, and the
+ *   column (0 left, 1 center, 2 right) the text is aligned to
+ */
+function captionPlacement(caption: SequenceCaption): { x: number; y: number; column: number } {
+  const alignment = caption.style.alignment ?? 2;
+  const column = (alignment - 1) % 3;
+  if (caption.position) return { ...caption.position, column };
+  const row = Math.floor((alignment - 1) / 3);
+  return { x: [0.1, 0.5, 0.9][column], y: [0.9, 0.5, 0.1][row], column };
+}
+
+/**
+ * Builds a Premiere marker color, which is stored as a little-endian ARGB integer
+ * @param color Color name
+ * @returns pproColor value, or null for unknown colors
+ */
+function premiereMarkerColor(color?: string): number | null {
+  const rgb = color ? MARKER_RGB[color] : undefined;
+  if (!rgb) return null;
+  return 0xff000000 + rgb[2] * 0x10000 + rgb[1] * 0x100 + rgb[0];
+}
+
+/**
+ * A transition between two edits, fitted to sequence frames
+ */
+type EditTransition = AlignedTransition & { type: TransitionType };
+
+/**
+ * Fits the transition onto each edit to the media around its cut
+ * @param clips Edits of one track in timeline order, in sequence frames
+ * @param rate Sequence frame rate
+ * @returns The transition onto each clip, or null for a cut
+ */
+function alignEditTransitions(
+  clips: Array<TransitionClip & { edit: ExportEditDecision }>,
+  rate: FrameRate
+): Array<EditTransition | null> {
+  const requested = clips.map(({ edit }) => getEditTransition(edit));
+  const aligned = alignTransitions(
+    clips,
+    requested.map((transition) => transition && {
+      duration: secondsToFrames(transition.duration, rate),
+      centerPoint: secondsToFrames(transition.centerPoint, rate)
+    })
+  );
+
+  return aligned.map((transition: AlignedTransition | null, index: number) =>
+    transition && requested[index] ? { ...transition, type: requested[index]!.type } : null
+  );
+}
+
+/**
+ * Describes a channel count the way NLEs label channel layouts
+ * @param channels Number of channels
+ * @param layout Layout reported by the decoder, if any
+ * @returns Layout name (e.g. 'mono', 'stereo', '5.1')
+ */
+function channelLayoutName(channels: number, layout?: string): string {
+  if (layout) return layout.replace(/\(.*\)$/, '');
+  if (channels === 1) return 'mono';
+  if (channels === 2) return 'stereo';
+  if (channels === 6) return '5.1';
+  if (channels === 8) return '7.1';
+  return `${channels}ch`;
+}
+
+/**
+ * Maps a pixel aspect ratio to the xmeml pixelaspectratio vocabulary
+ * @param metadata Source video metadata
+ * @returns xmeml pixel aspect ratio name
+ */
+function xmemlPixelAspect(metadata?: Partial<VideoMetadata>): string {
+  const par = metadata?.pixelAspectRatio ?? 1;
+  const near = (value: number) => Math.abs(par - value) < 0.02;
+
+  if (near(1)) return 'square';
+  if (near(4 / 3) && metadata?.width === 1440) return 'HD-(1440x1080)';
+  if (near(4 / 3) && metadata?.width === 960) return 'HD-(960x720)';
+  if (near(2) && metadata?.height === 480) return 'NTSC-CCIR-601-anamorphic';
+  if (near(2)) return 'PAL-CCIR-601-anamorphic';
+  if (metadata?.height === 480) return 'NTSC-CCIR-601';
+  if (metadata?.height === 576) return 'PAL-CCIR-601';
+  return 'square';
+}
+
+/**
+ * Builds an xmeml <rate> element
+ * @param rate The frame rate
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlRate(rate: FrameRate, indent: string): string {
+  return `${indent}<rate>
+${indent}  <timebase>${rate.timebase}</timebase>
+${indent}  <ntsc>${rate.ntsc ? 'TRUE' : 'FALSE'}</ntsc>
+${indent}</rate>`;
+}
+
+/**
+ * Builds an xmeml Text generator showing a caption
+ * @param caption The caption
+ * @param index Position of the caption on its track
+ * @param rate Sequence frame rate
+ * @param frameHeight Height of the sequence frame in pixels
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlCaptionItem(
+  caption: SequenceCaption,
+  index: number,
+  rate: FrameRate,
+  frameHeight: number,
+  indent: string
+): string {
+  const { style } = caption;
+  const placement = captionPlacement(caption);
+  const [red, green, blue, alpha] = colorChannels(style.color);
+  // Text styles are numbered plain, bold, italic, bold italic
+  const fontStyle = 1 + (style.bold ? 1 : 0) + (style.italic ? 2 : 0);
+  // Text generators break lines on carriage returns
+  const text = escapeXml(caption.text).replace(/\n/g, '&#13;');
+  const parameter = (id: string, name: string, value: string): string => `
+${indent}    <parameter>
+${indent}      <parameterid>${id}</parameterid>
+${indent}      <name>${name}</name>
+${indent}      <value>${value}</value>
+${indent}    </parameter>`;
+
+  return `${indent}<generatoritem id="caption-${index + 1}">
+${indent}  <name>${escapeXml(caption.text.split('\n')[0])}</name>
+${indent}  <duration>${caption.duration}</duration>
+${xmemlRate(rate, indent + '  ')}
+${indent}  <start>${caption.frame}</start>
+${indent}  <end>${caption.frame + caption.duration}</end>
+${indent}  <in>0</in>
+${indent}  <out>${caption.duration}</out>
+${indent}  <enabled>TRUE</enabled>
+${indent}  <anamorphic>FALSE</anamorphic>
+${indent}  <alphatype>black</alphatype>
+${indent}  <effect>
+${indent}    <name>Text</name>
+${indent}    <effectid>Text</effectid>
+${indent}    <effectcategory>Text</effectcategory>
+${indent}    <effecttype>generator</effecttype>
+${indent}    <mediatype>video</mediatype>${parameter('str', 'Text', text)}${parameter('fontname', 'Font', escapeXml(style.fontName))}${parameter('fontsize', 'Size', String(Math.round(style.fontSize * frameHeight / 1080)))}${parameter('fontstyle', 'Style', String(fontStyle))}${parameter('fontalign', 'Alignment', String(placement.column + 1))}${parameter('fontcolor', 'Font Color', `<alpha>${alpha}</alpha><red>${red}</red><green>${green}</green><blue>${blue}</blue>`)}${parameter('origin', 'Origin', `<horiz>${placement.x - 0.5}</horiz><vert>${placement.y - 0.5}</vert>`)}
+${indent}  </effect>
+${indent}  <sourcetrack>
+${indent}    <mediatype>video</mediatype>
+${indent}  </sourcetrack>
+${indent}</generatoritem>`;
+}
+
+/**
+ * Builds an xmeml <timecode> element starting at frame zero
+ * @param rate The frame rate
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlTimecode(rate: FrameRate, indent: string): string {
+  return `${indent}<timecode>
+${xmemlRate(rate, indent + '  ')}
+${indent}  <string>${framesToTimecode(0, rate)}</string>
+${indent}  <frame>0</frame>
+${indent}  <displayformat>${rate.dropFrame ? 'DF' : 'NDF'}</displayformat>
+${indent}</timecode>`;
+}
+
+/**
+ * Builds an xmeml audio <samplecharacteristics> block with its channel layout
+ * @param sampleRate Sample rate in Hz
+ * @param channels Number of channels
+ * @param layout Layout reported by the decoder, if any
+ * @param bitDepth Bits per sample
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlAudioCharacteristics(
+  sampleRate: number,
+  channels: number,
+  layout: string | undefined,
+  bitDepth: number,
+  indent: string
+): string {
+  return `${indent}<samplecharacteristics>
+${indent}  <depth>${bitDepth}</depth>
+${indent}  <samplerate>${sampleRate}</samplerate>
+${indent}</samplecharacteristics>
+${indent}<channelcount>${channels}</channelcount>
+${indent}<layout>${escapeXml(channelLayoutName(channels, layout))}</layout>`;
+}
+
+/**
+ * Maps a transition type to the xmeml effect Premiere and FCP7 ship with
+ * @param type The transition type
+ * @returns Effect name and category
+ */
+function xmemlTransitionEffect(type: TransitionType): { name: string; category: string } {
+  switch (type) {
+    case TransitionType.DIP_TO_BLACK:
+    case TransitionType.FADE_IN:
+    case TransitionType.FADE_OUT:
+      return { name: 'Dip to Black', category: 'Dissolve' };
+    case TransitionType.DIP_TO_WHITE:
+      return { name: 'Dip to White', category: 'Dissolve' };
+    case TransitionType.WIPE:
+      return { name: 'Wipe', category: 'Wipe' };
+    default:
+      return { name: 'Cross Dissolve', category: 'Dissolve' };
+  }
+}
+
+/**
+ * Builds an xmeml <transitionitem> covering a cut
+ * @param transition The fitted transition
+ * @param rate Sequence frame rate
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlTransitionItem(transition: EditTransition, rate: FrameRate, indent: string): string {
+  const effect = xmemlTransitionEffect(transition.type);
+
+  return `${indent}<transitionitem>
+${xmemlRate(rate, indent + '  ')}
+${indent}  <start>${transition.start}</start>
+${indent}  <end>${transition.end}</end>
+${indent}  <alignment>${transition.alignment}</alignment>
+${indent}  <effect>
+${indent}    <name>${effect.name}</name>
+${indent}    <effectid>${effect.name}</effectid>
+${indent}    <effectcategory>${effect.category}</effectcategory>
+${indent}    <effecttype>transition</effecttype>
+${indent}    <mediatype>video</mediatype>
+${indent}  </effect>
+${indent}</transitionitem>`;
+}
+
+/**
+ * Builds the xmeml multicam source sequence, a nested sequence with one
+ * video track per angle
+ * @param multicam The synced takes
+ * @param videoFiles Map of video files by ID
+ * @param fileElement Builds the <file> element of a video, defining it the first time
+ * @param rate Sequence frame rate
+ * @param frameSize Sequence frame size
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlMulticamSequence(
+  multicam: SequenceMulticam,
+  videoFiles: Record<string, File>,
+  fileElement: (videoId: string, indent: string) => string,
+  rate: FrameRate,
+  frameSize: { width: number; height: number },
+  indent: string
+): string {
+  const tracks = multicam.angles.map((angle: MulticamAngle, index: number) => `${indent}      <track>
+${indent}        <clipitem id="multicam-angle-${index + 1}">
+${indent}          <name>${escapeXml(videoFiles[angle.videoId].name)}</name>
+${indent}          <duration>${angle.duration}</duration>
+${xmemlRate(rate, indent + '          ')}
+${indent}          <start>${angle.offset}</start>
+${indent}          <end>${angle.offset + angle.duration}</end>
+${fileElement(angle.videoId, indent + '          ')}
+${indent}          <sourcetrack>
+${indent}            <mediatype>video</mediatype>
+${indent}          </sourcetrack>
+${indent}          <in>0</in>
+${indent}          <out>${angle.duration}</out>
+${indent}        </clipitem>
+${indent}      </track>`);
+
+  return `${indent}<sequence id="multicam-1">
+${indent}  <name>${MULTICAM_NAME}</name>
+${indent}  <duration>${multicam.duration}</duration>
+${xmemlRate(rate, indent + '  ')}
+${xmemlTimecode(rate, indent + '  ')}
+${indent}  <media>
+${indent}    <video>
+${indent}      <format>
+${indent}        <samplecharacteristics>
+${xmemlRate(rate, indent + '          ')}
+${indent}          <width>${frameSize.width}</width>
+${indent}          <height>${frameSize.height}</height>
+${indent}          <pixelaspectratio>square</pixelaspectratio>
+${indent}          <fielddominance>none</fielddominance>
+${indent}        </samplecharacteristics>
+${indent}      </format>
+${tracks.join('\n')}
+${indent}    </video>
+${indent}  </media>
+${indent}</sequence>`;
+}
+
+/**
+ * Builds the full xmeml <file> definition for a source video
+ * @param fileId ID of the file element
+ * @param file The source video file
+ * @param metadata Source video metadata
+ * @param sourceRate Frame rate of the source video
+ * @param mediaRoot Folder containing the media
+ * @param indent Leading whitespace for each line
+ * @returns XML fragment
+ */
+function xmemlVideoFile(
+  fileId: string,
+  file: File,
+  metadata: VideoMetadata | undefined,
+  sourceRate: FrameRate,
+  mediaRoot: string | undefined,
+  indent: string
+): string {
+  const width = metadata?.width || DEFAULT_FRAME_SIZE.width;
+  const height = metadata?.height || DEFAULT_FRAME_SIZE.height;
+  const audioChannels = metadata?.audioChannels ?? 0;
+
+  let xml = `${indent}<file id="${fileId}">
+${indent}  <name>${escapeXml(file.name)}</name>
+${indent}  <pathurl>${escapeXml(buildMediaUrl(file.name, mediaRoot))}</pathurl>`;
+
+  if (metadata?.duration) {
+    xml += `
+${indent}  <duration>${secondsToFrames(metadata.duration, sourceRate)}</duration>`;
+  }
+
+  xml += `
+${xmemlRate(sourceRate, indent + '  ')}
+${xmemlTimecode(sourceRate, indent + '  ')}
+${indent}  <media>
+${indent}    <video>
+${indent}      <samplecharacteristics>
+${xmemlRate(sourceRate, indent + '        ')}
+${indent}        <width>${width}</width>
+${indent}        <height>${height}</height>
+${indent}        <pixelaspectratio>${xmemlPixelAspect(metadata)}</pixelaspectratio>
+${indent}      </samplecharacteristics>
+${indent}    </video>`;
+
+  if (audioChannels > 0) {
+    xml += `
+${indent}    <audio>
+${xmemlAudioCharacteristics(
+  metadata?.audioSampleRate || DEFAULT_SAMPLE_RATE,
+  audioChannels,
+  metadata?.audioChannelLayout,
+  metadata?.audioBitDepth || DEFAULT_BIT_DEPTH,
+  indent + '      '
+)}
+${indent}    </audio>`;
+  }
+
+  xml += `
+${indent}  </media>
+${indent}</file>`;
+
+  return xml;
+}
+
 /**
  * Generates Adobe Premiere Pro XML from edit decisions
+ *
+ * Transitions are written as transitionitems between the clips they join,
+ * which leave their shared edge as -1, after being fitted to the media
+ * available either side of the cut. Synced takes are gathered into a
+ * multicam source sequence, nested in each edit from them with the track of
+ * its angle as the source track.
  * @param editDecisions Array of edit decisions
  * @param videoFiles Map of video files by ID
  * @param audioFile Optional audio file
- * @param settings Project settings
+ * @param settings Export settings
  * @returns XML string for Premiere Pro
  */
 export function generatePremiereXML(
-  editDecisions: any[],
+  editDecisions: ExportEditDecision[],
   videoFiles: Record<string, File>,
   audioFile: File | null,
-  settings: any
+  settings: XMLExportSettings = {}
 ): string {
   try {
     // Validate inputs
@@ -24,12 +740,18 @@ export function generatePremiereXML(
       throw new Error('No video files provided');
     }
     
-    // Calculate sequence duration
-    let sequenceDuration = 0;
-    editDecisions.forEach((edit: any) => {
-      const endTime = edit.time + edit.duration;
-      if (endTime > sequenceDuration) {
-        sequenceDuration = endTime;
+    const sequenceRate = resolveSequenceFrameRate(editDecisions, settings);
+    const frameSize = resolveSequenceFrameSize(editDecisions, settings);
+    const musicSampleRate = settings.audioMetadata?.sampleRate || DEFAULT_SAMPLE_RATE;
+    const musicChannels = settings.audioMetadata?.channels || 2;
+    const musicBitDepth = settings.audioMetadata?.bitDepth || DEFAULT_BIT_DEPTH;
+    
+    // Calculate sequence duration from the last frame on the timeline
+    let sequenceFrames = 0;
+    editDecisions.forEach((edit: ExportEditDecision) => {
+      const endFrame = secondsToFrames(edit.time + edit.duration, sequenceRate);
+      if (endFrame > sequenceFrames) {
+        sequenceFrames = endFrame;
       }
     });
     
@@ -39,92 +761,198 @@ export function generatePremiereXML(
 <xmeml version="4">
   <sequence>
     <name>CineFlux Auto-Generated Sequence</name>
-    <duration>${Math.ceil(sequenceDuration * 30)}</duration>
-    <rate>
-      <timebase>30</timebase>
-      <ntsc>TRUE</ntsc>
-    </rate>
+    <duration>${sequenceFrames}</duration>
+${xmemlRate(sequenceRate, '    ')}
+${xmemlTimecode(sequenceRate, '    ')}
     <media>
       <video>
+        <format>
+          <samplecharacteristics>
+${xmemlRate(sequenceRate, '            ')}
+            <width>${frameSize.width}</width>
+            <height>${frameSize.height}</height>
+            <pixelaspectratio>square</pixelaspectratio>
+            <fielddominance>none</fielddominance>
+          </samplecharacteristics>
+        </format>
         <track>`;
     
-    // Add video clips
-    editDecisions.forEach((edit: any, index: any) => {
+    // Each source file is defined once and referenced by ID afterwards
+    const fileIds: Record<string, string> = {};
+    const fileElement = (videoId: string, indent: string): string => {
+      if (fileIds[videoId]) {
+        return `${indent}<file id="${fileIds[videoId]}"/>`;
+      }
+      const metadata = settings.videoMetadata?.[videoId];
+      const sourceRate = metadata?.fps
+        ? resolveFrameRate(metadata.fps, settings.dropFrame)
+        : sequenceRate;
+      fileIds[videoId] = `file-${Object.keys(fileIds).length + 1}`;
+      return xmemlVideoFile(fileIds[videoId], videoFiles[videoId], metadata, sourceRate, settings.mediaRoot, indent);
+    };
+    
+    // The multicam sequence is likewise defined in the first edit that nests it
+    const multicam = resolveSequenceMulticam(editDecisions, videoFiles, settings, sequenceRate, sequenceFrames);
+    let multicamDefined = false;
+    
+    // Positions are rounded independently so durations never accumulate rounding error
+    const clips = editDecisions
+      .map((edit: ExportEditDecision, index: number) => {
+        const sourceDuration = settings.videoMetadata?.[edit.videoId]?.duration;
+        return {
+          edit,
+          index,
+          recordIn: secondsToFrames(edit.time, sequenceRate),
+          recordOut: secondsToFrames(edit.time + edit.duration, sequenceRate),
+          sourceIn: secondsToFrames(edit.start, sequenceRate),
+          sourceDuration: sourceDuration ? secondsToFrames(sourceDuration, sequenceRate) : undefined
+        };
+      })
+      .filter((clip) => videoFiles[clip.edit.videoId])
+      .sort((a, b) => a.recordIn - b.recordIn);
+    const transitions = alignEditTransitions(clips, sequenceRate);
+    
+    // Add video clips, with a transitionitem before each clip a transition leads into
+    clips.forEach(({ edit, index, recordIn, recordOut, sourceIn }, position: number) => {
       const videoFile = videoFiles[edit.videoId];
-      if (!videoFile) return;
+      const angleIndex = multicam
+        ? multicam.angles.findIndex((angle: MulticamAngle) => angle.videoId === edit.videoId)
+        : -1;
       
-      const startFrame = Math.round(edit.time * 30);
-      const durationFrames = Math.round(edit.duration * 30);
-      const mediaStartFrame = Math.round(edit.start * 30);
+      const durationFrames = recordOut - recordIn;
+      const transitionIn = transitions[position];
+      const transitionOut = transitions[position + 1];
+      
+      if (transitionIn) {
+        xml += `
+${xmemlTransitionItem(transitionIn, sequenceRate, '          ')}`;
+      }
+      
+      if (multicam && angleIndex >= 0) {
+        // In and out points are in multicam time, which runs ahead of the take by its offset
+        const multicamIn = sourceIn + multicam.angles[angleIndex].offset;
+        let sequenceXml: string;
+        if (multicamDefined) {
+          sequenceXml = `            <sequence id="multicam-1"/>`;
+        } else {
+          multicamDefined = true;
+          sequenceXml = xmemlMulticamSequence(multicam, videoFiles, fileElement, sequenceRate, frameSize, '            ');
+        }
+        
+        xml += `
+          <clipitem id="clipitem-${index + 1}">
+            <name>${MULTICAM_NAME}</name>
+            <duration>${durationFrames}</duration>
+${xmemlRate(sequenceRate, '            ')}
+            <start>${transitionIn ? -1 : recordIn}</start>
+            <end>${transitionOut ? -1 : recordOut}</end>
+${sequenceXml}
+            <sourcetrack>
+              <mediatype>video</mediatype>
+              <trackindex>${angleIndex + 1}</trackindex>
+            </sourcetrack>
+            <in>${multicamIn}</in>
+            <out>${multicamIn + durationFrames}</out>
+          </clipitem>`;
+        return;
+      }
       
       xml += `
           <clipitem id="clipitem-${index + 1}">
-            <name>${videoFile.name}</name>
+            <name>${escapeXml(videoFile.name)}</name>
             <duration>${durationFrames}</duration>
-            <rate>
-              <timebase>30</timebase>
-              <ntsc>TRUE</ntsc>
-            </rate>
-            <start>${startFrame}</start>
-            <end>${startFrame + durationFrames}</end>
-            <file id="file-${index + 1}">
-              <name>${videoFile.name}</name>
-              <pathurl>file://${videoFile.name}</pathurl>
-              <media>
-                <video>
-                  <samplecharacteristics>
-                    <width>1920</width>
-                    <height>1080</height>
-                  </samplecharacteristics>
-                </video>
-              </media>
-            </file>
+${xmemlRate(sequenceRate, '            ')}
+            <start>${transitionIn ? -1 : recordIn}</start>
+            <end>${transitionOut ? -1 : recordOut}</end>
+${fileElement(edit.videoId, '            ')}
             <sourcetrack>
               <mediatype>video</mediatype>
             </sourcetrack>
-            <in>${mediaStartFrame}</in>
-            <out>${mediaStartFrame + durationFrames}</out>
+            <in>${sourceIn}</in>
+            <out>${sourceIn + durationFrames}</out>
           </clipitem>`;
     });
     
     xml += `
-        </track>
+        </track>`;
+    
+    // Captions are Text generators on a video track above the edit
+    const captions = resolveSequenceCaptions(settings.captions, sequenceRate, sequenceFrames);
+    if (captions.length > 0) {
+      xml += `
+        <track>`;
+      captions.forEach((caption: SequenceCaption, index: number) => {
+        xml += `
+${xmemlCaptionItem(caption, index, sequenceRate, frameSize.height, '          ')}`;
+      });
+      xml += `
+        </track>`;
+    }
+    
+    xml += `
       </video>`;
     
     // Add audio track if available
     if (audioFile) {
+      const musicFrames = settings.audioMetadata?.duration
+        ? secondsToFrames(settings.audioMetadata.duration, sequenceRate)
+        : sequenceFrames;
+      
       xml += `
       <audio>
+        <format>
+          <samplecharacteristics>
+            <depth>${musicBitDepth}</depth>
+            <samplerate>${musicSampleRate}</samplerate>
+          </samplecharacteristics>
+        </format>
         <track>
           <clipitem id="audio-1">
-            <name>${audioFile.name}</name>
-            <duration>${Math.ceil(sequenceDuration * 30)}</duration>
-            <rate>
-              <timebase>30</timebase>
-              <ntsc>TRUE</ntsc>
-            </rate>
+            <name>${escapeXml(audioFile.name)}</name>
+            <duration>${sequenceFrames}</duration>
+${xmemlRate(sequenceRate, '            ')}
             <start>0</start>
-            <end>${Math.ceil(sequenceDuration * 30)}</end>
+            <end>${sequenceFrames}</end>
             <file id="audio-file-1">
-              <name>${audioFile.name}</name>
-              <pathurl>file://${audioFile.name}</pathurl>
+              <name>${escapeXml(audioFile.name)}</name>
+              <pathurl>${escapeXml(buildMediaUrl(audioFile.name, settings.mediaRoot))}</pathurl>
+              <duration>${musicFrames}</duration>
+${xmemlRate(sequenceRate, '              ')}
               <media>
                 <audio>
-                  <samplecharacteristics>
-                    <depth>16</depth>
-                    <samplerate>48000</samplerate>
-                  </samplecharacteristics>
+${xmemlAudioCharacteristics(musicSampleRate, musicChannels, undefined, musicBitDepth, '                  ')}
                 </audio>
               </media>
             </file>
+            <sourcetrack>
+              <mediatype>audio</mediatype>
+              <trackindex>1</trackindex>
+            </sourcetrack>
+            <in>0</in>
+            <out>${sequenceFrames}</out>
           </clipitem>
         </track>
       </audio>`;
     }
     
+    xml += `
+    </media>`;
+    
+    // Point markers have an out of -1; ranged markers (sections) end where the range does
+    resolveSequenceMarkers(settings.markers, sequenceRate, sequenceFrames).forEach((marker: SequenceMarker) => {
+      const color = premiereMarkerColor(marker.color);
+      xml += `
+    <marker>
+      <name>${escapeXml(marker.name)}</name>
+      <comment>${escapeXml(marker.comment)}</comment>
+      <in>${marker.frame}</in>
+      <out>${marker.duration > 0 ? Math.min(marker.frame + marker.duration, sequenceFrames) : -1}</out>${color !== null ? `
+      <pproColor>${color}</pproColor>` : ''}
+    </marker>`;
+    });
+    
     // Close XML
     xml += `
-    </media>
   </sequence>
 </xmeml>`;
     
@@ -136,18 +964,91 @@ export function generatePremiereXML(
 }
 
 /**
- * Generates Final Cut Pro XML from edit decisions
+ * Greatest common divisor of two non-negative integers
+ */
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Formats a frame count as an FCPXML rational time (e.g. '1001/24000s')
+ * @param frames Number of frames
+ * @param rate The frame rate
+ * @returns Rational time string
+ */
+function fcpxTime(frames: number, rate: FrameRate): string {
+  if (frames === 0) return '0s';
+
+  const numerator = frames * rate.denominator;
+  const divisor = gcd(Math.abs(numerator), rate.numerator);
+  const n = numerator / divisor;
+  const d = rate.numerator / divisor;
+
+  return d === 1 ? `${n}s` : `${n}/${d}s`;
+}
+
+/**
+ * Maps a transition type to the Final Cut Pro transition effect
+ *
+ * Final Cut Pro has no dip to white, so both dips use Fade To Color at its
+ * default color.
+ * @param type The transition type
+ * @returns Effect name and UID
+ */
+function fcpxTransitionEffect(type: TransitionType): { name: string; uid: string } {
+  switch (type) {
+    case TransitionType.DIP_TO_BLACK:
+    case TransitionType.DIP_TO_WHITE:
+    case TransitionType.FADE_IN:
+    case TransitionType.FADE_OUT:
+      return {
+        name: 'Fade To Color',
+        uid: '.../Transitions.localized/Dissolves.localized/Fade To Color.localized/Fade To Color.motr'
+      };
+    case TransitionType.WIPE:
+      return {
+        name: 'Wipe',
+        uid: '.../Transitions.localized/Wipes.localized/Wipe.localized/Wipe.motr'
+      };
+    default:
+      return { name: 'Cross Dissolve', uid: 'FxPlug:4731E73A-8DAC-4113-9A30-AE85B1761265' };
+  }
+}
+
+/**
+ * Formats a sample rate the way FCPXML sequences expect it (e.g. '48k', '44.1k')
+ * @param sampleRate Sample rate in Hz
+ * @returns FCPXML audio rate
+ */
+function fcpxSequenceAudioRate(sampleRate: number): string {
+  return `${Math.round(sampleRate / 100) / 10}k`;
+}
+
+/**
+ * Generates Final Cut Pro XML (FCPXML 1.10) from edit decisions
+ *
+ * Every time is written as a rational number of seconds on a frame boundary
+ * of the sequence rate. Edits are laid end to end on the primary storyline,
+ * with gaps filling any holes, and the music is connected below it.
+ * Transitions sit between the clips they join and use the media either side
+ * of the cut, so they are fitted to the handles that exist. Markers
+ * are attached to the storyline element under them; FCPXML has no marker
+ * colors, so only names and notes are kept. Captions are connected to the
+ * storyline the same way, as iTT captions in the language of the caption
+ * metadata (default: English). Synced takes are gathered into a multicam
+ * clip, with one angle per take, and edits from them are mc-clips that show
+ * the video of their angle over the music.
  * @param editDecisions Array of edit decisions
  * @param videoFiles Map of video files by ID
  * @param audioFile Optional audio file
- * @param settings Project settings
+ * @param settings Export settings
  * @returns XML string for Final Cut Pro
  */
 export function generateFinalCutXML(
-  editDecisions: any[],
+  editDecisions: ExportEditDecision[],
   videoFiles: Record<string, File>,
   audioFile: File | null,
-  settings: any
+  settings: XMLExportSettings = {}
 ): string {
   try {
     // Validate inputs
@@ -159,60 +1060,317 @@ export function generateFinalCutXML(
       throw new Error('No video files provided');
     }
     
-    // Calculate sequence duration
-    let sequenceDuration = 0;
-    editDecisions.forEach((edit: any) => {
-      const endTime = edit.time + edit.duration;
-      if (endTime > sequenceDuration) {
-        sequenceDuration = endTime;
+    const sequenceRate = resolveSequenceFrameRate(editDecisions, settings);
+    const frameSize = resolveSequenceFrameSize(editDecisions, settings);
+    const musicSampleRate = settings.audioMetadata?.sampleRate || DEFAULT_SAMPLE_RATE;
+    const musicChannels = settings.audioMetadata?.channels || 2;
+    
+    // Snap every edit to sequence frames, in timeline order
+    const edits = editDecisions
+      .filter((edit: ExportEditDecision) => videoFiles[edit.videoId])
+      .map((edit: ExportEditDecision) => {
+        const offset = secondsToFrames(edit.time, sequenceRate);
+        return {
+          edit,
+          videoId: edit.videoId,
+          offset,
+          duration: secondsToFrames(edit.time + edit.duration, sequenceRate) - offset,
+          start: secondsToFrames(edit.start, sequenceRate)
+        };
+      })
+      .filter((edit) => edit.duration > 0)
+      .sort((a, b) => a.offset - b.offset);
+    
+    if (edits.length === 0) {
+      throw new Error('No edit decisions reference a provided video file');
+    }
+    
+    const sequenceFrames = Math.max(...edits.map((edit) => edit.offset + edit.duration));
+    
+    // Lay the edits end to end on the storyline, filling holes with gaps
+    const spine: Array<{
+      edit?: ExportEditDecision;
+      name: string;
+      offset: number;
+      start: number;
+      duration: number;
+      transition?: EditTransition | null;
+    }> = [];
+    let position = 0;
+    edits.forEach((edit) => {
+      let { offset, start, duration } = edit;
+      
+      if (offset > position) {
+        spine.push({ name: 'Gap', offset: position, start: 0, duration: offset - position });
+      } else if (offset < position) {
+        // Overlapping edits are trimmed so the storyline stays contiguous
+        start += position - offset;
+        duration -= position - offset;
+        offset = position;
+        if (duration <= 0) return;
       }
+      
+      spine.push({
+        edit: edit.edit,
+        name: videoFiles[edit.videoId].name,
+        offset,
+        start,
+        duration
+      });
+      position = offset + duration;
     });
     
-    // Generate XML header
-    let xml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE fcpxml>
-<fcpxml version="1.8">
-  <resources>`;
-    
-    // Add video resources
-    Object.entries(videoFiles).forEach(([_id, file]: any, index: any) => {
-      xml += `
-    <asset id="asset-${index + 1}" name="${file.name}" src="file://${file.name}" />`;
+    // Transitions overlap the clips either side of the cut, which keep their positions
+    const spineClips = spine.filter((item) => item.edit);
+    const transitions = alignEditTransitions(
+      spineClips.map((item) => {
+        const sourceDuration = settings.videoMetadata?.[item.edit!.videoId]?.duration;
+        return {
+          edit: item.edit!,
+          recordIn: item.offset,
+          recordOut: item.offset + item.duration,
+          sourceIn: item.start,
+          sourceDuration: sourceDuration ? secondsToFrames(sourceDuration, sequenceRate) : undefined
+        };
+      }),
+      sequenceRate
+    );
+    spineClips.forEach((item, index: number) => {
+      item.transition = transitions[index];
     });
     
+    // Formats and assets share one resource ID space (r1, r2, ...)
+    let resourceCount = 0;
+    const nextResourceId = (): string => `r${++resourceCount}`;
+    
+    // Formats are shared between the sequence and every asset with the same size and rate
+    const formats: Record<string, string> = {};
+    let formatXml = '';
+    const formatId = (width: number, height: number, rate: FrameRate): string => {
+      const key = `${width}x${height}@${rate.numerator}/${rate.denominator}`;
+      if (!formats[key]) {
+        formats[key] = nextResourceId();
+        formatXml += `
+    <format id="${formats[key]}" frameDuration="${fcpxTime(1, rate)}" width="${width}" height="${height}"/>`;
+      }
+      return formats[key];
+    };
+    const sequenceFormat = formatId(frameSize.width, frameSize.height, sequenceRate);
+    
+    const multicam = resolveSequenceMulticam(editDecisions, videoFiles, settings, sequenceRate, sequenceFrames);
+    const angleOf = (videoId: string): MulticamAngle | undefined =>
+      multicam?.angles.find((angle: MulticamAngle) => angle.videoId === videoId);
+    
+    // Add one asset per source video used on the timeline or as an angle
+    const assetIds: Record<string, string> = {};
+    let assetXml = '';
+    const addAsset = (videoId: string): void => {
+      if (assetIds[videoId]) return;
+      
+      const file = videoFiles[videoId];
+      const metadata = settings.videoMetadata?.[videoId];
+      const rate = metadata?.fps ? resolveFrameRate(metadata.fps, settings.dropFrame) : sequenceRate;
+      const format = formatId(
+        metadata?.width || frameSize.width,
+        metadata?.height || frameSize.height,
+        rate
+      );
+      assetIds[videoId] = nextResourceId();
+      
+      // Without a known duration, the asset must at least cover every frame the timeline
+      // and its angle use, including the tail handles of outgoing transitions
+      const usedFrames = Math.max(
+        ...edits
+          .filter((other) => other.videoId === videoId)
+          .map((other) => other.start + other.duration),
+        ...spineClips
+          .map((item, index: number) => ({ item, handle: transitions[index + 1]?.after ?? 0 }))
+          .filter(({ item }) => item.edit!.videoId === videoId)
+          .map(({ item, handle }) => item.start + item.duration + handle),
+        angleOf(videoId)?.duration ?? 0
+      );
+      const duration = metadata?.duration
+        ? fcpxTime(secondsToFrames(metadata.duration, sequenceRate), sequenceRate)
+        : fcpxTime(usedFrames, sequenceRate);
+      
+      const audioChannels = metadata?.audioChannels ?? 0;
+      const audioAttributes = audioChannels > 0
+        ? ` hasAudio="1" audioSources="1" audioChannels="${audioChannels}" audioRate="${metadata?.audioSampleRate || DEFAULT_SAMPLE_RATE}"`
+        : '';
+      
+      assetXml += `
+    <asset id="${assetIds[videoId]}" name="${escapeXml(file.name)}" start="0s" duration="${duration}" hasVideo="1" videoSources="1" format="${format}"${audioAttributes}>
+      <media-rep kind="original-media" src="${escapeXml(buildMediaUrl(file.name, settings.mediaRoot))}"/>
+    </asset>`;
+    };
+    edits.forEach((edit) => addAsset(edit.videoId));
+    multicam?.angles.forEach((angle: MulticamAngle) => addAsset(angle.videoId));
+    
+    // The multicam clip runs in song time, each angle starting where its take does
+    const tcFormat = sequenceRate.dropFrame ? 'DF' : 'NDF';
+    const multicamId = multicam ? nextResourceId() : '';
+    let mediaXml = '';
+    if (multicam) {
+      const angleXml = multicam.angles.map((angle: MulticamAngle) => {
+        const name = escapeXml(videoFiles[angle.videoId].name);
+        const gap = angle.offset > 0
+          ? `
+          <gap name="Gap" offset="0s" start="0s" duration="${fcpxTime(angle.offset, sequenceRate)}"/>`
+          : '';
+        return `
+        <mc-angle name="${name}" angleID="${escapeXml(angle.videoId)}">${gap}
+          <asset-clip ref="${assetIds[angle.videoId]}" offset="${fcpxTime(angle.offset, sequenceRate)}" name="${name}" start="0s" duration="${fcpxTime(angle.duration, sequenceRate)}" tcFormat="${tcFormat}"/>
+        </mc-angle>`;
+      }).join('');
+      mediaXml = `
+    <media id="${multicamId}" name="${MULTICAM_NAME}">
+      <multicam format="${sequenceFormat}" tcStart="0s" tcFormat="${tcFormat}">${angleXml}
+      </multicam>
+    </media>`;
+    }
+    
     // Add audio resource if available
+    const musicAssetId = nextResourceId();
     if (audioFile) {
-      xml += `
-    <asset id="audio-asset-1" name="${audioFile.name}" src="file://${audioFile.name}" />`;
+      const musicDuration = settings.audioMetadata?.duration
+        ? fcpxTime(secondsToFrames(settings.audioMetadata.duration, sequenceRate), sequenceRate)
+        : fcpxTime(sequenceFrames, sequenceRate);
+      
+      assetXml += `
+    <asset id="${musicAssetId}" name="${escapeXml(audioFile.name)}" start="0s" duration="${musicDuration}" hasAudio="1" audioSources="1" audioChannels="${musicChannels}" audioRate="${musicSampleRate}">
+      <media-rep kind="original-media" src="${escapeXml(buildMediaUrl(audioFile.name, settings.mediaRoot))}"/>
+    </asset>`;
     }
     
-    xml += `
+    // Add one effect per kind of transition used
+    const effectIds: Record<string, string> = {};
+    let effectXml = '';
+    const effectId = (type: TransitionType): string => {
+      const effect = fcpxTransitionEffect(type);
+      if (!effectIds[effect.name]) {
+        effectIds[effect.name] = nextResourceId();
+        effectXml += `
+    <effect id="${effectIds[effect.name]}" name="${effect.name}" uid="${effect.uid}"/>`;
+      }
+      return effectIds[effect.name];
+    };
+    transitions.forEach((transition: EditTransition | null) => {
+      if (transition) effectId(transition.type);
+    });
+    
+    // Generate XML header
+    let xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.10">
+  <resources>${formatXml}${assetXml}${mediaXml}${effectXml}
   </resources>
   <library>
     <event name="CineFlux Auto-Generated Event">
       <project name="CineFlux Auto-Generated Project">
-        <sequence format="r1" duration="${sequenceDuration}s" tcStart="0s" tcFormat="NDF">
+        <sequence format="${sequenceFormat}" duration="${fcpxTime(sequenceFrames, sequenceRate)}" tcStart="0s" tcFormat="${sequenceRate.dropFrame ? 'DF' : 'NDF'}" audioLayout="${musicChannels === 1 ? 'mono' : 'stereo'}" audioRate="${fcpxSequenceAudioRate(musicSampleRate)}">
           <spine>`;
     
-    // Add video clips
-    editDecisions.forEach((edit: any, index: any) => {
-      const videoFile = videoFiles[edit.videoId];
-      if (!videoFile) return;
+    // FCPXML markers belong to the storyline element under them, in its local time
+    const markers = resolveSequenceMarkers(settings.markers, sequenceRate, sequenceFrames);
+    const markerXml = (item: { offset: number; start: number; duration: number }): string =>
+      markers
+        .filter((marker: SequenceMarker) => marker.frame >= item.offset && marker.frame < item.offset + item.duration)
+        .map((marker: SequenceMarker) => {
+          const attributes = [
+            `start="${fcpxTime(item.start + marker.frame - item.offset, sequenceRate)}"`,
+            `duration="${fcpxTime(1, sequenceRate)}"`,
+            `value="${escapeXml(marker.name)}"`,
+            marker.comment ? `note="${escapeXml(marker.comment)}"` : ''
+          ].filter(Boolean).join(' ');
+          return marker.chapter
+            ? `
+              <chapter-marker ${attributes} posterOffset="0s"/>`
+            : `
+              <marker ${attributes}/>`;
+        })
+        .join('');
+    
+    // Captions are connected like markers; each carries its own text style
+    const captions = resolveSequenceCaptions(settings.captions, sequenceRate, sequenceFrames);
+    const captionRole = `iTT?captionFormat=ITT.${escapeXml(settings.captions?.metadata?.language || 'en')}`;
+    let textStyleCount = 0;
+    const captionXml = (item: { offset: number; start: number; duration: number }): string =>
+      captions
+        .filter((caption: SequenceCaption) => caption.frame >= item.offset && caption.frame < item.offset + item.duration)
+        .map((caption: SequenceCaption) => {
+          const { style } = caption;
+          const styleId = `ts${++textStyleCount}`;
+          const color = colorChannels(style.color)
+            .map((channel: number) => Math.round(channel / 255 * 1000) / 1000)
+            .join(' ');
+          const styleAttributes = [
+            `font="${escapeXml(style.fontName)}"`,
+            `fontSize="${style.fontSize}"`,
+            `fontColor="${color}"`,
+            style.bold ? 'bold="1"' : '',
+            style.italic ? 'italic="1"' : '',
+            style.underline ? 'underline="1"' : ''
+          ].filter(Boolean).join(' ');
+          return `
+              <caption lane="1" offset="${fcpxTime(item.start + caption.frame - item.offset, sequenceRate)}" name="${escapeXml(caption.text.split('\n')[0])}" start="0s" duration="${fcpxTime(caption.duration, sequenceRate)}" role="${captionRole}">
+                <text placement="${captionPlacement(caption).y < 0.5 ? 'top' : 'bottom'}">
+                  <text-style ref="${styleId}">${escapeXml(caption.text)}</text-style>
+                </text>
+                <text-style-def id="${styleId}">
+                  <text-style ${styleAttributes}/>
+                </text-style-def>
+              </caption>`;
+        })
+        .join('');
+    
+    spine.forEach((item, index: number) => {
+      const angle = item.edit ? angleOf(item.edit.videoId) : undefined;
+      const ref = angle ? multicamId : item.edit ? assetIds[item.edit.videoId] : undefined;
+      const element = angle ? 'mc-clip' : ref ? 'asset-clip' : 'gap';
+      // An mc-clip is in multicam time, which runs ahead of the take by its offset
+      const local = { ...item, start: item.start + (angle?.offset ?? 0) };
+      const attributes = [
+        ref ? `ref="${ref}"` : '',
+        `offset="${fcpxTime(item.offset, sequenceRate)}"`,
+        `name="${escapeXml(angle ? MULTICAM_NAME : item.name)}"`,
+        `start="${fcpxTime(local.start, sequenceRate)}"`,
+        `duration="${fcpxTime(item.duration, sequenceRate)}"`,
+        ref && !angle ? `tcFormat="${tcFormat}"` : ''
+      ].filter(Boolean).join(' ');
       
-      xml += `
-            <clip name="${videoFile.name}" offset="${edit.time}s" duration="${edit.duration}s" start="${edit.start}s" tcFormat="NDF">
-              <video ref="asset-${index + 1}" />
-            </clip>`;
+      if (item.transition) {
+        const effect = fcpxTransitionEffect(item.transition.type);
+        xml += `
+            <transition name="${effect.name}" offset="${fcpxTime(item.transition.start, sequenceRate)}" duration="${fcpxTime(item.transition.end - item.transition.start, sequenceRate)}">
+              <filter-video ref="${effectId(item.transition.type)}" name="${effect.name}"/>
+            </transition>`;
+      }
+      
+      // Only the angle's video is used; the music carries the sound
+      let children = '';
+      if (angle) {
+        children += `
+              <mc-source angleID="${escapeXml(angle.videoId)}" srcEnable="video"/>`;
+      }
+      
+      // The music is connected to the first storyline element, at sequence time zero
+      if (index === 0 && audioFile) {
+        children += `
+              <asset-clip ref="${musicAssetId}" lane="-1" offset="${fcpxTime(local.start, sequenceRate)}" name="${escapeXml(audioFile.name)}" start="0s" duration="${fcpxTime(sequenceFrames, sequenceRate)}" audioRole="music"/>`;
+      }
+      children += captionXml(local);
+      children += markerXml(local);
+      
+      if (children) {
+        xml += `
+            <${element} ${attributes}>${children}
+            </${element}>`;
+      } else {
+        xml += `
+            <${element} ${attributes}/>`;
+      }
     });
     
-    // Add audio clip if available
-    if (audioFile) {
-      xml += `
-            <audio name="${audioFile.name}" offset="0s" duration="${sequenceDuration}s" role="dialogue">
-              <audio-component ref="audio-asset-1" />
-            </audio>`;
-    }
-    
     // Close XML
     xml += `
           </spine>
@@ -241,7 +1399,7 @@ export function validateExportSettings(
   editDecisions: any[],
   videoFiles: Record<string, File>,
   audioFile: File | null,
-  format: 'premiere' | 'fcpx'
+  format: TimelineExportFormat
 ): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
   
@@ -263,8 +1421,8 @@ export function validateExportSettings(
   }
   
   // Check format
-  if (format !== 'premiere' && format !== 'fcpx') {
-    errors.push('Invalid export format. Please select either Premiere Pro or Final Cut Pro.');
+  if (!['premiere', 'fcpx', 'edl', 'resolve'].includes(format)) {
+    errors.push('Invalid export format. Please select Premiere Pro, Final Cut Pro, CMX3600 EDL or DaVinci Resolve.');
   }
   
   return {
@@ -0,0 +1,27 @@
+// src/workers/audioAnalysis.worker.ts
+import AudioService, { AudioAnalysisRequest, BufferAnalysis } from '../services/AudioService';
+import { AnalysisWorkerScope, serveAnalysis } from '../utils/analysisWorker';
+
+/**
+ * Wraps transferred channels in the parts of an AudioBuffer the analysis
+ * reads, since AudioBuffer can't be constructed in a worker
+ */
+const createChannelBuffer = (channels: Float32Array[], sampleRate: number): AudioBuffer => {
+  const length = channels[0]?.length ?? 0;
+  const buffer = {
+    length,
+    sampleRate,
+    duration: length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel],
+  };
+  return buffer as unknown as AudioBuffer;
+};
+
+const audioService = new AudioService();
+
+serveAnalysis<AudioAnalysisRequest, BufferAnalysis>(
+  self as unknown as AnalysisWorkerScope,
+  ({ channels, sampleRate }, reportProgress) =>
+    audioService.analyzeBuffer(createChannelBuffer(channels, sampleRate), reportProgress)
+);
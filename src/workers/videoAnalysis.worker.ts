@@ -0,0 +1,10 @@
+// src/workers/videoAnalysis.worker.ts
+import { VideoService, VideoWorkerRequest } from '../services/VideoService';
+import { AnalysisWorkerScope, serveAnalysis } from '../utils/analysisWorker';
+
+const videoService = new VideoService();
+
+serveAnalysis<VideoWorkerRequest, Awaited<ReturnType<VideoService['runWorkerTask']>>>(
+  self as unknown as AnalysisWorkerScope,
+  (request: VideoWorkerRequest) => videoService.runWorkerTask(request)
+);